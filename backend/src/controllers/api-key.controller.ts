@@ -0,0 +1,154 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Project from '../models/Project.model';
+import ApiKey, { ApiKeyScope, IApiKey } from '../models/ApiKey.model';
+import { generateApiKey } from '../services/api-key.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { createApiKeySchema } from '../utils/validation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Key details safe to send to the client; the secret is never stored
+const transformApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id.toString(),
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  createdAt: apiKey.createdAt,
+});
+
+// @desc    Get the API keys of a project
+// @route   GET /api/projects/:id/api-keys
+// @access  Private
+export const getApiKeys = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId;
+
+    const project = await Project.findOne({ _id: id, userId }).select('_id');
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    const apiKeys = await ApiKey.find({ projectId: project._id }).sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: { apiKeys: apiKeys.map(transformApiKey) },
+    });
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching API keys',
+    });
+  }
+};
+
+// @desc    Create an API key for a project; the secret is only returned here
+// @route   POST /api/projects/:id/api-keys
+// @access  Private
+export const createApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId;
+
+    const validationResult = createApiKeySchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: validationResult.error.issues,
+      });
+      return;
+    }
+
+    const project = await Project.findOne({ _id: id, userId }).select('_id');
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    const { name, scopes, expiresInDays } = validationResult.data;
+    const { key, keyHash, prefix } = generateApiKey();
+
+    const apiKey = await ApiKey.create({
+      name,
+      projectId: project._id,
+      userId: new mongoose.Types.ObjectId(userId),
+      keyHash,
+      prefix,
+      scopes: [...new Set(scopes)] as ApiKeyScope[],
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : undefined,
+    });
+
+    console.log(`🔑 API key "${name}" created for project ${project._id}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy it now, it will not be shown again.',
+      data: { apiKey: transformApiKey(apiKey), key },
+    });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while creating API key',
+    });
+  }
+};
+
+// @desc    Revoke an API key
+// @route   DELETE /api/projects/:id/api-keys/:keyId
+// @access  Private
+export const deleteApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id, keyId } = req.params;
+    const userId = req.userId;
+
+    const project = await Project.findOne({ _id: id, userId }).select('_id');
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    const apiKey = mongoose.isValidObjectId(keyId)
+      ? await ApiKey.findOneAndDelete({ _id: keyId, projectId: project._id })
+      : null;
+
+    if (!apiKey) {
+      res.status(404).json({
+        success: false,
+        message: 'API key not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'API key revoked',
+    });
+  } catch (error) {
+    console.error('Delete API key error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while revoking API key',
+    });
+  }
+};
@@ -1,46 +1,100 @@
 import { Request, Response } from 'express';
-import Project from '../models/Project.model';
-import { executeMySQLQuery } from '../services/mysql.service';
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  fetchRows,
+  findProjectDatabase,
+  parseColumnValue,
+  parseFilters,
+  parseSort,
+  projectSchema,
+} from '../services/generated-api.service';
+import { checkSqliteRawQuery } from '../services/sqlite.service';
+import { SchemaData } from '../types/schema';
+import { buildOrmModel, OrmEntity } from '../utils/orm/orm-model';
+import {
+  buildInsertQuery,
+  buildUpdateQuery,
+  buildDeleteQuery,
+  quoteSqlIdentifier,
+  SqlStatement,
+} from '../utils/sql-query';
+import { batchChangesSchema, insertRowSchema, updateRowSchema, deleteRowSchema } from '../utils/validation';
 
 interface AuthRequest extends Request {
   userId?: string;
 }
 
-// Helper to escape SQL values
-const escapeValue = (value: unknown): string => {
-  if (value === null || value === undefined) {
-    return 'NULL';
+// Find a table of the project schema by its canvas or database name. Names that match
+// neither are rejected rather than rewritten, so a request can never reach another table.
+const findDataTable = (schema: SchemaData, tableName: string): OrmEntity | undefined =>
+  buildOrmModel(schema).find(entity => entity.table.name === tableName || entity.tableName === tableName);
+
+const findDataColumn = (entity: OrmEntity, name: string) =>
+  entity.columns.find(col => col.column.name === name || col.name === name);
+
+// Map the editor's column names to database column names, rejecting columns the table does not have
+const toColumnValues = (
+  entity: OrmEntity,
+  rowData: Record<string, unknown>
+): { success: true; values: Record<string, unknown> } | { success: false; message: string } => {
+  const values: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(rowData)) {
+    const col = findDataColumn(entity, name);
+    if (!col) {
+      return { success: false, message: `Unknown column '${name}' in table '${entity.tableName}'` };
+    }
+    values[col.name] = value;
   }
-  if (typeof value === 'number') {
-    return String(value);
+  return { success: true, values };
+};
+
+// Key of a row: a value for every primary key column, converted to the column's type.
+// Composite keys need all of their columns, so a request can only ever address one row.
+const toRowKey = (
+  entity: OrmEntity,
+  rowKey: Record<string, string | number | boolean>
+): { success: true; key: Record<string, unknown> } | { success: false; message: string } => {
+  if (entity.primaryKey.length === 0) {
+    return { success: false, message: `Table '${entity.tableName}' has no primary key, so its rows cannot be addressed` };
+  }
+
+  const key: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(rowKey)) {
+    const col = findDataColumn(entity, name);
+    if (!col || !entity.primaryKey.includes(col)) {
+      return { success: false, message: `'${name}' is not a primary key column of table '${entity.tableName}'` };
+    }
+
+    const parsed = parseColumnValue(col, String(value));
+    if (!parsed.success) return parsed;
+    key[col.name] = parsed.value;
   }
-  if (typeof value === 'boolean') {
-    return value ? '1' : '0';
+
+  const missing = entity.primaryKey.filter(col => !(col.name in key));
+  if (missing.length > 0) {
+    return { success: false, message: `Key is missing ${missing.map(col => `'${col.name}'`).join(', ')}` };
   }
-  // For strings, escape single quotes
-  const str = String(value);
-  return `'${str.replace(/'/g, "''")}'`;
+
+  return { success: true, key };
 };
 
-// Helper to get MySQL config from project
-const getProjectMySQLConfig = async (projectId: string, userId: string) => {
-  const project = await Project.findOne({ _id: projectId, userId });
-  if (!project || !project.mysqlConfig) {
+// Query runner and schema of the project's database
+const getProjectSQLDatabase = async (projectId: string, userId: string) => {
+  const found = await findProjectDatabase(projectId, userId);
+  if (!found?.database) {
     return null;
   }
-  return {
-    config: {
-      host: project.mysqlConfig.host,
-      port: project.mysqlConfig.port,
-      user: project.mysqlConfig.user,
-      password: project.mysqlConfig.password,
-    },
-    databaseName: project.databaseName,
-  };
+
+  return { ...found.database, schema: projectSchema(found.project) };
 };
 
-// @desc    Get all rows from a table
-// @route   GET /api/data/:projectId/:tableName
+// Grid filters are sent as `filter[column]=value` or `filter[column][op]=value`,
+// so column names never clash with the paging parameters
+const FILTER_PARAM = /^filter\[([^[\]]+)\](\[[a-z]+\])?$/;
+
+// @desc    Get one page of rows from a table, sorted and filtered
+// @route   GET /api/data/:projectId/:tableName?page=1&pageSize=100&sort=-a,b&filter[col][op]=value
 // @access  Private
 export const getTableData = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -52,17 +106,62 @@ export const getTableData = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
-    const mysqlInfo = await getProjectMySQLConfig(projectId, userId);
-    if (!mysqlInfo) {
-      res.status(404).json({ success: false, message: 'Project or MySQL config not found' });
+    const database = await getProjectSQLDatabase(projectId, userId);
+    if (!database) {
+      res.status(404).json({ success: false, message: 'Project or database config not found' });
       return;
     }
 
-    const safeTableName = tableName.replace(/[^a-zA-Z0-9_]/g, '_');
-    const query = `SELECT * FROM \`${safeTableName}\` LIMIT 1000`;
-    
-    const result = await executeMySQLQuery(mysqlInfo.config, mysqlInfo.databaseName, query);
-    
+    const entity = findDataTable(database.schema, tableName);
+    if (!entity) {
+      res.status(404).json({ success: false, message: `Table '${tableName}' not found` });
+      return;
+    }
+
+    const page = req.query.page === undefined ? 1 : Number(req.query.page);
+    const pageSize = req.query.pageSize === undefined ? DEFAULT_PAGE_SIZE : Number(req.query.pageSize);
+
+    if (!Number.isInteger(page) || page < 1) {
+      res.status(400).json({ success: false, message: 'page must be a positive integer' });
+      return;
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      res.status(400).json({ success: false, message: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}` });
+      return;
+    }
+
+    const sort = parseSort(entity, req.query.sort);
+    if (!sort.success) {
+      res.status(400).json({ success: false, message: sort.message });
+      return;
+    }
+
+    const filterEntries: Array<[string, unknown]> = [];
+    for (const [param, value] of Object.entries(req.query)) {
+      const match = param.match(FILTER_PARAM);
+      if (match) filterEntries.push([`${match[1]}${match[2] ?? ''}`, value]);
+    }
+
+    const filters = parseFilters(entity, filterEntries);
+    if (!filters.success) {
+      res.status(400).json({ success: false, message: filters.message });
+      return;
+    }
+
+    // Primary key columns break ties, so rows do not move between pages
+    const orderBy = [...sort.sort];
+    entity.primaryKey.forEach(col => {
+      if (!orderBy.some(item => item.column === col.name)) {
+        orderBy.push({ column: col.name, direction: 'asc' });
+      }
+    });
+
+    const result = await fetchRows(
+      database,
+      entity,
+      { filters: filters.filters, sort: orderBy, limit: pageSize, offset: (page - 1) * pageSize }
+    );
+
     if (!result.success) {
       res.status(400).json({ success: false, message: result.message });
       return;
@@ -71,8 +170,11 @@ export const getTableData = async (req: AuthRequest, res: Response): Promise<voi
     res.status(200).json({
       success: true,
       data: {
-        rows: result.result as unknown[],
-        tableName: safeTableName,
+        rows: result.rows,
+        tableName: entity.tableName,
+        total: result.total,
+        page,
+        pageSize,
       },
     });
   } catch (error) {
@@ -87,7 +189,6 @@ export const getTableData = async (req: AuthRequest, res: Response): Promise<voi
 export const insertRow = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { projectId, tableName } = req.params;
-    const { rowData, allowEmpty } = req.body;
     const userId = req.userId;
 
     if (!userId) {
@@ -95,35 +196,48 @@ export const insertRow = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
-    const mysqlInfo = await getProjectMySQLConfig(projectId, userId);
-    if (!mysqlInfo) {
-      res.status(404).json({ success: false, message: 'Project or MySQL config not found' });
+    const validationResult = insertRowSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: validationResult.error.issues,
+      });
       return;
     }
 
-    const safeTableName = tableName.replace(/[^a-zA-Z0-9_]/g, '_');
-    let query: string;
+    const { rowData, allowEmpty } = validationResult.data;
 
-    // Check if we have data to insert
-    if (!rowData || Object.keys(rowData).length === 0) {
-      if (allowEmpty) {
-        // Insert with default values (for tables with only auto-increment columns)
-        query = `INSERT INTO \`${safeTableName}\` () VALUES ()`;
-      } else {
-        res.status(400).json({ success: false, message: 'No data provided' });
-        return;
-      }
-    } else {
-      // Build INSERT query with escaped values
-      const columns = Object.keys(rowData).map(col => `\`${col.replace(/[^a-zA-Z0-9_]/g, '_')}\``);
-      const values = Object.values(rowData).map(val => escapeValue(val));
-      query = `INSERT INTO \`${safeTableName}\` (${columns.join(', ')}) VALUES (${values.join(', ')})`;
+    const database = await getProjectSQLDatabase(projectId, userId);
+    if (!database) {
+      res.status(404).json({ success: false, message: 'Project or database config not found' });
+      return;
     }
-    
+
+    const entity = findDataTable(database.schema, tableName);
+    if (!entity) {
+      res.status(404).json({ success: false, message: `Table '${tableName}' not found` });
+      return;
+    }
+
+    // An empty row is only inserted on request (tables with only auto-increment columns)
+    if ((!rowData || Object.keys(rowData).length === 0) && !allowEmpty) {
+      res.status(400).json({ success: false, message: 'No data provided' });
+      return;
+    }
+
+    const columnValues = toColumnValues(entity, rowData || {});
+    if (!columnValues.success) {
+      res.status(400).json({ success: false, message: columnValues.message });
+      return;
+    }
+
+    const { query, params } = buildInsertQuery(database.dialect, entity.tableName, columnValues.values);
+
     console.log('📝 Insert query:', query);
 
-    const result = await executeMySQLQuery(mysqlInfo.config, mysqlInfo.databaseName, query);
-    
+    const result = await database.execute(query, params);
+
     if (!result.success) {
       res.status(400).json({ success: false, message: result.message });
       return;
@@ -140,13 +254,12 @@ export const insertRow = async (req: AuthRequest, res: Response): Promise<void>
   }
 };
 
-// @desc    Update a row in a table
-// @route   PUT /api/data/:projectId/:tableName/:rowId
+// @desc    Update the row identified by its primary key values
+// @route   PUT /api/data/:projectId/:tableName  { key, rowData }
 // @access  Private
 export const updateRow = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { projectId, tableName, rowId } = req.params;
-    const { rowData, primaryKeyColumn } = req.body;
+    const { projectId, tableName } = req.params;
     const userId = req.userId;
 
     if (!userId) {
@@ -154,26 +267,53 @@ export const updateRow = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
-    const mysqlInfo = await getProjectMySQLConfig(projectId, userId);
-    if (!mysqlInfo) {
-      res.status(404).json({ success: false, message: 'Project or MySQL config not found' });
+    const validationResult = updateRowSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: validationResult.error.issues,
+      });
       return;
     }
 
-    const safeTableName = tableName.replace(/[^a-zA-Z0-9_]/g, '_');
-    const safePrimaryKey = primaryKeyColumn.replace(/[^a-zA-Z0-9_]/g, '_');
-    
-    // Build UPDATE query with escaped values
-    const setClause = Object.entries(rowData)
-      .map(([col, val]) => `\`${col.replace(/[^a-zA-Z0-9_]/g, '_')}\` = ${escapeValue(val)}`)
-      .join(', ');
+    const { key, rowData } = validationResult.data;
+
+    const database = await getProjectSQLDatabase(projectId, userId);
+    if (!database) {
+      res.status(404).json({ success: false, message: 'Project or database config not found' });
+      return;
+    }
+
+    const entity = findDataTable(database.schema, tableName);
+    if (!entity) {
+      res.status(404).json({ success: false, message: `Table '${tableName}' not found` });
+      return;
+    }
+
+    if (Object.keys(rowData).length === 0) {
+      res.status(400).json({ success: false, message: 'No data provided' });
+      return;
+    }
+
+    const columnValues = toColumnValues(entity, rowData);
+    if (!columnValues.success) {
+      res.status(400).json({ success: false, message: columnValues.message });
+      return;
+    }
+
+    const rowKey = toRowKey(entity, key);
+    if (!rowKey.success) {
+      res.status(400).json({ success: false, message: rowKey.message });
+      return;
+    }
+
+    const { query, params } = buildUpdateQuery(database.dialect, entity.tableName, columnValues.values, rowKey.key);
 
-    const query = `UPDATE \`${safeTableName}\` SET ${setClause} WHERE \`${safePrimaryKey}\` = ${escapeValue(rowId)}`;
-    
     console.log('📝 Update query:', query);
 
-    const result = await executeMySQLQuery(mysqlInfo.config, mysqlInfo.databaseName, query);
-    
+    const result = await database.execute(query, params);
+
     if (!result.success) {
       res.status(400).json({ success: false, message: result.message });
       return;
@@ -190,13 +330,12 @@ export const updateRow = async (req: AuthRequest, res: Response): Promise<void>
   }
 };
 
-// @desc    Delete a row from a table
-// @route   DELETE /api/data/:projectId/:tableName/:rowId
+// @desc    Delete the row identified by its primary key values
+// @route   DELETE /api/data/:projectId/:tableName  { key }
 // @access  Private
 export const deleteRow = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { projectId, tableName, rowId } = req.params;
-    const { primaryKeyColumn } = req.body;
+    const { projectId, tableName } = req.params;
     const userId = req.userId;
 
     if (!userId) {
@@ -204,21 +343,40 @@ export const deleteRow = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
-    const mysqlInfo = await getProjectMySQLConfig(projectId, userId);
-    if (!mysqlInfo) {
-      res.status(404).json({ success: false, message: 'Project or MySQL config not found' });
+    const validationResult = deleteRowSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: validationResult.error.issues,
+      });
       return;
     }
 
-    const safeTableName = tableName.replace(/[^a-zA-Z0-9_]/g, '_');
-    const safePrimaryKey = primaryKeyColumn.replace(/[^a-zA-Z0-9_]/g, '_');
-    
-    const query = `DELETE FROM \`${safeTableName}\` WHERE \`${safePrimaryKey}\` = ${escapeValue(rowId)}`;
-    
+    const database = await getProjectSQLDatabase(projectId, userId);
+    if (!database) {
+      res.status(404).json({ success: false, message: 'Project or database config not found' });
+      return;
+    }
+
+    const entity = findDataTable(database.schema, tableName);
+    if (!entity) {
+      res.status(404).json({ success: false, message: `Table '${tableName}' not found` });
+      return;
+    }
+
+    const rowKey = toRowKey(entity, validationResult.data.key);
+    if (!rowKey.success) {
+      res.status(400).json({ success: false, message: rowKey.message });
+      return;
+    }
+
+    const { query, params } = buildDeleteQuery(database.dialect, entity.tableName, rowKey.key);
+
     console.log('📝 Delete query:', query);
 
-    const result = await executeMySQLQuery(mysqlInfo.config, mysqlInfo.databaseName, query);
-    
+    const result = await database.execute(query, params);
+
     if (!result.success) {
       res.status(400).json({ success: false, message: result.message });
       return;
@@ -234,6 +392,98 @@ export const deleteRow = async (req: AuthRequest, res: Response): Promise<void>
   }
 };
 
+// @desc    Apply a batch of inserts, updates and deletes in one transaction (all or nothing)
+// @route   POST /api/data/:projectId/:tableName/batch
+// @access  Private
+export const applyBatch = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, tableName } = req.params;
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const validationResult = batchChangesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: validationResult.error.issues,
+      });
+      return;
+    }
+
+    const database = await getProjectSQLDatabase(projectId, userId);
+    if (!database) {
+      res.status(404).json({ success: false, message: 'Project or database config not found' });
+      return;
+    }
+
+    const entity = findDataTable(database.schema, tableName);
+    if (!entity) {
+      res.status(404).json({ success: false, message: `Table '${tableName}' not found` });
+      return;
+    }
+
+    // Build every statement first, so a bad column fails the batch before anything runs
+    const { changes } = validationResult.data;
+    const statements: SqlStatement[] = [];
+    for (const [index, change] of changes.entries()) {
+      const columnValues = change.type === 'delete' ? undefined : toColumnValues(entity, change.rowData);
+      if (columnValues && !columnValues.success) {
+        res.status(400).json({ success: false, message: `Change ${index + 1}: ${columnValues.message}` });
+        return;
+      }
+
+      if (change.type === 'insert') {
+        statements.push(buildInsertQuery(database.dialect, entity.tableName, columnValues?.values ?? {}));
+        continue;
+      }
+
+      const rowKey = toRowKey(entity, change.key);
+      if (!rowKey.success) {
+        res.status(400).json({ success: false, message: `Change ${index + 1}: ${rowKey.message}` });
+        return;
+      }
+
+      if (change.type === 'update' && Object.keys(change.rowData).length === 0) {
+        res.status(400).json({ success: false, message: `Change ${index + 1}: No data provided` });
+        return;
+      }
+
+      statements.push(change.type === 'update'
+        ? buildUpdateQuery(database.dialect, entity.tableName, columnValues?.values ?? {}, rowKey.key)
+        : buildDeleteQuery(database.dialect, entity.tableName, rowKey.key));
+    }
+
+    console.log(`📝 Batch of ${statements.length} changes on ${entity.tableName}`);
+
+    const result = await database.executeTransaction(statements);
+
+    if (!result.success) {
+      const failedIndex = result.failedIndex ?? 0;
+      res.status(400).json({
+        success: false,
+        message: `Change ${failedIndex + 1} (${changes[failedIndex]?.type}) failed, no changes were applied: ${result.message}`,
+        data: { failedIndex },
+      });
+      return;
+    }
+
+    const count = (type: string) => changes.filter(change => change.type === type).length;
+    res.status(200).json({
+      success: true,
+      message: `Applied ${changes.length} changes`,
+      data: { inserted: count('insert'), updated: count('update'), deleted: count('delete') },
+    });
+  } catch (error) {
+    console.error('Apply batch error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
 // @desc    Execute raw SQL query
 // @route   POST /api/data/:projectId/query
 // @access  Private
@@ -248,15 +498,23 @@ export const executeQuery = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
-    const mysqlInfo = await getProjectMySQLConfig(projectId, userId);
-    if (!mysqlInfo) {
-      res.status(404).json({ success: false, message: 'Project or MySQL config not found' });
+    const database = await getProjectSQLDatabase(projectId, userId);
+    if (!database) {
+      res.status(404).json({ success: false, message: 'Project or database config not found' });
       return;
     }
 
+    if (database.dialect === 'sqlite') {
+      const refusal = checkSqliteRawQuery(String(query ?? ''));
+      if (refusal) {
+        res.status(400).json({ success: false, message: refusal });
+        return;
+      }
+    }
+
     console.log('📝 Executing query:', query);
 
-    const result = await executeMySQLQuery(mysqlInfo.config, mysqlInfo.databaseName, query);
+    const result = await database.execute(query);
     
     if (!result.success) {
       res.status(400).json({ success: false, message: result.message });
@@ -286,20 +544,33 @@ export const resetAutoIncrement = async (req: AuthRequest, res: Response): Promi
       return;
     }
 
-    const mysqlInfo = await getProjectMySQLConfig(projectId, userId);
-    if (!mysqlInfo) {
-      res.status(404).json({ success: false, message: 'Project or MySQL config not found' });
+    const database = await getProjectSQLDatabase(projectId, userId);
+    if (!database) {
+      res.status(404).json({ success: false, message: 'Project or database config not found' });
       return;
     }
 
-    const safeTableName = tableName.replace(/[^a-zA-Z0-9_]/g, '_');
+    const entity = findDataTable(database.schema, tableName);
+    if (!entity) {
+      res.status(404).json({ success: false, message: `Table '${tableName}' not found` });
+      return;
+    }
 
-    // Get all columns to find the auto-increment one
-    const columnsResult = await executeMySQLQuery(
-      mysqlInfo.config,
-      mysqlInfo.databaseName,
-      `SHOW COLUMNS FROM \`${safeTableName}\``
-    );
+    const quotedTableName = quoteSqlIdentifier(database.dialect, entity.tableName);
+
+    // Get all columns to find the auto-increment one (SQLite: the INTEGER PRIMARY KEY,
+    // Postgres: an identity or serial column)
+    const columnsResult = database.dialect === 'postgres'
+      ? await database.execute(
+        `SELECT column_name, is_identity, column_default FROM information_schema.columns
+         WHERE table_schema = 'public' AND table_name = $1`,
+        [entity.tableName]
+      )
+      : await database.execute(
+        database.dialect === 'sqlite'
+          ? `PRAGMA table_info(${quotedTableName})`
+          : `SHOW COLUMNS FROM ${quotedTableName}`
+      );
 
     if (!columnsResult.success || !columnsResult.result) {
       res.status(400).json({ success: false, message: 'Failed to get table columns' });
@@ -307,44 +578,57 @@ export const resetAutoIncrement = async (req: AuthRequest, res: Response): Promi
     }
 
     // Find the auto-increment column
-    const columns = columnsResult.result as Array<{ Field: string; Extra: string }>;
-    const autoIncColumn = columns.find(col => col.Extra.includes('auto_increment'));
+    let autoIncColumnName: string | undefined;
+    if (database.dialect === 'sqlite') {
+      autoIncColumnName = (columnsResult.result as Array<{ name: string; type: string; pk: number }>)
+        .find(col => col.pk === 1 && col.type.toUpperCase() === 'INTEGER')?.name;
+    } else if (database.dialect === 'postgres') {
+      autoIncColumnName = (columnsResult.result as Array<{ column_name: string; is_identity: string; column_default: string | null }>)
+        .find(col => col.is_identity === 'YES' || col.column_default?.startsWith('nextval('))?.column_name;
+    } else {
+      autoIncColumnName = (columnsResult.result as Array<{ Field: string; Extra: string }>)
+        .find(col => col.Extra.includes('auto_increment'))?.Field;
+    }
 
-    if (!autoIncColumn) {
+    if (!autoIncColumnName) {
       res.status(400).json({ success: false, message: 'No AUTO_INCREMENT column found in this table' });
       return;
     }
 
-    const autoIncColumnName = autoIncColumn.Field;
-
     // Get the maximum ID currently in the table
-    const maxIdResult = await executeMySQLQuery(
-      mysqlInfo.config,
-      mysqlInfo.databaseName,
-      `SELECT MAX(\`${autoIncColumnName}\`) as max_id FROM \`${safeTableName}\``
+    const maxIdResult = await database.execute(
+      `SELECT MAX(${quoteSqlIdentifier(database.dialect, autoIncColumnName)}) as max_id FROM ${quotedTableName}`
     );
 
     let nextId = 1;
     if (maxIdResult.success && maxIdResult.result) {
-      const rows = maxIdResult.result as Array<{ max_id: number | null }>;
+      const rows = maxIdResult.result as Array<{ max_id: number | string | null }>;
       if (rows[0]?.max_id) {
-        nextId = rows[0].max_id + 1;
+        nextId = Number(rows[0].max_id) + 1;
       }
     }
 
-    // Reset AUTO_INCREMENT
-    await executeMySQLQuery(
-      mysqlInfo.config,
-      mysqlInfo.databaseName,
-      `ALTER TABLE \`${safeTableName}\` AUTO_INCREMENT = ${nextId}`
-    );
+    // AUTO_INCREMENT cannot be a placeholder, so only a checked integer goes into the statement
+    if (!Number.isSafeInteger(nextId)) {
+      res.status(400).json({ success: false, message: 'The current maximum ID is not an integer' });
+      return;
+    }
+
+    // Reset AUTO_INCREMENT (SQLite keeps the last used ID in sqlite_sequence, Postgres in the column's sequence)
+    if (database.dialect === 'sqlite') {
+      await database.execute('UPDATE sqlite_sequence SET seq = ? WHERE name = ?', [nextId - 1, entity.tableName]);
+    } else if (database.dialect === 'postgres') {
+      await database.execute('SELECT setval(pg_get_serial_sequence($1, $2), $3, false)', [quotedTableName, autoIncColumnName, nextId]);
+    } else {
+      await database.execute(`ALTER TABLE ${quotedTableName} AUTO_INCREMENT = ${nextId}`);
+    }
 
-    console.log(`🔄 Reset AUTO_INCREMENT for ${safeTableName} to ${nextId}`);
+    console.log(`🔄 Reset AUTO_INCREMENT for ${entity.tableName} to ${nextId}`);
 
     res.status(200).json({
       success: true,
       message: `AUTO_INCREMENT reset to ${nextId}`,
-      data: { tableName: safeTableName, nextId },
+      data: { tableName: entity.tableName, nextId },
     });
   } catch (error) {
     console.error('Reset auto-increment error:', error);
@@ -0,0 +1,236 @@
+import { Response } from 'express';
+import Project from '../models/Project.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import {
+  findDocuments,
+  insertDocument,
+  updateDocument,
+  deleteDocument,
+  ReferenceLookup,
+} from '../services/mongodb.service';
+import { toBsonValue } from '../utils/mongo-schema';
+import { Table, Relationship } from '../types/schema';
+
+// Helper to get the MongoDB config and the canvas collection from a project
+const getProjectMongoInfo = async (projectId: string, userId: string, collectionName: string) => {
+  const project = await Project.findOne({ _id: projectId, userId });
+  if (!project || project.databaseType !== 'mongodb' || !project.mongoConfig?.uri) {
+    return null;
+  }
+
+  const tables = (project.schemaData?.tables || []) as Table[];
+  return {
+    config: { uri: project.mongoConfig.uri },
+    databaseName: project.databaseName,
+    tables,
+    relationships: (project.schemaData?.relationships || []) as Relationship[],
+    table: tables.find(t => t.name === collectionName),
+  };
+};
+
+// Convert the editor's string values into the BSON types of the collection's fields;
+// fields that are left empty on insert get the canvas default value
+const toDocument = (rowData: Record<string, unknown>, table: Table | undefined, applyDefaults: boolean) => {
+  const document: Record<string, unknown> = {};
+
+  Object.entries(rowData).forEach(([field, value]) => {
+    if (field === '_id') return;
+
+    const column = table?.columns.find(col => col.name === field);
+    if (!column) {
+      document[field] = value;
+      return;
+    }
+
+    const useDefault = applyDefaults && (value === null || value === undefined || value === '') && column.defaultValue;
+    document[field] = toBsonValue(useDefault ? column.defaultValue : value, column);
+  });
+
+  return document;
+};
+
+// @desc    Get documents of a collection, with $lookup previews of referenced documents
+// @route   GET /api/documents/:projectId/:collectionName?lookup=true
+// @access  Private
+export const getDocuments = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, collectionName } = req.params;
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const mongoInfo = await getProjectMongoInfo(projectId, userId, collectionName);
+    if (!mongoInfo) {
+      res.status(404).json({ success: false, message: 'Project or MongoDB config not found' });
+      return;
+    }
+
+    // Each outgoing relationship adds a `<field>_ref` array with the referenced documents
+    const lookups: ReferenceLookup[] = [];
+    if (req.query.lookup === 'true' && mongoInfo.table) {
+      const table = mongoInfo.table;
+      mongoInfo.relationships
+        .filter(rel => rel.sourceTableId === table.id)
+        .forEach(rel => {
+          const sourceColumn = table.columns.find(col => col.id === rel.sourceColumnId);
+          const targetTable = mongoInfo.tables.find(t => t.id === rel.targetTableId);
+          const targetColumn = targetTable?.columns.find(col => col.id === rel.targetColumnId);
+          if (!sourceColumn || !targetTable || !targetColumn) return;
+
+          lookups.push({
+            from: targetTable.name,
+            localField: sourceColumn.name,
+            foreignField: targetColumn.name,
+            as: `${sourceColumn.name}_ref`,
+          });
+        });
+    }
+
+    const result = await findDocuments(mongoInfo.config, mongoInfo.databaseName, collectionName, lookups);
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        rows: result.result,
+        tableName: collectionName,
+        references: lookups.map(lookup => lookup.as),
+      },
+    });
+  } catch (error) {
+    console.error('Get documents error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// @desc    Insert a document into a collection
+// @route   POST /api/documents/:projectId/:collectionName
+// @access  Private
+export const createDocument = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, collectionName } = req.params;
+    const { rowData } = req.body;
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const mongoInfo = await getProjectMongoInfo(projectId, userId, collectionName);
+    if (!mongoInfo) {
+      res.status(404).json({ success: false, message: 'Project or MongoDB config not found' });
+      return;
+    }
+
+    const document = toDocument(rowData || {}, mongoInfo.table, true);
+    console.log('📝 Insert document:', document);
+
+    const result = await insertDocument(mongoInfo.config, mongoInfo.databaseName, collectionName, document);
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Document inserted successfully',
+      data: result.result,
+    });
+  } catch (error) {
+    console.error('Insert document error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// @desc    Update fields of a document
+// @route   PUT /api/documents/:projectId/:collectionName/:documentId
+// @access  Private
+export const editDocument = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, collectionName, documentId } = req.params;
+    const { rowData } = req.body;
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const mongoInfo = await getProjectMongoInfo(projectId, userId, collectionName);
+    if (!mongoInfo) {
+      res.status(404).json({ success: false, message: 'Project or MongoDB config not found' });
+      return;
+    }
+
+    const fields = toDocument(rowData || {}, mongoInfo.table, false);
+    if (Object.keys(fields).length === 0) {
+      res.status(400).json({ success: false, message: 'No data provided' });
+      return;
+    }
+
+    console.log('📝 Update document:', documentId, fields);
+
+    const result = await updateDocument(mongoInfo.config, mongoInfo.databaseName, collectionName, documentId, fields);
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Document updated successfully',
+      data: result.result,
+    });
+  } catch (error) {
+    console.error('Update document error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// @desc    Delete a document
+// @route   DELETE /api/documents/:projectId/:collectionName/:documentId
+// @access  Private
+export const removeDocument = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, collectionName, documentId } = req.params;
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ success: false, message: 'Unauthorized' });
+      return;
+    }
+
+    const mongoInfo = await getProjectMongoInfo(projectId, userId, collectionName);
+    if (!mongoInfo) {
+      res.status(404).json({ success: false, message: 'Project or MongoDB config not found' });
+      return;
+    }
+
+    console.log('📝 Delete document:', documentId);
+
+    const result = await deleteDocument(mongoInfo.config, mongoInfo.databaseName, collectionName, documentId);
+
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Document deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete document error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
@@ -0,0 +1,154 @@
+import { Response } from 'express';
+import Project from '../models/Project.model';
+import { generateSchemaText, SQL_DIALECTS, SQLDialect } from '../services/schema-export.service';
+import { generateOrmArchive, ORM_TARGETS, OrmTargetName } from '../services/orm-generator.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { SchemaData, ExportFormat } from '../types/schema';
+
+// File name and content type of each export format
+const EXPORT_FORMATS: Record<ExportFormat, { filename: (databaseName: string, dialect: SQLDialect) => string; contentType: string }> = {
+  sql: { filename: (databaseName, dialect) => `${databaseName}.${dialect}.sql`, contentType: 'application/sql' },
+  dbml: { filename: databaseName => `${databaseName}.dbml`, contentType: 'text/plain' },
+  mermaid: { filename: databaseName => `${databaseName}.mmd`, contentType: 'text/plain' },
+  prisma: { filename: () => 'schema.prisma', contentType: 'text/plain' },
+  typescript: { filename: databaseName => `${databaseName}.ts`, contentType: 'text/plain' },
+};
+
+// @desc    Download the canvas schema as SQL DDL (?dialect=mysql|postgres|sqlite), DBML, a Mermaid erDiagram, a Prisma schema or TypeScript types with Zod schemas
+// @route   GET /api/projects/:id/export/:format
+// @access  Private
+export const exportSchema = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const format = req.params.format as ExportFormat;
+    const userId = req.userId;
+
+    if (!EXPORT_FORMATS[format]) {
+      res.status(400).json({
+        success: false,
+        message: `Unsupported format '${format}'. Use one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`,
+      });
+      return;
+    }
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    // Default to the project's own dialect; MongoDB projects default to MySQL
+    const requested = typeof req.query.dialect === 'string' ? req.query.dialect : undefined;
+    const fallback = SQL_DIALECTS.includes(project.databaseType as SQLDialect)
+      ? project.databaseType as SQLDialect
+      : 'mysql';
+    const dialect = (requested || fallback) as SQLDialect;
+
+    if (!SQL_DIALECTS.includes(dialect)) {
+      res.status(400).json({
+        success: false,
+        message: `Unsupported dialect '${requested}'. Use one of: ${SQL_DIALECTS.join(', ')}`,
+      });
+      return;
+    }
+
+    const text = generateSchemaText(
+      format,
+      {
+        tables: project.schemaData?.tables || [],
+        relationships: project.schemaData?.relationships || [],
+      } as SchemaData,
+      {
+        dialect,
+        projectName: project.name,
+        databaseName: project.databaseName,
+        databaseType: project.databaseType,
+      }
+    );
+
+    const { filename, contentType } = EXPORT_FORMATS[format];
+
+    res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename(project.databaseName, dialect)}"`);
+    res.status(200).send(text);
+  } catch (error) {
+    console.error('Export schema error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while exporting schema',
+    });
+  }
+};
+
+// @desc    Download ORM model code (TypeORM, Sequelize or Drizzle) as a zip (?dialect=mysql|postgres|sqlite)
+// @route   GET /api/projects/:id/generate/:target
+// @access  Private
+export const generateOrmCode = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const target = req.params.target as OrmTargetName;
+    const userId = req.userId;
+
+    if (!ORM_TARGETS[target]) {
+      res.status(400).json({
+        success: false,
+        message: `Unsupported target '${target}'. Use one of: ${Object.keys(ORM_TARGETS).join(', ')}`,
+      });
+      return;
+    }
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    if (project.databaseType === 'mongodb') {
+      res.status(400).json({
+        success: false,
+        message: 'ORM code generation is only available for SQL projects',
+      });
+      return;
+    }
+
+    const requested = typeof req.query.dialect === 'string' ? req.query.dialect : undefined;
+    const dialect = (requested || project.databaseType) as SQLDialect;
+
+    if (!SQL_DIALECTS.includes(dialect)) {
+      res.status(400).json({
+        success: false,
+        message: `Unsupported dialect '${requested}'. Use one of: ${SQL_DIALECTS.join(', ')}`,
+      });
+      return;
+    }
+
+    const { archive, fileCount } = await generateOrmArchive(
+      target,
+      {
+        tables: project.schemaData?.tables || [],
+        relationships: project.schemaData?.relationships || [],
+      } as SchemaData,
+      dialect
+    );
+
+    console.log(`📦 Generated ${fileCount} ${ORM_TARGETS[target].label} files for ${project.name}`);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${project.databaseName}.${target}.zip"`);
+    res.status(200).send(archive);
+  } catch (error) {
+    console.error('Generate ORM code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while generating ORM code',
+    });
+  }
+};
@@ -0,0 +1,252 @@
+import { Response } from 'express';
+import Project from '../models/Project.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { OrmEntity } from '../utils/orm/orm-model';
+import { validateRow } from '../utils/row-validation';
+import { generateOpenApiDocument } from '../utils/openapi';
+import {
+  ProjectDatabase,
+  findProjectDatabase,
+  projectSchema,
+  findApiEntity,
+  parseRowKey,
+  parseListQuery,
+  fetchRows,
+  fetchRowByKey,
+  insertRow,
+  updateRowByKey,
+  deleteRowByKey,
+} from '../services/generated-api.service';
+
+// Resolve the project database and table of a request, sending the error response when either is missing
+const resolveApiTable = async (
+  req: AuthRequest,
+  res: Response
+): Promise<{ database: ProjectDatabase; entity: OrmEntity } | null> => {
+  const { projectId, table } = req.params;
+
+  const found = await findProjectDatabase(projectId, req.userId);
+  if (!found) {
+    res.status(404).json({ success: false, message: 'Project not found' });
+    return null;
+  }
+
+  const { project, database } = found;
+  if (!database) {
+    res.status(project.databaseType === 'mongodb' ? 400 : 404).json({
+      success: false,
+      message: project.databaseType === 'mongodb'
+        ? 'The generated REST API is only available for SQL projects'
+        : 'Database config not found',
+    });
+    return null;
+  }
+
+  const entity = findApiEntity(projectSchema(project), table);
+  if (!entity) {
+    res.status(404).json({ success: false, message: `Table '${table}' not found` });
+    return null;
+  }
+
+  return { database, entity };
+};
+
+// @desc    List rows of a table with paging, sorting and filters
+// @route   GET /api/generated/:projectId/:table
+// @access  Private
+export const listRows = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const resolved = await resolveApiTable(req, res);
+    if (!resolved) return;
+    const { database, entity } = resolved;
+
+    const parsed = parseListQuery(entity, req.query as Record<string, unknown>);
+    if (!parsed.success) {
+      res.status(400).json({ success: false, message: parsed.message });
+      return;
+    }
+    const { filters, sort, page, limit } = parsed.listQuery;
+
+    const result = await fetchRows(database, entity, { filters, sort, limit, offset: (page - 1) * limit });
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+
+    const total = result.total ?? 0;
+    res.status(200).json({
+      success: true,
+      data: result.rows,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    console.error('List rows error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// @desc    Get a row by primary key
+// @route   GET /api/generated/:projectId/:table/:id
+// @access  Private
+export const getRow = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const resolved = await resolveApiTable(req, res);
+    if (!resolved) return;
+    const { database, entity } = resolved;
+
+    const parsedKey = parseRowKey(entity, req.params.id);
+    if (!parsedKey.success) {
+      res.status(400).json({ success: false, message: parsedKey.message });
+      return;
+    }
+
+    const result = await fetchRowByKey(database, entity, parsedKey.key);
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+    if (!result.row) {
+      res.status(404).json({ success: false, message: 'Row not found' });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: result.row });
+  } catch (error) {
+    console.error('Get row error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// @desc    Create a row
+// @route   POST /api/generated/:projectId/:table
+// @access  Private
+export const createRow = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const resolved = await resolveApiTable(req, res);
+    if (!resolved) return;
+    const { database, entity } = resolved;
+
+    const validation = validateRow(entity, req.body ?? {}, 'create');
+    if (!validation.success) {
+      res.status(400).json({ success: false, message: 'Validation error', errors: validation.errors });
+      return;
+    }
+
+    const result = await insertRow(database, entity, validation.values);
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+
+    console.log(`📝 Created row in ${entity.tableName}`);
+
+    res.status(201).json({ success: true, data: result.row });
+  } catch (error) {
+    console.error('Create row error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// @desc    Update columns of a row by primary key
+// @route   PATCH/PUT /api/generated/:projectId/:table/:id
+// @access  Private
+export const updateRow = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const resolved = await resolveApiTable(req, res);
+    if (!resolved) return;
+    const { database, entity } = resolved;
+
+    const parsedKey = parseRowKey(entity, req.params.id);
+    if (!parsedKey.success) {
+      res.status(400).json({ success: false, message: parsedKey.message });
+      return;
+    }
+
+    const validation = validateRow(entity, req.body ?? {}, 'update');
+    if (!validation.success) {
+      res.status(400).json({ success: false, message: 'Validation error', errors: validation.errors });
+      return;
+    }
+    if (Object.keys(validation.values).length === 0) {
+      res.status(400).json({ success: false, message: 'No columns to update' });
+      return;
+    }
+
+    const result = await updateRowByKey(database, entity, parsedKey.key, validation.values);
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+    if (!result.row) {
+      res.status(404).json({ success: false, message: 'Row not found' });
+      return;
+    }
+
+    console.log(`📝 Updated row in ${entity.tableName}`);
+
+    res.status(200).json({ success: true, data: result.row });
+  } catch (error) {
+    console.error('Update row error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// @desc    Delete a row by primary key
+// @route   DELETE /api/generated/:projectId/:table/:id
+// @access  Private
+export const deleteRow = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const resolved = await resolveApiTable(req, res);
+    if (!resolved) return;
+    const { database, entity } = resolved;
+
+    const parsedKey = parseRowKey(entity, req.params.id);
+    if (!parsedKey.success) {
+      res.status(400).json({ success: false, message: parsedKey.message });
+      return;
+    }
+
+    const result = await deleteRowByKey(database, entity, parsedKey.key);
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+    if (!result.deleted) {
+      res.status(404).json({ success: false, message: 'Row not found' });
+      return;
+    }
+
+    console.log(`🗑️ Deleted row from ${entity.tableName}`);
+
+    res.status(200).json({ success: true, message: 'Row deleted successfully' });
+  } catch (error) {
+    console.error('Delete row error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// @desc    Get the OpenAPI document of the project's generated REST API
+// @route   GET /api/generated/:projectId/openapi.json
+// @access  Private
+export const getOpenApiDocument = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+
+    const project = await Project.findOne({ _id: projectId, userId: req.userId });
+    if (!project) {
+      res.status(404).json({ success: false, message: 'Project not found' });
+      return;
+    }
+
+    if (project.databaseType === 'mongodb') {
+      res.status(400).json({ success: false, message: 'The generated REST API is only available for SQL projects' });
+      return;
+    }
+
+    const serverUrl = `${req.protocol}://${req.get('host')}/api/generated/${projectId}`;
+    res.status(200).json(generateOpenApiDocument(project.name, projectSchema(project), serverUrl));
+  } catch (error) {
+    console.error('Get OpenAPI document error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
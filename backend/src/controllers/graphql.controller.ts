@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { DocumentNode, getOperationAST, parse } from 'graphql';
+import Project from '../models/Project.model';
+import { AuthRequest } from '../middleware/auth.middleware';
+import { findProjectDatabase, projectSchema } from '../services/generated-api.service';
+import { executeProjectGraphQL, printProjectGraphQLSchema } from '../services/graphql.service';
+
+// @desc    Execute a GraphQL request against the project database
+// @route   POST /api/graphql/:projectId
+// @access  Private
+export const executeGraphQL = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+    const { query, variables, operationName } = req.body ?? {};
+
+    if (typeof query !== 'string' || !query.trim()) {
+      res.status(400).json({ success: false, message: 'A GraphQL query is required' });
+      return;
+    }
+
+    // API keys reach this route with data:read; mutations also need data:write.
+    // Syntax errors are left to the executor, which reports them as GraphQL errors.
+    if (req.apiKey && !req.apiKey.scopes.includes('data:write')) {
+      let document: DocumentNode | undefined;
+      try {
+        document = parse(query);
+      } catch {
+        document = undefined;
+      }
+      const operation = document && getOperationAST(document, operationName ?? undefined);
+      if (operation?.operation === 'mutation') {
+        res.status(403).json({ success: false, message: "This API key is missing the 'data:write' scope" });
+        return;
+      }
+    }
+
+    const found = await findProjectDatabase(projectId, req.userId);
+    if (!found) {
+      res.status(404).json({ success: false, message: 'Project not found' });
+      return;
+    }
+
+    const { project, database } = found;
+    if (!database) {
+      res.status(project.databaseType === 'mongodb' ? 400 : 404).json({
+        success: false,
+        message: project.databaseType === 'mongodb'
+          ? 'The GraphQL API is only available for SQL projects'
+          : 'Database config not found',
+      });
+      return;
+    }
+
+    // Errors inside the query are part of a GraphQL response, so it is always sent as is
+    const result = await executeProjectGraphQL(projectSchema(project), database, {
+      query,
+      variables: variables ?? undefined,
+      operationName: operationName ?? undefined,
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('GraphQL error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+};
+
+// @desc    Get the GraphQL schema of a project in SDL
+// @route   GET /api/graphql/:projectId/schema
+// @access  Private
+export const getGraphQLSchema = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+
+    const project = await Project.findOne({ _id: projectId, userId: req.userId });
+    if (!project) {
+      res.status(404).json({ success: false, message: 'Project not found' });
+      return;
+    }
+
+    if (project.databaseType === 'mongodb') {
+      res.status(400).json({ success: false, message: 'The GraphQL API is only available for SQL projects' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { sdl: printProjectGraphQLSchema(projectSchema(project)) },
+    });
+  } catch (error) {
+    // Table names that clash with the generated type names make the schema invalid
+    console.error('Get GraphQL schema error:', error);
+    res.status(400).json({ success: false, message: (error as Error).message });
+  }
+};
@@ -0,0 +1,147 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Project from '../models/Project.model';
+import Migration from '../models/Migration.model';
+import { executeMigrationSQL } from '../services/mysql.service';
+import { executePostgresMigrationSQL } from '../services/postgres.service';
+import { executeSqliteMigrationSQL } from '../services/sqlite.service';
+import { getLatestAppliedMigration } from '../services/migration.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+// @desc    Get the migration history of a project
+// @route   GET /api/projects/:id/migrations
+// @access  Private
+export const getMigrations = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId;
+
+    const project = await Project.findOne({ _id: id, userId }).select('_id');
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    const migrations = await Migration.find({ projectId: project._id })
+      .sort({ version: -1 })
+      .populate('author', 'name email')
+      .populate('rolledBackBy', 'name email');
+
+    const transformedMigrations = migrations.map(migration => ({
+      id: migration._id.toString(),
+      version: migration.version,
+      upSql: migration.upSql,
+      downSql: migration.downSql,
+      changes: migration.changes,
+      status: migration.status,
+      author: migration.author,
+      rolledBackAt: migration.rolledBackAt,
+      rolledBackBy: migration.rolledBackBy,
+      createdAt: migration.createdAt,
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: { migrations: transformedMigrations },
+    });
+  } catch (error) {
+    console.error('Get migrations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching migrations',
+    });
+  }
+};
+
+// @desc    Roll back the latest applied migration
+// @route   POST /api/projects/:id/migrations/:version/rollback
+// @access  Private
+export const rollbackMigration = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id, version } = req.params;
+    const userId = req.userId;
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    const config = project.databaseType === 'postgres' ? project.postgresConfig : project.mysqlConfig;
+    const sqliteFile = project.databaseType === 'sqlite' ? project.sqliteConfig?.filename : undefined;
+
+    if (!sqliteFile && (!['mysql', 'postgres'].includes(project.databaseType) || !config)) {
+      res.status(400).json({
+        success: false,
+        message: 'Rollback is only available for SQL projects',
+      });
+      return;
+    }
+
+    const migration = await getLatestAppliedMigration(project._id);
+
+    if (!migration || migration.version !== Number(version)) {
+      res.status(400).json({
+        success: false,
+        message: 'Only the latest applied migration can be rolled back',
+      });
+      return;
+    }
+
+    let result: { success: boolean; message: string };
+    if (sqliteFile) {
+      result = await executeSqliteMigrationSQL(sqliteFile, migration.downSql);
+    } else {
+      const sqlConfig = config as NonNullable<typeof config>;
+      const runMigration = project.databaseType === 'postgres' ? executePostgresMigrationSQL : executeMigrationSQL;
+      result = await runMigration(
+        {
+          host: sqlConfig.host,
+          port: sqlConfig.port,
+          user: sqlConfig.user,
+          password: sqlConfig.password,
+        },
+        project.databaseName,
+        migration.downSql
+      );
+    }
+
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        message: result.message,
+      });
+      return;
+    }
+
+    // Restore the canvas that matches the rolled back database
+    project.schemaData = migration.previousSchemaData;
+    project.appliedSchemaData = migration.previousSchemaData;
+    await project.save();
+
+    migration.status = 'rolled_back';
+    migration.rolledBackAt = new Date();
+    migration.rolledBackBy = new mongoose.Types.ObjectId(userId);
+    await migration.save();
+
+    res.status(200).json({
+      success: true,
+      message: `Rolled back migration ${migration.version}`,
+      data: { schemaData: project.schemaData },
+    });
+  } catch (error) {
+    console.error('Rollback migration error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while rolling back migration',
+    });
+  }
+};
@@ -1,9 +1,45 @@
 import { Request, Response } from 'express';
-import Project from '../models/Project.model';
-import { testMySQLConnection, createMySQLDatabase, syncSchemaToMySQL } from '../services/mysql.service';
+import Project, { IProject } from '../models/Project.model';
+import Migration from '../models/Migration.model';
+import ApiKey from '../models/ApiKey.model';
+import {
+  testMySQLConnection,
+  createMySQLDatabase,
+  syncSchemaToMySQL,
+  planSchemaMigration,
+  importMySQLSchema,
+  detectMySQLDrift,
+} from '../services/mysql.service';
+import {
+  testPostgresConnection,
+  createPostgresDatabase,
+  syncSchemaToPostgres,
+} from '../services/postgres.service';
+import {
+  testMongoConnection,
+  createMongoDatabase,
+  syncSchemaToMongo,
+} from '../services/mongodb.service';
+import {
+  createSqliteDatabase,
+  deleteSqliteDatabase,
+  syncSchemaToSqlite,
+} from '../services/sqlite.service';
+import { recordMigration } from '../services/migration.service';
+import { importSchemaText } from '../services/schema-import.service';
 import { AuthRequest } from '../middleware/auth.middleware';
+import { SchemaData } from '../types/schema';
 import { z } from 'zod';
 
+// Schema the database was last synced to; projects saved before it was tracked fall back to the design
+const getAppliedSchema = (project: IProject): SchemaData => {
+  const applied = project.appliedSchemaData?.tables ? project.appliedSchemaData : project.schemaData;
+  return {
+    tables: applied?.tables || [],
+    relationships: applied?.relationships || [],
+  } as SchemaData;
+};
+
 // Validation schemas
 const mysqlConfigSchema = z.object({
   host: z.string().min(1, 'Host is required'),
@@ -12,11 +48,28 @@ const mysqlConfigSchema = z.object({
   password: z.string(),
 });
 
+const postgresConfigSchema = mysqlConfigSchema.extend({
+  port: z.number().min(1).max(65535).default(5432),
+});
+
+const mongoConfigSchema = z.object({
+  uri: z.string().regex(/^mongodb(\+srv)?:\/\//, 'URI must start with mongodb:// or mongodb+srv://'),
+});
+
 const createProjectSchema = z.object({
   name: z.string().min(2, 'Project name must be at least 2 characters').max(100),
-  databaseType: z.enum(['mysql', 'mongodb']),
+  databaseType: z.enum(['mysql', 'postgres', 'mongodb', 'sqlite']),
   databaseName: z.string().min(1, 'Database name is required').max(64),
   mysqlConfig: mysqlConfigSchema.optional(),
+  postgresConfig: postgresConfigSchema.optional(),
+  mongoConfig: mongoConfigSchema.optional(),
+  // Use an existing database and import its schema instead of creating a new one
+  importExisting: z.boolean().optional(),
+});
+
+const importTextSchema = z.object({
+  format: z.enum(['sql', 'dbml', 'mermaid']),
+  text: z.string().min(1, 'Schema text is required'),
 });
 
 const testConnectionSchema = z.object({
@@ -42,7 +95,7 @@ export const createProject = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    const { name, databaseType, databaseName, mysqlConfig } = validationResult.data;
+    const { name, databaseType, databaseName, mysqlConfig, postgresConfig, mongoConfig, importExisting } = validationResult.data;
     const userId = req.userId;
 
     // Check if project with same name exists for this user
@@ -55,7 +108,9 @@ export const createProject = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    // For MySQL, create the database
+    let schemaData: SchemaData = { tables: [], relationships: [] };
+
+    // For MySQL, create the database (or import an existing one)
     if (databaseType === 'mysql' && mysqlConfig) {
       // First test the connection
       const testResult = await testMySQLConnection(mysqlConfig);
@@ -67,8 +122,50 @@ export const createProject = async (req: AuthRequest, res: Response): Promise<vo
         return;
       }
 
-      // Create the database
-      const createResult = await createMySQLDatabase(mysqlConfig, databaseName);
+      if (importExisting) {
+        // Read the existing database into the canvas
+        const importResult = await importMySQLSchema(mysqlConfig, databaseName);
+        if (!importResult.success || !importResult.schemaData) {
+          res.status(400).json({
+            success: false,
+            message: `Could not import database: ${importResult.message}`,
+          });
+          return;
+        }
+        schemaData = importResult.schemaData;
+      } else {
+        // Create the database
+        const createResult = await createMySQLDatabase(mysqlConfig, databaseName);
+        if (!createResult.success) {
+          res.status(400).json({
+            success: false,
+            message: createResult.message,
+          });
+          return;
+        }
+      }
+    }
+
+    // For Postgres, create the database
+    if (databaseType === 'postgres' && postgresConfig) {
+      if (importExisting) {
+        res.status(400).json({
+          success: false,
+          message: 'Importing an existing database is only available for MySQL projects',
+        });
+        return;
+      }
+
+      const testResult = await testPostgresConnection(postgresConfig);
+      if (!testResult.success) {
+        res.status(400).json({
+          success: false,
+          message: `Postgres connection failed: ${testResult.message}`,
+        });
+        return;
+      }
+
+      const createResult = await createPostgresDatabase(postgresConfig, databaseName);
       if (!createResult.success) {
         res.status(400).json({
           success: false,
@@ -78,6 +175,57 @@ export const createProject = async (req: AuthRequest, res: Response): Promise<vo
       }
     }
 
+    // For MongoDB, make sure the database name is free (collections are created on the first sync)
+    if (databaseType === 'mongodb' && mongoConfig) {
+      if (importExisting) {
+        res.status(400).json({
+          success: false,
+          message: 'Importing an existing database is only available for MySQL projects',
+        });
+        return;
+      }
+
+      const testResult = await testMongoConnection(mongoConfig);
+      if (!testResult.success) {
+        res.status(400).json({
+          success: false,
+          message: `MongoDB connection failed: ${testResult.message}`,
+        });
+        return;
+      }
+
+      const createResult = await createMongoDatabase(mongoConfig, databaseName);
+      if (!createResult.success) {
+        res.status(400).json({
+          success: false,
+          message: createResult.message,
+        });
+        return;
+      }
+    }
+
+    // For SQLite, create the database file; no server or credentials are involved
+    let sqliteConfig: { filename: string } | undefined;
+    if (databaseType === 'sqlite') {
+      if (importExisting) {
+        res.status(400).json({
+          success: false,
+          message: 'Importing an existing database is only available for MySQL projects',
+        });
+        return;
+      }
+
+      const createResult = await createSqliteDatabase(databaseName);
+      if (!createResult.success || !createResult.filename) {
+        res.status(400).json({
+          success: false,
+          message: createResult.message,
+        });
+        return;
+      }
+      sqliteConfig = { filename: createResult.filename };
+    }
+
     // Create the project in our database
     const project = await Project.create({
       name,
@@ -85,7 +233,11 @@ export const createProject = async (req: AuthRequest, res: Response): Promise<vo
       databaseName,
       userId,
       mysqlConfig: databaseType === 'mysql' ? mysqlConfig : undefined,
-      schemaData: { tables: [] },
+      postgresConfig: databaseType === 'postgres' ? postgresConfig : undefined,
+      mongoConfig: databaseType === 'mongodb' ? mongoConfig : undefined,
+      sqliteConfig,
+      schemaData,
+      appliedSchemaData: schemaData,
     });
 
     res.status(201).json({
@@ -149,6 +301,82 @@ export const testMySQLConnectionEndpoint = async (req: AuthRequest, res: Respons
   }
 };
 
+// @desc    Test Postgres connection
+// @route   POST /api/projects/test-postgres
+// @access  Private
+export const testPostgresConnectionEndpoint = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const validationResult = postgresConfigSchema.safeParse(req.body);
+    
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: validationResult.error.issues,
+      });
+      return;
+    }
+
+    const result = await testPostgresConnection(validationResult.data);
+
+    if (result.success) {
+      res.status(200).json({
+        success: true,
+        message: 'Connection successful',
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        message: result.message,
+      });
+    }
+  } catch (error) {
+    console.error('Test connection error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while testing connection',
+    });
+  }
+};
+
+// @desc    Test MongoDB connection
+// @route   POST /api/projects/test-mongodb
+// @access  Private
+export const testMongoConnectionEndpoint = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const validationResult = mongoConfigSchema.safeParse(req.body);
+    
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: validationResult.error.issues,
+      });
+      return;
+    }
+
+    const result = await testMongoConnection(validationResult.data);
+
+    if (result.success) {
+      res.status(200).json({
+        success: true,
+        message: 'Connection successful',
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        message: result.message,
+      });
+    }
+  } catch (error) {
+    console.error('Test connection error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while testing connection',
+    });
+  }
+};
+
 // @desc    Get all projects for current user
 // @route   GET /api/projects
 // @access  Private
@@ -157,7 +385,7 @@ export const getProjects = async (req: AuthRequest, res: Response): Promise<void
     const userId = req.userId;
     
     const projects = await Project.find({ userId })
-      .select('-mysqlConfig.password -mongoConfig')
+      .select('-mysqlConfig.password -postgresConfig.password -mongoConfig')
       .sort({ updatedAt: -1 });
 
     // Transform _id to id for frontend compatibility
@@ -214,6 +442,11 @@ export const getProject = async (req: AuthRequest, res: Response): Promise<void>
         user: project.mysqlConfig.user,
         // Don't send password to frontend
       } : undefined,
+      postgresConfig: project.postgresConfig ? {
+        host: project.postgresConfig.host,
+        port: project.postgresConfig.port,
+        user: project.postgresConfig.user,
+      } : undefined,
       createdAt: project.createdAt,
       updatedAt: project.updatedAt,
     };
@@ -249,6 +482,15 @@ export const deleteProject = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
+    // Remove the project's migration history and API keys
+    await Migration.deleteMany({ projectId: project._id });
+    await ApiKey.deleteMany({ projectId: project._id });
+
+    // SQLite databases belong to the project, so their file goes with it
+    if (project.databaseType === 'sqlite' && project.sqliteConfig?.filename) {
+      await deleteSqliteDatabase(project.sqliteConfig.filename);
+    }
+
     res.status(200).json({
       success: true,
       message: 'Project deleted successfully',
@@ -262,14 +504,14 @@ export const deleteProject = async (req: AuthRequest, res: Response): Promise<vo
   }
 };
 
-// @desc    Update project schema (tables/columns) and sync to MySQL
+// @desc    Update project schema (tables/columns) and sync it to the project's database
 // @route   PUT /api/projects/:id/schema
 // @access  Private
 export const updateSchema = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const userId = req.userId;
-    const { tables, relationships = [] } = req.body;
+    const { tables, relationships = [], confirmDestructive = false, overwriteDrift = false } = req.body;
 
     if (!Array.isArray(tables)) {
       res.status(400).json({
@@ -279,7 +521,7 @@ export const updateSchema = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
-    // First, get the project to get MySQL config
+    // First, get the project to get the database config
     const project = await Project.findOne({ _id: id, userId });
 
     if (!project) {
@@ -290,6 +532,10 @@ export const updateSchema = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
+    // Diff against what the database holds, not the last saved design, which may have failed to apply
+    const previousSchema = getAppliedSchema(project);
+    let syncResult: Awaited<ReturnType<typeof syncSchemaToMySQL>> | null = null;
+
     // Sync to MySQL if it's a MySQL project
     if (project.databaseType === 'mysql' && project.mysqlConfig) {
       console.log('📊 Syncing to MySQL...');
@@ -297,7 +543,7 @@ export const updateSchema = async (req: AuthRequest, res: Response): Promise<voi
       console.log('📊 Relationships to sync:', relationships.length);
       console.log('📊 Database:', project.databaseName);
       
-      const syncResult = await syncSchemaToMySQL(
+      syncResult = await syncSchemaToMySQL(
         {
           host: project.mysqlConfig.host,
           port: project.mysqlConfig.port,
@@ -306,28 +552,112 @@ export const updateSchema = async (req: AuthRequest, res: Response): Promise<voi
         },
         project.databaseName,
         tables,
-        relationships
+        relationships,
+        previousSchema,
+        { allowDestructive: confirmDestructive === true, allowDrift: overwriteDrift === true }
+      );
+    } else if (project.databaseType === 'postgres' && project.postgresConfig) {
+      console.log('📊 Syncing to Postgres...');
+      console.log('📊 Tables to sync:', tables.length);
+      console.log('📊 Database:', project.databaseName);
+
+      syncResult = await syncSchemaToPostgres(
+        {
+          host: project.postgresConfig.host,
+          port: project.postgresConfig.port,
+          user: project.postgresConfig.user,
+          password: project.postgresConfig.password,
+        },
+        project.databaseName,
+        tables,
+        relationships,
+        previousSchema,
+        { allowDestructive: confirmDestructive === true }
+      );
+    } else if (project.databaseType === 'mongodb' && project.mongoConfig?.uri) {
+      console.log('📊 Syncing to MongoDB...');
+      console.log('📊 Collections to sync:', tables.length);
+      console.log('📊 Database:', project.databaseName);
+
+      syncResult = await syncSchemaToMongo(
+        { uri: project.mongoConfig.uri },
+        project.databaseName,
+        tables,
+        relationships,
+        previousSchema,
+        { allowDestructive: confirmDestructive === true }
       );
+    } else if (project.databaseType === 'sqlite' && project.sqliteConfig?.filename) {
+      console.log('📊 Syncing to SQLite...');
+      console.log('📊 Tables to sync:', tables.length);
+      console.log('📊 Database file:', project.sqliteConfig.filename);
+
+      syncResult = await syncSchemaToSqlite(
+        project.sqliteConfig.filename,
+        tables,
+        relationships,
+        previousSchema,
+        { allowDestructive: confirmDestructive === true }
+      );
+    } else {
+      console.log('⚠️ Skipping schema sync - no database configured');
+      console.log('⚠️ Database type:', project.databaseType);
+    }
+
+    if (syncResult) {
+      // Drift and destructive changes are only applied once the user has decided what to keep
+      if (syncResult.blocked) {
+        res.status(409).json({
+          success: false,
+          message: syncResult.message,
+          data: syncResult.drift ? { drift: syncResult.drift } : { statements: syncResult.statements },
+        });
+        return;
+      }
 
       if (!syncResult.success) {
-        console.error('❌ MySQL sync failed:', syncResult.message);
+        console.error('❌ Schema sync failed:', syncResult.message);
         console.error('❌ Details:', syncResult.details);
       } else {
-        console.log('✅ MySQL sync success:', syncResult.details);
+        console.log('✅ Schema sync success:', syncResult.details);
+        project.appliedSchemaData = { tables, relationships };
+
+        if (syncResult.statements && syncResult.statements.length > 0) {
+          // The database already changed, so a lost history entry must not fail the save
+          try {
+            await recordMigration({
+              projectId: project._id,
+              authorId: userId as string,
+              statements: syncResult.statements,
+              rollbackStatements: syncResult.rollbackStatements || [],
+              schemaData: { tables, relationships },
+              previousSchemaData: previousSchema,
+            });
+          } catch (error) {
+            console.error('Record migration error:', error);
+          }
+        }
       }
-    } else {
-      console.log('⚠️ Skipping MySQL sync - not a MySQL project or no config');
-      console.log('⚠️ Database type:', project.databaseType);
-      console.log('⚠️ Has MySQL config:', !!project.mysqlConfig);
     }
 
-    // Update schema in MongoDB (includes relationships)
+    // Update schema in MongoDB (includes relationships); the design is kept even when
+    // the database rejected it, so the sync report can point at what needs fixing
     project.schemaData = { tables, relationships };
     await project.save();
 
+    if (syncResult && !syncResult.success) {
+      res.status(502).json({
+        success: false,
+        message: `Schema saved but not applied. ${syncResult.message}`,
+        data: { syncReport: syncResult.report },
+      });
+      return;
+    }
+
     res.status(200).json({
       success: true,
-      message: 'Schema updated and synced to MySQL',
+      message: syncResult ? syncResult.message : 'Schema updated',
+      data: { syncReport: syncResult?.report },
     });
   } catch (error) {
     console.error('Update schema error:', error);
@@ -338,3 +668,271 @@ export const updateSchema = async (req: AuthRequest, res: Response): Promise<voi
   }
 };
 
+// @desc    Compare the last applied schema with the live database
+// @route   GET /api/projects/:id/drift
+// @access  Private
+export const getSchemaDrift = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId;
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    if (project.databaseType !== 'mysql' || !project.mysqlConfig) {
+      res.status(400).json({
+        success: false,
+        message: 'Drift detection is only available for MySQL projects',
+      });
+      return;
+    }
+
+    const driftResult = await detectMySQLDrift(
+      {
+        host: project.mysqlConfig.host,
+        port: project.mysqlConfig.port,
+        user: project.mysqlConfig.user,
+        password: project.mysqlConfig.password,
+      },
+      project.databaseName,
+      getAppliedSchema(project)
+    );
+
+    if (!driftResult.success) {
+      res.status(400).json({
+        success: false,
+        message: driftResult.message,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: driftResult.message,
+      data: { drift: driftResult.drift },
+    });
+  } catch (error) {
+    console.error('Schema drift error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while checking schema drift',
+    });
+  }
+};
+
+// @desc    Preview the DDL statements a schema update would run (dry run)
+// @route   POST /api/projects/:id/schema/plan
+// @access  Private
+export const previewSchemaMigration = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId;
+    const { tables, relationships = [] } = req.body;
+
+    if (!Array.isArray(tables)) {
+      res.status(400).json({
+        success: false,
+        message: 'Tables must be an array',
+      });
+      return;
+    }
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    if (project.databaseType !== 'mysql' || !project.mysqlConfig) {
+      res.status(400).json({
+        success: false,
+        message: 'Migration plans are only available for MySQL projects',
+      });
+      return;
+    }
+
+    const planResult = await planSchemaMigration(
+      {
+        host: project.mysqlConfig.host,
+        port: project.mysqlConfig.port,
+        user: project.mysqlConfig.user,
+        password: project.mysqlConfig.password,
+      },
+      project.databaseName,
+      tables,
+      relationships,
+      getAppliedSchema(project)
+    );
+
+    if (!planResult.success || !planResult.statements) {
+      res.status(400).json({
+        success: false,
+        message: planResult.message,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        statements: planResult.statements,
+        destructive: planResult.statements.some(statement => statement.destructive),
+      },
+    });
+  } catch (error) {
+    console.error('Preview schema migration error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while planning schema migration',
+    });
+  }
+};
+
+// @desc    Replace the canvas with the structure of the live MySQL database
+// @route   POST /api/projects/:id/import
+// @access  Private
+export const importProjectSchema = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId;
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    if (project.databaseType !== 'mysql' || !project.mysqlConfig) {
+      res.status(400).json({
+        success: false,
+        message: 'Import is only available for MySQL projects',
+      });
+      return;
+    }
+
+    const importResult = await importMySQLSchema(
+      {
+        host: project.mysqlConfig.host,
+        port: project.mysqlConfig.port,
+        user: project.mysqlConfig.user,
+        password: project.mysqlConfig.password,
+      },
+      project.databaseName,
+      {
+        tables: project.schemaData?.tables || [],
+        relationships: project.schemaData?.relationships || [],
+      } as SchemaData
+    );
+
+    if (!importResult.success || !importResult.schemaData) {
+      res.status(400).json({
+        success: false,
+        message: importResult.message,
+      });
+      return;
+    }
+
+    // The imported schema is what the database holds
+    project.schemaData = importResult.schemaData;
+    project.appliedSchemaData = importResult.schemaData;
+    await project.save();
+
+    res.status(200).json({
+      success: true,
+      message: importResult.message,
+      data: { schemaData: project.schemaData },
+    });
+  } catch (error) {
+    console.error('Import project schema error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while importing schema',
+    });
+  }
+};
+
+// @desc    Parse a SQL DDL script, DBML document or Mermaid erDiagram into canvas tables
+//          (not saved until the canvas syncs)
+// @route   POST /api/projects/:id/import/:format
+// @access  Private
+export const importProjectText = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id, format } = req.params;
+    const userId = req.userId;
+
+    const validationResult = importTextSchema.safeParse({ format, text: req.body?.text });
+
+    if (!validationResult.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: validationResult.error.issues,
+      });
+      return;
+    }
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      res.status(404).json({
+        success: false,
+        message: 'Project not found',
+      });
+      return;
+    }
+
+    if (project.databaseType === 'mongodb') {
+      res.status(400).json({
+        success: false,
+        message: 'Schema import is only available for SQL projects',
+      });
+      return;
+    }
+
+    const importResult = importSchemaText(validationResult.data.format, validationResult.data.text, {
+      tables: project.schemaData?.tables || [],
+      relationships: project.schemaData?.relationships || [],
+    } as SchemaData);
+
+    if (!importResult.success || !importResult.schemaData) {
+      res.status(400).json({
+        success: false,
+        message: importResult.message,
+        data: { warnings: importResult.warnings },
+      });
+      return;
+    }
+
+    console.log(`📥 Parsed ${format} text: ${importResult.message}`);
+
+    res.status(200).json({
+      success: true,
+      message: importResult.message,
+      data: {
+        schemaData: importResult.schemaData,
+        warnings: importResult.warnings,
+      },
+    });
+  } catch (error) {
+    console.error('Import schema text error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while importing schema',
+    });
+  }
+};
@@ -7,6 +7,9 @@ import connectDB from './config/database';
 import authRoutes from './routes/auth.routes';
 import projectRoutes from './routes/project.routes';
 import dataRoutes from './routes/data.routes';
+import documentRoutes from './routes/document.routes';
+import generatedApiRoutes from './routes/generated-api.routes';
+import graphqlRoutes from './routes/graphql.routes';
 
 // Load environment variables
 dotenv.config();
@@ -58,7 +61,8 @@ app.use(cors({
   },
   credentials: true,
 }));
-app.use(express.json());
+// SQL scripts uploaded for import can be larger than the default 100kb
+app.use(express.json({ limit: '5mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 // Connect to MongoDB on first request (for serverless)
@@ -80,6 +84,9 @@ app.use(async (req, res, next) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/projects', projectRoutes);
 app.use('/api/data', dataRoutes);
+app.use('/api/documents', documentRoutes);
+app.use('/api/generated', generatedApiRoutes);
+app.use('/api/graphql', graphqlRoutes);
 
 // Health check route
 app.get('/api/health', (req, res) => {
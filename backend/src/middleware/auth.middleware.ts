@@ -1,14 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { ApiKeyScope } from '../models/ApiKey.model';
+import { isApiKey, verifyApiKey } from '../services/api-key.service';
+
+// Set when a request is authenticated with a project API key instead of a user JWT
+export interface ApiKeyAuth {
+  id: string;
+  projectId: string;
+  scopes: ApiKeyScope[];
+}
 
 export interface AuthRequest extends Request {
   userId?: string;
+  apiKey?: ApiKeyAuth;
 }
 
 interface JwtPayload {
   userId: string;
 }
 
+// Accepts a user JWT (`Authorization: Bearer <jwt>`) or a project API key, sent either as
+// `Authorization: Bearer ndb_...` or in the `X-API-Key` header. Requests made with an API
+// key act as the key's owner; `requireScope` and `requireUser` decide what they may reach.
 export const authenticate = async (
   req: AuthRequest,
   res: Response,
@@ -17,8 +30,32 @@ export const authenticate = async (
   try {
     // Get token from header
     const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const apiKeyHeader = req.headers['x-api-key'];
+    const bearer = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : undefined;
+    const key = typeof apiKeyHeader === 'string' ? apiKeyHeader : bearer && isApiKey(bearer) ? bearer : undefined;
+
+    if (key) {
+      const result = await verifyApiKey(key);
+      if (!result.apiKey) {
+        res.status(401).json({
+          success: false,
+          message: result.message,
+        });
+        return;
+      }
+
+      req.userId = result.apiKey.userId.toString();
+      req.apiKey = {
+        id: result.apiKey._id.toString(),
+        projectId: result.apiKey.projectId.toString(),
+        scopes: result.apiKey.scopes,
+      };
+
+      next();
+      return;
+    }
+
+    if (!bearer) {
       res.status(401).json({
         success: false,
         message: 'Access denied. No token provided.',
@@ -26,17 +63,15 @@ export const authenticate = async (
       return;
     }
 
-    const token = authHeader.split(' ')[1];
-
     // Verify token
     const decoded = jwt.verify(
-      token,
+      bearer,
       process.env.JWT_SECRET || 'fallback-secret'
     ) as JwtPayload;
 
     // Add userId to request
     req.userId = decoded.userId;
-    
+
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -46,7 +81,7 @@ export const authenticate = async (
       });
       return;
     }
-    
+
     if (error instanceof jwt.JsonWebTokenError) {
       res.status(401).json({
         success: false,
@@ -61,3 +96,44 @@ export const authenticate = async (
     });
   }
 };
+
+// Let API keys through only for their own project (`:projectId` or `:id`) and with the given scope.
+// User JWTs are not restricted.
+export const requireScope = (scope: ApiKeyScope) => (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (!req.apiKey) {
+    next();
+    return;
+  }
+
+  const projectId = req.params.projectId || req.params.id;
+  if (projectId !== req.apiKey.projectId) {
+    res.status(403).json({
+      success: false,
+      message: 'This API key does not belong to the requested project',
+    });
+    return;
+  }
+
+  if (!req.apiKey.scopes.includes(scope)) {
+    res.status(403).json({
+      success: false,
+      message: `This API key is missing the '${scope}' scope`,
+    });
+    return;
+  }
+
+  next();
+};
+
+// Reject API keys on routes that need a signed-in user, such as project and key management
+export const requireUser = (req: AuthRequest, res: Response, next: NextFunction): void => {
+  if (req.apiKey) {
+    res.status(403).json({
+      success: false,
+      message: 'This endpoint is not available to API keys',
+    });
+    return;
+  }
+
+  next();
+};
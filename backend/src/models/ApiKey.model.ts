@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ApiKeyScope = 'schema:read' | 'data:read' | 'data:write';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['schema:read', 'data:read', 'data:write'];
+
+export interface IApiKey extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  projectId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  // SHA-256 of the secret; the secret itself is only shown once, when the key is created
+  keyHash: string;
+  // Start of the key, shown so users can tell their keys apart
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Key name is required'],
+      trim: true,
+      maxlength: [100, 'Key name cannot exceed 100 characters'],
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    scopes: {
+      type: [String],
+      enum: API_KEY_SCOPES,
+      required: true,
+    },
+    expiresAt: Date,
+    lastUsedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+apiKeySchema.index({ projectId: 1, createdAt: -1 });
+
+const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
+
+export default ApiKey;
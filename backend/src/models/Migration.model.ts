@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { SchemaData } from '../types/schema';
+
+export type MigrationStatus = 'applied' | 'rolled_back';
+
+export interface IMigration extends Document {
+  _id: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  // Sequential per project, starting at 1
+  version: number;
+  upSql: string[];
+  downSql: string[];
+  changes: string[];
+  // Canvas after (schemaData) and before (previousSchemaData) the migration ran
+  schemaData: SchemaData;
+  previousSchemaData: SchemaData;
+  author: mongoose.Types.ObjectId;
+  status: MigrationStatus;
+  rolledBackAt?: Date;
+  rolledBackBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const schemaSnapshot = {
+  tables: {
+    type: Array,
+    default: [],
+  },
+  relationships: {
+    type: Array,
+    default: [],
+  },
+};
+
+const migrationSchema = new Schema<IMigration>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    upSql: {
+      type: [String],
+      default: [],
+    },
+    downSql: {
+      type: [String],
+      default: [],
+    },
+    changes: {
+      type: [String],
+      default: [],
+    },
+    schemaData: schemaSnapshot,
+    previousSchemaData: schemaSnapshot,
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['applied', 'rolled_back'],
+      default: 'applied',
+    },
+    rolledBackAt: Date,
+    rolledBackBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One version number per project
+migrationSchema.index({ projectId: 1, version: -1 }, { unique: true });
+
+const Migration = mongoose.model<IMigration>('Migration', migrationSchema);
+
+export default Migration;
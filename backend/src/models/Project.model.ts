@@ -1,6 +1,51 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
-export type DatabaseType = 'mysql' | 'mongodb';
+export type DatabaseType = 'mysql' | 'postgres' | 'mongodb' | 'sqlite';
+
+// Canvas schema (tables/collections and their structure)
+export type ProjectSchemaData = {
+  tables: Array<{
+    id: string;
+    name: string;
+    position: { x: number; y: number };
+    columns: Array<{
+      id: string;
+      name: string;
+      type: string;
+      isPrimaryKey: boolean;
+      isNullable: boolean;
+      isUnique?: boolean;
+      isAutoIncrement?: boolean;
+      defaultValue?: string;
+      checkConstraint?: string;
+      enumValues?: string[];
+      length?: number;
+      precision?: number;
+      scale?: number;
+      isUnsigned?: boolean;
+      isZerofill?: boolean;
+      charset?: string;
+      collation?: string;
+    }>;
+    indexes?: Array<{
+      id: string;
+      name: string;
+      columns: Array<{ columnId: string; order?: 'ASC' | 'DESC'; length?: number }>;
+      isUnique?: boolean;
+      isFulltext?: boolean;
+    }>;
+  }>;
+  relationships?: Array<{
+    id: string;
+    sourceTableId: string;
+    sourceColumnId: string;
+    targetTableId: string;
+    targetColumnId: string;
+    additionalColumns?: Array<{ sourceColumnId: string; targetColumnId: string }>;
+    onDelete?: string;
+    onUpdate?: string;
+  }>;
+};
 
 export interface IProject extends Document {
   _id: mongoose.Types.ObjectId;
@@ -15,38 +60,25 @@ export interface IProject extends Document {
     user: string;
     password: string;
   };
+  // Postgres connection details (same shape as mysqlConfig)
+  postgresConfig?: {
+    host: string;
+    port: number;
+    user: string;
+    password: string;
+  };
   // MongoDB connection details
   mongoConfig?: {
     uri: string;
   };
-  // Schema data (tables/collections and their structure)
-  schemaData: {
-    tables: Array<{
-      id: string;
-      name: string;
-      position: { x: number; y: number };
-      columns: Array<{
-        id: string;
-        name: string;
-        type: string;
-        isPrimaryKey: boolean;
-        isNullable: boolean;
-        isUnique?: boolean;
-        isAutoIncrement?: boolean;
-        defaultValue?: string;
-        checkConstraint?: string;
-      }>;
-    }>;
-    relationships?: Array<{
-      id: string;
-      sourceTableId: string;
-      sourceColumnId: string;
-      targetTableId: string;
-      targetColumnId: string;
-      onDelete?: string;
-      onUpdate?: string;
-    }>;
+  // SQLite database file, created and managed by the backend
+  sqliteConfig?: {
+    filename: string;
   };
+  // Schema data (tables/collections and their structure), as designed on the canvas
+  schemaData: ProjectSchemaData;
+  // Schema last applied to the database; syncs diff against it. Unset on projects saved before it was tracked
+  appliedSchemaData?: ProjectSchemaData;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -62,7 +94,7 @@ const projectSchema = new Schema<IProject>(
     },
     databaseType: {
       type: String,
-      enum: ['mysql', 'mongodb'],
+      enum: ['mysql', 'postgres', 'mongodb', 'sqlite'],
       required: [true, 'Database type is required'],
     },
     databaseName: {
@@ -81,9 +113,18 @@ const projectSchema = new Schema<IProject>(
       user: String,
       password: String,
     },
+    postgresConfig: {
+      host: String,
+      port: Number,
+      user: String,
+      password: String,
+    },
     mongoConfig: {
       uri: String,
     },
+    sqliteConfig: {
+      filename: String,
+    },
     schemaData: {
       tables: {
         type: Array,
@@ -94,6 +135,16 @@ const projectSchema = new Schema<IProject>(
         default: [],
       },
     },
+    appliedSchemaData: {
+      tables: {
+        type: Array,
+        default: undefined,
+      },
+      relationships: {
+        type: Array,
+        default: undefined,
+      },
+    },
   },
   {
     timestamps: true,
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { register, login, getMe } from '../controllers/auth.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, requireUser } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -9,6 +9,6 @@ router.post('/register', register);
 router.post('/login', login);
 
 // Protected routes
-router.get('/me', authenticate, getMe);
+router.get('/me', authenticate, requireUser, getMe);
 
 export default router;
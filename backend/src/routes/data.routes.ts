@@ -1,5 +1,5 @@
 import express from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, requireScope, requireUser } from '../middleware/auth.middleware';
 import {
   getTableData,
   insertRow,
@@ -7,6 +7,7 @@ import {
   deleteRow,
   executeQuery,
   resetAutoIncrement,
+  applyBatch,
 } from '../controllers/data.controller';
 
 const router = express.Router();
@@ -14,22 +15,25 @@ const router = express.Router();
 // All routes require authentication
 router.use(authenticate);
 
-// Execute custom query
-router.post('/:projectId/query', executeQuery);
+// Execute custom query; raw SQL can reach beyond the project's rows, so API keys are refused
+router.post('/:projectId/query', requireUser, executeQuery);
 
 // Get all data from a table
-router.get('/:projectId/:tableName', getTableData);
+router.get('/:projectId/:tableName', requireScope('data:read'), getTableData);
 
 // Insert a new row
-router.post('/:projectId/:tableName', insertRow);
+router.post('/:projectId/:tableName', requireScope('data:write'), insertRow);
+
+// Apply inserts, updates and deletes in one transaction
+router.post('/:projectId/:tableName/batch', requireScope('data:write'), applyBatch);
 
 // Reset AUTO_INCREMENT for a specific table
-router.post('/:projectId/:tableName/reset-auto-increment', resetAutoIncrement);
+router.post('/:projectId/:tableName/reset-auto-increment', requireScope('data:write'), resetAutoIncrement);
 
-// Update a row
-router.put('/:projectId/:tableName/:rowId', updateRow);
+// Update a row, identified by the primary key values in the body
+router.put('/:projectId/:tableName', requireScope('data:write'), updateRow);
 
-// Delete a row
-router.delete('/:projectId/:tableName/:rowId', deleteRow);
+// Delete a row, identified by the primary key values in the body
+router.delete('/:projectId/:tableName', requireScope('data:write'), deleteRow);
 
 export default router;
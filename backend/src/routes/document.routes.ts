@@ -0,0 +1,27 @@
+import express from 'express';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
+import {
+  getDocuments,
+  createDocument,
+  editDocument,
+  removeDocument,
+} from '../controllers/document.controller';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get documents of a collection (?lookup=true joins referenced documents)
+router.get('/:projectId/:collectionName', requireScope('data:read'), getDocuments);
+
+// Insert a new document
+router.post('/:projectId/:collectionName', requireScope('data:write'), createDocument);
+
+// Update a document
+router.put('/:projectId/:collectionName/:documentId', requireScope('data:write'), editDocument);
+
+// Delete a document
+router.delete('/:projectId/:collectionName/:documentId', requireScope('data:write'), removeDocument);
+
+export default router;
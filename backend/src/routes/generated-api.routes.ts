@@ -0,0 +1,30 @@
+import express from 'express';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
+import {
+  listRows,
+  getRow,
+  createRow,
+  updateRow,
+  deleteRow,
+  getOpenApiDocument,
+} from '../controllers/generated-api.controller';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// OpenAPI document of the project's API
+router.get('/:projectId/openapi.json', requireScope('schema:read'), getOpenApiDocument);
+
+// List and create rows
+router.get('/:projectId/:table', requireScope('data:read'), listRows);
+router.post('/:projectId/:table', requireScope('data:write'), createRow);
+
+// Get, update and delete a row by primary key
+router.get('/:projectId/:table/:id', requireScope('data:read'), getRow);
+router.patch('/:projectId/:table/:id', requireScope('data:write'), updateRow);
+router.put('/:projectId/:table/:id', requireScope('data:write'), updateRow);
+router.delete('/:projectId/:table/:id', requireScope('data:write'), deleteRow);
+
+export default router;
@@ -0,0 +1,16 @@
+import express from 'express';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
+import { executeGraphQL, getGraphQLSchema } from '../controllers/graphql.controller';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Schema of the project's GraphQL API, in SDL
+router.get('/:projectId/schema', requireScope('schema:read'), getGraphQLSchema);
+
+// Run a query or mutation; mutations also need the data:write scope, checked by the controller
+router.post('/:projectId', requireScope('data:read'), executeGraphQL);
+
+export default router;
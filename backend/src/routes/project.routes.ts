@@ -5,26 +5,54 @@ import {
   getProject,
   deleteProject,
   testMySQLConnectionEndpoint,
+  testPostgresConnectionEndpoint,
+  testMongoConnectionEndpoint,
   updateSchema,
+  previewSchemaMigration,
+  importProjectSchema,
+  importProjectText,
+  getSchemaDrift,
 } from '../controllers/project.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { getMigrations, rollbackMigration } from '../controllers/migration.controller';
+import { exportSchema, generateOrmCode } from '../controllers/export.controller';
+import { getApiKeys, createApiKey, deleteApiKey } from '../controllers/api-key.controller';
+import { authenticate, requireScope, requireUser } from '../middleware/auth.middleware';
 
 const router = Router();
 
-// All routes are protected
+// All routes are protected; API keys can only read the schema of their own project
 router.use(authenticate);
 
-// Test MySQL connection
-router.post('/test-mysql', testMySQLConnectionEndpoint);
+// Test database connections
+router.post('/test-mysql', requireUser, testMySQLConnectionEndpoint);
+router.post('/test-postgres', requireUser, testPostgresConnectionEndpoint);
+router.post('/test-mongodb', requireUser, testMongoConnectionEndpoint);
 
 // Project CRUD
-router.post('/', createProject);
-router.get('/', getProjects);
-router.get('/:id', getProject);
-router.delete('/:id', deleteProject);
+router.post('/', requireUser, createProject);
+router.get('/', requireUser, getProjects);
+router.get('/:id', requireScope('schema:read'), getProject);
+router.delete('/:id', requireUser, deleteProject);
 
 // Schema management
-router.put('/:id/schema', updateSchema);
+router.put('/:id/schema', requireUser, updateSchema);
+router.post('/:id/schema/plan', requireUser, previewSchemaMigration);
+router.post('/:id/import', requireUser, importProjectSchema);
+router.post('/:id/import/:format', requireUser, importProjectText);
+router.get('/:id/drift', requireScope('schema:read'), getSchemaDrift);
+
+// Migration history
+router.get('/:id/migrations', requireScope('schema:read'), getMigrations);
+router.post('/:id/migrations/:version/rollback', requireUser, rollbackMigration);
+
+// Schema export
+router.get('/:id/export/:format', requireScope('schema:read'), exportSchema);
+router.get('/:id/generate/:target', requireScope('schema:read'), generateOrmCode);
+
+// API keys
+router.get('/:id/api-keys', requireUser, getApiKeys);
+router.post('/:id/api-keys', requireUser, createApiKey);
+router.delete('/:id/api-keys/:keyId', requireUser, deleteApiKey);
 
 export default router;
 
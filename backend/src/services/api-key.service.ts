@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import ApiKey, { IApiKey } from '../models/ApiKey.model';
+
+// Every key starts with this marker, so `authenticate` can tell keys and JWTs apart
+export const API_KEY_PREFIX = 'ndb_';
+
+export const isApiKey = (token: string): boolean => token.startsWith(API_KEY_PREFIX);
+
+// Keys are long random strings, so a plain SHA-256 is enough to store them safely
+export const hashApiKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+// Create a new secret with its hash and the prefix shown in listings
+export const generateApiKey = (): { key: string; keyHash: string; prefix: string } => {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, API_KEY_PREFIX.length + 6) };
+};
+
+// Look up the key of a secret and record its use; expired and unknown keys are rejected
+export const verifyApiKey = async (key: string): Promise<{ success: boolean; message: string; apiKey?: IApiKey }> => {
+  const apiKey = await ApiKey.findOne({ keyHash: hashApiKey(key) });
+  if (!apiKey) {
+    return { success: false, message: 'Invalid API key' };
+  }
+
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+    return { success: false, message: 'API key expired' };
+  }
+
+  // Not awaited: a failed timestamp update should not fail the request
+  ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date() }).catch(error => {
+    console.error('API key last used update error:', error);
+  });
+
+  return { success: true, message: 'API key valid', apiKey };
+};
@@ -0,0 +1,345 @@
+import Project, { IProject } from '../models/Project.model';
+import { SchemaData } from '../types/schema';
+import { buildOrmModel, OrmColumn, OrmEntity, isBooleanType, isIntegerType } from '../utils/orm/orm-model';
+import {
+  FILTER_OPERATORS,
+  FilterOperator,
+  QueryFilter,
+  QuerySort,
+  buildSelectQuery,
+  buildCountQuery,
+  buildSelectByKeyQuery,
+  buildInsertQuery,
+  buildUpdateQuery,
+  buildDeleteQuery,
+  SqlStatement,
+} from '../utils/sql-query';
+import { SQLDialect } from './schema-export.service';
+import { executeMySQLQuery, executeMySQLTransaction } from './mysql.service';
+import { executePostgresQuery, executePostgresTransaction } from './postgres.service';
+import { executeSqliteQuery, executeSqliteTransaction } from './sqlite.service';
+
+export interface ProjectDatabase {
+  dialect: SQLDialect;
+  execute: (query: string, params?: unknown[]) => Promise<{ success: boolean; message: string; result?: unknown }>;
+  // Runs statements in one transaction
+  executeTransaction: (
+    statements: SqlStatement[]
+  ) => Promise<{ success: boolean; message: string; results?: unknown[]; failedIndex?: number }>;
+}
+
+export type Row = Record<string, unknown>;
+
+type WriteResult = { insertId?: number; affectedRows?: number };
+
+export interface ListQuery {
+  filters: QueryFilter[];
+  sort: QuerySort[];
+  page: number;
+  limit: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 1000;
+
+// Query string keys that are not column filters
+export const RESERVED_QUERY_PARAMS = ['page', 'limit', 'sort'];
+
+// Query runner for the project's SQL database, or null for MongoDB projects and missing configs
+const getProjectDatabase = (project: IProject): ProjectDatabase | null => {
+  const { databaseName } = project;
+
+  if (project.databaseType === 'sqlite' && project.sqliteConfig?.filename) {
+    const { filename } = project.sqliteConfig;
+    return {
+      dialect: 'sqlite',
+      execute: (query, params) => executeSqliteQuery(filename, query, params),
+      executeTransaction: statements => executeSqliteTransaction(filename, statements),
+    };
+  }
+
+  if (project.databaseType === 'postgres' && project.postgresConfig) {
+    const { host, port, user, password } = project.postgresConfig;
+    const config = { host, port, user, password };
+    return {
+      dialect: 'postgres',
+      execute: (query, params) => executePostgresQuery(config, databaseName, query, params),
+      executeTransaction: statements => executePostgresTransaction(config, databaseName, statements),
+    };
+  }
+
+  if (project.databaseType === 'mysql' && project.mysqlConfig) {
+    const { host, port, user, password } = project.mysqlConfig;
+    const config = { host, port, user, password };
+    return {
+      dialect: 'mysql',
+      execute: (query, params) => executeMySQLQuery(config, databaseName, query, params),
+      executeTransaction: statements => executeMySQLTransaction(config, databaseName, statements),
+    };
+  }
+
+  return null;
+};
+
+// Load a project owned by the user together with its SQL database, or null when the user
+// does not own it. `database` is null for MongoDB projects and missing configs.
+export const findProjectDatabase = async (
+  projectId: string,
+  userId: string | undefined
+): Promise<{ project: IProject; database: ProjectDatabase | null } | null> => {
+  if (!userId) return null;
+
+  const project = await Project.findOne({ _id: projectId, userId });
+  if (!project) return null;
+
+  return { project, database: getProjectDatabase(project) };
+};
+
+// Canvas schema of a project, with the optional lists filled in
+export const projectSchema = (project: IProject): SchemaData => ({
+  tables: project.schemaData?.tables || [],
+  relationships: project.schemaData?.relationships || [],
+} as SchemaData);
+
+// Find a table by the name it has in the database
+export const findApiEntity = (schema: SchemaData, tableName: string): OrmEntity | undefined =>
+  buildOrmModel(schema).find(entity => entity.tableName === tableName);
+
+// Convert a query string or path value to the type the column is compared with
+export const parseColumnValue = (
+  col: OrmColumn,
+  raw: string
+): { success: true; value: unknown } | { success: false; message: string } => {
+  const { type } = col;
+
+  if (isBooleanType(type)) {
+    if (raw === 'true' || raw === '1') return { success: true, value: true };
+    if (raw === 'false' || raw === '0') return { success: true, value: false };
+    return { success: false, message: `'${col.name}' must be true or false` };
+  }
+
+  const isNumeric = (isIntegerType(type) && type.base !== 'BIGINT' && !type.base.endsWith('SERIAL')) ||
+    /^(FLOAT|DOUBLE|DOUBLE PRECISION|REAL|YEAR)$/.test(type.base);
+  if (isNumeric) {
+    const value = Number(raw);
+    return raw.trim() !== '' && !Number.isNaN(value)
+      ? { success: true, value }
+      : { success: false, message: `'${col.name}' must be a number` };
+  }
+
+  return { success: true, value: raw };
+};
+
+// Parse the path id of a row into its key: one value per primary key column, comma separated
+export const parseRowKey = (
+  entity: OrmEntity,
+  id: string
+): { success: true; key: Record<string, unknown> } | { success: false; message: string } => {
+  if (entity.primaryKey.length === 0) {
+    return { success: false, message: `Table '${entity.tableName}' has no primary key` };
+  }
+
+  const parts = entity.primaryKey.length === 1 ? [id] : id.split(',');
+  if (parts.length !== entity.primaryKey.length) {
+    return {
+      success: false,
+      message: `Expected ${entity.primaryKey.length} key values (${entity.primaryKey.map(col => col.name).join(', ')})`,
+    };
+  }
+
+  const key: Record<string, unknown> = {};
+  for (const [index, col] of entity.primaryKey.entries()) {
+    const parsed = parseColumnValue(col, parts[index]);
+    if (!parsed.success) return parsed;
+    key[col.name] = parsed.value;
+  }
+  return { success: true, key };
+};
+
+// Parse `sort=-created_at,name`: comma separated columns, `-` for descending
+export const parseSort = (
+  entity: OrmEntity,
+  value: unknown
+): { success: true; sort: QuerySort[] } | { success: false; message: string } => {
+  const sort: QuerySort[] = [];
+  if (value === undefined) return { success: true, sort };
+
+  for (const field of String(value).split(',').filter(Boolean)) {
+    const name = field.replace(/^[-+]/, '');
+    if (!entity.columns.some(col => col.name === name)) {
+      return { success: false, message: `Unknown sort column '${name}'` };
+    }
+    sort.push({ column: name, direction: field.startsWith('-') ? 'desc' : 'asc' });
+  }
+  return { success: true, sort };
+};
+
+// Parse column filters of the form `column=value` or `column[op]=value`,
+// checking every column against the table and converting values to its type
+export const parseFilters = (
+  entity: OrmEntity,
+  entries: Array<[string, unknown]>
+): { success: true; filters: QueryFilter[] } | { success: false; message: string } => {
+  const filters: QueryFilter[] = [];
+
+  for (const [param, rawValue] of entries) {
+    const match = param.match(/^([^[\]]+)(?:\[([a-z]+)\])?$/);
+    const col = match ? entity.columns.find(column => column.name === match[1]) : undefined;
+    if (!match || !col) {
+      return { success: false, message: `Unknown filter column '${match?.[1] ?? param}'` };
+    }
+
+    const operator = (match[2] || 'eq') as FilterOperator;
+    if (!FILTER_OPERATORS.includes(operator)) {
+      return { success: false, message: `Unknown filter operator '${operator}'` };
+    }
+    if (operator === 'null' || operator === 'notnull') {
+      filters.push({ column: col.name, operator });
+      continue;
+    }
+
+    // Repeated parameters arrive as an array; `in` and `between` also take comma separated lists
+    const raw = Array.isArray(rawValue) ? rawValue.map(String) : [String(rawValue)];
+    const rawValues = operator === 'in' || operator === 'between' ? raw.flatMap(value => value.split(',')) : raw;
+    if (operator === 'between' && rawValues.length !== 2) {
+      return { success: false, message: `'${col.name}[between]' takes two values` };
+    }
+    if (operator !== 'in' && operator !== 'between' && rawValues.length !== 1) {
+      return { success: false, message: `'${param}' can only be given once` };
+    }
+
+    const values: unknown[] = [];
+    for (const value of rawValues) {
+      // LIKE patterns are text even on numeric columns
+      const parsed = operator === 'like' ? { success: true as const, value } : parseColumnValue(col, value);
+      if (!parsed.success) return parsed;
+      values.push(parsed.value);
+    }
+
+    filters.push({
+      column: col.name,
+      operator,
+      value: operator === 'in' || operator === 'between' ? values : values[0],
+    });
+  }
+
+  return { success: true, filters };
+};
+
+// Parse `page`, `limit`, `sort` and column filters of the generated REST API
+export const parseListQuery = (
+  entity: OrmEntity,
+  query: Record<string, unknown>
+): { success: true; listQuery: ListQuery } | { success: false; message: string } => {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+
+  if (!Number.isInteger(page) || page < 1) {
+    return { success: false, message: 'page must be a positive integer' };
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { success: false, message: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const sort = parseSort(entity, query.sort);
+  if (!sort.success) return sort;
+
+  const filters = parseFilters(entity, Object.entries(query).filter(([param]) => !RESERVED_QUERY_PARAMS.includes(param)));
+  if (!filters.success) return filters;
+
+  return { success: true, listQuery: { filters: filters.filters, sort: sort.sort, page, limit } };
+};
+
+// Fetch one page of rows and the number of rows matching the filters
+export const fetchRows = async (
+  database: ProjectDatabase,
+  entity: OrmEntity,
+  options: { filters: QueryFilter[]; sort: QuerySort[]; limit: number; offset: number }
+): Promise<{ success: boolean; message: string; rows?: Row[]; total?: number }> => {
+  const count = buildCountQuery(database.dialect, entity.tableName, options.filters);
+  const countResult = await database.execute(count.query, count.params);
+  if (!countResult.success) return countResult;
+
+  const select = buildSelectQuery(database.dialect, entity.tableName, options);
+  const result = await database.execute(select.query, select.params);
+  if (!result.success) return result;
+
+  // COUNT(*) comes back as a string from Postgres and as a number from MySQL and SQLite
+  const total = Number((countResult.result as Array<{ total: number | string }>)[0]?.total ?? 0);
+  return { success: true, message: result.message, rows: result.result as Row[], total };
+};
+
+// Fetch a row by its key; `row` is missing when no row matches
+export const fetchRowByKey = async (
+  database: ProjectDatabase,
+  entity: OrmEntity,
+  key: Row
+): Promise<{ success: boolean; message: string; row?: Row }> => {
+  const { query, params } = buildSelectByKeyQuery(database.dialect, entity.tableName, key);
+  const result = await database.execute(query, params);
+  if (!result.success) return result;
+  return { success: true, message: result.message, row: (result.result as Row[])[0] };
+};
+
+// Insert validated values and return the stored row, with generated and default columns filled in
+export const insertRow = async (
+  database: ProjectDatabase,
+  entity: OrmEntity,
+  values: Row
+): Promise<{ success: boolean; message: string; row?: Row }> => {
+  const { query, params } = buildInsertQuery(database.dialect, entity.tableName, values);
+  const result = await database.execute(query, params);
+  if (!result.success) return result;
+
+  if (database.dialect === 'postgres') {
+    return { success: true, message: 'Row created', row: (result.result as Row[])[0] };
+  }
+
+  // Build the key from the values, taking a generated id from insertId
+  const { insertId } = result.result as WriteResult;
+  const key: Row = {};
+  entity.primaryKey.forEach(col => {
+    key[col.name] = values[col.name] ?? (entity.primaryKey.length === 1 && insertId ? insertId : undefined);
+  });
+
+  const hasKey = entity.primaryKey.length > 0 && Object.values(key).every(value => value !== undefined);
+  const stored = hasKey ? await fetchRowByKey(database, entity, key) : undefined;
+  return { success: true, message: 'Row created', row: stored?.row ?? values };
+};
+
+// Update the row matching the key and return it; `row` is missing when no row matches
+export const updateRowByKey = async (
+  database: ProjectDatabase,
+  entity: OrmEntity,
+  key: Row,
+  values: Row
+): Promise<{ success: boolean; message: string; row?: Row }> => {
+  const { query, params } = buildUpdateQuery(database.dialect, entity.tableName, values, key);
+  const result = await database.execute(query, params);
+  if (!result.success) return result;
+
+  // Postgres returns the updated rows; elsewhere the row is read back under its possibly changed key
+  if (database.dialect === 'postgres') {
+    return { success: true, message: 'Row updated', row: (result.result as Row[])[0] };
+  }
+  if (!(result.result as WriteResult).affectedRows) {
+    return { success: true, message: 'Row not found' };
+  }
+
+  const newKey = { ...key };
+  entity.primaryKey.forEach(col => {
+    if (values[col.name] !== undefined) newKey[col.name] = values[col.name];
+  });
+  return fetchRowByKey(database, entity, newKey);
+};
+
+export const deleteRowByKey = async (
+  database: ProjectDatabase,
+  entity: OrmEntity,
+  key: Row
+): Promise<{ success: boolean; message: string; deleted?: boolean }> => {
+  const { query, params } = buildDeleteQuery(database.dialect, entity.tableName, key);
+  const result = await database.execute(query, params);
+  if (!result.success) return result;
+  return { success: true, message: result.message, deleted: !!(result.result as WriteResult).affectedRows };
+};
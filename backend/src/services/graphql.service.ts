@@ -0,0 +1,503 @@
+import {
+  GraphQLSchema,
+  GraphQLObjectType,
+  GraphQLInputObjectType,
+  GraphQLEnumType,
+  GraphQLScalarType,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLInt,
+  GraphQLFloat,
+  GraphQLString,
+  GraphQLBoolean,
+  GraphQLError,
+  GraphQLFieldConfig,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFieldConfigMap,
+  GraphQLInputFieldConfigMap,
+  GraphQLInputType,
+  Kind,
+  ValueNode,
+  graphql,
+  printSchema,
+  ExecutionResult,
+} from 'graphql';
+import { SchemaData } from '../types/schema';
+import { buildOrmModel, OrmColumn, OrmEntity, OrmRelation, isBooleanType, isIntegerType, camelCase, uniqueName } from '../utils/orm/orm-model';
+import { isOptionalOnInsert, validateRow } from '../utils/row-validation';
+import { FilterOperator, QueryFilter, QuerySort } from '../utils/sql-query';
+import {
+  ProjectDatabase,
+  Row,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  fetchRows,
+  fetchRowByKey,
+  insertRow,
+  updateRowByKey,
+  deleteRowByKey,
+} from './generated-api.service';
+
+// GraphQL API generated from the canvas: an object type per table with its relations,
+// Relay style connections with filters and ordering, and create/update/delete mutations.
+// Fields use the column property names; resolvers run on the project's SQL database.
+
+export interface GraphQLContext {
+  database: ProjectDatabase;
+  // Relation lookups of the current request, so rows sharing a parent query it once
+  cache: Map<string, Promise<Row | undefined>>;
+}
+
+interface ConnectionArgs {
+  first?: number;
+  after?: string;
+  filter?: Record<string, Record<string, unknown> | undefined>;
+  orderBy?: Array<{ field: string; direction: 'ASC' | 'DESC' }>;
+}
+
+// Type names used by the shared types; tables with one of these names get a `Row` suffix
+const RESERVED_TYPE_NAMES = new Set([
+  'Query', 'Mutation', 'PageInfo', 'JSON', 'DateTime', 'SortDirection', 'Int', 'Float', 'String', 'Boolean', 'ID',
+  'IntFilter', 'FloatFilter', 'StringFilter', 'BooleanFilter',
+]);
+
+const literalValue = (ast: ValueNode, variables?: Record<string, unknown> | null): unknown => {
+  switch (ast.kind) {
+    case Kind.STRING:
+    case Kind.BOOLEAN:
+    case Kind.ENUM:
+      return ast.value;
+    case Kind.INT:
+    case Kind.FLOAT:
+      return Number(ast.value);
+    case Kind.OBJECT:
+      return Object.fromEntries(ast.fields.map(field => [field.name.value, literalValue(field.value, variables)]));
+    case Kind.LIST:
+      return ast.values.map(value => literalValue(value, variables));
+    case Kind.VARIABLE:
+      return variables?.[ast.name.value];
+    default:
+      return null;
+  }
+};
+
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Any JSON value',
+  // SQLite and some MySQL setups hand JSON columns back as text
+  serialize: value => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  },
+  parseValue: value => value,
+  parseLiteral: literalValue,
+});
+
+const DateTimeScalar = new GraphQLScalarType({
+  name: 'DateTime',
+  description: 'Date or date-time as an ISO 8601 string',
+  serialize: value => (value instanceof Date ? value.toISOString() : String(value)),
+  parseValue: value => {
+    if (typeof value !== 'string') throw new GraphQLError('DateTime must be a string');
+    return value;
+  },
+  parseLiteral: ast => {
+    if (ast.kind !== Kind.STRING) throw new GraphQLError('DateTime must be a string');
+    return ast.value;
+  },
+});
+
+const SortDirection = new GraphQLEnumType({
+  name: 'SortDirection',
+  values: { ASC: { value: 'ASC' }, DESC: { value: 'DESC' } },
+});
+
+const PageInfo = new GraphQLObjectType({
+  name: 'PageInfo',
+  fields: {
+    hasNextPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    hasPreviousPage: { type: new GraphQLNonNull(GraphQLBoolean) },
+    startCursor: { type: GraphQLString },
+    endCursor: { type: GraphQLString },
+  },
+});
+
+// Comparison input for a scalar; strings also take `like`
+const filterInput = (name: string, scalar: GraphQLScalarType, withLike = false): GraphQLInputObjectType => {
+  const list = new GraphQLList(new GraphQLNonNull(scalar));
+  return new GraphQLInputObjectType({
+    name,
+    fields: {
+      eq: { type: scalar },
+      neq: { type: scalar },
+      ...(scalar !== GraphQLBoolean && {
+        lt: { type: scalar },
+        lte: { type: scalar },
+        gt: { type: scalar },
+        gte: { type: scalar },
+        in: { type: list },
+        between: { type: list, description: 'Two values: from and to, inclusive' },
+      }),
+      ...(withLike && { like: { type: scalar, description: 'SQL LIKE pattern, % matches any text' } }),
+      isNull: { type: GraphQLBoolean },
+    },
+  });
+};
+
+const StringFilter = filterInput('StringFilter', GraphQLString, true);
+
+// Filter input per column scalar; JSON columns cannot be filtered
+const FILTER_INPUTS = new Map<GraphQLScalarType, GraphQLInputObjectType>([
+  [GraphQLInt, filterInput('IntFilter', GraphQLInt)],
+  [GraphQLFloat, filterInput('FloatFilter', GraphQLFloat)],
+  [GraphQLString, StringFilter],
+  [GraphQLBoolean, filterInput('BooleanFilter', GraphQLBoolean)],
+  // Dates are compared as strings by the database
+  [DateTimeScalar, StringFilter],
+]);
+
+// GraphQL scalar of a column. BIGINT and DECIMAL are strings to keep their precision.
+const columnScalar = (col: OrmColumn): GraphQLScalarType => {
+  const { type } = col;
+  if (isBooleanType(type)) return GraphQLBoolean;
+  if ((isIntegerType(type) && type.base !== 'BIGINT' && !type.base.endsWith('SERIAL')) || type.base === 'YEAR') return GraphQLInt;
+  if (/^(FLOAT|DOUBLE|DOUBLE PRECISION|REAL)$/.test(type.base)) return GraphQLFloat;
+  if (/^(DATE|DATETIME|TIMESTAMP|TIMESTAMPTZ)$/.test(type.base)) return DateTimeScalar;
+  if (/^(JSON|JSONB)$/.test(type.base)) return JSONScalar;
+  return GraphQLString;
+};
+
+// Binary values are sent as base64 text
+const outputValue = (value: unknown): unknown => (Buffer.isBuffer(value) ? value.toString('base64') : value);
+
+const encodeCursor = (offset: number): string => Buffer.from(`offset:${offset}`).toString('base64');
+
+const decodeCursor = (cursor: string): number => {
+  const match = Buffer.from(cursor, 'base64').toString().match(/^offset:(\d+)$/);
+  if (!match) throw new GraphQLError(`Invalid cursor '${cursor}'`);
+  return Number(match[1]);
+};
+
+// Input objects use property names; rows and validation use column names
+const toColumnValues = (entity: OrmEntity, input: Record<string, unknown>): Row =>
+  Object.fromEntries(entity.columns
+    .filter(col => input[col.propertyName] !== undefined)
+    .map(col => [col.name, input[col.propertyName]]));
+
+const validated = (entity: OrmEntity, input: Record<string, unknown>, mode: 'create' | 'update'): Row => {
+  const validation = validateRow(entity, toColumnValues(entity, input), mode);
+  if (!validation.success) {
+    throw new GraphQLError(
+      `Invalid ${entity.className}: ${validation.errors.map(issue => `${issue.path.join('.') || 'input'} ${issue.message}`).join('; ')}`,
+      { extensions: { code: 'BAD_USER_INPUT', issues: validation.errors } }
+    );
+  }
+  return validation.values;
+};
+
+const toQueryFilters = (entity: OrmEntity, filter: ConnectionArgs['filter']): QueryFilter[] =>
+  entity.columns.flatMap(col => {
+    const conditions = filter?.[col.propertyName];
+    if (!conditions) return [];
+
+    return Object.entries(conditions)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([operator, value]): QueryFilter => {
+        if (operator === 'isNull') return { column: col.name, operator: value ? 'null' : 'notnull' };
+        if (operator === 'between' && (value as unknown[]).length !== 2) {
+          throw new GraphQLError(`${col.propertyName}.between takes two values`);
+        }
+        return { column: col.name, operator: operator as FilterOperator, value };
+      });
+  });
+
+interface EntityTypes {
+  object: GraphQLObjectType;
+  connection: GraphQLObjectType;
+  connectionArgs: GraphQLFieldConfigArgumentMap;
+}
+
+// Build the executable schema of a canvas
+export const buildProjectGraphQLSchema = (schema: SchemaData): GraphQLSchema => {
+  const entities = buildOrmModel(schema);
+  const types = new Map<OrmEntity, EntityTypes>();
+  const typeName = (entity: OrmEntity) => (RESERVED_TYPE_NAMES.has(entity.className) ? `${entity.className}Row` : entity.className);
+
+  // Page through rows of an entity; `scope` narrows the rows, e.g. to the children of a parent row
+  const resolveConnection = async (entity: OrmEntity, args: ConnectionArgs, context: GraphQLContext, scope: QueryFilter[] = []) => {
+    const first = args.first ?? DEFAULT_PAGE_SIZE;
+    if (first < 0 || first > MAX_PAGE_SIZE) throw new GraphQLError(`first must be between 0 and ${MAX_PAGE_SIZE}`);
+
+    const offset = args.after ? decodeCursor(args.after) + 1 : 0;
+    const sort: QuerySort[] = (args.orderBy || []).map(order => ({
+      column: order.field,
+      direction: order.direction === 'DESC' ? 'desc' : 'asc',
+    }));
+
+    const result = await fetchRows(context.database, entity, {
+      filters: [...scope, ...toQueryFilters(entity, args.filter)],
+      sort,
+      limit: first,
+      offset,
+    });
+    if (!result.success) throw new GraphQLError(result.message);
+
+    const rows = result.rows || [];
+    const total = result.total ?? 0;
+    const edges = rows.map((node, index) => ({ node, cursor: encodeCursor(offset + index) }));
+    return {
+      edges,
+      nodes: rows,
+      totalCount: total,
+      pageInfo: {
+        hasNextPage: offset + rows.length < total,
+        hasPreviousPage: offset > 0,
+        startCursor: edges[0]?.cursor ?? null,
+        endCursor: edges[edges.length - 1]?.cursor ?? null,
+      },
+    };
+  };
+
+  // Single row where `column` equals `value`, cached for the request
+  const resolveOne = (entity: OrmEntity, column: OrmColumn, value: unknown, context: GraphQLContext) => {
+    if (value === null || value === undefined) return null;
+
+    const cacheKey = `${entity.tableName}.${column.name}=${String(value)}`;
+    let lookup = context.cache.get(cacheKey);
+    if (!lookup) {
+      lookup = fetchRowByKey(context.database, entity, { [column.name]: value }).then(result => {
+        if (!result.success) throw new GraphQLError(result.message);
+        return result.row;
+      });
+      context.cache.set(cacheKey, lookup);
+    }
+    return lookup.then(row => row ?? null);
+  };
+
+  const relationField = (relation: OrmRelation): GraphQLFieldConfig<Row, GraphQLContext, ConnectionArgs> => {
+    const { target, foreignKey, referencedColumn } = relation;
+    const targetTypes = types.get(target) as EntityTypes;
+
+    if (relation.kind === 'belongsTo') {
+      return {
+        type: targetTypes.object,
+        resolve: (row, _args, context) => resolveOne(target, referencedColumn, row[foreignKey.name], context),
+      };
+    }
+    if (relation.kind === 'hasOne') {
+      return {
+        type: targetTypes.object,
+        resolve: (row, _args, context) => resolveOne(target, foreignKey, row[referencedColumn.name], context),
+      };
+    }
+    return {
+      type: new GraphQLNonNull(targetTypes.connection),
+      args: targetTypes.connectionArgs,
+      resolve: (row, args, context) => resolveConnection(target, args, context, [
+        { column: foreignKey.name, operator: 'eq', value: row[referencedColumn.name] },
+      ]),
+    };
+  };
+
+  // Object, connection and input types; fields are thunks so relations can point at any table
+  entities.forEach(entity => {
+    const name = typeName(entity);
+    const filterable = entity.columns.filter(col => FILTER_INPUTS.has(columnScalar(col)));
+
+    const object: GraphQLObjectType = new GraphQLObjectType<Row, GraphQLContext>({
+      name,
+      description: `A row of ${entity.tableName}`,
+      fields: () => {
+        const fields: GraphQLFieldConfigMap<Row, GraphQLContext> = {};
+        entity.columns.forEach(col => {
+          const scalar = columnScalar(col);
+          fields[col.propertyName] = {
+            type: col.column.isNullable && !col.column.isPrimaryKey ? scalar : new GraphQLNonNull(scalar),
+            resolve: row => outputValue(row[col.name]),
+          };
+        });
+        entity.relations.forEach(relation => {
+          fields[relation.propertyName] = relationField(relation) as GraphQLFieldConfig<Row, GraphQLContext>;
+        });
+        return fields;
+      },
+    });
+
+    const edge = new GraphQLObjectType({
+      name: `${name}Edge`,
+      fields: {
+        cursor: { type: new GraphQLNonNull(GraphQLString) },
+        node: { type: new GraphQLNonNull(object) },
+      },
+    });
+
+    const connection = new GraphQLObjectType({
+      name: `${name}Connection`,
+      fields: {
+        edges: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(edge))) },
+        nodes: { type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(object))) },
+        pageInfo: { type: new GraphQLNonNull(PageInfo) },
+        totalCount: { type: new GraphQLNonNull(GraphQLInt) },
+      },
+    });
+
+    const connectionArgs: GraphQLFieldConfigArgumentMap = {
+      first: { type: GraphQLInt, description: `Rows per page, ${DEFAULT_PAGE_SIZE} by default and at most ${MAX_PAGE_SIZE}` },
+      after: { type: GraphQLString, description: 'Cursor of the row to start after' },
+    };
+
+    if (filterable.length > 0) {
+      connectionArgs.filter = {
+        type: new GraphQLInputObjectType({
+          name: `${name}Filter`,
+          description: 'Conditions on the columns; all of them must match',
+          fields: Object.fromEntries(filterable.map(col => [
+            col.propertyName,
+            { type: FILTER_INPUTS.get(columnScalar(col)) as GraphQLInputObjectType },
+          ])),
+        }),
+      };
+
+      // Order by enum values carry the column names
+      const fieldEnum = new GraphQLEnumType({
+        name: `${name}Field`,
+        values: Object.fromEntries(filterable.map(col => [col.propertyName, { value: col.name }])),
+      });
+      connectionArgs.orderBy = {
+        type: new GraphQLList(new GraphQLNonNull(new GraphQLInputObjectType({
+          name: `${name}OrderBy`,
+          fields: {
+            field: { type: new GraphQLNonNull(fieldEnum) },
+            direction: { type: SortDirection, defaultValue: 'ASC' },
+          },
+        }))),
+      };
+    }
+
+    types.set(entity, { object, connection, connectionArgs });
+  });
+
+  const queryFields: GraphQLFieldConfigMap<unknown, GraphQLContext> = {};
+  const mutationFields: GraphQLFieldConfigMap<unknown, GraphQLContext> = {};
+  const takenQueryFields = new Set<string>();
+
+  entities.forEach(entity => {
+    const name = typeName(entity);
+    const { object, connection, connectionArgs } = types.get(entity) as EntityTypes;
+
+    queryFields[uniqueName(takenQueryFields, entity.variableName)] = {
+      type: new GraphQLNonNull(connection),
+      args: connectionArgs,
+      resolve: (_root, args: ConnectionArgs, context) => resolveConnection(entity, args, context),
+    };
+
+    const inputFields = (mode: 'create' | 'update'): GraphQLInputFieldConfigMap => Object.fromEntries(entity.columns.map(col => {
+      const scalar: GraphQLInputType = columnScalar(col);
+      const required = mode === 'create' && !isOptionalOnInsert(col);
+      return [col.propertyName, { type: required ? new GraphQLNonNull(scalar) : scalar }];
+    }));
+
+    mutationFields[`create${name}`] = {
+      type: new GraphQLNonNull(object),
+      args: {
+        input: { type: new GraphQLNonNull(new GraphQLInputObjectType({ name: `New${name}Input`, fields: inputFields('create') })) },
+      },
+      resolve: async (_root, args: { input: Record<string, unknown> }, context) => {
+        const result = await insertRow(context.database, entity, validated(entity, args.input, 'create'));
+        if (!result.success) throw new GraphQLError(result.message);
+        return result.row;
+      },
+    };
+
+    if (entity.primaryKey.length === 0) return;
+
+    const keyArgs: GraphQLFieldConfigArgumentMap = Object.fromEntries(entity.primaryKey.map(col => [
+      col.propertyName,
+      { type: new GraphQLNonNull(columnScalar(col)) },
+    ]));
+    const toKey = (args: Record<string, unknown>): Row =>
+      Object.fromEntries(entity.primaryKey.map(col => [col.name, args[col.propertyName]]));
+
+    const singleName = camelCase(entity.className);
+    queryFields[uniqueName(takenQueryFields, singleName === entity.variableName ? `${singleName}ByKey` : singleName)] = {
+      type: object,
+      args: keyArgs,
+      resolve: async (_root, args: Record<string, unknown>, context) => {
+        const result = await fetchRowByKey(context.database, entity, toKey(args));
+        if (!result.success) throw new GraphQLError(result.message);
+        return result.row ?? null;
+      },
+    };
+
+    mutationFields[`update${name}`] = {
+      type: object,
+      description: 'Returns null when no row has the key',
+      args: {
+        ...keyArgs,
+        input: { type: new GraphQLNonNull(new GraphQLInputObjectType({ name: `${name}UpdateInput`, fields: inputFields('update') })) },
+      },
+      resolve: async (_root, args: Record<string, unknown>, context) => {
+        const values = validated(entity, args.input as Record<string, unknown>, 'update');
+        if (Object.keys(values).length === 0) throw new GraphQLError('No columns to update');
+
+        const result = await updateRowByKey(context.database, entity, toKey(args), values);
+        if (!result.success) throw new GraphQLError(result.message);
+        return result.row ?? null;
+      },
+    };
+
+    mutationFields[`delete${name}`] = {
+      type: new GraphQLNonNull(GraphQLBoolean),
+      description: 'Returns false when no row has the key',
+      args: keyArgs,
+      resolve: async (_root, args: Record<string, unknown>, context) => {
+        const result = await deleteRowByKey(context.database, entity, toKey(args));
+        if (!result.success) throw new GraphQLError(result.message);
+        return !!result.deleted;
+      },
+    };
+  });
+
+  return new GraphQLSchema({
+    query: new GraphQLObjectType({
+      name: 'Query',
+      // A schema needs at least one query field, also for an empty canvas
+      fields: Object.keys(queryFields).length > 0
+        ? queryFields
+        : { _empty: { type: GraphQLBoolean, description: 'The canvas has no tables yet', resolve: () => null } },
+    }),
+    ...(Object.keys(mutationFields).length > 0 && {
+      mutation: new GraphQLObjectType({ name: 'Mutation', fields: mutationFields }),
+    }),
+  });
+};
+
+// Run a GraphQL request against a project's schema and database
+export const executeProjectGraphQL = async (
+  schemaData: SchemaData,
+  database: ProjectDatabase,
+  request: { query: string; variables?: Record<string, unknown>; operationName?: string }
+): Promise<ExecutionResult> => {
+  let schema: GraphQLSchema;
+  try {
+    schema = buildProjectGraphQLSchema(schemaData);
+  } catch (error) {
+    // Table names that clash with generated type names make the schema invalid
+    return { errors: [new GraphQLError(`The GraphQL schema could not be built: ${(error as Error).message}`)] };
+  }
+
+  return graphql({
+    schema,
+    source: request.query,
+    variableValues: request.variables,
+    operationName: request.operationName,
+    contextValue: { database, cache: new Map() } satisfies GraphQLContext,
+  });
+};
+
+// SDL of a project's schema, shown as documentation in the playground
+export const printProjectGraphQLSchema = (schemaData: SchemaData): string => printSchema(buildProjectGraphQLSchema(schemaData));
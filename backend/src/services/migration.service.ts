@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+import Migration, { IMigration } from '../models/Migration.model';
+import { MigrationStatement } from './schema-diff.service';
+import { SchemaData } from '../types/schema';
+
+interface RecordMigrationInput {
+  projectId: mongoose.Types.ObjectId;
+  authorId: string;
+  statements: MigrationStatement[];
+  rollbackStatements: MigrationStatement[];
+  schemaData: SchemaData;
+  previousSchemaData: SchemaData;
+}
+
+// Attempts at claiming the next version before giving up on concurrent syncs
+const MAX_VERSION_ATTEMPTS = 5;
+
+// MongoDB's duplicate key error, raised when another sync claimed the same version first
+const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+// Save a successful schema sync as the next numbered migration of the project
+export const recordMigration = async (input: RecordMigrationInput): Promise<IMigration> => {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await Migration.findOne({ projectId: input.projectId })
+      .sort({ version: -1 })
+      .select('version');
+
+    try {
+      return await Migration.create({
+        projectId: input.projectId,
+        version: (latest?.version || 0) + 1,
+        upSql: input.statements.map(statement => statement.sql),
+        downSql: input.rollbackStatements.map(statement => statement.sql),
+        changes: input.statements.flatMap(statement => statement.changes),
+        schemaData: input.schemaData,
+        previousSchemaData: input.previousSchemaData,
+        author: input.authorId,
+      });
+    } catch (error) {
+      // The unique (projectId, version) index rejects the loser of a race; read the new latest and retry
+      if (!isDuplicateKeyError(error) || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+};
+
+// The most recent migration that is still applied; only this one can be rolled back
+export const getLatestAppliedMigration = async (
+  projectId: mongoose.Types.ObjectId
+): Promise<IMigration | null> => {
+  return Migration.findOne({ projectId, status: 'applied' }).sort({ version: -1 });
+};
@@ -0,0 +1,435 @@
+import { Db, Document, MongoClient, ObjectId } from 'mongodb';
+import { MongoConfig, Table, Relationship, SchemaData, SyncReport, SyncError } from '../types/schema';
+import { createSyncReport, toSyncError } from '../utils/sync-report';
+import { safeIdentifier } from '../utils/mysql-ddl';
+import {
+  generateJsonSchemaValidator,
+  toBsonType,
+  uniqueIndexColumns,
+  uniqueIndexName,
+  toPlainValue,
+} from '../utils/mongo-schema';
+import { MigrationStatement } from './schema-diff.service';
+
+// A planned change together with the driver call that applies it; `statement.sql` holds
+// the equivalent mongosh command so plans and the migration history stay readable
+interface MongoOperation {
+  statement: MigrationStatement;
+  run: (db: Db) => Promise<unknown>;
+}
+
+// Lookup stage added to the data editor query for each outgoing reference
+export interface ReferenceLookup {
+  from: string;
+  localField: string;
+  foreignField: string;
+  as: string;
+}
+
+const connectMongo = async (config: MongoConfig): Promise<MongoClient> => {
+  const client = new MongoClient(config.uri, { serverSelectionTimeoutMS: 5000 });
+  await client.connect();
+  return client;
+};
+
+// Document ids are ObjectIds unless the collection stores its own `_id` values
+const toDocumentId = (id: string): ObjectId | string =>
+  ObjectId.isValid(id) && id.length === 24 ? new ObjectId(id) : id;
+
+// Test MongoDB connection
+export const testMongoConnection = async (config: MongoConfig): Promise<{ success: boolean; message: string }> => {
+  try {
+    const client = await connectMongo(config);
+    await client.db('admin').command({ ping: 1 });
+    await client.close();
+
+    return { success: true, message: 'Connection successful' };
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
+
+// MongoDB creates databases with their first collection, so this only checks the name is free
+export const createMongoDatabase = async (
+  config: MongoConfig,
+  databaseName: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const client = await connectMongo(config);
+    const safeName = safeIdentifier(databaseName);
+
+    try {
+      const { databases } = await client.db('admin').admin().listDatabases({ nameOnly: true });
+      if (databases.some(database => database.name === safeName)) {
+        return { success: false, message: `Database '${safeName}' already exists` };
+      }
+    } finally {
+      await client.close();
+    }
+
+    return { success: true, message: `Database '${safeName}' will be created with its first collection` };
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
+
+// Diff the live collections against the canvas: collections are created, renamed or dropped,
+// validators are replaced when they changed and unique indexes follow `isUnique`
+const planMongoSync = async (
+  db: Db,
+  previousTables: Table[],
+  tables: Table[],
+  relationships: Relationship[]
+): Promise<MongoOperation[]> => {
+  const operations: MongoOperation[] = [];
+  const liveCollections = await db.listCollections({}, { nameOnly: false }).toArray();
+  const liveValidators = new Map<string, string>(
+    liveCollections.map(collection => [
+      collection.name,
+      JSON.stringify((collection as { options?: { validator?: Document } }).options?.validator || {}),
+    ])
+  );
+
+  const desiredNames = new Set(tables.map(table => safeIdentifier(table.name)));
+
+  // Renamed collections keep their documents; `liveNames` is where a table lives before the sync
+  const renamed = new Set<string>();
+  const liveNames = new Map<string, string>();
+  tables.forEach(table => {
+    const name = safeIdentifier(table.name);
+    const previous = previousTables.find(t => t.id === table.id);
+    const previousName = previous ? safeIdentifier(previous.name) : null;
+
+    if (previousName && previousName !== name && liveValidators.has(previousName) && !liveValidators.has(name)) {
+      renamed.add(previousName);
+      liveNames.set(table.id, previousName);
+      liveValidators.set(name, liveValidators.get(previousName) as string);
+      liveValidators.delete(previousName);
+      operations.push({
+        statement: {
+          action: 'rename_table',
+          table: name,
+          sql: `db.getCollection("${previousName}").renameCollection("${name}")`,
+          changes: [`Renamed collection ${previousName} to ${name}`],
+          destructive: false,
+          warnings: [],
+        },
+        run: database => database.renameCollection(previousName, name),
+      });
+    }
+  });
+
+  // Collections removed from the canvas
+  previousTables.forEach(previous => {
+    const name = safeIdentifier(previous.name);
+    if (desiredNames.has(name) || renamed.has(name) || !liveValidators.has(name)) return;
+
+    operations.push({
+      statement: {
+        action: 'drop_table',
+        table: name,
+        sql: `db.getCollection("${name}").drop()`,
+        changes: [`Dropped collection ${name}`],
+        destructive: true,
+        warnings: [`All documents in ${name} will be deleted`],
+      },
+      run: database => database.collection(name).drop(),
+    });
+  });
+
+  for (const table of tables) {
+    const name = safeIdentifier(table.name);
+    const validator = generateJsonSchemaValidator(table, tables, relationships);
+    const validatorJson = JSON.stringify(validator);
+    const exists = liveValidators.has(name);
+
+    if (!exists) {
+      operations.push({
+        statement: {
+          action: 'create_table',
+          table: name,
+          sql: `db.createCollection("${name}", { validator: ${validatorJson} })`,
+          changes: [`Created collection ${name}`],
+          destructive: false,
+          warnings: [],
+        },
+        run: database => database.createCollection(name, { validator }),
+      });
+    } else if (liveValidators.get(name) !== validatorJson) {
+      operations.push({
+        statement: {
+          action: 'alter_table',
+          table: name,
+          sql: `db.runCommand({ collMod: "${name}", validator: ${validatorJson} })`,
+          changes: [`Updated validator of ${name}`],
+          destructive: false,
+          warnings: ['Existing documents are not re-validated until they are next updated'],
+        },
+        run: database => database.command({ collMod: name, validator }),
+      });
+    }
+
+    // Unique indexes; indexes this workspace did not create (no uq_ prefix) are left alone
+    const liveIndexes = exists ? await db.collection(liveNames.get(table.id) || name).indexes() : [];
+    const liveIndexNames = new Set(liveIndexes.map(index => index.name as string));
+    const wantedIndexes = uniqueIndexColumns(table).map(col => ({ col, indexName: uniqueIndexName(table.name, col.name) }));
+
+    wantedIndexes.forEach(({ col, indexName }) => {
+      if (liveIndexNames.has(indexName)) return;
+
+      // Nullable unique fields only index documents that have a value, so several nulls are allowed
+      const options = col.isNullable
+        ? { unique: true, name: indexName, partialFilterExpression: { [col.name]: { $type: toBsonType(col.type) } } }
+        : { unique: true, name: indexName };
+
+      operations.push({
+        statement: {
+          action: 'alter_table',
+          table: name,
+          sql: `db.getCollection("${name}").createIndex({ "${col.name}": 1 }, ${JSON.stringify(options)})`,
+          changes: [`Added unique index on ${name}.${col.name}`],
+          destructive: false,
+          warnings: [],
+        },
+        run: database => database.collection(name).createIndex({ [col.name]: 1 }, options),
+      });
+    });
+
+    liveIndexNames.forEach(indexName => {
+      if (!indexName.startsWith('uq_') || wantedIndexes.some(wanted => wanted.indexName === indexName)) return;
+
+      operations.push({
+        statement: {
+          action: 'alter_table',
+          table: name,
+          sql: `db.getCollection("${name}").dropIndex("${indexName}")`,
+          changes: [`Dropped unique index ${indexName}`],
+          destructive: false,
+          warnings: [],
+        },
+        run: database => database.collection(name).dropIndex(indexName),
+      });
+    });
+  }
+
+  return operations;
+};
+
+// Sync schema to MongoDB - collections are created from canvas tables and validated with a
+// $jsonSchema built from their columns. MongoDB has no foreign keys: relationships only show up
+// as reference descriptions in the validator and as $lookup previews in the data editor.
+// Unless `allowDestructive` is set, dropping a collection is returned unapplied.
+export const syncSchemaToMongo = async (
+  config: MongoConfig,
+  databaseName: string,
+  tables: Table[],
+  relationships: Relationship[] = [],
+  previousSchema: SchemaData = { tables: [], relationships: [] },
+  options: { allowDestructive?: boolean } = {}
+): Promise<{
+  success: boolean;
+  message: string;
+  details?: string[];
+  blocked?: boolean;
+  statements?: MigrationStatement[];
+  rollbackStatements?: MigrationStatement[];
+  report?: SyncReport;
+}> => {
+  const details: string[] = [];
+  const { allowDestructive = true } = options;
+  const { report, tableResult } = createSyncReport(tables);
+
+  try {
+    const client = await connectMongo(config);
+    let statements: MigrationStatement[];
+
+    try {
+      const db = client.db(safeIdentifier(databaseName));
+      const operations = await planMongoSync(db, previousSchema.tables, tables, relationships);
+      statements = operations.map(operation => operation.statement);
+
+      if (!allowDestructive && statements.some(statement => statement.destructive)) {
+        return {
+          success: false,
+          blocked: true,
+          message: 'Schema change would delete data and needs confirmation',
+          statements,
+        };
+      }
+
+      console.log(`🔧 ${operations.length} collection changes to apply`);
+
+      // MongoDB cannot roll back collection changes, so the first failure stops the sync
+      for (const operation of operations) {
+        const result = tableResult(operation.statement.table);
+
+        if (report.status === 'failed') {
+          result.status = 'skipped';
+          continue;
+        }
+
+        console.log(`🔧 Command for ${operation.statement.table}:`, operation.statement.sql);
+        try {
+          await operation.run(db);
+          details.push(...operation.statement.changes);
+          result.changes.push(...operation.statement.changes);
+        } catch (operationError) {
+          result.status = 'failed';
+          result.error = toSyncError(operationError, operation.statement.sql);
+          report.status = 'failed';
+          report.error = result.error;
+          console.error(`❌ Command failed for ${operation.statement.table}:`, result.error.message);
+        }
+      }
+    } finally {
+      await client.close();
+    }
+
+    if (report.status === 'failed') {
+      const error = report.error as SyncError;
+      return {
+        success: false,
+        message: `MongoDB sync failed: ${error.code || 'UNKNOWN'} - ${error.message}`,
+        details,
+        statements,
+        report,
+      };
+    }
+
+    return {
+      success: true,
+      message: `Synced ${tables.length} collections to MongoDB`,
+      details,
+      statements,
+      report,
+    };
+  } catch (error) {
+    const err = error as Error & { code?: string };
+    console.error('❌ MongoDB sync error:', err.message);
+    report.status = 'failed';
+    report.error = toSyncError(error);
+    return {
+      success: false,
+      message: `MongoDB sync failed: ${err.code || 'UNKNOWN'} - ${err.message || 'No error message'}`,
+      details,
+      report,
+    };
+  }
+};
+
+// Read documents of a collection, optionally joining referenced documents with $lookup
+export const findDocuments = async (
+  config: MongoConfig,
+  databaseName: string,
+  collectionName: string,
+  lookups: ReferenceLookup[] = []
+): Promise<{ success: boolean; message: string; result?: unknown[] }> => {
+  try {
+    const client = await connectMongo(config);
+
+    try {
+      const pipeline: Document[] = [{ $limit: 1000 }, ...lookups.map(lookup => ({ $lookup: lookup }))];
+      const documents = await client
+        .db(safeIdentifier(databaseName))
+        .collection(safeIdentifier(collectionName))
+        .aggregate(pipeline)
+        .toArray();
+
+      return { success: true, message: 'Documents loaded', result: documents.map(toPlainValue) };
+    } finally {
+      await client.close();
+    }
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
+
+// Insert a document; the collection validator rejects documents that break the schema
+export const insertDocument = async (
+  config: MongoConfig,
+  databaseName: string,
+  collectionName: string,
+  document: Document
+): Promise<{ success: boolean; message: string; result?: unknown }> => {
+  try {
+    const client = await connectMongo(config);
+
+    try {
+      const result = await client
+        .db(safeIdentifier(databaseName))
+        .collection(safeIdentifier(collectionName))
+        .insertOne(document);
+
+      return { success: true, message: 'Document inserted', result: { insertedId: toPlainValue(result.insertedId) } };
+    } finally {
+      await client.close();
+    }
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
+
+// Set fields of a document by `_id`
+export const updateDocument = async (
+  config: MongoConfig,
+  databaseName: string,
+  collectionName: string,
+  id: string,
+  fields: Document
+): Promise<{ success: boolean; message: string; result?: unknown }> => {
+  try {
+    const client = await connectMongo(config);
+
+    try {
+      const result = await client
+        .db(safeIdentifier(databaseName))
+        .collection(safeIdentifier(collectionName))
+        .updateOne({ _id: toDocumentId(id) } as Document, { $set: fields });
+
+      if (result.matchedCount === 0) {
+        return { success: false, message: 'Document not found' };
+      }
+
+      return { success: true, message: 'Document updated', result: { modifiedCount: result.modifiedCount } };
+    } finally {
+      await client.close();
+    }
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
+
+// Delete a document by `_id`
+export const deleteDocument = async (
+  config: MongoConfig,
+  databaseName: string,
+  collectionName: string,
+  id: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const client = await connectMongo(config);
+
+    try {
+      const result = await client
+        .db(safeIdentifier(databaseName))
+        .collection(safeIdentifier(collectionName))
+        .deleteOne({ _id: toDocumentId(id) } as Document);
+
+      if (result.deletedCount === 0) {
+        return { success: false, message: 'Document not found' };
+      }
+
+      return { success: true, message: 'Document deleted' };
+    } finally {
+      await client.close();
+    }
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
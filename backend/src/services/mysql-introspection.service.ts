@@ -0,0 +1,183 @@
+import { Connection, RowDataPacket } from 'mysql2/promise';
+import { LiveTable } from '../types/schema';
+
+interface ColumnRow extends RowDataPacket {
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+  COLUMN_TYPE: string;
+  IS_NULLABLE: string;
+  COLUMN_DEFAULT: string | null;
+  EXTRA: string;
+  CHARACTER_SET_NAME: string | null;
+  COLLATION_NAME: string | null;
+}
+
+interface IndexRow extends RowDataPacket {
+  TABLE_NAME: string;
+  INDEX_NAME: string;
+  NON_UNIQUE: number | string;
+  COLUMN_NAME: string;
+  COLLATION: string | null;
+  SUB_PART: number | null;
+  INDEX_TYPE: string;
+}
+
+interface CheckRow extends RowDataPacket {
+  TABLE_NAME: string;
+  CONSTRAINT_NAME: string;
+  CHECK_CLAUSE: string;
+}
+
+interface ForeignKeyRow extends RowDataPacket {
+  TABLE_NAME: string;
+  CONSTRAINT_NAME: string;
+  COLUMN_NAME: string;
+  REFERENCED_TABLE_NAME: string;
+  REFERENCED_COLUMN_NAME: string;
+  DELETE_RULE: string;
+  UPDATE_RULE: string;
+}
+
+// Read the live structure of a MySQL database from INFORMATION_SCHEMA
+export const readMySQLSchema = async (
+  connection: Connection,
+  databaseName: string
+): Promise<Map<string, LiveTable>> => {
+  const tables = new Map<string, LiveTable>();
+
+  const [tableRows] = await connection.query<RowDataPacket[]>(
+    `SELECT TABLE_NAME, TABLE_COLLATION FROM INFORMATION_SCHEMA.TABLES
+     WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = 'BASE TABLE'`,
+    [databaseName]
+  );
+
+  for (const row of tableRows) {
+    tables.set(row.TABLE_NAME, {
+      name: row.TABLE_NAME,
+      collation: row.TABLE_COLLATION || undefined,
+      columns: [],
+      primaryKey: [],
+      indexes: [],
+      checks: [],
+      foreignKeys: [],
+    });
+  }
+
+  // Columns
+  const [columnRows] = await connection.query<ColumnRow[]>(
+    `SELECT TABLE_NAME, COLUMN_NAME, COLUMN_TYPE, IS_NULLABLE, COLUMN_DEFAULT, EXTRA,
+            CHARACTER_SET_NAME, COLLATION_NAME
+     FROM INFORMATION_SCHEMA.COLUMNS
+     WHERE TABLE_SCHEMA = ?
+     ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+    [databaseName]
+  );
+
+  for (const row of columnRows) {
+    const table = tables.get(row.TABLE_NAME);
+    if (!table) continue;
+
+    const extra = (row.EXTRA || '').toLowerCase();
+    table.columns.push({
+      name: row.COLUMN_NAME,
+      columnType: row.COLUMN_TYPE,
+      isNullable: row.IS_NULLABLE === 'YES',
+      isAutoIncrement: extra.includes('auto_increment'),
+      defaultValue: row.COLUMN_DEFAULT,
+      extra,
+      charset: row.CHARACTER_SET_NAME || undefined,
+      collation: row.COLLATION_NAME || undefined,
+    });
+  }
+
+  // Indexes (PRIMARY and secondary)
+  const [indexRows] = await connection.query<IndexRow[]>(
+    `SELECT TABLE_NAME, INDEX_NAME, NON_UNIQUE, COLUMN_NAME, COLLATION, SUB_PART, INDEX_TYPE
+     FROM INFORMATION_SCHEMA.STATISTICS
+     WHERE TABLE_SCHEMA = ?
+     ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`,
+    [databaseName]
+  );
+
+  for (const row of indexRows) {
+    const table = tables.get(row.TABLE_NAME);
+    if (!table) continue;
+
+    if (row.INDEX_NAME === 'PRIMARY') {
+      table.primaryKey.push(row.COLUMN_NAME);
+      continue;
+    }
+
+    let index = table.indexes.find(idx => idx.name === row.INDEX_NAME);
+    if (!index) {
+      index = {
+        name: row.INDEX_NAME,
+        columns: [],
+        isUnique: Number(row.NON_UNIQUE) === 0,
+        orders: [],
+        lengths: [],
+        isFulltext: row.INDEX_TYPE === 'FULLTEXT',
+      };
+      table.indexes.push(index);
+    }
+    index.columns.push(row.COLUMN_NAME);
+    index.orders?.push(row.COLLATION === 'D' ? 'DESC' : 'ASC');
+    index.lengths?.push(row.SUB_PART === null ? null : Number(row.SUB_PART));
+  }
+
+  // CHECK constraints (INFORMATION_SCHEMA.CHECK_CONSTRAINTS only exists on MySQL 8.0.16+)
+  try {
+    const [checkRows] = await connection.query<CheckRow[]>(
+      `SELECT tc.TABLE_NAME, tc.CONSTRAINT_NAME, cc.CHECK_CLAUSE
+       FROM INFORMATION_SCHEMA.TABLE_CONSTRAINTS tc
+       JOIN INFORMATION_SCHEMA.CHECK_CONSTRAINTS cc
+         ON cc.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA AND cc.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+       WHERE tc.TABLE_SCHEMA = ? AND tc.CONSTRAINT_TYPE = 'CHECK'`,
+      [databaseName]
+    );
+
+    for (const row of checkRows) {
+      tables.get(row.TABLE_NAME)?.checks.push({ name: row.CONSTRAINT_NAME, clause: row.CHECK_CLAUSE });
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.log('⚠️ CHECK constraints not readable:', err.message);
+  }
+
+  // Foreign keys
+  const [fkRows] = await connection.query<ForeignKeyRow[]>(
+    `SELECT kcu.TABLE_NAME, kcu.CONSTRAINT_NAME, kcu.COLUMN_NAME,
+            kcu.REFERENCED_TABLE_NAME, kcu.REFERENCED_COLUMN_NAME,
+            rc.DELETE_RULE, rc.UPDATE_RULE
+     FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE kcu
+     JOIN INFORMATION_SCHEMA.REFERENTIAL_CONSTRAINTS rc
+       ON rc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA AND rc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+     WHERE kcu.TABLE_SCHEMA = ? AND kcu.REFERENCED_TABLE_NAME IS NOT NULL
+     ORDER BY kcu.TABLE_NAME, kcu.CONSTRAINT_NAME, kcu.ORDINAL_POSITION`,
+    [databaseName]
+  );
+
+  // Composite foreign keys come one row per column pair, in key order
+  for (const row of fkRows) {
+    const table = tables.get(row.TABLE_NAME);
+    if (!table) continue;
+
+    const existing = table.foreignKeys.find(fk => fk.name === row.CONSTRAINT_NAME);
+    if (existing) {
+      existing.columns.push(row.COLUMN_NAME);
+      existing.referencedColumns.push(row.REFERENCED_COLUMN_NAME);
+      continue;
+    }
+
+    table.foreignKeys.push({
+      name: row.CONSTRAINT_NAME,
+      columns: [row.COLUMN_NAME],
+      referencedTable: row.REFERENCED_TABLE_NAME,
+      referencedColumns: [row.REFERENCED_COLUMN_NAME],
+      onDelete: row.DELETE_RULE,
+      onUpdate: row.UPDATE_RULE,
+    });
+  }
+
+  return tables;
+};
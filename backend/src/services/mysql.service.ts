@@ -1,30 +1,19 @@
 import mysql from 'mysql2/promise';
-
-interface MySQLConfig {
-  host: string;
-  port: number;
-  user: string;
-  password: string;
-}
-
-interface Column {
-  id: string;
-  name: string;
-  type: string;
-  isPrimaryKey: boolean;
-  isNullable: boolean;
-  isUnique?: boolean;
-  isAutoIncrement?: boolean;
-  defaultValue?: string;
-  checkConstraint?: string;
-}
-
-interface Table {
-  id: string;
-  name: string;
-  position: { x: number; y: number };
-  columns: Column[];
-}
+import {
+  MySQLConfig,
+  Table,
+  Relationship,
+  SchemaData,
+  SyncReport,
+  SyncError,
+  ForeignKeySyncResult,
+} from '../types/schema';
+import { createSyncReport, toSyncError } from '../utils/sync-report';
+import { SqlStatement } from '../utils/sql-query';
+import { readMySQLSchema } from './mysql-introspection.service';
+import { diffSchema, MigrationStatement } from './schema-diff.service';
+import { liveSchemaToCanvas } from './schema-import.service';
+import { detectSchemaDrift, SchemaDrift } from './schema-drift.service';
 
 // Test MySQL connection
 export const testMySQLConnection = async (config: MySQLConfig): Promise<{ success: boolean; message: string }> => {
@@ -46,14 +35,17 @@ export const testMySQLConnection = async (config: MySQLConfig): Promise<{ succes
   }
 };
 
-// Execute a MySQL query
+// Execute a MySQL query; `?` placeholders are bound to `params` by the driver
 export const executeMySQLQuery = async (
   config: MySQLConfig,
   databaseName: string,
-  query: string
+  query: string,
+  params: unknown[] = []
 ): Promise<{ success: boolean; message: string; result?: unknown }> => {
+  let connection: mysql.Connection | undefined;
+
   try {
-    const connection = await mysql.createConnection({
+    connection = await mysql.createConnection({
       host: config.host,
       port: config.port,
       user: config.user,
@@ -61,14 +53,53 @@ export const executeMySQLQuery = async (
       database: databaseName,
     });
 
-    const [result] = await connection.query(query);
-    await connection.end();
+    const [result] = await connection.query(query, params);
 
     return { success: true, message: 'Query executed successfully', result };
   } catch (error) {
     const err = error as Error;
     console.error('MySQL query error:', err.message);
     return { success: false, message: err.message };
+  } finally {
+    // Close the connection on failures too, not just after a successful query
+    await connection?.end().catch(() => undefined);
+  }
+};
+
+// Run parameterized statements in one transaction; any failure rolls all of them back.
+// `failedIndex` is the position of the statement that failed.
+export const executeMySQLTransaction = async (
+  config: MySQLConfig,
+  databaseName: string,
+  statements: SqlStatement[]
+): Promise<{ success: boolean; message: string; results?: unknown[]; failedIndex?: number }> => {
+  let connection: mysql.Connection | undefined;
+  const results: unknown[] = [];
+
+  try {
+    connection = await mysql.createConnection({
+      host: config.host,
+      port: config.port,
+      user: config.user,
+      password: config.password,
+      database: databaseName,
+    });
+
+    await connection.beginTransaction();
+    for (const { query, params } of statements) {
+      const [result] = await connection.query(query, params);
+      results.push(result);
+    }
+    await connection.commit();
+
+    return { success: true, message: `Executed ${results.length} statements`, results };
+  } catch (error) {
+    const err = error as Error;
+    console.error('MySQL transaction error:', err.message);
+    await connection?.rollback().catch(() => undefined);
+    return { success: false, message: err.message, failedIndex: results.length };
+  } finally {
+    await connection?.end().catch(() => undefined);
   }
 };
 
@@ -132,93 +163,127 @@ export const listMySQLDatabases = async (config: MySQLConfig): Promise<{ success
   }
 };
 
-// Generate CREATE TABLE SQL from table definition
-const generateCreateTableSQL = (table: Table): string => {
-  const safeName = table.name.replace(/[^a-zA-Z0-9_]/g, '_');
-
-  if (table.columns.length === 0) {
-    // MySQL requires at least one column, so create with a placeholder
-    return `CREATE TABLE IF NOT EXISTS \`${safeName}\` (
-      \`_placeholder\` INT COMMENT 'Placeholder column - add columns to replace'
-    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`;
-  }
-
-  const columnDefs: string[] = [];
-  const constraints: string[] = [];
-
-  table.columns.forEach(col => {
-    const colName = col.name.replace(/[^a-zA-Z0-9_]/g, '_');
-    let def = `\`${colName}\` ${col.type}`;
-
-    // NOT NULL constraint
-    if (!col.isNullable) {
-      def += ' NOT NULL';
-    }
+// Reverse-engineer an existing MySQL database into canvas tables and relationships
+export const importMySQLSchema = async (
+  config: MySQLConfig,
+  databaseName: string,
+  existing?: SchemaData
+): Promise<{ success: boolean; message: string; schemaData?: SchemaData }> => {
+  try {
+    const connection = await mysql.createConnection({
+      host: config.host,
+      port: config.port,
+      user: config.user,
+      password: config.password,
+      database: databaseName,
+    });
 
-    // AUTO_INCREMENT (only for INT types)
-    if (col.isAutoIncrement && col.type.toUpperCase().includes('INT')) {
-      def += ' AUTO_INCREMENT';
+    try {
+      const liveSchema = await readMySQLSchema(connection, databaseName);
+      const schemaData = liveSchemaToCanvas(liveSchema, existing);
+      return {
+        success: true,
+        message: `Imported ${schemaData.tables.length} tables and ${schemaData.relationships.length} relationships`,
+        schemaData,
+      };
+    } finally {
+      await connection.end();
     }
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
 
-    // DEFAULT value
-    if (col.defaultValue && !col.isAutoIncrement) {
-      const upperDefault = col.defaultValue.toUpperCase().trim();
-      if (upperDefault === 'NULL') {
-        def += ' DEFAULT NULL';
-      } else if (upperDefault === 'CURRENT_TIMESTAMP') {
-        def += ' DEFAULT CURRENT_TIMESTAMP';
-      } else if (upperDefault === 'CURRENT_DATE') {
-        def += ' DEFAULT (CURRENT_DATE)';
-      } else {
-        def += ` DEFAULT '${col.defaultValue.replace(/'/g, "''")}'`;
-      }
-    }
+// Compare the stored canvas with what actually exists in the database
+export const detectMySQLDrift = async (
+  config: MySQLConfig,
+  databaseName: string,
+  stored: SchemaData
+): Promise<{ success: boolean; message: string; drift?: SchemaDrift }> => {
+  try {
+    const connection = await mysql.createConnection({
+      host: config.host,
+      port: config.port,
+      user: config.user,
+      password: config.password,
+      database: databaseName,
+    });
 
-    // UNIQUE constraint (inline for single column)
-    if (col.isUnique && !col.isPrimaryKey) {
-      def += ' UNIQUE';
+    try {
+      const liveSchema = await readMySQLSchema(connection, databaseName);
+      const drift = detectSchemaDrift(liveSchema, stored);
+      return {
+        success: true,
+        message: drift.hasDrift ? `${drift.items.length} differences found` : 'Database matches the stored schema',
+        drift,
+      };
+    } finally {
+      await connection.end();
     }
+  } catch (error) {
+    const err = error as Error & { code?: string };
+    return { success: false, message: `MySQL drift check failed: ${err.code || 'UNKNOWN'} - ${err.message}` };
+  }
+};
 
-    columnDefs.push(def);
-
-    // PRIMARY KEY constraint
-    if (col.isPrimaryKey) {
-      constraints.push(`PRIMARY KEY (\`${colName}\`)`);
-    }
+// Compute the ordered DDL statements a sync would run, without running them
+export const planSchemaMigration = async (
+  config: MySQLConfig,
+  databaseName: string,
+  tables: Table[],
+  relationships: Relationship[] = [],
+  previousSchema: SchemaData = { tables: [], relationships: [] }
+): Promise<{ success: boolean; message: string; statements?: MigrationStatement[] }> => {
+  try {
+    const connection = await mysql.createConnection({
+      host: config.host,
+      port: config.port,
+      user: config.user,
+      password: config.password,
+      database: databaseName,
+    });
 
-    // CHECK constraint (MySQL 8.0+)
-    if (col.checkConstraint) {
-      const constraintName = `chk_${safeName}_${colName}`;
-      constraints.push(`CONSTRAINT \`${constraintName}\` CHECK (${col.checkConstraint})`);
+    try {
+      const liveSchema = await readMySQLSchema(connection, databaseName);
+      const statements = diffSchema(liveSchema, previousSchema.tables, tables, relationships);
+      return { success: true, message: `${statements.length} statements planned`, statements };
+    } finally {
+      await connection.end();
     }
-  });
-
-  const allDefs = [...columnDefs, ...constraints].join(',\n  ');
-
-  return `CREATE TABLE IF NOT EXISTS \`${safeName}\` (
-  ${allDefs}
-) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`;
+  } catch (error) {
+    const err = error as Error & { code?: string };
+    return { success: false, message: `MySQL plan failed: ${err.code || 'UNKNOWN'} - ${err.message}` };
+  }
 };
 
-// Relationship interface
-interface Relationship {
-  id: string;
-  sourceTableId: string;
-  sourceColumnId: string;
-  targetTableId: string;
-  targetColumnId: string;
-  onDelete?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
-  onUpdate?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
-}
-
-// Sync schema to MySQL with relationships - creates/updates tables and foreign keys
+// Sync schema to MySQL with relationships - diffs the live database against the canvas
+// and applies only the ALTER statements needed, so existing rows are kept.
+// Unless `allowDestructive` is set, a plan that would lose data is returned unapplied.
+// Unless `allowDrift` is set, nothing is applied while the database has changes that are
+// not in `previousSchema` (e.g. hand-made hot-fixes), since the sync would overwrite them.
+// The returned `rollbackStatements` bring the database back to `previousSchema`, and
+// `report` says which tables and foreign keys were applied, failed or skipped.
 export const syncSchemaToMySQL = async (
   config: MySQLConfig,
   databaseName: string,
   tables: Table[],
-  relationships: Relationship[] = []
-): Promise<{ success: boolean; message: string; details?: string[] }> => {
+  relationships: Relationship[] = [],
+  previousSchema: SchemaData = { tables: [], relationships: [] },
+  options: { allowDestructive?: boolean; allowDrift?: boolean } = {}
+): Promise<{
+  success: boolean;
+  message: string;
+  details?: string[];
+  blocked?: boolean;
+  drift?: SchemaDrift;
+  statements?: MigrationStatement[];
+  rollbackStatements?: MigrationStatement[];
+  report?: SyncReport;
+}> => {
   const details: string[] = [];
+  const { allowDestructive = true, allowDrift = true } = options;
+  const { report, tableResult } = createSyncReport(tables);
 
   try {
     const connection = await mysql.createConnection({
@@ -229,118 +294,189 @@ export const syncSchemaToMySQL = async (
       database: databaseName,
     });
 
-    // Disable foreign key checks during schema changes
-    await connection.query('SET FOREIGN_KEY_CHECKS = 0');
-
-    // Get existing tables from MySQL
-    const [existingTablesResult] = await connection.query('SHOW TABLES');
-    const existingTables = (existingTablesResult as Array<Record<string, string>>).map(
-      row => Object.values(row)[0]
-    );
-
-    // Get table names from schema
-    const schemaTableNames = tables.map(t => t.name.replace(/[^a-zA-Z0-9_]/g, '_'));
-
-    // Drop tables that no longer exist in schema
-    for (const existingTable of existingTables) {
-      if (!schemaTableNames.includes(existingTable)) {
-        await connection.query(`DROP TABLE IF EXISTS \`${existingTable}\``);
-        details.push(`Dropped table: ${existingTable}`);
+    let statements: MigrationStatement[];
+    let rollbackStatements: MigrationStatement[] = [];
+
+    try {
+      const liveSchema = await readMySQLSchema(connection, databaseName);
+
+      if (!allowDrift) {
+        const drift = detectSchemaDrift(liveSchema, previousSchema);
+        if (drift.overwritesLiveChanges) {
+          return {
+            success: false,
+            blocked: true,
+            message: 'Database was changed outside the workspace; pull or push the schema first',
+            drift,
+          };
+        }
       }
-    }
 
-    // Create or update tables
-    for (const table of tables) {
-      const safeName = table.name.replace(/[^a-zA-Z0-9_]/g, '_');
+      statements = diffSchema(liveSchema, previousSchema.tables, tables, relationships);
 
-      if (existingTables.includes(safeName)) {
-        await connection.query(`DROP TABLE IF EXISTS \`${safeName}\``);
-        details.push(`Recreating table: ${safeName}`);
+      if (!allowDestructive && statements.some(statement => statement.destructive)) {
+        return {
+          success: false,
+          blocked: true,
+          message: 'Schema change would delete data and needs confirmation',
+          statements,
+        };
       }
 
-      // Create the table
-      const createSQL = generateCreateTableSQL(table);
-      console.log(`🔧 SQL for ${safeName}:`, createSQL);
-      await connection.query(createSQL);
-      details.push(`Created table: ${safeName} with ${table.columns.length} columns`);
-    }
-
-    // Add foreign key constraints
-    console.log('🔗 Processing relationships:', relationships.length);
-
-    for (const rel of relationships) {
-      console.log('🔗 Processing relationship:', rel);
-
-      // Find source and target tables/columns
-      const sourceTable = tables.find(t => t.id === rel.sourceTableId);
-      const targetTable = tables.find(t => t.id === rel.targetTableId);
-
-      if (!sourceTable || !targetTable) {
-        console.log('❌ Table not found for relationship');
-        continue;
+      // Disable foreign key checks during schema changes
+      await connection.query('SET FOREIGN_KEY_CHECKS = 0');
+
+      console.log(`🔧 ${statements.length} schema statements to apply`);
+
+      for (const statement of statements) {
+        // A failing foreign key should not abort the rest of the sync
+        if (statement.action === 'add_foreign_key') {
+          const fkResult: ForeignKeySyncResult = {
+            relationshipId: statement.relationshipId,
+            table: statement.table,
+            description: statement.changes.join(', '),
+            status: 'ok',
+          };
+          report.foreignKeys.push(fkResult);
+
+          if (report.status === 'failed') {
+            fkResult.status = 'skipped';
+            continue;
+          }
+
+          console.log(`🔧 SQL for ${statement.table}:`, statement.sql);
+          try {
+            await connection.query(statement.sql);
+            details.push(...statement.changes);
+            console.log('✅ FK created successfully');
+          } catch (fkError) {
+            const err = fkError as Error;
+            fkResult.status = 'failed';
+            fkResult.error = toSyncError(fkError, statement.sql);
+            report.status = 'partial';
+            details.push(`FK failed: ${statement.table} - ${err.message}`);
+            console.log('❌ FK creation failed:', err.message);
+          }
+          continue;
+        }
+
+        const result = tableResult(statement.table);
+
+        // Later statements may depend on the failed one, so they are reported as skipped
+        if (report.status === 'failed') {
+          if (result.status === 'ok') result.status = 'skipped';
+          continue;
+        }
+
+        console.log(`🔧 SQL for ${statement.table}:`, statement.sql);
+        try {
+          await connection.query(statement.sql);
+          details.push(...statement.changes);
+          result.changes.push(...statement.changes);
+        } catch (statementError) {
+          result.status = 'failed';
+          result.error = toSyncError(statementError, statement.sql);
+          report.status = 'failed';
+          report.error = result.error;
+          console.error(`❌ Statement failed for ${statement.table}:`, result.error.message);
+        }
       }
 
-      const sourceColumn = sourceTable.columns.find(c => c.id === rel.sourceColumnId);
-      const targetColumn = targetTable.columns.find(c => c.id === rel.targetColumnId);
-
-      if (!sourceColumn || !targetColumn) {
-        console.log('❌ Column not found for relationship');
-        console.log('Source columns:', sourceTable.columns.map(c => c.id));
-        console.log('Target columns:', targetTable.columns.map(c => c.id));
-        continue;
-      }
-
-      const safeSourceTable = sourceTable.name.replace(/[^a-zA-Z0-9_]/g, '_');
-      const safeTargetTable = targetTable.name.replace(/[^a-zA-Z0-9_]/g, '_');
-      const safeSourceColumn = sourceColumn.name.replace(/[^a-zA-Z0-9_]/g, '_');
-      const safeTargetColumn = targetColumn.name.replace(/[^a-zA-Z0-9_]/g, '_');
-
-      const constraintName = `fk_${safeSourceTable}_${safeSourceColumn}`;
-      const onDelete = rel.onDelete || 'CASCADE';
-      const onUpdate = rel.onUpdate || 'CASCADE';
-
-      const alterSQL = `
-        ALTER TABLE \`${safeSourceTable}\`
-        ADD CONSTRAINT \`${constraintName}\`
-        FOREIGN KEY (\`${safeSourceColumn}\`)
-        REFERENCES \`${safeTargetTable}\`(\`${safeTargetColumn}\`)
-        ON DELETE ${onDelete}
-        ON UPDATE ${onUpdate}
-      `;
-
-      console.log('🔧 FK SQL:', alterSQL);
-
-      try {
-        await connection.query(alterSQL);
-        details.push(`Added FK: ${safeSourceTable}.${safeSourceColumn} → ${safeTargetTable}.${safeTargetColumn}`);
-        console.log('✅ FK created successfully');
-      } catch (fkError) {
-        const err = fkError as Error;
-        details.push(`FK failed: ${safeSourceTable}.${safeSourceColumn} - ${err.message}`);
-        console.log('❌ FK creation failed:', err.message);
+      // Re-enable foreign key checks
+      await connection.query('SET FOREIGN_KEY_CHECKS = 1');
+
+      // Diff the resulting database against the previous canvas to get the down migration
+      if (report.status !== 'failed') {
+        const appliedSchema = await readMySQLSchema(connection, databaseName);
+        rollbackStatements = diffSchema(
+          appliedSchema,
+          tables,
+          previousSchema.tables,
+          previousSchema.relationships
+        );
       }
+    } finally {
+      await connection.end();
     }
 
-    // Re-enable foreign key checks
-    await connection.query('SET FOREIGN_KEY_CHECKS = 1');
+    if (report.status === 'failed') {
+      const error = report.error as SyncError;
+      return {
+        success: false,
+        message: `MySQL sync failed: ${error.code || 'UNKNOWN'} - ${error.message}`,
+        details,
+        statements,
+        report,
+      };
+    }
 
-    await connection.end();
+    const failedForeignKeys = report.foreignKeys.filter(fk => fk.status === 'failed').length;
 
     return {
       success: true,
-      message: `Synced ${tables.length} tables and ${relationships.length} relationships to MySQL`,
+      message: failedForeignKeys > 0
+        ? `Synced ${tables.length} tables to MySQL, but ${failedForeignKeys} of ${relationships.length} foreign keys failed`
+        : `Synced ${tables.length} tables and ${relationships.length} relationships to MySQL`,
       details,
+      statements,
+      rollbackStatements,
+      report,
     };
   } catch (error) {
     const err = error as Error & { code?: string; errno?: number };
     console.error('❌ MySQL sync error:', err);
     console.error('❌ Error code:', err.code);
     console.error('❌ Error message:', err.message);
+    report.status = 'failed';
+    report.error = toSyncError(error);
     return {
       success: false,
       message: `MySQL sync failed: ${err.code || 'UNKNOWN'} - ${err.message || 'No error message'}`,
       details,
+      report,
     };
   }
 };
 
+// Run previously generated migration SQL (e.g. a stored down migration) in order
+export const executeMigrationSQL = async (
+  config: MySQLConfig,
+  databaseName: string,
+  statements: string[]
+): Promise<{ success: boolean; message: string; executed: number }> => {
+  let executed = 0;
+
+  try {
+    const connection = await mysql.createConnection({
+      host: config.host,
+      port: config.port,
+      user: config.user,
+      password: config.password,
+      database: databaseName,
+    });
+
+    try {
+      await connection.query('SET FOREIGN_KEY_CHECKS = 0');
+
+      for (const sql of statements) {
+        console.log('🔧 Migration SQL:', sql);
+        await connection.query(sql);
+        executed++;
+      }
+
+      await connection.query('SET FOREIGN_KEY_CHECKS = 1');
+    } finally {
+      await connection.end();
+    }
+
+    return { success: true, message: `Executed ${executed} statements`, executed };
+  } catch (error) {
+    const err = error as Error & { code?: string };
+    console.error('❌ Migration SQL error:', err.message);
+    return {
+      success: false,
+      message: `Migration failed after ${executed} statements: ${err.code || 'UNKNOWN'} - ${err.message}`,
+      executed,
+    };
+  }
+};
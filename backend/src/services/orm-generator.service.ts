@@ -0,0 +1,30 @@
+import JSZip from 'jszip';
+import { SchemaData } from '../types/schema';
+import { buildOrmModel, OrmDialect, OrmTarget } from '../utils/orm/orm-model';
+import { typeormTarget } from '../utils/orm/typeorm';
+import { sequelizeTarget } from '../utils/orm/sequelize';
+import { drizzleTarget } from '../utils/orm/drizzle';
+
+export type OrmTargetName = 'typeorm' | 'sequelize' | 'drizzle';
+
+// Code generation targets; each renders the shared ORM model into its own files
+export const ORM_TARGETS: Record<OrmTargetName, OrmTarget> = {
+  typeorm: typeormTarget,
+  sequelize: sequelizeTarget,
+  drizzle: drizzleTarget,
+};
+
+// Generate the model files for a target and pack them into a zip archive
+export const generateOrmArchive = async (
+  target: OrmTargetName,
+  schema: SchemaData,
+  dialect: OrmDialect
+): Promise<{ archive: Buffer; fileCount: number }> => {
+  const files = ORM_TARGETS[target].generate(buildOrmModel(schema), dialect);
+
+  const zip = new JSZip();
+  files.forEach(file => zip.file(file.path, file.content));
+
+  const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { archive, fileCount: files.length };
+};
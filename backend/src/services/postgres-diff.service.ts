@@ -0,0 +1,446 @@
+import { Column, Table, Relationship, LiveTable, LiveColumn } from '../types/schema';
+import {
+  safeIdentifier,
+  columnType,
+  foreignKeyName,
+  isColumnNullable,
+  resolveRelationshipColumns,
+} from '../utils/mysql-ddl';
+import {
+  quoteIdentifier,
+  toPostgresType,
+  normalizePostgresType,
+  fromPostgresType,
+  isIdentityColumn,
+  postgresDefault,
+  generatePostgresColumnDefinition,
+  generatePostgresCreateTableSQL,
+  generatePostgresForeignKeySQL,
+  generatePostgresIndexSQL,
+  uniqueConstraintName,
+  postgresCheckConstraints,
+} from '../utils/postgres-ddl';
+import {
+  MigrationStatement,
+  normalizeDefault,
+  normalizeCheckClause,
+  matchCheckConstraints,
+  isNarrowingTypeChange,
+  sameColumns,
+  describeCanvasIndex,
+  describeLiveIndex,
+  managedIndexNames,
+  isClearedUniqueIndex,
+  matchLiveTable,
+  matchLiveColumn,
+} from './schema-diff.service';
+
+// Compare DEFAULT values the way Postgres reports them (booleans as true/false)
+const normalizePostgresDefault = (value: string | null | undefined): string | null => {
+  const normalized = normalizeDefault(value);
+  if (normalized === null) return null;
+
+  const lower = normalized.toLowerCase();
+  if (lower === 'true') return '1';
+  if (lower === 'false') return '0';
+  return normalized;
+};
+
+// ALTER COLUMN clauses that turn the live column into the canvas column
+const alterColumnClauses = (column: Column, live: LiveColumn): string[] => {
+  const name = quoteIdentifier(column.name);
+  const clauses: string[] = [];
+  const desiredType = toPostgresType(columnType(column));
+  const wantsIdentity = isIdentityColumn(column);
+
+  if (normalizePostgresType(desiredType) !== normalizePostgresType(live.columnType)) {
+    clauses.push(`ALTER COLUMN ${name} TYPE ${desiredType} USING ${name}::${desiredType}`);
+  }
+
+  const desiredDefault = postgresDefault(column);
+  if (normalizePostgresDefault(desiredDefault) !== normalizePostgresDefault(live.defaultValue)) {
+    clauses.push(desiredDefault ? `ALTER COLUMN ${name} SET DEFAULT ${desiredDefault}` : `ALTER COLUMN ${name} DROP DEFAULT`);
+  }
+
+  const isNullable = isColumnNullable(column);
+  if (isNullable !== live.isNullable) {
+    clauses.push(`ALTER COLUMN ${name} ${isNullable ? 'DROP' : 'SET'} NOT NULL`);
+  }
+
+  if (wantsIdentity !== live.isAutoIncrement) {
+    clauses.push(wantsIdentity
+      ? `ALTER COLUMN ${name} ADD GENERATED BY DEFAULT AS IDENTITY`
+      : `ALTER COLUMN ${name} DROP IDENTITY IF EXISTS`);
+  }
+
+  return clauses;
+};
+
+interface DesiredForeignKey {
+  relationshipId: string;
+  name: string;
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete: string;
+  onUpdate: string;
+  sql: string;
+}
+
+const buildDesiredForeignKeys = (tables: Table[], relationships: Relationship[]): DesiredForeignKey[] => {
+  const desired = new Map<string, DesiredForeignKey>();
+
+  for (const rel of relationships) {
+    const sourceTable = tables.find(t => t.id === rel.sourceTableId);
+    const targetTable = tables.find(t => t.id === rel.targetTableId);
+    const resolved = sourceTable && targetTable && resolveRelationshipColumns(rel, sourceTable, targetTable);
+    if (!sourceTable || !targetTable || !resolved) continue;
+
+    const { sourceColumns, targetColumns } = resolved;
+    const name = foreignKeyName(sourceTable.name, sourceColumns[0].name);
+    if (desired.has(name)) continue;
+
+    desired.set(name, {
+      relationshipId: rel.id,
+      name,
+      table: safeIdentifier(sourceTable.name),
+      columns: sourceColumns.map(c => safeIdentifier(c.name)),
+      referencedTable: safeIdentifier(targetTable.name),
+      referencedColumns: targetColumns.map(c => safeIdentifier(c.name)),
+      onDelete: rel.onDelete || 'CASCADE',
+      onUpdate: rel.onUpdate || 'CASCADE',
+      sql: generatePostgresForeignKeySQL(rel, sourceTable, sourceColumns, targetTable, targetColumns),
+    });
+  }
+
+  return Array.from(desired.values());
+};
+
+// Postgres counterpart of diffSchema: same statement order and rename detection,
+// but with ALTER COLUMN clauses, RENAME statements and named constraints
+export const diffPostgresSchema = (
+  live: Map<string, LiveTable>,
+  previousTables: Table[],
+  tables: Table[],
+  relationships: Relationship[] = []
+): MigrationStatement[] => {
+  const dropForeignKeys: MigrationStatement[] = [];
+  const renameTables: MigrationStatement[] = [];
+  const dropTables: MigrationStatement[] = [];
+  const createTables: MigrationStatement[] = [];
+  const dropChecks: MigrationStatement[] = [];
+  const alterTables: MigrationStatement[] = [];
+  const addChecks: MigrationStatement[] = [];
+  const addForeignKeys: MigrationStatement[] = [];
+
+  const desiredTableNames = new Set(tables.map(t => safeIdentifier(t.name)));
+  const matchedLiveTables = new Set<string>();
+  const touchedColumns = new Set<string>();
+  const survivingTables = new Map<string, string>();
+
+  for (const table of tables) {
+    const name = safeIdentifier(table.name);
+    const quotedName = quoteIdentifier(table.name);
+    const liveTable = matchLiveTable(table, live, previousTables, desiredTableNames);
+
+    // Designed indexes are created after their table, each in a statement of its own
+    const desiredIndexes = (table.indexes || []).flatMap(index => {
+      const sql = generatePostgresIndexSQL(table, index);
+      return sql ? [{ name: safeIdentifier(index.name), sql, description: describeCanvasIndex(table, index, false) }] : [];
+    });
+    const createIndex = (index: { name: string; sql: string; description: string }): MigrationStatement => ({
+      action: 'alter_table',
+      table: name,
+      sql: index.sql,
+      changes: [`Add index ${index.name} ${index.description}`],
+      destructive: false,
+      warnings: [],
+    });
+
+    if (!liveTable) {
+      createTables.push({
+        action: 'create_table',
+        table: name,
+        sql: generatePostgresCreateTableSQL(table),
+        changes: [`Create table ${name} with ${table.columns.length} columns`],
+        destructive: false,
+        warnings: [],
+      });
+      createTables.push(...desiredIndexes.map(createIndex));
+      continue;
+    }
+
+    matchedLiveTables.add(liveTable.name);
+    survivingTables.set(liveTable.name, name);
+
+    if (liveTable.name !== name) {
+      renameTables.push({
+        action: 'rename_table',
+        table: name,
+        sql: `ALTER TABLE "${liveTable.name}" RENAME TO ${quotedName}`,
+        changes: [`Rename table ${liveTable.name} → ${name}`],
+        destructive: false,
+        warnings: [],
+      });
+    }
+
+    const previousTable = previousTables.find(t => t.id === table.id);
+    const desiredColumnNames = new Set(table.columns.map(c => safeIdentifier(c.name)));
+    const matchedLiveColumns = new Set<string>();
+    const liveNameOf = new Map<string, string>();
+    const clauses: string[] = [];
+    const changes: string[] = [];
+    const warnings: string[] = [];
+    let destructive = false;
+
+    for (const column of table.columns) {
+      const colName = safeIdentifier(column.name);
+      const liveColumn = matchLiveColumn(column, liveTable, previousTable, desiredColumnNames);
+
+      if (!liveColumn) {
+        clauses.push(`ADD COLUMN ${generatePostgresColumnDefinition(column)}`);
+        changes.push(`Add column ${colName} ${toPostgresType(columnType(column))}`);
+        continue;
+      }
+
+      matchedLiveColumns.add(liveColumn.name);
+      liveNameOf.set(colName, liveColumn.name);
+
+      // Postgres renames columns in a statement of their own
+      if (liveColumn.name !== colName) {
+        alterTables.push({
+          action: 'alter_table',
+          table: name,
+          sql: `ALTER TABLE ${quotedName} RENAME COLUMN "${liveColumn.name}" TO "${colName}"`,
+          changes: [`Rename column ${liveColumn.name} → ${colName}`],
+          destructive: false,
+          warnings: [],
+        });
+      }
+
+      const columnClauses = alterColumnClauses(column, liveColumn);
+      if (columnClauses.length === 0) continue;
+
+      clauses.push(...columnClauses);
+      changes.push(`Modify column ${colName}: ${liveColumn.columnType} → ${toPostgresType(columnType(column))}`);
+      touchedColumns.add(`${name}.${colName}`);
+
+      // Compare in canvas notation after the Postgres mapping, so MEDIUMINT → INT is not a change
+      if (isNarrowingTypeChange(fromPostgresType(liveColumn.columnType), fromPostgresType(toPostgresType(columnType(column))))) {
+        destructive = true;
+        warnings.push(`Column ${colName} narrows from ${liveColumn.columnType} to ${toPostgresType(columnType(column))}; values may be truncated or fail to convert`);
+      }
+      if (liveColumn.isNullable && !isColumnNullable(column)) {
+        warnings.push(`Column ${colName} becomes NOT NULL; existing NULL values will be rejected`);
+      }
+    }
+
+    // Primary key
+    const desiredPrimaryKey = table.columns.filter(c => c.isPrimaryKey).map(c => safeIdentifier(c.name));
+    const toDesiredName = (liveName: string): string => {
+      const entry = Array.from(liveNameOf.entries()).find(([, value]) => value === liveName);
+      return entry ? entry[0] : liveName;
+    };
+    const livePrimaryKey = liveTable.primaryKey.map(toDesiredName);
+
+    if (!sameColumns(desiredPrimaryKey, livePrimaryKey)) {
+      if (liveTable.primaryKeyName) {
+        clauses.push(`DROP CONSTRAINT "${liveTable.primaryKeyName}"`);
+      }
+      if (desiredPrimaryKey.length > 0) {
+        clauses.push(`ADD PRIMARY KEY (${desiredPrimaryKey.map(c => `"${c}"`).join(', ')})`);
+      }
+      changes.push(`Set primary key (${desiredPrimaryKey.join(', ') || 'none'})`);
+    }
+
+    // Single-column UNIQUE constraints; designed indexes are handled below
+    const managedIndexes = managedIndexNames(table, previousTable);
+    const otherIndexes = liveTable.indexes.filter(index => !managedIndexes.has(index.name));
+    const desiredUnique = table.columns
+      .filter(c => c.isUnique && !c.isPrimaryKey)
+      .map(c => safeIdentifier(c.name));
+    const dropIndexes: string[] = [];
+
+    for (const index of otherIndexes) {
+      if (!isClearedUniqueIndex(index, table, previousTable, liveNameOf)) continue;
+
+      if (index.isConstraint) {
+        clauses.push(`DROP CONSTRAINT "${index.name}"`);
+      } else {
+        // Plain unique indexes are not part of ALTER TABLE
+        dropIndexes.push(`DROP INDEX IF EXISTS "${index.name}"`);
+      }
+      changes.push(`Drop unique index ${index.name}`);
+    }
+
+    for (const colName of desiredUnique) {
+      const liveColumnName = liveNameOf.get(colName);
+      const exists = liveColumnName !== undefined && otherIndexes.some(
+        idx => idx.isUnique && idx.columns.length === 1 && idx.columns[0] === liveColumnName
+      );
+      if (!exists) {
+        clauses.push(`ADD CONSTRAINT "${uniqueConstraintName(table.name, colName)}" UNIQUE ("${colName}")`);
+        changes.push(`Add unique index on ${colName}`);
+      }
+    }
+
+    // Designed indexes, matched by name and rebuilt when their definition changes
+    const keptIndexes = new Set<string>();
+
+    for (const index of liveTable.indexes) {
+      if (!managedIndexes.has(index.name)) continue;
+
+      const desired = desiredIndexes.find(d => d.name === index.name);
+      if (desired && desired.description === describeLiveIndex(index, toDesiredName)) {
+        keptIndexes.add(index.name);
+        continue;
+      }
+
+      if (index.isConstraint) {
+        clauses.push(`DROP CONSTRAINT "${index.name}"`);
+      } else {
+        dropIndexes.push(`DROP INDEX IF EXISTS "${index.name}"`);
+      }
+      changes.push(`Drop index ${index.name}`);
+    }
+
+    // Columns that are no longer on the canvas
+    for (const liveColumn of liveTable.columns) {
+      if (!matchedLiveColumns.has(liveColumn.name)) {
+        clauses.push(`DROP COLUMN "${liveColumn.name}"`);
+        changes.push(`Drop column ${liveColumn.name}`);
+        destructive = true;
+        warnings.push(`Column ${liveColumn.name} and its data will be deleted`);
+      }
+    }
+
+    for (const sql of dropIndexes) {
+      alterTables.push({ action: 'alter_table', table: name, sql, changes: [], destructive: false, warnings: [] });
+    }
+
+    if (clauses.length > 0) {
+      alterTables.push({
+        action: 'alter_table',
+        table: name,
+        sql: `ALTER TABLE ${quotedName}\n  ${clauses.join(',\n  ')}`,
+        changes,
+        destructive,
+        warnings,
+      });
+    }
+
+    alterTables.push(...desiredIndexes.filter(index => !keptIndexes.has(index.name)).map(createIndex));
+
+    // CHECK constraints are dropped before the columns they reference change, and re-added afterwards
+    const desiredChecks = postgresCheckConstraints(table);
+
+    const { checksToDrop, checksToAdd } = matchCheckConstraints(
+      desiredChecks,
+      liveTable.checks,
+      desired => touchedColumns.has(`${name}.${desired.column}`)
+    );
+
+    if (checksToDrop.length > 0) {
+      dropChecks.push({
+        action: 'drop_check',
+        table: liveTable.name,
+        sql: `ALTER TABLE "${liveTable.name}"\n  ${checksToDrop.map(c => `DROP CONSTRAINT "${c.name}"`).join(',\n  ')}`,
+        changes: checksToDrop.map(c => `Drop check ${c.name}`),
+        destructive: false,
+        warnings: [],
+      });
+    }
+
+    if (checksToAdd.length > 0) {
+      addChecks.push({
+        action: 'add_check',
+        table: name,
+        sql: `ALTER TABLE ${quotedName}\n  ${checksToAdd.map(c => `ADD CONSTRAINT "${c.name}" CHECK (${c.clause})`).join(',\n  ')}`,
+        changes: checksToAdd.map(c => `Add check ${c.name}`),
+        destructive: false,
+        warnings: ['Existing rows that violate the check will make this statement fail'],
+      });
+    }
+  }
+
+  // Tables that are no longer on the canvas
+  for (const liveTable of live.values()) {
+    if (!matchedLiveTables.has(liveTable.name)) {
+      dropTables.push({
+        action: 'drop_table',
+        table: liveTable.name,
+        sql: `DROP TABLE IF EXISTS "${liveTable.name}"`,
+        changes: [`Drop table ${liveTable.name}`],
+        destructive: true,
+        warnings: [`Table ${liveTable.name} and all of its rows will be deleted`],
+      });
+    }
+  }
+
+  // Foreign keys: drop what changed or disappeared, add what is new
+  const desiredForeignKeys = buildDesiredForeignKeys(tables, relationships);
+  const keptForeignKeys = new Set<string>();
+
+  for (const liveTable of live.values()) {
+    const newTableName = survivingTables.get(liveTable.name);
+
+    for (const fk of liveTable.foreignKeys) {
+      // Matched by definition, so keys another tool named (orders_user_id_fkey) are kept as they are
+      const isSameKey = (desired: DesiredForeignKey) =>
+        !keptForeignKeys.has(desired.name)
+        && desired.table === newTableName
+        && desired.columns.join(',') === fk.columns.join(',')
+        && desired.referencedTable === (survivingTables.get(fk.referencedTable) || fk.referencedTable)
+        && desired.referencedColumns.join(',') === fk.referencedColumns.join(',')
+        && desired.onDelete === fk.onDelete
+        && desired.onUpdate === fk.onUpdate;
+      const desired = newTableName
+        ? desiredForeignKeys.find(d => d.name === fk.name && isSameKey(d)) || desiredForeignKeys.find(isSameKey)
+        : undefined;
+      const unchanged = desired
+        && !desired.columns.some(column => touchedColumns.has(`${desired.table}.${column}`))
+        && !desired.referencedColumns.some(column => touchedColumns.has(`${desired.referencedTable}.${column}`));
+
+      if (unchanged) {
+        keptForeignKeys.add(desired.name);
+        continue;
+      }
+
+      // Also dropped on tables that go away, so DROP TABLE never trips over a reference
+      dropForeignKeys.push({
+        action: 'drop_foreign_key',
+        table: liveTable.name,
+        sql: `ALTER TABLE "${liveTable.name}" DROP CONSTRAINT IF EXISTS "${fk.name}"`,
+        changes: [`Drop FK ${fk.name}`],
+        destructive: false,
+        warnings: [],
+      });
+    }
+  }
+
+  for (const fk of desiredForeignKeys) {
+    if (keptForeignKeys.has(fk.name)) continue;
+
+    addForeignKeys.push({
+      action: 'add_foreign_key',
+      table: fk.table,
+      sql: fk.sql,
+      changes: [`Add FK ${fk.table}(${fk.columns.join(', ')}) → ${fk.referencedTable}(${fk.referencedColumns.join(', ')})`],
+      destructive: false,
+      warnings: [],
+      relationshipId: fk.relationshipId,
+    });
+  }
+
+  return [
+    ...dropForeignKeys,
+    ...dropChecks,
+    ...renameTables,
+    ...dropTables,
+    ...createTables,
+    ...alterTables,
+    ...addChecks,
+    ...addForeignKeys,
+  ];
+};
@@ -0,0 +1,191 @@
+import { Client } from 'pg';
+import { IndexOrder, LiveTable } from '../types/schema';
+
+interface ColumnRow {
+  table_name: string;
+  column_name: string;
+  column_type: string;
+  is_nullable: boolean;
+  is_identity: boolean;
+  column_default: string | null;
+}
+
+interface IndexRow {
+  table_name: string;
+  index_name: string;
+  columns: string[];
+  orders: IndexOrder[];
+  is_unique: boolean;
+  is_constraint: boolean;
+}
+
+interface ConstraintRow {
+  table_name: string;
+  constraint_name: string;
+  constraint_type: 'p' | 'c' | 'f';
+  columns: string[];
+  referenced_table: string | null;
+  referenced_columns: string[] | null;
+  delete_action: string;
+  update_action: string;
+  definition: string;
+}
+
+const REFERENTIAL_ACTIONS: Record<string, string> = {
+  a: 'NO ACTION',
+  r: 'RESTRICT',
+  c: 'CASCADE',
+  n: 'SET NULL',
+  d: 'SET DEFAULT',
+};
+
+// Strip type casts and quoting so defaults and CHECK clauses compare like the canvas values
+// e.g. `'active'::character varying` → `active`, `(price > (0)::numeric)` → `(price > (0))`
+const stripCasts = (expression: string): string =>
+  expression.replace(/::[a-z_]+( [a-z_]+)*(\[\])?/gi, '').replace(/"/g, '');
+
+const cleanDefault = (value: string | null): string | null => {
+  if (value === null || value.startsWith('nextval(')) return null;
+  return stripCasts(value).replace(/^'(.*)'$/, '$1');
+};
+
+// Read the live structure of the `public` schema of a Postgres database from pg_catalog
+export const readPostgresSchema = async (client: Client): Promise<Map<string, LiveTable>> => {
+  const tables = new Map<string, LiveTable>();
+
+  const tableResult = await client.query<{ table_name: string }>(
+    `SELECT c.relname AS table_name
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = 'public' AND c.relkind = 'r'`
+  );
+
+  for (const row of tableResult.rows) {
+    tables.set(row.table_name, {
+      name: row.table_name,
+      columns: [],
+      primaryKey: [],
+      indexes: [],
+      checks: [],
+      foreignKeys: [],
+    });
+  }
+
+  // Columns; SERIAL columns (nextval default) count as auto increment like identity columns
+  const columnResult = await client.query<ColumnRow>(
+    `SELECT c.relname AS table_name,
+            a.attname AS column_name,
+            format_type(a.atttypid, a.atttypmod) AS column_type,
+            NOT a.attnotnull AS is_nullable,
+            (a.attidentity <> '' OR COALESCE(pg_get_expr(d.adbin, d.adrelid), '') LIKE 'nextval(%') AS is_identity,
+            pg_get_expr(d.adbin, d.adrelid) AS column_default
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+     LEFT JOIN pg_attrdef d ON d.adrelid = c.oid AND d.adnum = a.attnum
+     WHERE n.nspname = 'public' AND c.relkind = 'r'
+     ORDER BY c.relname, a.attnum`
+  );
+
+  for (const row of columnResult.rows) {
+    const table = tables.get(row.table_name);
+    if (!table) continue;
+
+    table.columns.push({
+      name: row.column_name,
+      columnType: row.column_type,
+      isNullable: row.is_nullable,
+      isAutoIncrement: row.is_identity,
+      defaultValue: cleanDefault(row.column_default),
+      extra: row.is_identity ? 'identity' : '',
+    });
+  }
+
+  // Column indexes, unique ones whether created as constraints or with CREATE UNIQUE INDEX.
+  // Bit 1 of indoption marks a DESC column; expression indexes are left out.
+  const indexResult = await client.query<IndexRow>(
+    `SELECT c.relname AS table_name,
+            i.relname AS index_name,
+            ARRAY(
+              SELECT a.attname
+              FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+              JOIN pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+              ORDER BY k.ord
+            )::text[] AS columns,
+            ARRAY(
+              SELECT CASE WHEN o.option & 1 = 1 THEN 'DESC' ELSE 'ASC' END
+              FROM unnest(ix.indoption::int2[]) WITH ORDINALITY AS o(option, ord)
+              ORDER BY o.ord
+            )::text[] AS orders,
+            ix.indisunique AS is_unique,
+            EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = ix.indexrelid) AS is_constraint
+     FROM pg_index ix
+     JOIN pg_class i ON i.oid = ix.indexrelid
+     JOIN pg_class c ON c.oid = ix.indrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = 'public' AND NOT ix.indisprimary AND ix.indexprs IS NULL`
+  );
+
+  for (const row of indexResult.rows) {
+    tables.get(row.table_name)?.indexes.push({
+      name: row.index_name,
+      columns: row.columns,
+      isUnique: row.is_unique,
+      orders: row.orders,
+      isConstraint: row.is_constraint,
+    });
+  }
+
+  // Primary keys, CHECK constraints and foreign keys
+  const constraintResult = await client.query<ConstraintRow>(
+    `SELECT c.relname AS table_name,
+            con.conname AS constraint_name,
+            con.contype AS constraint_type,
+            ARRAY(
+              SELECT a.attname
+              FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+              JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+              ORDER BY k.ord
+            )::text[] AS columns,
+            rc.relname AS referenced_table,
+            ARRAY(
+              SELECT a.attname
+              FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+              JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+              ORDER BY k.ord
+            )::text[] AS referenced_columns,
+            con.confdeltype AS delete_action,
+            con.confupdtype AS update_action,
+            pg_get_constraintdef(con.oid) AS definition
+     FROM pg_constraint con
+     JOIN pg_class c ON c.oid = con.conrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     LEFT JOIN pg_class rc ON rc.oid = con.confrelid
+     WHERE n.nspname = 'public' AND con.contype IN ('p', 'c', 'f')
+     ORDER BY c.relname, con.conname`
+  );
+
+  for (const row of constraintResult.rows) {
+    const table = tables.get(row.table_name);
+    if (!table) continue;
+
+    if (row.constraint_type === 'p') {
+      table.primaryKey = row.columns;
+      table.primaryKeyName = row.constraint_name;
+    } else if (row.constraint_type === 'c') {
+      const clause = row.definition.replace(/^CHECK\s*\(/i, '').replace(/\)(\s+NOT VALID)?$/i, '');
+      table.checks.push({ name: row.constraint_name, clause: stripCasts(clause) });
+    } else if (row.referenced_table && row.referenced_columns) {
+      table.foreignKeys.push({
+        name: row.constraint_name,
+        columns: row.columns,
+        referencedTable: row.referenced_table,
+        referencedColumns: row.referenced_columns,
+        onDelete: REFERENTIAL_ACTIONS[row.delete_action] || 'NO ACTION',
+        onUpdate: REFERENTIAL_ACTIONS[row.update_action] || 'NO ACTION',
+      });
+    }
+  }
+
+  return tables;
+};
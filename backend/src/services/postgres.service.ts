@@ -0,0 +1,331 @@
+import { Client } from 'pg';
+import {
+  PostgresConfig,
+  Table,
+  Relationship,
+  SchemaData,
+  SyncReport,
+  SyncError,
+  ForeignKeySyncResult,
+} from '../types/schema';
+import { createSyncReport, toSyncError } from '../utils/sync-report';
+import { SqlStatement } from '../utils/sql-query';
+import { readPostgresSchema } from './postgres-introspection.service';
+import { diffPostgresSchema } from './postgres-diff.service';
+import { MigrationStatement } from './schema-diff.service';
+
+// Open a client on the given database (`postgres` is the maintenance database every server has)
+const connectPostgres = async (config: PostgresConfig, databaseName = 'postgres'): Promise<Client> => {
+  const client = new Client({
+    host: config.host,
+    port: config.port,
+    user: config.user,
+    password: config.password,
+    database: databaseName,
+  });
+  await client.connect();
+  return client;
+};
+
+// Test Postgres connection
+export const testPostgresConnection = async (config: PostgresConfig): Promise<{ success: boolean; message: string }> => {
+  try {
+    const client = await connectPostgres(config);
+    await client.query('SELECT 1');
+    await client.end();
+
+    return { success: true, message: 'Connection successful' };
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
+
+// Execute a Postgres query with `$n` placeholders. Statements returning rows (SELECT, RETURNING)
+// resolve to the rows, other writes report affectedRows like mysql2.
+export const executePostgresQuery = async (
+  config: PostgresConfig,
+  databaseName: string,
+  query: string,
+  params: unknown[] = []
+): Promise<{ success: boolean; message: string; result?: unknown }> => {
+  try {
+    const client = await connectPostgres(config, databaseName);
+
+    try {
+      const queryResult = await client.query(query, params);
+      const result = queryResult.fields.length > 0 ? queryResult.rows : { affectedRows: queryResult.rowCount ?? 0 };
+
+      return { success: true, message: 'Query executed successfully', result };
+    } finally {
+      await client.end();
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('Postgres query error:', err.message);
+    return { success: false, message: err.message };
+  }
+};
+
+// Run parameterized statements in one transaction; any failure rolls all of them back.
+// `failedIndex` is the position of the statement that failed.
+export const executePostgresTransaction = async (
+  config: PostgresConfig,
+  databaseName: string,
+  statements: SqlStatement[]
+): Promise<{ success: boolean; message: string; results?: unknown[]; failedIndex?: number }> => {
+  let client: Client | undefined;
+  const results: unknown[] = [];
+
+  try {
+    client = await connectPostgres(config, databaseName);
+
+    await client.query('BEGIN');
+    for (const { query, params } of statements) {
+      const queryResult = await client.query(query, params);
+      results.push(queryResult.fields.length > 0 ? queryResult.rows : { affectedRows: queryResult.rowCount ?? 0 });
+    }
+    await client.query('COMMIT');
+
+    return { success: true, message: `Executed ${results.length} statements`, results };
+  } catch (error) {
+    const err = error as Error;
+    console.error('Postgres transaction error:', err.message);
+    await client?.query('ROLLBACK').catch(() => undefined);
+    return { success: false, message: err.message, failedIndex: results.length };
+  } finally {
+    await client?.end().catch(() => undefined);
+  }
+};
+
+// Create a new database in Postgres
+export const createPostgresDatabase = async (
+  config: PostgresConfig,
+  databaseName: string
+): Promise<{ success: boolean; message: string }> => {
+  try {
+    const client = await connectPostgres(config);
+
+    // Sanitize database name to prevent SQL injection
+    const safeName = databaseName.replace(/[^a-zA-Z0-9_]/g, '_');
+
+    try {
+      const existing = await client.query('SELECT 1 FROM pg_database WHERE datname = $1', [safeName]);
+      if (existing.rowCount && existing.rowCount > 0) {
+        return { success: false, message: `Database '${safeName}' already exists` };
+      }
+
+      // CREATE DATABASE cannot take parameters
+      await client.query(`CREATE DATABASE "${safeName}"`);
+    } finally {
+      await client.end();
+    }
+
+    return { success: true, message: `Database '${safeName}' created successfully` };
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
+
+// Sync schema to Postgres - diffs the live database against the canvas and applies the
+// statements in one transaction, so a failing statement leaves the database untouched.
+// Foreign keys run inside savepoints: one that fails is reported without undoing the rest.
+// Unless `allowDestructive` is set, a plan that would lose data is returned unapplied.
+export const syncSchemaToPostgres = async (
+  config: PostgresConfig,
+  databaseName: string,
+  tables: Table[],
+  relationships: Relationship[] = [],
+  previousSchema: SchemaData = { tables: [], relationships: [] },
+  options: { allowDestructive?: boolean } = {}
+): Promise<{
+  success: boolean;
+  message: string;
+  details?: string[];
+  blocked?: boolean;
+  statements?: MigrationStatement[];
+  rollbackStatements?: MigrationStatement[];
+  report?: SyncReport;
+}> => {
+  const details: string[] = [];
+  const { allowDestructive = true } = options;
+  const { report, tableResult } = createSyncReport(tables);
+
+  try {
+    const client = await connectPostgres(config, databaseName);
+
+    let statements: MigrationStatement[];
+    let rollbackStatements: MigrationStatement[] = [];
+
+    try {
+      const liveSchema = await readPostgresSchema(client);
+      statements = diffPostgresSchema(liveSchema, previousSchema.tables, tables, relationships);
+
+      if (!allowDestructive && statements.some(statement => statement.destructive)) {
+        return {
+          success: false,
+          blocked: true,
+          message: 'Schema change would delete data and needs confirmation',
+          statements,
+        };
+      }
+
+      console.log(`🔧 ${statements.length} schema statements to apply`);
+      await client.query('BEGIN');
+
+      for (const statement of statements) {
+        if (statement.action === 'add_foreign_key') {
+          const fkResult: ForeignKeySyncResult = {
+            relationshipId: statement.relationshipId,
+            table: statement.table,
+            description: statement.changes.join(', '),
+            status: 'ok',
+          };
+          report.foreignKeys.push(fkResult);
+
+          if (report.status === 'failed') {
+            fkResult.status = 'skipped';
+            continue;
+          }
+
+          console.log(`🔧 SQL for ${statement.table}:`, statement.sql);
+          await client.query('SAVEPOINT add_foreign_key');
+          try {
+            await client.query(statement.sql);
+            await client.query('RELEASE SAVEPOINT add_foreign_key');
+            details.push(...statement.changes);
+            console.log('✅ FK created successfully');
+          } catch (fkError) {
+            const err = fkError as Error;
+            await client.query('ROLLBACK TO SAVEPOINT add_foreign_key');
+            fkResult.status = 'failed';
+            fkResult.error = toSyncError(fkError, statement.sql);
+            report.status = 'partial';
+            details.push(`FK failed: ${statement.table} - ${err.message}`);
+            console.log('❌ FK creation failed:', err.message);
+          }
+          continue;
+        }
+
+        const result = tableResult(statement.table);
+
+        if (report.status === 'failed') {
+          result.status = 'skipped';
+          continue;
+        }
+
+        console.log(`🔧 SQL for ${statement.table}:`, statement.sql);
+        try {
+          await client.query(statement.sql);
+          details.push(...statement.changes);
+          result.changes.push(...statement.changes);
+        } catch (statementError) {
+          result.status = 'failed';
+          result.error = toSyncError(statementError, statement.sql);
+          report.status = 'failed';
+          report.error = result.error;
+          console.error(`❌ Statement failed for ${statement.table}:`, result.error.message);
+        }
+      }
+
+      if (report.status === 'failed') {
+        await client.query('ROLLBACK');
+
+        // Nothing was kept, so the tables that did run are reported as skipped too
+        for (const result of report.tables) {
+          if (result.status === 'ok') {
+            result.status = 'skipped';
+            result.changes = [];
+          }
+        }
+      } else {
+        await client.query('COMMIT');
+
+        // Diff the resulting database against the previous canvas to get the down migration
+        const appliedSchema = await readPostgresSchema(client);
+        rollbackStatements = diffPostgresSchema(
+          appliedSchema,
+          tables,
+          previousSchema.tables,
+          previousSchema.relationships
+        );
+      }
+    } finally {
+      await client.end();
+    }
+
+    if (report.status === 'failed') {
+      const error = report.error as SyncError;
+      return {
+        success: false,
+        message: `Postgres sync failed: ${error.code || 'UNKNOWN'} - ${error.message}`,
+        details,
+        statements,
+        report,
+      };
+    }
+
+    const failedForeignKeys = report.foreignKeys.filter(fk => fk.status === 'failed').length;
+
+    return {
+      success: true,
+      message: failedForeignKeys > 0
+        ? `Synced ${tables.length} tables to Postgres, but ${failedForeignKeys} of ${relationships.length} foreign keys failed`
+        : `Synced ${tables.length} tables and ${relationships.length} relationships to Postgres`,
+      details,
+      statements,
+      rollbackStatements,
+      report,
+    };
+  } catch (error) {
+    const err = error as Error & { code?: string };
+    console.error('❌ Postgres sync error:', err.message);
+    report.status = 'failed';
+    report.error = toSyncError(error);
+    return {
+      success: false,
+      message: `Postgres sync failed: ${err.code || 'UNKNOWN'} - ${err.message || 'No error message'}`,
+      details,
+      report,
+    };
+  }
+};
+
+// Run previously generated migration SQL (e.g. a stored down migration) in one transaction
+export const executePostgresMigrationSQL = async (
+  config: PostgresConfig,
+  databaseName: string,
+  statements: string[]
+): Promise<{ success: boolean; message: string; executed: number }> => {
+  let executed = 0;
+
+  try {
+    const client = await connectPostgres(config, databaseName);
+
+    try {
+      await client.query('BEGIN');
+      for (const sql of statements) {
+        console.log('🔧 Migration SQL:', sql);
+        await client.query(sql);
+        executed++;
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      await client.end();
+    }
+
+    return { success: true, message: `Executed ${executed} statements`, executed };
+  } catch (error) {
+    const err = error as Error & { code?: string };
+    console.error('❌ Migration SQL error:', err.message);
+    return {
+      success: false,
+      message: `Migration rolled back after statement ${executed + 1}: ${err.code || 'UNKNOWN'} - ${err.message}`,
+      executed: 0,
+    };
+  }
+};
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { parseSQLSchema } from '../utils/sql-ddl-parser';
+import { liveSchemaToCanvas } from './schema-import.service';
+import { diffSchema } from './schema-diff.service';
+import { LiveTable, SchemaData, Table } from '../types/schema';
+
+const SCHEMA_SQL = `
+CREATE TABLE users (
+  id INT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+  email VARCHAR(255) NOT NULL UNIQUE,
+  age INT CHECK (age >= 0)
+);
+CREATE TABLE orders (
+  id INT NOT NULL AUTO_INCREMENT,
+  user_id INT NOT NULL,
+  total DECIMAL(10,2) DEFAULT 0,
+  PRIMARY KEY (id),
+  KEY idx_total (total),
+  CONSTRAINT orders_ibfk_1 FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+);`;
+
+// Live database as parsed from DDL, and the canvas an import of it produces
+const setup = (): { live: Map<string, LiveTable>; canvas: SchemaData } => {
+  const { tables: live } = parseSQLSchema(SCHEMA_SQL);
+  return { live, canvas: liveSchemaToCanvas(live) };
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const findTable = (tables: Table[], name: string): Table => {
+  const table = tables.find(t => t.name === name);
+  if (!table) throw new Error(`No table ${name}`);
+  return table;
+};
+
+describe('diffSchema', () => {
+  it('produces no statements when the canvas matches the database', () => {
+    const { live, canvas } = setup();
+
+    expect(diffSchema(live, canvas.tables, canvas.tables, canvas.relationships)).toEqual([]);
+  });
+
+  it('keeps constraints named by another tool instead of recreating them', () => {
+    const { live, canvas } = setup();
+    const statements = diffSchema(live, canvas.tables, canvas.tables, canvas.relationships);
+
+    expect(statements.map(statement => statement.sql).join('\n')).not.toMatch(/orders_ibfk_1|FOREIGN KEY|CHECK/);
+  });
+
+  it('creates every table and foreign key on an empty database', () => {
+    const { canvas } = setup();
+    const statements = diffSchema(new Map(), [], canvas.tables, canvas.relationships);
+
+    expect(statements.map(statement => statement.action)).toEqual(['create_table', 'create_table', 'add_foreign_key']);
+    expect(statements.some(statement => statement.destructive)).toBe(false);
+  });
+
+  it('renames a column instead of dropping and adding it', () => {
+    const { live, canvas } = setup();
+    const tables = clone(canvas.tables);
+    findTable(tables, 'users').columns.find(c => c.name === 'email')!.name = 'email_address';
+
+    const statements = diffSchema(live, canvas.tables, tables, canvas.relationships);
+    const sql = statements.map(statement => statement.sql).join('\n');
+
+    expect(sql).toContain('CHANGE COLUMN `email` `email_address`');
+    expect(sql).not.toMatch(/DROP COLUMN|ADD COLUMN/);
+    expect(statements.some(statement => statement.destructive)).toBe(false);
+  });
+
+  it('renames a table instead of dropping and recreating it', () => {
+    const { live, canvas } = setup();
+    const tables = clone(canvas.tables);
+    findTable(tables, 'users').name = 'accounts';
+
+    const statements = diffSchema(live, canvas.tables, tables, canvas.relationships);
+
+    expect(statements.map(statement => statement.action)).toContain('rename_table');
+    expect(statements.map(statement => statement.action)).not.toContain('drop_table');
+    expect(statements.some(statement => statement.destructive)).toBe(false);
+  });
+
+  it('marks a dropped column as destructive', () => {
+    const { live, canvas } = setup();
+    const tables = clone(canvas.tables);
+    const users = findTable(tables, 'users');
+    users.columns = users.columns.filter(c => c.name !== 'age');
+
+    const statements = diffSchema(live, canvas.tables, tables, canvas.relationships);
+    const drop = statements.find(statement => statement.sql.includes('DROP COLUMN `age`'));
+
+    expect(drop?.destructive).toBe(true);
+    expect(drop?.warnings.length).toBeGreaterThan(0);
+  });
+
+  it('marks a dropped table as destructive', () => {
+    const { live, canvas } = setup();
+    const tables = canvas.tables.filter(t => t.name !== 'orders');
+
+    const statements = diffSchema(live, canvas.tables, tables, []);
+    const drop = statements.find(statement => statement.action === 'drop_table');
+
+    expect(drop?.table).toBe('orders');
+    expect(drop?.destructive).toBe(true);
+  });
+
+  it('marks a narrowing type change as destructive', () => {
+    const { live, canvas } = setup();
+    const tables = clone(canvas.tables);
+    findTable(tables, 'users').columns.find(c => c.name === 'email')!.length = 50;
+
+    const statements = diffSchema(live, canvas.tables, tables, canvas.relationships);
+
+    expect(statements).toHaveLength(1);
+    expect(statements[0].sql).toContain('MODIFY COLUMN `email` VARCHAR(50)');
+    expect(statements[0].destructive).toBe(true);
+  });
+
+  it('treats a widening type change as safe', () => {
+    const { live, canvas } = setup();
+    const tables = clone(canvas.tables);
+    findTable(tables, 'users').columns.find(c => c.name === 'email')!.length = 320;
+
+    const statements = diffSchema(live, canvas.tables, tables, canvas.relationships);
+
+    expect(statements).toHaveLength(1);
+    expect(statements[0].destructive).toBe(false);
+  });
+
+  it('drops the unique index of a column whose UNIQUE flag was cleared', () => {
+    const { live, canvas } = setup();
+    const tables = clone(canvas.tables);
+    findTable(tables, 'users').columns.find(c => c.name === 'email')!.isUnique = false;
+
+    const statements = diffSchema(live, canvas.tables, tables, canvas.relationships);
+
+    expect(statements.map(statement => statement.sql).join('\n')).toContain('DROP INDEX `uq_users_email`');
+  });
+
+  it('leaves unique indexes added by hand alone', () => {
+    const { live, canvas } = setup();
+    live.get('users')!.indexes.push({ name: 'uq_users_age', columns: ['age'], isUnique: true });
+
+    expect(diffSchema(live, canvas.tables, canvas.tables, canvas.relationships)).toEqual([]);
+  });
+});
@@ -0,0 +1,657 @@
+import { Column, Table, TableIndex, IndexOrder, Relationship, LiveTable, LiveColumn, LiveIndex, LiveCheck } from '../types/schema';
+import {
+  safeIdentifier,
+  columnType,
+  generateColumnDefinition,
+  generateCreateTableSQL,
+  generateForeignKeySQL,
+  checkConstraintName,
+  foreignKeyName,
+  generateIndexDefinition,
+  isColumnNullable,
+  resolveIndexColumns,
+  resolveRelationshipColumns,
+} from '../utils/mysql-ddl';
+
+export type MigrationAction =
+  | 'drop_foreign_key'
+  | 'rename_table'
+  | 'drop_table'
+  | 'create_table'
+  | 'drop_check'
+  | 'alter_table'
+  | 'add_check'
+  | 'add_foreign_key';
+
+// A single DDL statement produced by the diff engine, in execution order
+export interface MigrationStatement {
+  action: MigrationAction;
+  table: string;
+  sql: string;
+  changes: string[];
+  // True when running the statement loses data (dropped tables/columns, narrowing type changes)
+  destructive: boolean;
+  warnings: string[];
+  // Canvas relationship an add_foreign_key statement creates
+  relationshipId?: string;
+}
+
+interface DesiredForeignKey {
+  relationshipId: string;
+  name: string;
+  table: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete: string;
+  onUpdate: string;
+  sql: string;
+}
+
+const INTEGER_TYPES = /^(tinyint|smallint|mediumint|int|bigint)\(\d+\)/;
+
+// Bring a column type into the form MySQL reports in INFORMATION_SCHEMA.COLUMNS.COLUMN_TYPE
+export const normalizeColumnType = (type: string): string => {
+  let normalized = type.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\s*,\s*/g, ',');
+
+  if (normalized === 'boolean' || normalized === 'bool') return 'tinyint(1)';
+  if (normalized.startsWith('integer')) normalized = normalized.replace(/^integer/, 'int');
+
+  // A decimal without a scale has scale 0, and MySQL reports it as decimal(p,0)
+  normalized = normalized.replace(/^(decimal|numeric)\((\d+)\)/, '$1($2,0)');
+
+  // MySQL 8.0.19+ no longer reports integer display widths, except for tinyint(1)
+  normalized = normalized.replace(INTEGER_TYPES, (match, base: string) =>
+    match === 'tinyint(1)' ? match : base
+  );
+
+  return normalized;
+};
+
+// Bring a DEFAULT value into a comparable form (null means "no default")
+export const normalizeDefault = (value: string | null | undefined): string | null => {
+  if (value === null || value === undefined) return null;
+
+  let trimmed = value.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    trimmed = trimmed.slice(1, -1);
+  }
+
+  const upper = trimmed.toUpperCase();
+  if (trimmed === '' || upper === 'NULL') return null;
+  if (['CURRENT_TIMESTAMP', 'CURRENT_TIMESTAMP()', 'NOW()'].includes(upper)) return 'CURRENT_TIMESTAMP';
+  if (['CURRENT_DATE', 'CURDATE()', '(CURDATE())'].includes(upper)) return 'CURRENT_DATE';
+  if (!isNaN(Number(trimmed))) return String(Number(trimmed));
+
+  return trimmed;
+};
+
+const INTEGER_RANK: Record<string, number> = { tinyint: 1, smallint: 2, mediumint: 3, int: 4, bigint: 5 };
+const TEXT_RANK: Record<string, number> = {
+  tinytext: 1, text: 2, mediumtext: 3, longtext: 4,
+  tinyblob: 1, blob: 2, mediumblob: 3, longblob: 4,
+};
+const FLOAT_RANK: Record<string, number> = { float: 1, double: 2 };
+
+type TypeFamily = 'integer' | 'decimal' | 'float' | 'string' | 'text' | 'blob' | 'temporal' | 'enum' | 'other';
+
+const typeFamily = (base: string): TypeFamily => {
+  if (base in INTEGER_RANK) return 'integer';
+  if (base === 'decimal' || base === 'numeric') return 'decimal';
+  if (base in FLOAT_RANK) return 'float';
+  if (base === 'varchar' || base === 'char') return 'string';
+  if (base.endsWith('text')) return 'text';
+  if (base.endsWith('blob')) return 'blob';
+  if (['date', 'datetime', 'timestamp', 'time', 'year'].includes(base)) return 'temporal';
+  if (base === 'enum' || base === 'set') return 'enum';
+  return 'other';
+};
+
+const parseColumnType = (type: string): { base: string; args: string[] } => {
+  const normalized = normalizeColumnType(type);
+  const match = normalized.match(/^([a-z]+)\s*(?:\((.*)\))?/);
+  if (!match) return { base: normalized, args: [] };
+  return {
+    base: match[1],
+    args: match[2] ? match[2].split(',').map(arg => arg.trim()) : [],
+  };
+};
+
+// Whether changing a column from one type to another can truncate or reject existing values
+export const isNarrowingTypeChange = (fromType: string, toType: string): boolean => {
+  const from = parseColumnType(fromType);
+  const to = parseColumnType(toType);
+  if (from.base === to.base && from.args.join(',') === to.args.join(',')) return false;
+
+  const fromFamily = typeFamily(from.base);
+  const toFamily = typeFamily(to.base);
+  const numeric: TypeFamily[] = ['integer', 'decimal', 'float'];
+
+  if (fromFamily !== toFamily) {
+    if (fromFamily === 'integer' && (toFamily === 'decimal' || toFamily === 'float')) return false;
+    if (numeric.includes(fromFamily) && (toFamily === 'string' || toFamily === 'text')) return false;
+    if (fromFamily === 'string' && toFamily === 'text') return false;
+    if (fromFamily === 'enum' && (toFamily === 'string' || toFamily === 'text')) return false;
+    return true;
+  }
+
+  switch (fromFamily) {
+    case 'integer':
+      return INTEGER_RANK[to.base] < INTEGER_RANK[from.base];
+    case 'float':
+      return FLOAT_RANK[to.base] < FLOAT_RANK[from.base];
+    case 'decimal': {
+      const [fromPrecision = 10, fromScale = 0] = from.args.map(Number);
+      const [toPrecision = 10, toScale = 0] = to.args.map(Number);
+      return toPrecision - toScale < fromPrecision - fromScale || toScale < fromScale;
+    }
+    case 'string':
+      return Number(to.args[0] || 1) < Number(from.args[0] || 1);
+    case 'text':
+    case 'blob':
+      return TEXT_RANK[to.base] < TEXT_RANK[from.base];
+    case 'temporal':
+      return !(
+        (from.base === 'date' && (to.base === 'datetime' || to.base === 'timestamp')) ||
+        (from.base === 'datetime' && to.base === 'timestamp') ||
+        (from.base === 'timestamp' && to.base === 'datetime')
+      );
+    case 'enum':
+      // Removing allowed values invalidates rows that hold them
+      return from.base !== to.base || from.args.some(value => !to.args.includes(value));
+    default:
+      return true;
+  }
+};
+
+// Compare CHECK clauses ignoring quoting, spacing and redundant parentheses
+export const normalizeCheckClause = (clause: string): string =>
+  clause.toLowerCase().replace(/[`"()\s]/g, '');
+
+// Pair live CHECK constraints with the canvas ones by clause, so checks another tool named
+// (users_chk_1) are kept rather than recreated under the sync engine's name. A check on a
+// column that changes is always recreated.
+export const matchCheckConstraints = <T extends { name: string; clause: string }>(
+  desiredChecks: T[],
+  liveChecks: LiveCheck[],
+  isTouched: (desired: T) => boolean
+): { checksToDrop: LiveCheck[]; checksToAdd: T[] } => {
+  const kept = new Set<T>();
+  const checksToDrop = liveChecks.filter(check => {
+    const candidates = desiredChecks.filter(desired =>
+      !kept.has(desired) && normalizeCheckClause(desired.clause) === normalizeCheckClause(check.clause)
+    );
+    const desired = candidates.find(candidate => candidate.name === check.name) || candidates[0];
+    if (!desired || isTouched(desired)) return true;
+
+    kept.add(desired);
+    return false;
+  });
+
+  return { checksToDrop, checksToAdd: desiredChecks.filter(desired => !kept.has(desired)) };
+};
+
+// Whether a string column's character set or collation differs from the live one.
+// A canvas column without either follows the table's default collation.
+const isCharsetChanged = (desired: Column, live: LiveColumn, tableCollation?: string): boolean => {
+  if (!live.collation) return false;
+  if (desired.collation) return desired.collation.toLowerCase() !== live.collation.toLowerCase();
+  if (desired.charset) return desired.charset.toLowerCase() !== (live.charset || '').toLowerCase();
+  return !!tableCollation && live.collation.toLowerCase() !== tableCollation.toLowerCase();
+};
+
+export const isColumnChanged = (desired: Column, live: LiveColumn, tableCollation?: string): boolean => {
+  const wantsAutoIncrement = !!desired.isAutoIncrement && desired.type.toUpperCase().includes('INT');
+
+  return (
+    normalizeColumnType(columnType(desired)) !== normalizeColumnType(live.columnType) ||
+    isCharsetChanged(desired, live, tableCollation) ||
+    isColumnNullable(desired) !== live.isNullable ||
+    wantsAutoIncrement !== live.isAutoIncrement ||
+    normalizeDefault(wantsAutoIncrement ? null : desired.defaultValue) !== normalizeDefault(live.defaultValue)
+  );
+};
+
+export const sameColumns = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((name, i) => name === b[i]);
+
+// Comparable form of an index: kind, then each column with its prefix length and direction
+export const describeIndex = (
+  columns: string[],
+  isUnique: boolean,
+  isFulltext = false,
+  orders: IndexOrder[] = [],
+  lengths: Array<number | null | undefined> = []
+): string => {
+  const parts = columns.map((column, i) =>
+    isFulltext ? column : `${column}${lengths[i] ? `(${lengths[i]})` : ''}${orders[i] === 'DESC' ? ' DESC' : ''}`
+  );
+  return `${isFulltext ? 'FULLTEXT ' : isUnique ? 'UNIQUE ' : ''}(${parts.join(', ')})`;
+};
+
+// Describe a designed index like the live one MySQL would report for it
+export const describeCanvasIndex = (table: Table, index: TableIndex, withLengths = true): string => {
+  const parts = resolveIndexColumns(table, index);
+  return describeIndex(
+    parts.map(part => safeIdentifier(part.column.name)),
+    !!index.isUnique,
+    !!index.isFulltext,
+    parts.map(part => part.order),
+    withLengths ? parts.map(part => part.length) : []
+  );
+};
+
+// Describe a live index with its columns under their canvas names
+export const describeLiveIndex = (index: LiveIndex, toDesiredName: (liveName: string) => string = name => name): string =>
+  describeIndex(index.columns.map(toDesiredName), index.isUnique, !!index.isFulltext, index.orders, index.lengths);
+
+// Names of the designed indexes the sync engine looks after: those on the canvas now or at the
+// last save. Any other index (foreign key indexes, indexes added by hand) is left alone.
+export const managedIndexNames = (table: Table, previousTable: Table | undefined): Set<string> =>
+  new Set([...(table.indexes || []), ...(previousTable?.indexes || [])].map(index => safeIdentifier(index.name)));
+
+// Whether a live single-column unique index stands for a column UNIQUE flag that was cleared since
+// the last save. Unique indexes the canvas never asked for (added by hand) are left alone.
+export const isClearedUniqueIndex = (
+  index: LiveIndex,
+  table: Table,
+  previousTable: Table | undefined,
+  liveNameOf: Map<string, string>
+): boolean => {
+  if (!index.isUnique || index.columns.length !== 1) return false;
+
+  const column = table.columns.find(c => (liveNameOf.get(safeIdentifier(c.name)) || safeIdentifier(c.name)) === index.columns[0]);
+  if (!column || (column.isUnique && !column.isPrimaryKey)) return false;
+
+  return !!previousTable?.columns.find(c => c.id === column.id)?.isUnique;
+};
+
+// Work out which live table a canvas table corresponds to (same name, or renamed since the last save)
+export const matchLiveTable = (
+  table: Table,
+  live: Map<string, LiveTable>,
+  previousTables: Table[],
+  desiredNames: Set<string>
+): LiveTable | undefined => {
+  const name = safeIdentifier(table.name);
+  if (live.has(name)) return live.get(name);
+
+  const previous = previousTables.find(t => t.id === table.id);
+  if (!previous) return undefined;
+
+  const previousName = safeIdentifier(previous.name);
+  if (previousName !== name && live.has(previousName) && !desiredNames.has(previousName)) {
+    return live.get(previousName);
+  }
+  return undefined;
+};
+
+// Work out which live column a canvas column corresponds to (same name, or renamed since the last save)
+export const matchLiveColumn = (
+  column: Column,
+  liveTable: LiveTable,
+  previousTable: Table | undefined,
+  desiredNames: Set<string>
+): LiveColumn | undefined => {
+  const name = safeIdentifier(column.name);
+  const byName = liveTable.columns.find(c => c.name === name);
+  if (byName) return byName;
+
+  const previous = previousTable?.columns.find(c => c.id === column.id);
+  if (!previous) return undefined;
+
+  const previousName = safeIdentifier(previous.name);
+  if (previousName !== name && !desiredNames.has(previousName)) {
+    return liveTable.columns.find(c => c.name === previousName);
+  }
+  return undefined;
+};
+
+// Build the foreign keys the canvas asks for
+const buildDesiredForeignKeys = (tables: Table[], relationships: Relationship[]): DesiredForeignKey[] => {
+  const desired = new Map<string, DesiredForeignKey>();
+
+  for (const rel of relationships) {
+    const sourceTable = tables.find(t => t.id === rel.sourceTableId);
+    const targetTable = tables.find(t => t.id === rel.targetTableId);
+    if (!sourceTable || !targetTable) continue;
+
+    const resolved = resolveRelationshipColumns(rel, sourceTable, targetTable);
+    if (!resolved) continue;
+
+    const { sourceColumns, targetColumns } = resolved;
+    const name = foreignKeyName(sourceTable.name, sourceColumns[0].name);
+    if (desired.has(name)) continue;
+
+    desired.set(name, {
+      relationshipId: rel.id,
+      name,
+      table: safeIdentifier(sourceTable.name),
+      columns: sourceColumns.map(c => safeIdentifier(c.name)),
+      referencedTable: safeIdentifier(targetTable.name),
+      referencedColumns: targetColumns.map(c => safeIdentifier(c.name)),
+      onDelete: rel.onDelete || 'CASCADE',
+      onUpdate: rel.onUpdate || 'CASCADE',
+      sql: generateForeignKeySQL(rel, sourceTable, sourceColumns, targetTable, targetColumns),
+    });
+  }
+
+  return Array.from(desired.values());
+};
+
+// Compare the live MySQL schema with the canvas and produce the ALTER statements that
+// bring the database in line without dropping data that is still part of the design.
+// `previousTables` is the last saved canvas, used to recognise renamed tables and columns.
+export const diffSchema = (
+  live: Map<string, LiveTable>,
+  previousTables: Table[],
+  tables: Table[],
+  relationships: Relationship[] = []
+): MigrationStatement[] => {
+  const dropForeignKeys: MigrationStatement[] = [];
+  const renameTables: MigrationStatement[] = [];
+  const dropTables: MigrationStatement[] = [];
+  const createTables: MigrationStatement[] = [];
+  const dropChecks: MigrationStatement[] = [];
+  const alterTables: MigrationStatement[] = [];
+  const addChecks: MigrationStatement[] = [];
+  const addForeignKeys: MigrationStatement[] = [];
+
+  const desiredTableNames = new Set(tables.map(t => safeIdentifier(t.name)));
+  const matchedLiveTables = new Set<string>();
+  // Columns (by new table/column name) whose definition or name changes; FKs on them must be rebuilt
+  const touchedColumns = new Set<string>();
+  // Live table name -> desired table name, for tables that survive the migration
+  const survivingTables = new Map<string, string>();
+
+  for (const table of tables) {
+    const name = safeIdentifier(table.name);
+    const liveTable = matchLiveTable(table, live, previousTables, desiredTableNames);
+
+    if (!liveTable) {
+      createTables.push({
+        action: 'create_table',
+        table: name,
+        sql: generateCreateTableSQL(table),
+        changes: [`Create table ${name} with ${table.columns.length} columns`],
+        destructive: false,
+        warnings: [],
+      });
+      continue;
+    }
+
+    matchedLiveTables.add(liveTable.name);
+    survivingTables.set(liveTable.name, name);
+
+    if (liveTable.name !== name) {
+      renameTables.push({
+        action: 'rename_table',
+        table: name,
+        sql: `RENAME TABLE \`${liveTable.name}\` TO \`${name}\``,
+        changes: [`Rename table ${liveTable.name} → ${name}`],
+        destructive: false,
+        warnings: [],
+      });
+    }
+
+    // A table without columns keeps its placeholder column until columns are added
+    if (table.columns.length === 0) continue;
+
+    const previousTable = previousTables.find(t => t.id === table.id);
+    const desiredColumnNames = new Set(table.columns.map(c => safeIdentifier(c.name)));
+    const matchedLiveColumns = new Set<string>();
+    const liveNameOf = new Map<string, string>();
+    const clauses: string[] = [];
+    const changes: string[] = [];
+    const warnings: string[] = [];
+    let destructive = false;
+
+    // Rename, modify and add columns in canvas order
+    table.columns.forEach((column, index) => {
+      const colName = safeIdentifier(column.name);
+      const liveColumn = matchLiveColumn(column, liveTable, previousTable, desiredColumnNames);
+      const definition = generateColumnDefinition(column);
+
+      if (!liveColumn) {
+        const position = index === 0
+          ? ' FIRST'
+          : ` AFTER \`${safeIdentifier(table.columns[index - 1].name)}\``;
+        clauses.push(`ADD COLUMN ${definition}${position}`);
+        changes.push(`Add column ${colName} ${columnType(column)}`);
+        return;
+      }
+
+      matchedLiveColumns.add(liveColumn.name);
+      liveNameOf.set(colName, liveColumn.name);
+
+      if (liveColumn.name !== colName) {
+        clauses.push(`CHANGE COLUMN \`${liveColumn.name}\` ${definition}`);
+        changes.push(`Rename column ${liveColumn.name} → ${colName}`);
+        touchedColumns.add(`${name}.${colName}`);
+      } else if (isColumnChanged(column, liveColumn, liveTable.collation)) {
+        clauses.push(`MODIFY COLUMN ${definition}`);
+        changes.push(`Modify column ${colName}: ${liveColumn.columnType} → ${columnType(column)}`);
+        touchedColumns.add(`${name}.${colName}`);
+      } else {
+        return;
+      }
+
+      if (isNarrowingTypeChange(liveColumn.columnType, columnType(column))) {
+        destructive = true;
+        warnings.push(`Column ${colName} narrows from ${liveColumn.columnType} to ${columnType(column)}; values may be truncated`);
+      }
+      if (liveColumn.isNullable && !isColumnNullable(column)) {
+        warnings.push(`Column ${colName} becomes NOT NULL; existing NULL values will be rejected`);
+      }
+    });
+
+    // Canvas name of a live column, following renames
+    const toDesiredName = (liveName: string): string => {
+      const entry = Array.from(liveNameOf.entries()).find(([, value]) => value === liveName);
+      return entry ? entry[0] : liveName;
+    };
+
+    // Primary key
+    const desiredPrimaryKey = table.columns.filter(c => c.isPrimaryKey).map(c => safeIdentifier(c.name));
+    const livePrimaryKey = liveTable.primaryKey.map(toDesiredName);
+
+    if (!sameColumns(desiredPrimaryKey, livePrimaryKey)) {
+      if (liveTable.primaryKey.length > 0) {
+        clauses.push('DROP PRIMARY KEY');
+      }
+      if (desiredPrimaryKey.length > 0) {
+        clauses.push(`ADD PRIMARY KEY (${desiredPrimaryKey.map(c => `\`${c}\``).join(', ')})`);
+      }
+      changes.push(`Set primary key (${desiredPrimaryKey.join(', ') || 'none'})`);
+    }
+
+    // Single-column UNIQUE indexes; designed indexes are handled below
+    const managedIndexes = managedIndexNames(table, previousTable);
+    const otherIndexes = liveTable.indexes.filter(index => !managedIndexes.has(index.name));
+    const desiredUnique = table.columns
+      .filter(c => c.isUnique && !c.isPrimaryKey)
+      .map(c => safeIdentifier(c.name));
+
+    for (const index of otherIndexes) {
+      if (isClearedUniqueIndex(index, table, previousTable, liveNameOf)) {
+        clauses.push(`DROP INDEX \`${index.name}\``);
+        changes.push(`Drop unique index ${index.name}`);
+      }
+    }
+
+    for (const colName of desiredUnique) {
+      const liveColumnName = liveNameOf.get(colName);
+      const exists = liveColumnName !== undefined && otherIndexes.some(
+        idx => idx.isUnique && idx.columns.length === 1 && idx.columns[0] === liveColumnName
+      );
+      if (!exists) {
+        clauses.push(`ADD UNIQUE INDEX \`${colName}\` (\`${colName}\`)`);
+        changes.push(`Add unique index on ${colName}`);
+      }
+    }
+
+    // Designed indexes, matched by name and rebuilt when their definition changes
+    const desiredIndexes = (table.indexes || []).flatMap(index => {
+      const definition = generateIndexDefinition(table, index);
+      return definition
+        ? [{ name: safeIdentifier(index.name), definition, description: describeCanvasIndex(table, index) }]
+        : [];
+    });
+    const keptIndexes = new Set<string>();
+
+    for (const index of liveTable.indexes) {
+      if (!managedIndexes.has(index.name)) continue;
+
+      const desired = desiredIndexes.find(d => d.name === index.name);
+      const liveDescription = describeLiveIndex(index, toDesiredName);
+      if (desired && desired.description === liveDescription) {
+        keptIndexes.add(index.name);
+        continue;
+      }
+
+      clauses.push(`DROP INDEX \`${index.name}\``);
+      changes.push(`Drop index ${index.name}`);
+    }
+
+    for (const desired of desiredIndexes) {
+      if (keptIndexes.has(desired.name)) continue;
+
+      clauses.push(`ADD ${desired.definition}`);
+      changes.push(`Add index ${desired.name} ${desired.description}`);
+    }
+
+    // Columns that are no longer on the canvas
+    for (const liveColumn of liveTable.columns) {
+      if (!matchedLiveColumns.has(liveColumn.name)) {
+        clauses.push(`DROP COLUMN \`${liveColumn.name}\``);
+        changes.push(`Drop column ${liveColumn.name}`);
+        if (liveColumn.name !== '_placeholder') {
+          destructive = true;
+          warnings.push(`Column ${liveColumn.name} and its data will be deleted`);
+        }
+      }
+    }
+
+    if (clauses.length > 0) {
+      alterTables.push({
+        action: 'alter_table',
+        table: name,
+        sql: `ALTER TABLE \`${name}\`\n  ${clauses.join(',\n  ')}`,
+        changes,
+        destructive,
+        warnings,
+      });
+    }
+
+    // CHECK constraints are dropped before the columns they reference change, and re-added afterwards
+    const desiredChecks = table.columns
+      .filter(c => c.checkConstraint)
+      .map(c => ({ name: checkConstraintName(table.name, c.name), column: safeIdentifier(c.name), clause: c.checkConstraint as string }));
+
+    const { checksToDrop, checksToAdd } = matchCheckConstraints(
+      desiredChecks,
+      liveTable.checks,
+      desired => touchedColumns.has(`${name}.${desired.column}`)
+    );
+
+    if (checksToDrop.length > 0) {
+      dropChecks.push({
+        action: 'drop_check',
+        table: liveTable.name,
+        sql: `ALTER TABLE \`${liveTable.name}\`\n  ${checksToDrop.map(c => `DROP CHECK \`${c.name}\``).join(',\n  ')}`,
+        changes: checksToDrop.map(c => `Drop check ${c.name}`),
+        destructive: false,
+        warnings: [],
+      });
+    }
+
+    if (checksToAdd.length > 0) {
+      addChecks.push({
+        action: 'add_check',
+        table: name,
+        sql: `ALTER TABLE \`${name}\`\n  ${checksToAdd.map(c => `ADD CONSTRAINT \`${c.name}\` CHECK (${c.clause})`).join(',\n  ')}`,
+        changes: checksToAdd.map(c => `Add check ${c.name}`),
+        destructive: false,
+        warnings: ['Existing rows that violate the check will make this statement fail'],
+      });
+    }
+  }
+
+  // Tables that are no longer on the canvas
+  for (const liveTable of live.values()) {
+    if (!matchedLiveTables.has(liveTable.name)) {
+      dropTables.push({
+        action: 'drop_table',
+        table: liveTable.name,
+        sql: `DROP TABLE IF EXISTS \`${liveTable.name}\``,
+        changes: [`Drop table ${liveTable.name}`],
+        destructive: true,
+        warnings: [`Table ${liveTable.name} and all of its rows will be deleted`],
+      });
+    }
+  }
+
+  // Foreign keys: drop what changed or disappeared, add what is new
+  const desiredForeignKeys = buildDesiredForeignKeys(tables, relationships);
+  const keptForeignKeys = new Set<string>();
+
+  for (const liveTable of live.values()) {
+    const newTableName = survivingTables.get(liveTable.name);
+    if (!newTableName) continue;
+
+    for (const fk of liveTable.foreignKeys) {
+      // Matched by definition, so keys another tool named (orders_ibfk_1) are kept as they are
+      const isSameKey = (desired: DesiredForeignKey) =>
+        !keptForeignKeys.has(desired.name)
+        && desired.table === newTableName
+        && desired.columns.join(',') === fk.columns.join(',')
+        && desired.referencedTable === (survivingTables.get(fk.referencedTable) || fk.referencedTable)
+        && desired.referencedColumns.join(',') === fk.referencedColumns.join(',')
+        && desired.onDelete === fk.onDelete
+        && desired.onUpdate === fk.onUpdate;
+      const desired = desiredForeignKeys.find(d => d.name === fk.name && isSameKey(d)) || desiredForeignKeys.find(isSameKey);
+      const unchanged = desired
+        && !desired.columns.some(column => touchedColumns.has(`${desired.table}.${column}`))
+        && !desired.referencedColumns.some(column => touchedColumns.has(`${desired.referencedTable}.${column}`));
+
+      if (unchanged) {
+        keptForeignKeys.add(desired.name);
+        continue;
+      }
+
+      dropForeignKeys.push({
+        action: 'drop_foreign_key',
+        table: liveTable.name,
+        sql: `ALTER TABLE \`${liveTable.name}\` DROP FOREIGN KEY \`${fk.name}\``,
+        changes: [`Drop FK ${fk.name}`],
+        destructive: false,
+        warnings: [],
+      });
+    }
+  }
+
+  for (const fk of desiredForeignKeys) {
+    if (keptForeignKeys.has(fk.name)) continue;
+
+    addForeignKeys.push({
+      action: 'add_foreign_key',
+      table: fk.table,
+      sql: fk.sql,
+      changes: [`Add FK ${fk.table}(${fk.columns.join(', ')}) → ${fk.referencedTable}(${fk.referencedColumns.join(', ')})`],
+      destructive: false,
+      warnings: [],
+      relationshipId: fk.relationshipId,
+    });
+  }
+
+  return [
+    ...dropForeignKeys,
+    ...dropChecks,
+    ...renameTables,
+    ...dropTables,
+    ...createTables,
+    ...alterTables,
+    ...addChecks,
+    ...addForeignKeys,
+  ];
+};
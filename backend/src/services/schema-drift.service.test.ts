@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseSQLSchema } from '../utils/sql-ddl-parser';
+import { liveSchemaToCanvas } from './schema-import.service';
+import { detectSchemaDrift } from './schema-drift.service';
+
+const SCHEMA_SQL = `
+CREATE TABLE users (
+  id INT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  age INT,
+  CONSTRAINT users_chk_1 CHECK (age >= 0),
+  UNIQUE KEY email (email)
+);
+CREATE TABLE orders (
+  id INT NOT NULL AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  CONSTRAINT orders_ibfk_1 FOREIGN KEY (user_id) REFERENCES users (id)
+);`;
+
+describe('detectSchemaDrift', () => {
+  it('reports no drift right after importing the database', () => {
+    const { tables: live } = parseSQLSchema(SCHEMA_SQL);
+
+    const drift = detectSchemaDrift(live, liveSchemaToCanvas(live));
+
+    expect(drift.items).toEqual([]);
+    expect(drift.hasDrift).toBe(false);
+  });
+
+  it('reports a column added in the database since the import', () => {
+    const { tables: live } = parseSQLSchema(SCHEMA_SQL);
+    const stored = liveSchemaToCanvas(live);
+    live.get('users')!.columns.push({
+      name: 'nickname',
+      columnType: 'varchar(50)',
+      isNullable: true,
+      isAutoIncrement: false,
+      defaultValue: null,
+      extra: '',
+    });
+
+    const drift = detectSchemaDrift(live, stored);
+
+    expect(drift.hasDrift).toBe(true);
+    expect(drift.overwritesLiveChanges).toBe(true);
+    expect(drift.items).toMatchObject([{ kind: 'extra', object: 'column', table: 'users', name: 'nickname' }]);
+  });
+
+  it('reports a table that was never created as missing without blocking a push', () => {
+    const { tables: live } = parseSQLSchema(SCHEMA_SQL);
+    const stored = liveSchemaToCanvas(live);
+    live.delete('orders');
+
+    const drift = detectSchemaDrift(live, stored);
+
+    expect(drift.items).toContainEqual(expect.objectContaining({ kind: 'missing', object: 'table', name: 'orders' }));
+    expect(drift.items.every(item => item.kind === 'missing')).toBe(true);
+    expect(drift.overwritesLiveChanges).toBe(false);
+  });
+});
@@ -0,0 +1,309 @@
+import { Column, SchemaData, LiveTable, LiveColumn } from '../types/schema';
+import {
+  safeIdentifier,
+  columnType,
+  columnCharsetClause,
+  checkConstraintName,
+  foreignKeyName,
+  isColumnNullable,
+  resolveRelationshipColumns,
+} from '../utils/mysql-ddl';
+import {
+  isColumnChanged,
+  normalizeCheckClause,
+  describeCanvasIndex,
+  describeLiveIndex,
+  managedIndexNames,
+} from './schema-diff.service';
+
+// `extra`: only in the database, `missing`: only in the stored schema, `different`: in both but not equal
+export type DriftKind = 'extra' | 'missing' | 'different';
+export type DriftObject = 'table' | 'column' | 'primary_key' | 'unique' | 'index' | 'check' | 'foreign_key';
+
+export interface DriftItem {
+  kind: DriftKind;
+  object: DriftObject;
+  table: string;
+  name: string;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface SchemaDrift {
+  hasDrift: boolean;
+  // Drift a push would overwrite (everything except objects that are only missing from the database)
+  overwritesLiveChanges: boolean;
+  checkedAt: string;
+  items: DriftItem[];
+}
+
+const describeColumn = (type: string, isNullable: boolean, isAutoIncrement: boolean, defaultValue?: string | null) =>
+  [
+    type.toUpperCase(),
+    isNullable ? 'NULL' : 'NOT NULL',
+    isAutoIncrement ? 'AUTO_INCREMENT' : '',
+    defaultValue !== undefined && defaultValue !== null ? `DEFAULT ${defaultValue}` : '',
+  ].filter(Boolean).join(' ');
+
+const describeCanvasColumn = (column: Column) =>
+  describeColumn(`${columnType(column)}${columnCharsetClause(column)}`, isColumnNullable(column), !!column.isAutoIncrement, column.defaultValue);
+
+// The collation is only mentioned when it is not the table default
+const describeLiveColumn = (column: LiveColumn, tableCollation?: string) =>
+  describeColumn(
+    `${column.columnType}${column.collation && column.collation !== tableCollation ? ` COLLATE ${column.collation}` : ''}`,
+    column.isNullable,
+    column.isAutoIncrement,
+    column.defaultValue
+  );
+
+const describeForeignKey = (
+  columns: string[],
+  referencedTable: string,
+  referencedColumns: string[],
+  onDelete: string,
+  onUpdate: string
+) => `(${columns.join(', ')}) → ${referencedTable}(${referencedColumns.join(', ')}) ON DELETE ${onDelete} ON UPDATE ${onUpdate}`;
+
+// Compare the stored canvas with the live database by name and report everything that
+// does not match. Unlike diffSchema there is no rename detection: a table or column renamed
+// by hand shows up as one missing and one extra object.
+export const detectSchemaDrift = (live: Map<string, LiveTable>, stored: SchemaData): SchemaDrift => {
+  const items: DriftItem[] = [];
+  const storedTableNames = new Set(stored.tables.map(t => safeIdentifier(t.name)));
+
+  for (const table of stored.tables) {
+    const name = safeIdentifier(table.name);
+    const liveTable = live.get(name);
+
+    if (!liveTable) {
+      items.push({ kind: 'missing', object: 'table', table: name, name, message: `Table ${name} does not exist in the database` });
+      continue;
+    }
+
+    // Tables without columns only hold the placeholder column
+    if (table.columns.length === 0) continue;
+
+    const storedColumnNames = new Set(table.columns.map(c => safeIdentifier(c.name)));
+
+    for (const column of table.columns) {
+      const colName = safeIdentifier(column.name);
+      const liveColumn = liveTable.columns.find(c => c.name === colName);
+
+      if (!liveColumn) {
+        items.push({
+          kind: 'missing',
+          object: 'column',
+          table: name,
+          name: colName,
+          expected: describeCanvasColumn(column),
+          message: `Column ${name}.${colName} does not exist in the database`,
+        });
+      } else if (isColumnChanged(column, liveColumn, liveTable.collation)) {
+        items.push({
+          kind: 'different',
+          object: 'column',
+          table: name,
+          name: colName,
+          expected: describeCanvasColumn(column),
+          actual: describeLiveColumn(liveColumn, liveTable.collation),
+          message: `Column ${name}.${colName} differs from the stored schema`,
+        });
+      }
+    }
+
+    for (const liveColumn of liveTable.columns) {
+      if (!storedColumnNames.has(liveColumn.name)) {
+        items.push({
+          kind: 'extra',
+          object: 'column',
+          table: name,
+          name: liveColumn.name,
+          actual: describeLiveColumn(liveColumn),
+          message: `Column ${name}.${liveColumn.name} exists only in the database`,
+        });
+      }
+    }
+
+    // Primary key
+    const storedPrimaryKey = table.columns.filter(c => c.isPrimaryKey).map(c => safeIdentifier(c.name));
+    if (storedPrimaryKey.join(',') !== liveTable.primaryKey.join(',')) {
+      items.push({
+        kind: 'different',
+        object: 'primary_key',
+        table: name,
+        name: 'PRIMARY',
+        expected: storedPrimaryKey.join(', ') || 'none',
+        actual: liveTable.primaryKey.join(', ') || 'none',
+        message: `Primary key of ${name} differs from the stored schema`,
+      });
+    }
+
+    // Single-column UNIQUE indexes; designed indexes are compared below
+    const designedIndexes = managedIndexNames(table, undefined);
+    const storedUnique = table.columns.filter(c => c.isUnique && !c.isPrimaryKey).map(c => safeIdentifier(c.name));
+    const liveUnique = liveTable.indexes
+      .filter(idx => idx.isUnique && idx.columns.length === 1 && !designedIndexes.has(idx.name))
+      .map(idx => idx.columns[0]);
+
+    for (const colName of storedUnique) {
+      if (!liveUnique.includes(colName)) {
+        items.push({ kind: 'missing', object: 'unique', table: name, name: colName, message: `Unique index on ${name}.${colName} does not exist in the database` });
+      }
+    }
+    for (const colName of liveUnique) {
+      if (!storedUnique.includes(colName)) {
+        items.push({ kind: 'extra', object: 'unique', table: name, name: colName, message: `Unique index on ${name}.${colName} exists only in the database` });
+      }
+    }
+
+    // Designed indexes, by name. Indexes the canvas does not know about are not reported,
+    // since MySQL creates one for every foreign key.
+    for (const index of table.indexes || []) {
+      const indexName = safeIdentifier(index.name);
+      const liveIndex = liveTable.indexes.find(idx => idx.name === indexName);
+      const expected = describeCanvasIndex(table, index);
+      if (!liveIndex) {
+        items.push({ kind: 'missing', object: 'index', table: name, name: indexName, expected, message: `Index ${indexName} does not exist in the database` });
+        continue;
+      }
+
+      const actual = describeLiveIndex(liveIndex);
+      if (actual !== expected) {
+        items.push({
+          kind: 'different',
+          object: 'index',
+          table: name,
+          name: indexName,
+          expected,
+          actual,
+          message: `Index ${indexName} differs from the stored schema`,
+        });
+      }
+    }
+
+    // CHECK constraints
+    const storedChecks = table.columns
+      .filter(c => c.checkConstraint)
+      .map(c => ({ name: checkConstraintName(table.name, c.name), clause: c.checkConstraint as string }));
+
+    // Checks with the same clause match whatever their names, so ones another tool named
+    // (users_chk_1) are not reported; the rest are paired by name
+    const unmatchedChecks = liveTable.checks.filter(liveCheck => {
+      const stored = storedChecks.find(c => normalizeCheckClause(c.clause) === normalizeCheckClause(liveCheck.clause));
+      if (!stored) return true;
+      storedChecks.splice(storedChecks.indexOf(stored), 1);
+      return false;
+    });
+
+    for (const check of storedChecks) {
+      const liveCheck = unmatchedChecks.find(c => c.name === check.name);
+      if (!liveCheck) {
+        items.push({ kind: 'missing', object: 'check', table: name, name: check.name, expected: check.clause, message: `Check ${check.name} does not exist in the database` });
+      } else if (normalizeCheckClause(liveCheck.clause) !== normalizeCheckClause(check.clause)) {
+        items.push({
+          kind: 'different',
+          object: 'check',
+          table: name,
+          name: check.name,
+          expected: check.clause,
+          actual: liveCheck.clause,
+          message: `Check ${check.name} differs from the stored schema`,
+        });
+      }
+    }
+    for (const liveCheck of unmatchedChecks) {
+      if (!storedChecks.some(c => c.name === liveCheck.name)) {
+        items.push({ kind: 'extra', object: 'check', table: name, name: liveCheck.name, actual: liveCheck.clause, message: `Check ${liveCheck.name} exists only in the database` });
+      }
+    }
+  }
+
+  for (const liveTable of live.values()) {
+    if (!storedTableNames.has(liveTable.name)) {
+      items.push({
+        kind: 'extra',
+        object: 'table',
+        table: liveTable.name,
+        name: liveTable.name,
+        actual: `${liveTable.columns.length} columns`,
+        message: `Table ${liveTable.name} exists only in the database`,
+      });
+    }
+  }
+
+  // Foreign keys, paired by the constraint name the sync engine gives them
+  const storedForeignKeys = new Map<string, { table: string; description: string }>();
+
+  for (const rel of stored.relationships) {
+    const sourceTable = stored.tables.find(t => t.id === rel.sourceTableId);
+    const targetTable = stored.tables.find(t => t.id === rel.targetTableId);
+    const resolved = sourceTable && targetTable && resolveRelationshipColumns(rel, sourceTable, targetTable);
+    if (!sourceTable || !targetTable || !resolved) continue;
+
+    const { sourceColumns, targetColumns } = resolved;
+    storedForeignKeys.set(foreignKeyName(sourceTable.name, sourceColumns[0].name), {
+      table: safeIdentifier(sourceTable.name),
+      description: describeForeignKey(
+        sourceColumns.map(c => safeIdentifier(c.name)),
+        safeIdentifier(targetTable.name),
+        targetColumns.map(c => safeIdentifier(c.name)),
+        rel.onDelete || 'CASCADE',
+        rel.onUpdate || 'CASCADE'
+      ),
+    });
+  }
+
+  const liveForeignKeys = new Map<string, { table: string; description: string }>();
+
+  for (const liveTable of live.values()) {
+    for (const fk of liveTable.foreignKeys) {
+      liveForeignKeys.set(fk.name, {
+        table: liveTable.name,
+        description: describeForeignKey(fk.columns, fk.referencedTable, fk.referencedColumns, fk.onDelete, fk.onUpdate),
+      });
+    }
+  }
+
+  // Keys with the same definition match whatever their names, so ones another tool named
+  // (orders_ibfk_1) are not reported
+  for (const [fkName, storedFk] of storedForeignKeys) {
+    const sameKey = Array.from(liveForeignKeys).find(([, liveFk]) =>
+      liveFk.table === storedFk.table && liveFk.description === storedFk.description
+    );
+    if (sameKey) {
+      storedForeignKeys.delete(fkName);
+      liveForeignKeys.delete(sameKey[0]);
+    }
+  }
+
+  for (const [fkName, storedFk] of storedForeignKeys) {
+    const liveFk = liveForeignKeys.get(fkName);
+    if (!liveFk) {
+      items.push({ kind: 'missing', object: 'foreign_key', table: storedFk.table, name: fkName, expected: storedFk.description, message: `Foreign key ${fkName} does not exist in the database` });
+    } else if (liveFk.description !== storedFk.description) {
+      items.push({
+        kind: 'different',
+        object: 'foreign_key',
+        table: storedFk.table,
+        name: fkName,
+        expected: storedFk.description,
+        actual: liveFk.description,
+        message: `Foreign key ${fkName} differs from the stored schema`,
+      });
+    }
+  }
+  for (const [fkName, liveFk] of liveForeignKeys) {
+    if (!storedForeignKeys.has(fkName)) {
+      items.push({ kind: 'extra', object: 'foreign_key', table: liveFk.table, name: fkName, actual: liveFk.description, message: `Foreign key ${fkName} exists only in the database` });
+    }
+  }
+
+  return {
+    hasDrift: items.length > 0,
+    overwritesLiveChanges: items.some(item => item.kind !== 'missing'),
+    checkedAt: new Date().toISOString(),
+    items,
+  };
+};
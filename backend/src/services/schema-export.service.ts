@@ -0,0 +1,144 @@
+import { Table, Relationship, SchemaData, ExportFormat } from '../types/schema';
+import { generateCreateTableSQL, generateForeignKeySQL, resolveRelationshipColumns } from '../utils/mysql-ddl';
+import { generatePostgresCreateTableSQL, generatePostgresForeignKeySQL, generatePostgresIndexSQL } from '../utils/postgres-ddl';
+import { generateSqliteCreateTableSQL, generateSqliteIndexSQL } from '../utils/sqlite-ddl';
+import { generateDBML } from '../utils/dbml';
+import { generateMermaidERD } from '../utils/mermaid-erd';
+import { generatePrismaSchema } from '../utils/prisma-schema';
+import { generateTypeScriptModule } from '../utils/typescript-types';
+
+export type SQLDialect = 'mysql' | 'postgres' | 'sqlite';
+
+export const SQL_DIALECTS: SQLDialect[] = ['mysql', 'postgres', 'sqlite'];
+
+const DIALECT_LABELS: Record<SQLDialect, string> = {
+  mysql: 'MySQL',
+  postgres: 'PostgreSQL',
+  sqlite: 'SQLite',
+};
+
+// Order tables so every referenced table comes before the tables pointing at it.
+// Self-references are ignored and tables in a reference cycle keep their canvas order.
+export const sortTablesByDependency = (tables: Table[], relationships: Relationship[]): Table[] => {
+  const dependencies = new Map<string, Set<string>>(tables.map(table => [table.id, new Set<string>()]));
+
+  relationships.forEach(rel => {
+    if (rel.sourceTableId === rel.targetTableId) return;
+    if (!dependencies.has(rel.targetTableId)) return;
+    dependencies.get(rel.sourceTableId)?.add(rel.targetTableId);
+  });
+
+  const sorted: Table[] = [];
+  const placed = new Set<string>();
+
+  while (sorted.length < tables.length) {
+    const ready = tables.filter(table =>
+      !placed.has(table.id) &&
+      [...(dependencies.get(table.id) || [])].every(id => placed.has(id))
+    );
+
+    // A cycle: place the first remaining table and let its FKs be added afterwards
+    const next = ready.length > 0 ? ready : [tables.find(table => !placed.has(table.id)) as Table];
+    next.forEach(table => {
+      placed.add(table.id);
+      sorted.push(table);
+    });
+  }
+
+  return sorted;
+};
+
+// Build the ALTER TABLE ... FOREIGN KEY statements for every resolvable relationship
+const generateForeignKeyStatements = (
+  tables: Table[],
+  relationships: Relationship[],
+  dialect: 'mysql' | 'postgres'
+): string[] => {
+  const statements: string[] = [];
+
+  relationships.forEach(rel => {
+    const sourceTable = tables.find(t => t.id === rel.sourceTableId);
+    const targetTable = tables.find(t => t.id === rel.targetTableId);
+    const resolved = sourceTable && targetTable && resolveRelationshipColumns(rel, sourceTable, targetTable);
+    if (!sourceTable || !targetTable || !resolved) return;
+
+    const { sourceColumns, targetColumns } = resolved;
+    statements.push(
+      dialect === 'postgres'
+        ? generatePostgresForeignKeySQL(rel, sourceTable, sourceColumns, targetTable, targetColumns)
+        : generateForeignKeySQL(rel, sourceTable, sourceColumns, targetTable, targetColumns)
+    );
+  });
+
+  return statements;
+};
+
+// CREATE INDEX statements for the designed indexes; MySQL declares them inside CREATE TABLE
+const generateIndexStatements = (table: Table, dialect: SQLDialect): string[] => {
+  if (dialect === 'mysql') return [];
+
+  return (table.indexes || []).flatMap(index => {
+    const sql = dialect === 'postgres' ? generatePostgresIndexSQL(table, index) : generateSqliteIndexSQL(table, index);
+    return sql ? [sql] : [];
+  });
+};
+
+// Every statement ends with exactly one semicolon
+const terminate = (sql: string): string => `${sql.trim().replace(/;$/, '')};`;
+
+// Generate the full DDL script for a canvas schema: CREATE TABLE statements in
+// dependency order, followed by the foreign keys (inline for SQLite)
+export const generateSchemaSQL = (schema: SchemaData, dialect: SQLDialect, databaseName: string): string => {
+  const tables = sortTablesByDependency(schema.tables, schema.relationships);
+  const header = [
+    `-- ${DIALECT_LABELS[dialect]} schema for ${databaseName}`,
+    `-- Generated ${new Date().toISOString()}`,
+    `-- ${tables.length} tables, ${schema.relationships.length} relationships`,
+  ].join('\n');
+
+  const sections: string[] = [header];
+
+  if (dialect === 'sqlite') {
+    sections.push('PRAGMA foreign_keys = ON;');
+    tables.forEach(table => {
+      sections.push(terminate(generateSqliteCreateTableSQL(table, schema.tables, schema.relationships)));
+      sections.push(...generateIndexStatements(table, dialect).map(terminate));
+    });
+    return `${sections.join('\n\n')}\n`;
+  }
+
+  tables.forEach(table => {
+    sections.push(terminate(
+      dialect === 'postgres' ? generatePostgresCreateTableSQL(table) : generateCreateTableSQL(table)
+    ));
+    sections.push(...generateIndexStatements(table, dialect).map(terminate));
+  });
+
+  const foreignKeys = generateForeignKeyStatements(schema.tables, schema.relationships, dialect);
+  if (foreignKeys.length > 0) {
+    sections.push('-- Foreign keys');
+    sections.push(...foreignKeys.map(terminate));
+  }
+
+  return `${sections.join('\n\n')}\n`;
+};
+
+// Render the canvas in one of the export formats; `dialect` only applies to SQL
+export const generateSchemaText = (
+  format: ExportFormat,
+  schema: SchemaData,
+  options: { dialect: SQLDialect; projectName: string; databaseName: string; databaseType: string }
+): string => {
+  switch (format) {
+    case 'dbml':
+      return generateDBML(schema, options.projectName, options.databaseType);
+    case 'mermaid':
+      return generateMermaidERD(schema);
+    case 'prisma':
+      return generatePrismaSchema(schema, options.databaseType);
+    case 'typescript':
+      return generateTypeScriptModule(schema, options.databaseType);
+    default:
+      return generateSchemaSQL(schema, options.dialect, options.databaseName);
+  }
+};
@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto';
+import {
+  Column,
+  Table,
+  Relationship,
+  RelationshipColumnPair,
+  ReferentialAction,
+  SchemaData,
+  LiveTable,
+  LiveColumn,
+  LiveIndex,
+  TableIndex,
+  ParsedSchema,
+  SchemaTextFormat,
+} from '../types/schema';
+import { parseSQLSchema } from '../utils/sql-ddl-parser';
+import { parseDBML } from '../utils/dbml';
+import { parseMermaidERD } from '../utils/mermaid-erd';
+import { parseEnumValues } from '../utils/mongo-schema';
+
+// Canvas layout used for imported tables
+const COLUMN_SPACING = 400;
+const ROW_GAP = 80;
+const HEADER_HEIGHT = 44;
+const COLUMN_HEIGHT = 32;
+const FOOTER_HEIGHT = 70;
+
+const REFERENTIAL_ACTIONS: ReferentialAction[] = ['CASCADE', 'SET NULL', 'RESTRICT', 'NO ACTION'];
+
+// Turn a COLUMN_TYPE such as `varchar(255)` or `int unsigned` into the canvas notation
+export const formatColumnType = (columnType: string): string => {
+  if (columnType.toLowerCase() === 'tinyint(1)') return 'BOOLEAN';
+
+  const match = columnType.match(/^([a-zA-Z ]+?)(\(.*\))?(\s+.*)?$/);
+  if (!match) return columnType.toUpperCase();
+
+  const [, base, args = '', suffix = ''] = match;
+  // ENUM/SET values keep their case, everything else is upper-cased
+  return `${base.toUpperCase()}${args.startsWith("('") ? args : args.toUpperCase()}${suffix.toUpperCase()}`;
+};
+
+// Types whose arguments are a precision and scale rather than a length
+const PRECISION_TYPES = ['DECIMAL', 'NUMERIC', 'FLOAT', 'DOUBLE', 'REAL'];
+
+// Split a canvas type such as DECIMAL(19,4) UNSIGNED into the base type and its parameters.
+// Types that do not fit the pattern are kept whole.
+const toTypeParams = (type: string): Pick<Column, 'type' | 'length' | 'precision' | 'scale' | 'isUnsigned' | 'isZerofill'> => {
+  const match = type.match(/^([A-Z]+)(?:\((\d+)(?:,\s*(\d+))?\))?((?: UNSIGNED| ZEROFILL)*)$/);
+  if (!match) return { type };
+
+  const [, base, first, second, flags] = match;
+  const isPrecision = PRECISION_TYPES.includes(base);
+  if (second !== undefined && !isPrecision) return { type };
+
+  return {
+    type: base,
+    ...(first !== undefined && (isPrecision ? { precision: Number(first) } : { length: Number(first) })),
+    ...(second !== undefined && { scale: Number(second) }),
+    ...(flags.includes('UNSIGNED') && { isUnsigned: true }),
+    ...(flags.includes('ZEROFILL') && { isZerofill: true }),
+  };
+};
+
+// Turn an INFORMATION_SCHEMA default into the value the column dialogs expect
+const formatDefault = (column: LiveColumn): string | undefined => {
+  if (column.defaultValue === null || column.isAutoIncrement) return undefined;
+
+  const upper = column.defaultValue.toUpperCase();
+  if (upper.startsWith('CURRENT_TIMESTAMP') || upper === 'NOW()') return 'CURRENT_TIMESTAMP';
+  if (upper === 'CURDATE()' || upper === '(CURDATE())') return 'CURRENT_DATE';
+
+  return column.defaultValue.replace(/^'(.*)'$/, '$1');
+};
+
+const toReferentialAction = (rule: string): ReferentialAction => {
+  const upper = rule.toUpperCase() as ReferentialAction;
+  return REFERENTIAL_ACTIONS.includes(upper) ? upper : 'NO ACTION';
+};
+
+// Columns referenced by a CHECK clause, in order of appearance
+const checkColumns = (clause: string, table: LiveTable): string[] => {
+  const identifiers = Array.from(clause.matchAll(/`([^`]+)`/g)).map(match => match[1]);
+  const candidates = identifiers.length > 0 ? identifiers : clause.split(/[^a-zA-Z0-9_]+/);
+  return candidates.filter(name => table.columns.some(col => col.name === name));
+};
+
+// Whether a live index belongs on the canvas as a designed index. Single-column UNIQUE indexes
+// become `Column.isUnique`, and the indexes MySQL adds for foreign keys are left to it.
+const isDesignedIndex = (index: LiveIndex, table: LiveTable, existingTable: Table | undefined): boolean => {
+  if (existingTable?.indexes?.some(designed => designed.name === index.name)) return true;
+  if (table.foreignKeys.some(fk => fk.name === index.name)) return false;
+
+  const isPlainUnique = index.isUnique && index.columns.length === 1 && !index.lengths?.[0] && index.orders?.[0] !== 'DESC';
+  return !isPlainUnique;
+};
+
+// Depth of each table in the FK graph: referenced tables first, referencing tables to the right
+const computeDepths = (live: Map<string, LiveTable>): Map<string, number> => {
+  const depths = new Map<string, number>();
+
+  const visit = (name: string, trail: Set<string>): number => {
+    const known = depths.get(name);
+    if (known !== undefined) return known;
+    if (trail.has(name)) return 0;
+
+    trail.add(name);
+    const table = live.get(name);
+    let depth = 0;
+    for (const fk of table?.foreignKeys || []) {
+      if (fk.referencedTable !== name && live.has(fk.referencedTable)) {
+        depth = Math.max(depth, visit(fk.referencedTable, trail) + 1);
+      }
+    }
+    trail.delete(name);
+
+    depths.set(name, depth);
+    return depth;
+  };
+
+  for (const name of live.keys()) {
+    visit(name, new Set());
+  }
+  return depths;
+};
+
+// Build canvas tables and relationships from a live MySQL schema.
+// When `existing` is given, tables and columns with the same name keep their ids and positions.
+export const liveSchemaToCanvas = (
+  live: Map<string, LiveTable>,
+  existing: SchemaData = { tables: [], relationships: [] }
+): SchemaData => {
+  const depths = computeDepths(live);
+  const nextY = new Map<number, number>();
+  const tables: Table[] = [];
+
+  const sortedTables = Array.from(live.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const liveTable of sortedTables) {
+    const existingTable = existing.tables.find(t => t.name === liveTable.name);
+    const designedIndexes = liveTable.indexes.filter(idx => isDesignedIndex(idx, liveTable, existingTable));
+    const uniqueColumns = liveTable.indexes
+      .filter(idx => idx.isUnique && idx.columns.length === 1 && !designedIndexes.includes(idx))
+      .map(idx => idx.columns[0]);
+
+    const columns: Column[] = liveTable.columns.map(liveColumn => {
+      const existingColumn = existingTable?.columns.find(c => c.name === liveColumn.name);
+      const isPrimaryKey = liveTable.primaryKey.includes(liveColumn.name);
+
+      // Character set and collation are only kept when they differ from the table default
+      const collation = liveColumn.collation !== liveTable.collation ? liveColumn.collation : undefined;
+      const charset = liveTable.collation ? collation && liveColumn.charset : liveColumn.charset;
+
+      const column: Column = {
+        id: existingColumn?.id || randomUUID(),
+        name: liveColumn.name,
+        ...toTypeParams(formatColumnType(liveColumn.columnType)),
+        ...(charset && { charset }),
+        ...(collation && { collation }),
+        isPrimaryKey,
+        isNullable: liveColumn.isNullable,
+        isUnique: !isPrimaryKey && uniqueColumns.includes(liveColumn.name),
+        isAutoIncrement: liveColumn.isAutoIncrement,
+        defaultValue: formatDefault(liveColumn),
+      };
+
+      // ENUM('a','b') is kept as the base type plus its value list
+      const enumBase = column.type.match(/^(ENUM|SET)\(/)?.[1];
+      const enumValues = enumBase ? parseEnumValues(column) : null;
+      return enumBase && enumValues ? { ...column, type: enumBase, enumValues } : column;
+    });
+
+    // Attach each CHECK constraint to the first column it references
+    for (const check of liveTable.checks) {
+      const [columnName] = checkColumns(check.clause, liveTable);
+      const column = columns.find(c => c.name === columnName);
+      if (!column) continue;
+
+      column.checkConstraint = column.checkConstraint
+        ? `(${column.checkConstraint}) AND ${check.clause}`
+        : check.clause;
+    }
+
+    const indexes: TableIndex[] = designedIndexes.flatMap(liveIndex => {
+      const indexColumns = liveIndex.columns.map((name, i) => ({
+        columnId: columns.find(c => c.name === name)?.id,
+        ...(liveIndex.orders?.[i] === 'DESC' && { order: 'DESC' as const }),
+        ...(liveIndex.lengths?.[i] && { length: liveIndex.lengths[i] as number }),
+      }));
+      if (indexColumns.some(column => !column.columnId)) return [];
+
+      return [{
+        id: existingTable?.indexes?.find(index => index.name === liveIndex.name)?.id || randomUUID(),
+        name: liveIndex.name,
+        columns: indexColumns as TableIndex['columns'],
+        ...(liveIndex.isUnique && { isUnique: true }),
+        ...(liveIndex.isFulltext && { isFulltext: true }),
+      }];
+    });
+
+    let position = existingTable?.position;
+    if (!position) {
+      const depth = depths.get(liveTable.name) || 0;
+      const y = nextY.get(depth) || 0;
+      position = { x: depth * COLUMN_SPACING, y };
+      nextY.set(depth, y + HEADER_HEIGHT + columns.length * COLUMN_HEIGHT + FOOTER_HEIGHT + ROW_GAP);
+    }
+
+    tables.push({
+      id: existingTable?.id || randomUUID(),
+      name: liveTable.name,
+      position,
+      columns,
+      ...(indexes.length > 0 && { indexes }),
+    });
+  }
+
+  const relationships: Relationship[] = [];
+
+  for (const liveTable of live.values()) {
+    const sourceTable = tables.find(t => t.name === liveTable.name);
+    if (!sourceTable) continue;
+
+    for (const fk of liveTable.foreignKeys) {
+      const targetTable = tables.find(t => t.name === fk.referencedTable);
+      if (!targetTable) continue;
+
+      const pairs = fk.columns.map((column, i) => ({
+        sourceColumnId: sourceTable.columns.find(c => c.name === column)?.id,
+        targetColumnId: targetTable.columns.find(c => c.name === fk.referencedColumns[i])?.id,
+      }));
+      if (pairs.some(pair => !pair.sourceColumnId || !pair.targetColumnId)) continue;
+
+      const [first, ...additionalColumns] = pairs as RelationshipColumnPair[];
+      const existingRelationship = existing.relationships.find(rel =>
+        rel.sourceTableId === sourceTable.id &&
+        rel.sourceColumnId === first.sourceColumnId &&
+        rel.targetTableId === targetTable.id &&
+        rel.targetColumnId === first.targetColumnId
+      );
+
+      relationships.push({
+        id: existingRelationship?.id || randomUUID(),
+        sourceTableId: sourceTable.id,
+        sourceColumnId: first.sourceColumnId,
+        targetTableId: targetTable.id,
+        targetColumnId: first.targetColumnId,
+        ...(additionalColumns.length > 0 && { additionalColumns }),
+        onDelete: toReferentialAction(fk.onDelete),
+        onUpdate: toReferentialAction(fk.onUpdate),
+      });
+    }
+  }
+
+  return { tables, relationships };
+};
+
+const SCHEMA_PARSERS: Record<SchemaTextFormat, { label: string; parse: (text: string) => ParsedSchema }> = {
+  sql: { label: 'CREATE TABLE statements', parse: parseSQLSchema },
+  dbml: { label: 'Table definitions', parse: parseDBML },
+  mermaid: { label: 'entities', parse: parseMermaidERD },
+};
+
+// Build canvas tables and relationships from a SQL DDL script, a DBML document or a Mermaid erDiagram
+export const importSchemaText = (
+  format: SchemaTextFormat,
+  text: string,
+  existing?: SchemaData
+): { success: boolean; message: string; schemaData?: SchemaData; warnings: string[] } => {
+  const parser = SCHEMA_PARSERS[format];
+  const { tables, warnings } = parser.parse(text);
+
+  if (tables.size === 0) {
+    return { success: false, message: `No ${parser.label} found in the ${format.toUpperCase()} text`, warnings };
+  }
+
+  const schemaData = liveSchemaToCanvas(tables, existing);
+
+  return {
+    success: true,
+    message: `Parsed ${schemaData.tables.length} tables and ${schemaData.relationships.length} relationships` +
+      (warnings.length > 0 ? ` with ${warnings.length} warning${warnings.length !== 1 ? 's' : ''}` : ''),
+    schemaData,
+    warnings,
+  };
+};
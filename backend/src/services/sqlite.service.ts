@@ -0,0 +1,531 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import {
+  Table,
+  Relationship,
+  SchemaData,
+  SyncReport,
+  SyncError,
+  ForeignKeySyncResult,
+} from '../types/schema';
+import { createSyncReport, toSyncError } from '../utils/sync-report';
+import { safeIdentifier } from '../utils/mysql-ddl';
+import { quoteIdentifier } from '../utils/postgres-ddl';
+import { generateSqliteCreateTableSQL, generateSqliteIndexSQL } from '../utils/sqlite-ddl';
+import { MigrationStatement, managedIndexNames } from './schema-diff.service';
+import { SqlStatement } from '../utils/sql-query';
+
+interface SqliteLiveTable {
+  name: string;
+  sql: string;
+  columns: string[];
+  // Indexes created with CREATE INDEX; automatic ones (UNIQUE, PRIMARY KEY) have no SQL
+  indexes: Array<{ name: string; sql: string }>;
+}
+
+// Directory holding the database files of SQLite projects
+const SQLITE_DATA_DIR = path.resolve(process.env.SQLITE_DATA_DIR || 'data/sqlite');
+
+// Database files are named by the backend, so only the base name of a stored filename is used
+const databasePath = (filename: string): string => path.join(SQLITE_DATA_DIR, path.basename(filename));
+
+const openSqlite = (filename: string): Database.Database => {
+  const db = new Database(databasePath(filename), { fileMustExist: true });
+  db.pragma('foreign_keys = ON');
+  return db;
+};
+
+// Create the database file of a new SQLite project
+export const createSqliteDatabase = async (
+  databaseName: string
+): Promise<{ success: boolean; message: string; filename?: string }> => {
+  try {
+    fs.mkdirSync(SQLITE_DATA_DIR, { recursive: true });
+
+    const filename = `${safeIdentifier(databaseName)}-${crypto.randomBytes(6).toString('hex')}.sqlite`;
+    new Database(databasePath(filename)).close();
+
+    return { success: true, message: `Database '${databaseName}' created successfully`, filename };
+  } catch (error) {
+    const err = error as Error;
+    return { success: false, message: err.message };
+  }
+};
+
+// Remove the database file of a deleted SQLite project
+export const deleteSqliteDatabase = async (filename: string): Promise<void> => {
+  fs.rmSync(databasePath(filename), { force: true });
+};
+
+// Run one statement: rows for queries that return them, insertId/affectedRows like mysql2 otherwise.
+// SQLite has no boolean or date type, so those values are bound as 0/1 and ISO strings.
+const runSqliteStatement = (db: Database.Database, query: string, params: unknown[]): unknown => {
+  const statement = db.prepare(query);
+  const values = params.map(value => {
+    if (typeof value === 'boolean') return Number(value);
+    return value instanceof Date ? value.toISOString() : value;
+  });
+  if (statement.reader) return statement.all(...values);
+
+  const { lastInsertRowid, changes } = statement.run(...values);
+  return { insertId: Number(lastInsertRowid), affectedRows: changes };
+};
+
+// Pragmas that take a table or index argument but only read
+const READ_ONLY_PRAGMAS = [
+  'TABLE_INFO', 'TABLE_XINFO', 'TABLE_LIST', 'INDEX_LIST', 'INDEX_INFO', 'INDEX_XINFO',
+  'FOREIGN_KEY_LIST', 'FOREIGN_KEY_CHECK', 'INTEGRITY_CHECK', 'QUICK_CHECK',
+];
+
+// Raw SQL from the query console runs against a file on the backend host, so statements that
+// open or write other files (ATTACH, VACUUM INTO) or change settings (PRAGMA x = y) are refused.
+// Returns why the query is refused, or null when it may run.
+export const checkSqliteRawQuery = (query: string): string | null => {
+  const statement = query
+    .replace(/--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase();
+
+  if (/^(ATTACH|DETACH)\b/.test(statement)) return 'ATTACH and DETACH are not allowed on SQLite projects';
+  if (/^VACUUM\b.*\bINTO\b/.test(statement)) return 'VACUUM INTO is not allowed on SQLite projects';
+
+  const pragma = statement.match(/^PRAGMA (?:[\w"`[\]]+ ?\. ?)?["`[]?(\w+)["`\]]? ?([=(])?/);
+  if (pragma && pragma[2] && (pragma[2] === '=' || !READ_ONLY_PRAGMAS.includes(pragma[1]))) {
+    return 'Only pragmas that read settings are allowed on SQLite projects';
+  }
+
+  return null;
+};
+
+// Execute a single query against a SQLite project, with `?` placeholders bound to `params`
+export const executeSqliteQuery = async (
+  filename: string,
+  query: string,
+  params: unknown[] = []
+): Promise<{ success: boolean; message: string; result?: unknown }> => {
+  try {
+    const db = openSqlite(filename);
+
+    try {
+      const result = runSqliteStatement(db, query, params);
+      return { success: true, message: 'Query executed successfully', result };
+    } finally {
+      db.close();
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error('SQLite query error:', err.message);
+    return { success: false, message: err.message };
+  }
+};
+
+// Run parameterized statements in one transaction; any failure rolls all of them back.
+// `failedIndex` is the position of the statement that failed.
+export const executeSqliteTransaction = async (
+  filename: string,
+  statements: SqlStatement[]
+): Promise<{ success: boolean; message: string; results?: unknown[]; failedIndex?: number }> => {
+  const results: unknown[] = [];
+
+  try {
+    const db = openSqlite(filename);
+
+    try {
+      db.transaction(() => {
+        for (const { query, params } of statements) {
+          results.push(runSqliteStatement(db, query, params));
+        }
+      })();
+    } finally {
+      db.close();
+    }
+
+    return { success: true, message: `Executed ${results.length} statements`, results };
+  } catch (error) {
+    const err = error as Error;
+    console.error('SQLite transaction error:', err.message);
+    return { success: false, message: err.message, failedIndex: results.length };
+  }
+};
+
+// Read table names, CREATE statements, column names and indexes from sqlite_master
+const readSqliteSchema = (db: Database.Database): Map<string, SqliteLiveTable> => {
+  const rows = db
+    .prepare("SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'")
+    .all() as Array<{ name: string; sql: string }>;
+  const indexRows = db
+    .prepare("SELECT name, tbl_name, sql FROM sqlite_master WHERE type = 'index' AND sql IS NOT NULL")
+    .all() as Array<{ name: string; tbl_name: string; sql: string }>;
+
+  return new Map(
+    rows.map(row => [
+      row.name,
+      {
+        name: row.name,
+        sql: row.sql,
+        columns: (db.pragma(`table_info(${quoteIdentifier(row.name)})`) as Array<{ name: string }>).map(col => col.name),
+        indexes: indexRows
+          .filter(index => index.tbl_name === row.name)
+          .map(index => ({ name: index.name, sql: index.sql })),
+      },
+    ])
+  );
+};
+
+// Diff the live database against the canvas. SQLite can only rename tables and columns in place,
+// so any other change rebuilds the table: create a copy, move the rows over, swap the tables.
+const planSqliteSync = (
+  live: Map<string, SqliteLiveTable>,
+  previousTables: Table[],
+  tables: Table[],
+  relationships: Relationship[]
+): MigrationStatement[] => {
+  const statements: MigrationStatement[] = [];
+  const liveTables = new Map(live);
+  // Created or rebuilt tables; DROP TABLE took the indexes of the old copy with it
+  const newTables = new Set<string>();
+  const desiredNames = new Set(tables.map(table => safeIdentifier(table.name)));
+
+  // Renamed tables keep their rows
+  tables.forEach(table => {
+    const name = safeIdentifier(table.name);
+    const previous = previousTables.find(t => t.id === table.id);
+    const previousName = previous ? safeIdentifier(previous.name) : null;
+    const liveTable = previousName ? liveTables.get(previousName) : undefined;
+
+    if (!previousName || previousName === name || !liveTable || liveTables.has(name)) return;
+
+    // SQLite rewrites the table name inside the stored CREATE statement
+    liveTables.delete(previousName);
+    liveTables.set(name, { ...liveTable, name, sql: liveTable.sql.replace(quoteIdentifier(previousName), quoteIdentifier(name)) });
+    statements.push({
+      action: 'rename_table',
+      table: name,
+      sql: `ALTER TABLE ${quoteIdentifier(previousName)} RENAME TO ${quoteIdentifier(name)}`,
+      changes: [`Renamed table ${previousName} to ${name}`],
+      destructive: false,
+      warnings: [],
+    });
+  });
+
+  // Tables removed from the canvas
+  liveTables.forEach(liveTable => {
+    if (desiredNames.has(liveTable.name) || !previousTables.some(t => safeIdentifier(t.name) === liveTable.name)) return;
+
+    statements.push({
+      action: 'drop_table',
+      table: liveTable.name,
+      sql: `DROP TABLE ${quoteIdentifier(liveTable.name)}`,
+      changes: [`Dropped table ${liveTable.name}`],
+      destructive: true,
+      warnings: [`All rows in ${liveTable.name} will be deleted`],
+    });
+  });
+
+  tables.forEach(table => {
+    const name = safeIdentifier(table.name);
+    const liveTable = liveTables.get(name);
+    const createSQL = generateSqliteCreateTableSQL(table, tables, relationships);
+
+    if (!liveTable) {
+      statements.push({
+        action: 'create_table',
+        table: name,
+        sql: createSQL,
+        changes: [`Created table ${name}`],
+        destructive: false,
+        warnings: [],
+      });
+      newTables.add(name);
+      return;
+    }
+
+    if (liveTable.sql === createSQL) return;
+    newTables.add(name);
+
+    // Copy every canvas column from the live column it was (renamed) from
+    const previous = previousTables.find(t => t.id === table.id);
+    const copied: Array<{ target: string; source: string }> = [];
+    const changes: string[] = [];
+
+    table.columns.forEach(col => {
+      const target = safeIdentifier(col.name);
+      const previousColumn = previous?.columns.find(c => c.id === col.id);
+      const previousName = previousColumn ? safeIdentifier(previousColumn.name) : null;
+      const source = previousName && liveTable.columns.includes(previousName)
+        ? previousName
+        : liveTable.columns.includes(target) ? target : null;
+
+      if (!source) {
+        changes.push(`Added column ${name}.${target}`);
+      } else {
+        copied.push({ target, source });
+        if (source !== target) changes.push(`Renamed column ${name}.${source} to ${target}`);
+      }
+    });
+
+    const droppedColumns = liveTable.columns.filter(
+      column => column !== '_placeholder' && !copied.some(entry => entry.source === column)
+    );
+    droppedColumns.forEach(column => changes.push(`Dropped column ${name}.${column}`));
+    changes.push(`Rebuilt table ${name}`);
+
+    const tempName = `_new_${name}`;
+    const sql = [
+      generateSqliteCreateTableSQL(table, tables, relationships, tempName),
+      copied.length > 0
+        ? `INSERT INTO ${quoteIdentifier(tempName)} (${copied.map(entry => quoteIdentifier(entry.target)).join(', ')}) ` +
+          `SELECT ${copied.map(entry => quoteIdentifier(entry.source)).join(', ')} FROM ${quoteIdentifier(name)}`
+        : null,
+      `DROP TABLE ${quoteIdentifier(name)}`,
+      `ALTER TABLE ${quoteIdentifier(tempName)} RENAME TO ${quoteIdentifier(name)}`,
+    ].filter(Boolean).join(';\n');
+
+    statements.push({
+      action: 'alter_table',
+      table: name,
+      sql,
+      changes,
+      destructive: droppedColumns.length > 0,
+      warnings: [
+        ...droppedColumns.map(column => `Column ${name}.${column} and its data will be deleted`),
+        ...(copied.length > 0 ? ['Rows that break the new constraints make the rebuild fail'] : []),
+      ],
+    });
+  });
+
+  // Designed indexes, once every table is in place; a stored CREATE INDEX that differs is replaced
+  tables.forEach(table => {
+    const name = safeIdentifier(table.name);
+    const liveIndexes = newTables.has(name) ? [] : liveTables.get(name)?.indexes || [];
+    const managed = managedIndexNames(table, previousTables.find(t => t.id === table.id));
+    const desired = (table.indexes || []).flatMap(index => {
+      const sql = generateSqliteIndexSQL(table, index);
+      return sql ? [{ name: safeIdentifier(index.name), sql }] : [];
+    });
+    const isCurrent = (index: { name: string; sql: string }, others: Array<{ name: string; sql: string }>) =>
+      others.some(other => other.name === index.name && other.sql === index.sql);
+
+    liveIndexes
+      .filter(index => managed.has(index.name) && !isCurrent(index, desired))
+      .forEach(index => statements.push({
+        action: 'alter_table',
+        table: name,
+        sql: `DROP INDEX ${quoteIdentifier(index.name)}`,
+        changes: [`Dropped index ${index.name}`],
+        destructive: false,
+        warnings: [],
+      }));
+
+    desired
+      .filter(index => !isCurrent(index, liveIndexes))
+      .forEach(index => statements.push({
+        action: 'alter_table',
+        table: name,
+        sql: index.sql,
+        changes: [`Created index ${index.name}`],
+        destructive: false,
+        warnings: [],
+      }));
+  });
+
+  return statements;
+};
+
+// Sync schema to SQLite - diffs the database file against the canvas and applies the
+// statements in one transaction. Foreign keys are declared inline and checked once the
+// tables are in place: existing rows that break one are reported without failing the sync.
+// Unless `allowDestructive` is set, a plan that would lose data is returned unapplied.
+export const syncSchemaToSqlite = async (
+  filename: string,
+  tables: Table[],
+  relationships: Relationship[] = [],
+  previousSchema: SchemaData = { tables: [], relationships: [] },
+  options: { allowDestructive?: boolean } = {}
+): Promise<{
+  success: boolean;
+  message: string;
+  details?: string[];
+  blocked?: boolean;
+  statements?: MigrationStatement[];
+  rollbackStatements?: MigrationStatement[];
+  report?: SyncReport;
+}> => {
+  const details: string[] = [];
+  const { allowDestructive = true } = options;
+  const { report, tableResult } = createSyncReport(tables);
+
+  try {
+    const db = openSqlite(filename);
+
+    let statements: MigrationStatement[];
+    let rollbackStatements: MigrationStatement[] = [];
+
+    try {
+      statements = planSqliteSync(readSqliteSchema(db), previousSchema.tables, tables, relationships);
+
+      if (!allowDestructive && statements.some(statement => statement.destructive)) {
+        return {
+          success: false,
+          blocked: true,
+          message: 'Schema change would delete data and needs confirmation',
+          statements,
+        };
+      }
+
+      console.log(`🔧 ${statements.length} schema statements to apply`);
+
+      // Tables are rebuilt in any order, so foreign keys are only enforced again afterwards
+      db.pragma('foreign_keys = OFF');
+      db.exec('BEGIN');
+
+      for (const statement of statements) {
+        const result = tableResult(statement.table);
+
+        if (report.status === 'failed') {
+          result.status = 'skipped';
+          continue;
+        }
+
+        console.log(`🔧 SQL for ${statement.table}:`, statement.sql);
+        try {
+          db.exec(statement.sql);
+          details.push(...statement.changes);
+          result.changes.push(...statement.changes);
+        } catch (statementError) {
+          result.status = 'failed';
+          result.error = toSyncError(statementError, statement.sql);
+          report.status = 'failed';
+          report.error = result.error;
+          console.error(`❌ Statement failed for ${statement.table}:`, result.error.message);
+        }
+      }
+
+      if (report.status === 'failed') {
+        db.exec('ROLLBACK');
+
+        // Nothing was kept, so the tables that did run are reported as skipped too
+        for (const result of report.tables) {
+          if (result.status === 'ok') {
+            result.status = 'skipped';
+            result.changes = [];
+          }
+        }
+      } else {
+        db.exec('COMMIT');
+
+        // Report foreign keys whose existing rows point at missing parents
+        const violations = db.pragma('foreign_key_check') as Array<{ table: string; parent: string }>;
+        relationships.forEach(rel => {
+          const sourceTable = tables.find(t => t.id === rel.sourceTableId);
+          const targetTable = tables.find(t => t.id === rel.targetTableId);
+          if (!sourceTable || !targetTable) return;
+
+          const source = safeIdentifier(sourceTable.name);
+          const target = safeIdentifier(targetTable.name);
+          const broken = violations.filter(row => row.table === source && row.parent === target).length;
+          const fkResult: ForeignKeySyncResult = {
+            relationshipId: rel.id,
+            table: source,
+            description: `Foreign key ${source} → ${target}`,
+            status: broken > 0 ? 'failed' : 'ok',
+          };
+
+          if (broken > 0) {
+            fkResult.error = { message: `${broken} rows in ${source} reference missing rows in ${target}` };
+            report.status = 'partial';
+            details.push(`FK failed: ${source} - ${fkResult.error.message}`);
+          }
+          report.foreignKeys.push(fkResult);
+        });
+
+        // Diff the resulting database against the previous canvas to get the down migration
+        rollbackStatements = planSqliteSync(
+          readSqliteSchema(db),
+          tables,
+          previousSchema.tables,
+          previousSchema.relationships
+        );
+      }
+    } finally {
+      db.pragma('foreign_keys = ON');
+      db.close();
+    }
+
+    if (report.status === 'failed') {
+      const error = report.error as SyncError;
+      return {
+        success: false,
+        message: `SQLite sync failed: ${error.code || 'UNKNOWN'} - ${error.message}`,
+        details,
+        statements,
+        report,
+      };
+    }
+
+    const failedForeignKeys = report.foreignKeys.filter(fk => fk.status === 'failed').length;
+
+    return {
+      success: true,
+      message: failedForeignKeys > 0
+        ? `Synced ${tables.length} tables to SQLite, but ${failedForeignKeys} of ${relationships.length} foreign keys have broken rows`
+        : `Synced ${tables.length} tables and ${relationships.length} relationships to SQLite`,
+      details,
+      statements,
+      rollbackStatements,
+      report,
+    };
+  } catch (error) {
+    const err = error as Error & { code?: string };
+    console.error('❌ SQLite sync error:', err.message);
+    report.status = 'failed';
+    report.error = toSyncError(error);
+    return {
+      success: false,
+      message: `SQLite sync failed: ${err.code || 'UNKNOWN'} - ${err.message || 'No error message'}`,
+      details,
+      report,
+    };
+  }
+};
+
+// Run previously generated migration SQL (e.g. a stored down migration) in one transaction
+export const executeSqliteMigrationSQL = async (
+  filename: string,
+  statements: string[]
+): Promise<{ success: boolean; message: string; executed: number }> => {
+  let executed = 0;
+
+  try {
+    const db = openSqlite(filename);
+
+    try {
+      db.pragma('foreign_keys = OFF');
+      db.exec('BEGIN');
+      for (const sql of statements) {
+        console.log('🔧 Migration SQL:', sql);
+        db.exec(sql);
+        executed++;
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    } finally {
+      db.close();
+    }
+
+    return { success: true, message: `Executed ${executed} statements`, executed };
+  } catch (error) {
+    const err = error as Error & { code?: string };
+    console.error('❌ Migration SQL error:', err.message);
+    return {
+      success: false,
+      message: `Migration rolled back after statement ${executed + 1}: ${err.code || 'UNKNOWN'} - ${err.message}`,
+      executed: 0,
+    };
+  }
+};
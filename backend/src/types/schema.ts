@@ -0,0 +1,192 @@
+// Shared schema types used by the canvas, the DDL generators and the sync engine
+
+export interface MySQLConfig {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+}
+
+// Postgres connects with the same fields as MySQL
+export type PostgresConfig = MySQLConfig;
+
+export interface MongoConfig {
+  uri: string;
+}
+
+export interface Column {
+  id: string;
+  name: string;
+  type: string;
+  isPrimaryKey: boolean;
+  isNullable: boolean;
+  isUnique?: boolean;
+  isAutoIncrement?: boolean;
+  defaultValue?: string;
+  checkConstraint?: string;
+  // Allowed values of an ENUM or SET column, in order; `type` then holds just the base type
+  enumValues?: string[];
+  // Type parameters, rendered after the base type: VARCHAR(length), DECIMAL(precision,scale)
+  length?: number;
+  precision?: number;
+  scale?: number;
+  isUnsigned?: boolean;
+  isZerofill?: boolean;
+  // Per-column character set and collation (MySQL); unset columns use the table default
+  charset?: string;
+  collation?: string;
+}
+
+export type IndexOrder = 'ASC' | 'DESC';
+
+// One column of an index, in key order. `length` indexes only a prefix of a string column (MySQL).
+export interface IndexColumn {
+  columnId: string;
+  order?: IndexOrder;
+  length?: number;
+}
+
+// Secondary index designed on the canvas; single-column UNIQUE stays on `Column.isUnique`
+export interface TableIndex {
+  id: string;
+  name: string;
+  columns: IndexColumn[];
+  isUnique?: boolean;
+  // MySQL FULLTEXT index; the other dialects skip it
+  isFulltext?: boolean;
+}
+
+export interface Table {
+  id: string;
+  name: string;
+  position: { x: number; y: number };
+  columns: Column[];
+  indexes?: TableIndex[];
+}
+
+export type ReferentialAction = 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
+
+// Column pair of a foreign key: the referencing column and the column it references
+export interface RelationshipColumnPair {
+  sourceColumnId: string;
+  targetColumnId: string;
+}
+
+// Foreign key relationship between tables. A composite foreign key lists its further
+// column pairs in `additionalColumns`, after the first pair.
+export interface Relationship {
+  id: string;
+  sourceTableId: string;
+  sourceColumnId: string;
+  targetTableId: string;
+  targetColumnId: string;
+  additionalColumns?: RelationshipColumnPair[];
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+}
+
+// Canvas schema as stored on a project
+export interface SchemaData {
+  tables: Table[];
+  relationships: Relationship[];
+}
+
+// Live database structure as read from INFORMATION_SCHEMA
+export interface LiveColumn {
+  name: string;
+  columnType: string;
+  isNullable: boolean;
+  isAutoIncrement: boolean;
+  defaultValue: string | null;
+  extra: string;
+  // Character set and collation of string columns (MySQL)
+  charset?: string;
+  collation?: string;
+}
+
+export interface LiveIndex {
+  name: string;
+  columns: string[];
+  isUnique: boolean;
+  // Per column, when reported: direction and prefix length (null for the whole column)
+  orders?: IndexOrder[];
+  lengths?: Array<number | null>;
+  isFulltext?: boolean;
+  // Postgres: the index backs a UNIQUE constraint and is dropped through the constraint
+  isConstraint?: boolean;
+}
+
+export interface LiveCheck {
+  name: string;
+  clause: string;
+}
+
+// Columns are in key order; composite foreign keys have several
+export interface LiveForeignKey {
+  name: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete: string;
+  onUpdate: string;
+}
+
+export interface LiveTable {
+  name: string;
+  columns: LiveColumn[];
+  primaryKey: string[];
+  // Postgres names its primary key constraint (MySQL always uses PRIMARY)
+  primaryKeyName?: string;
+  // Default collation of the table's string columns (MySQL)
+  collation?: string;
+  indexes: LiveIndex[];
+  checks: LiveCheck[];
+  foreignKeys: LiveForeignKey[];
+}
+
+// Text formats the canvas can be imported from and exported to
+export type SchemaTextFormat = 'sql' | 'dbml' | 'mermaid';
+
+// Export formats: the text formats plus generated code
+export type ExportFormat = SchemaTextFormat | 'prisma' | 'typescript';
+
+// Tables read from a schema script (SQL, DBML, Mermaid), with everything that could not be mapped
+export interface ParsedSchema {
+  tables: Map<string, LiveTable>;
+  warnings: string[];
+}
+
+// Outcome of a schema sync, reported back to the workspace
+export type SyncStatus = 'ok' | 'failed' | 'skipped';
+
+export interface SyncError {
+  code?: string;
+  errno?: number;
+  message: string;
+  sql?: string;
+}
+
+export interface TableSyncResult {
+  tableId?: string;
+  table: string;
+  status: SyncStatus;
+  changes: string[];
+  error?: SyncError;
+}
+
+export interface ForeignKeySyncResult {
+  relationshipId?: string;
+  table: string;
+  description: string;
+  status: SyncStatus;
+  error?: SyncError;
+}
+
+export interface SyncReport {
+  // `partial` means the tables were synced but at least one foreign key failed
+  status: 'success' | 'partial' | 'failed';
+  tables: TableSyncResult[];
+  foreignKeys: ForeignKeySyncResult[];
+  // Set when the sync could not start or stopped early (e.g. connection refused)
+  error?: SyncError;
+}
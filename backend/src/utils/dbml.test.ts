@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { generateDBML, parseDBML } from './dbml';
+import { parseSQLSchema } from './sql-ddl-parser';
+import { liveSchemaToCanvas } from '../services/schema-import.service';
+
+describe('parseDBML', () => {
+  it('reads tables, column settings and inline refs', () => {
+    const { tables, warnings } = parseDBML(`
+      Table users {
+        id int [pk, increment]
+        email varchar(255) [not null, unique]
+      }
+
+      Table posts {
+        id int [pk]
+        author_id int [not null, ref: > users.id]
+        status varchar(20) [default: 'draft']
+      }
+    `);
+
+    expect(warnings).toEqual([]);
+    expect(tables.get('users')!.columns[0]).toMatchObject({ name: 'id', isAutoIncrement: true, isNullable: false });
+    expect(tables.get('users')!.indexes).toMatchObject([{ columns: ['email'], isUnique: true }]);
+    expect(tables.get('posts')!.columns[2]).toMatchObject({ name: 'status', columnType: 'varchar(20)', defaultValue: 'draft' });
+    expect(tables.get('posts')!.foreignKeys).toMatchObject([
+      { columns: ['author_id'], referencedTable: 'users', referencedColumns: ['id'] },
+    ]);
+  });
+
+  it('reads back what generateDBML writes', () => {
+    const { tables: live } = parseSQLSchema(`
+      CREATE TABLE users (id INT PRIMARY KEY, email VARCHAR(255) NOT NULL UNIQUE);
+      CREATE TABLE posts (
+        id INT PRIMARY KEY,
+        user_id INT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
+      );
+    `);
+
+    const { tables, warnings } = parseDBML(generateDBML(liveSchemaToCanvas(live), 'blog', 'mysql'));
+
+    expect(warnings).toEqual([]);
+    expect([...tables.keys()].sort()).toEqual(['posts', 'users']);
+    expect(tables.get('users')).toMatchObject({
+      primaryKey: ['id'],
+      columns: live.get('users')!.columns,
+      indexes: [{ columns: ['email'], isUnique: true }],
+    });
+    expect(tables.get('posts')!.foreignKeys).toMatchObject([
+      { columns: ['user_id'], referencedTable: 'users', referencedColumns: ['id'], onDelete: 'CASCADE' },
+    ]);
+  });
+});
@@ -0,0 +1,576 @@
+import { Column, Table, SchemaData, LiveTable, LiveColumn, ParsedSchema } from '../types/schema';
+import { columnType, isUniqueColumnSet, resolveIndexColumns, resolveRelationshipColumns } from './mysql-ddl';
+
+// Conversion between the canvas model and DBML (the dbdiagram.io format)
+
+const DBML_ACTIONS: Record<string, string> = {
+  CASCADE: 'cascade',
+  'SET NULL': 'set null',
+  RESTRICT: 'restrict',
+  'NO ACTION': 'no action',
+};
+
+// Names that are not plain words must be double-quoted
+const dbmlName = (name: string): string => (/^\w+$/.test(name) ? name : `"${name.replace(/"/g, '\\"')}"`);
+
+// Types with spaces or quotes (INT UNSIGNED, ENUM('a','b')) are written as quoted strings
+const dbmlType = (type: string): string => (/^[\w]+(\([\d, ]*\))?(\[\])?$/.test(type) ? type.replace(/\s+/g, '') : `"${type.replace(/"/g, '\\"')}"`);
+
+const dbmlString = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const dbmlDefault = (value: string): string => {
+  const upper = value.toUpperCase().trim();
+  if (upper === 'NULL') return 'null';
+  if (upper === 'TRUE' || upper === 'FALSE') return upper.toLowerCase();
+  if (upper === 'CURRENT_TIMESTAMP' || upper === 'CURRENT_DATE' || /\w+\(.*\)$/.test(value)) return `\`${value}\``;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return value;
+  return dbmlString(value);
+};
+
+const columnSettings = (col: Column, singlePrimaryKey: boolean): string[] => {
+  const settings: string[] = [];
+  if (col.isPrimaryKey && singlePrimaryKey) settings.push('pk');
+  if (col.isAutoIncrement) settings.push('increment');
+  if (!col.isNullable && !col.isPrimaryKey) settings.push('not null');
+  if (col.isUnique && !col.isPrimaryKey) settings.push('unique');
+  if (col.defaultValue) settings.push(`default: ${dbmlDefault(col.defaultValue)}`);
+  if (col.checkConstraint) settings.push(`check: \`${col.checkConstraint}\``);
+  return settings;
+};
+
+// Render the canvas as a DBML document
+export const generateDBML = (schema: SchemaData, projectName: string, databaseType: string): string => {
+  const blocks: string[] = [
+    `Project ${dbmlName(projectName.replace(/\s+/g, '_'))} {\n  database_type: ${dbmlString(databaseType)}\n}`,
+  ];
+
+  schema.tables.forEach(table => {
+    const primaryKey = table.columns.filter(col => col.isPrimaryKey);
+    const lines = table.columns.map(col => {
+      const settings = columnSettings(col, primaryKey.length === 1);
+      return `  ${dbmlName(col.name)} ${dbmlType(columnType(col))}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`;
+    });
+
+    // DBML indexes have no sort order, prefix length or FULLTEXT; those are dropped on export
+    const indexLines = (table.indexes || []).flatMap(index => {
+      const columns = resolveIndexColumns(table, index).map(part => dbmlName(part.column.name));
+      if (columns.length === 0) return [];
+      const settings = [...(index.isUnique ? ['unique'] : []), `name: ${dbmlString(index.name)}`];
+      return [`    ${columns.length === 1 ? columns[0] : `(${columns.join(', ')})`} [${settings.join(', ')}]`];
+    });
+    if (primaryKey.length > 1) {
+      indexLines.unshift(`    (${primaryKey.map(col => dbmlName(col.name)).join(', ')}) [pk]`);
+    }
+    if (indexLines.length > 0) {
+      lines.push('', '  indexes {', ...indexLines, '  }');
+    }
+
+    blocks.push(`Table ${dbmlName(table.name)} {\n${lines.join('\n')}\n}`);
+  });
+
+  schema.relationships.forEach(rel => {
+    const sourceTable = schema.tables.find(t => t.id === rel.sourceTableId);
+    const targetTable = schema.tables.find(t => t.id === rel.targetTableId);
+    const resolved = sourceTable && targetTable && resolveRelationshipColumns(rel, sourceTable, targetTable);
+    if (!sourceTable || !targetTable || !resolved) return;
+
+    const { sourceColumns, targetColumns } = resolved;
+    // A foreign key whose columns are unique in the source table is one-to-one, anything else many-to-one
+    const arrow = isUniqueColumnSet(sourceTable, sourceColumns) ? '-' : '>';
+    const endpoint = (table: Table, columns: Column[]) =>
+      columns.length === 1
+        ? `${dbmlName(table.name)}.${dbmlName(columns[0].name)}`
+        : `${dbmlName(table.name)}.(${columns.map(col => dbmlName(col.name)).join(', ')})`;
+    const settings = [
+      `delete: ${DBML_ACTIONS[rel.onDelete || 'CASCADE']}`,
+      `update: ${DBML_ACTIONS[rel.onUpdate || 'CASCADE']}`,
+    ];
+    blocks.push(
+      `Ref: ${endpoint(sourceTable, sourceColumns)} ${arrow} ` +
+      `${endpoint(targetTable, targetColumns)} [${settings.join(', ')}]`
+    );
+  });
+
+  return `${blocks.join('\n\n')}\n`;
+};
+
+interface DBMLToken {
+  type: 'word' | 'ident' | 'string' | 'expression' | 'symbol' | 'newline';
+  value: string;
+}
+
+const tokenizeDBML = (text: string): DBMLToken[] => {
+  const tokens: DBMLToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\n') {
+      tokens.push({ type: 'newline', value: '\n' });
+      i++;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (text.startsWith('//', i)) {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end;
+      continue;
+    }
+    if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+      continue;
+    }
+    if (text.startsWith("'''", i)) {
+      const end = text.indexOf("'''", i + 3);
+      const stop = end === -1 ? text.length : end;
+      tokens.push({ type: 'string', value: text.slice(i + 3, stop).trim() });
+      i = stop + 3;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === '`') {
+      let value = '';
+      let j = i + 1;
+      while (j < text.length && text[j] !== char) {
+        if (text[j] === '\\' && j + 1 < text.length) {
+          value += text[j + 1];
+          j += 2;
+          continue;
+        }
+        value += text[j];
+        j++;
+      }
+      tokens.push({ type: char === "'" ? 'string' : char === '"' ? 'ident' : 'expression', value });
+      i = j + 1;
+      continue;
+    }
+
+    // Column types may carry arguments and array brackets, e.g. varchar(255) or int[]
+    const word = text.slice(i).match(/^\w[\w.]*(\([^)\n]*\))?(\[\])?/)?.[0];
+    if (word) {
+      tokens.push({ type: 'word', value: word });
+      i += word.length;
+      continue;
+    }
+
+    const symbol = text.startsWith('<>', i) ? '<>' : char;
+    tokens.push({ type: 'symbol', value: symbol });
+    i += symbol.length;
+  }
+
+  return tokens;
+};
+
+class DBMLParser {
+  readonly tables = new Map<string, LiveTable>();
+  readonly warnings: string[] = [];
+  private enums = new Map<string, string[]>();
+  // Column types naming an enum are resolved once all enums are known
+  private enumColumns: Array<{ column: LiveColumn; enumName: string }> = [];
+  private refs: Array<{ left: string; operator: string; right: string; settings: Map<string, string> }> = [];
+  private pos = 0;
+
+  constructor(private tokens: DBMLToken[]) {}
+
+  parse(): ParsedSchema {
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (token.type === 'newline') {
+        this.pos++;
+        continue;
+      }
+
+      const keyword = token.value.toLowerCase();
+      if (token.type === 'word' && keyword === 'table') {
+        this.pos++;
+        this.parseTable();
+      } else if (token.type === 'word' && keyword === 'enum') {
+        this.pos++;
+        this.parseEnum();
+      } else if (token.type === 'word' && keyword === 'ref') {
+        this.pos++;
+        this.parseRef();
+      } else if (token.type === 'word' && ['project', 'tablegroup', 'note'].includes(keyword)) {
+        this.skipBlock();
+      } else {
+        this.warnings.push(`Unsupported DBML element '${token.value}' skipped`);
+        this.skipBlock();
+      }
+    }
+
+    this.enumColumns.forEach(({ column, enumName }) => {
+      const values = this.enums.get(enumName);
+      if (values) column.columnType = `enum(${values.map(value => `'${value.replace(/'/g, "''")}'`).join(',')})`;
+    });
+
+    this.refs.forEach(ref => this.applyRef(ref));
+
+    return { tables: this.tables, warnings: this.warnings };
+  }
+
+  private peek(): DBMLToken | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'symbol' && token.value === value;
+  }
+
+  // Skip tokens up to the end of the line, or over a whole { } block that starts on it
+  private skipBlock(): void {
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      if (token.type === 'symbol' && token.value === '{') {
+        this.readBlock();
+        return;
+      }
+      this.pos++;
+      if (token.type === 'newline') return;
+    }
+  }
+
+  // Tokens between a { and its matching }
+  private readBlock(): DBMLToken[] {
+    const inner: DBMLToken[] = [];
+    this.pos++;
+    let depth = 1;
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos++];
+      if (token.type === 'symbol' && token.value === '{') depth++;
+      if (token.type === 'symbol' && token.value === '}') {
+        depth--;
+        if (depth === 0) break;
+      }
+      inner.push(token);
+    }
+    return inner;
+  }
+
+  // Settings list [a, b: c, ...] as a lowercase-keyed map
+  private readSettings(tokens: DBMLToken[], start: number): Map<string, string> {
+    const settings = new Map<string, string>();
+    let key: string[] = [];
+    let value: DBMLToken[] = [];
+    let hasValue = false;
+
+    const flush = () => {
+      if (key.length > 0) settings.set(key.join(' ').toLowerCase(), this.settingValue(value));
+      key = [];
+      value = [];
+      hasValue = false;
+    };
+
+    for (let i = start + 1; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'symbol' && token.value === ']') break;
+      if (token.type === 'newline') continue;
+
+      if (token.type === 'symbol' && token.value === ',') {
+        flush();
+      } else if (token.type === 'symbol' && token.value === ':' && !hasValue) {
+        hasValue = true;
+      } else if (hasValue) {
+        value.push(token);
+      } else {
+        key.push(token.value);
+      }
+    }
+    flush();
+
+    return settings;
+  }
+
+  // Render a setting value: quoted strings keep their quotes, multi-word values (set null) are space-joined
+  private settingValue(tokens: DBMLToken[]): string {
+    return tokens
+      .map((token, i) => {
+        const text = token.type === 'expression' ? `\`${token.value}\`` : token.type === 'string' ? `'${token.value}'` : token.value;
+        return i > 0 && token.type === 'word' && tokens[i - 1].type === 'word' ? ` ${text}` : text;
+      })
+      .join('');
+  }
+
+  private readName(): string {
+    const token = this.tokens[this.pos++];
+    let name = token?.value || '';
+    // schema.table keeps the table name
+    if (token?.type === 'word' && name.includes('.')) name = name.slice(name.lastIndexOf('.') + 1);
+    while (this.isSymbol('.')) {
+      this.pos++;
+      name = this.tokens[this.pos++]?.value || name;
+    }
+    return name;
+  }
+
+  private parseTable(): void {
+    const name = this.readName();
+
+    // Optional alias and settings before the body
+    while (this.pos < this.tokens.length && !this.isSymbol('{')) this.pos++;
+    const body = this.readBlock();
+
+    const table: LiveTable = { name, columns: [], primaryKey: [], indexes: [], checks: [], foreignKeys: [] };
+    if (this.tables.has(name)) {
+      this.warnings.push(`Table ${name} is defined more than once; the last definition is used`);
+    }
+    this.tables.set(name, table);
+
+    // Split the body into lines, keeping nested blocks (indexes { }) together
+    const lines: DBMLToken[][] = [[]];
+    let depth = 0;
+    body.forEach(token => {
+      if (token.type === 'symbol' && token.value === '{') depth++;
+      if (token.type === 'symbol' && token.value === '}') depth--;
+      if (token.type === 'newline' && depth === 0) {
+        lines.push([]);
+        return;
+      }
+      lines[lines.length - 1].push(token);
+    });
+
+    lines.filter(line => line.length > 0).forEach(line => {
+      const first = line[0].value.toLowerCase();
+      if (line[0].type === 'word' && first === 'indexes') {
+        this.parseIndexes(table, line);
+      } else if (line[0].type === 'word' && first === 'checks') {
+        this.parseChecks(table, line);
+      } else if (line[0].type === 'word' && first === 'note' && line[1]?.value === ':') {
+        // Table notes have no canvas equivalent
+      } else {
+        this.parseColumn(table, line);
+      }
+    });
+  }
+
+  private parseColumn(table: LiveTable, line: DBMLToken[]): void {
+    const [nameToken, typeToken] = line;
+    if (!typeToken || typeToken.type === 'symbol') {
+      this.warnings.push(`Column line '${line.map(token => token.value).join(' ')}' in ${table.name} skipped`);
+      return;
+    }
+
+    const column: LiveColumn = {
+      name: nameToken.value,
+      columnType: typeToken.value.toLowerCase(),
+      isNullable: true,
+      isAutoIncrement: false,
+      defaultValue: null,
+      extra: '',
+    };
+    // enum(...) spelled inline keeps the case of its values
+    if (/^(enum|set)\(/i.test(typeToken.value)) column.columnType = typeToken.value;
+    table.columns.push(column);
+
+    const typeName = typeToken.value.includes('.') ? typeToken.value.slice(typeToken.value.lastIndexOf('.') + 1) : typeToken.value;
+    if (typeToken.type === 'word' && !typeName.includes('(')) {
+      this.enumColumns.push({ column, enumName: typeName });
+    }
+
+    const settingsStart = line.findIndex(token => token.type === 'symbol' && token.value === '[');
+    if (settingsStart === -1) return;
+
+    const settings = this.readSettings(line, settingsStart);
+    settings.forEach((value, key) => {
+      switch (key) {
+        case 'pk':
+        case 'primary key':
+          table.primaryKey = [column.name];
+          column.isNullable = false;
+          break;
+        case 'increment':
+          column.isAutoIncrement = true;
+          break;
+        case 'not null':
+          column.isNullable = false;
+          break;
+        case 'null':
+          column.isNullable = true;
+          break;
+        case 'unique':
+          table.indexes.push({ name: `uq_${table.name}_${column.name}`, columns: [column.name], isUnique: true });
+          break;
+        case 'default':
+          column.defaultValue = this.fromSettingValue(value);
+          break;
+        case 'check':
+          table.checks.push({ name: `chk_${table.name}_${column.name}`, clause: value.replace(/^`|`$/g, '') });
+          break;
+        case 'ref':
+          this.refs.push({
+            left: `${table.name}.${column.name}`,
+            operator: value.startsWith('<>') ? '<>' : value.charAt(0),
+            right: value.replace(/^(<>|[<>-])/, ''),
+            settings: new Map(),
+          });
+          break;
+        case 'note':
+          break;
+        default:
+          this.warnings.push(`Column setting '${key}' of ${table.name}.${column.name} was ignored`);
+      }
+    });
+  }
+
+  private fromSettingValue(value: string): string | null {
+    if (value === 'null') return null;
+    if (/^'.*'$/s.test(value) || /^`.*`$/s.test(value)) return value.slice(1, -1);
+    return value;
+  }
+
+  private parseIndexes(table: LiveTable, line: DBMLToken[]): void {
+    const open = line.findIndex(token => token.type === 'symbol' && token.value === '{');
+    const entries: DBMLToken[][] = [[]];
+    line.slice(open + 1).forEach(token => {
+      if (token.type === 'newline') {
+        entries.push([]);
+      } else if (!(token.type === 'symbol' && token.value === '}')) {
+        entries[entries.length - 1].push(token);
+      }
+    });
+
+    entries.filter(entry => entry.length > 0).forEach(entry => {
+      const settingsStart = entry.findIndex(token => token.type === 'symbol' && token.value === '[');
+      const columnTokens = settingsStart === -1 ? entry : entry.slice(0, settingsStart);
+      const columns = columnTokens
+        .filter(token => token.type === 'word' || token.type === 'ident')
+        .map(token => token.value.replace(/^\(|\)$/g, '').split(/\s*,\s*/))
+        .flat()
+        .filter(Boolean);
+      const settings = settingsStart === -1 ? new Map<string, string>() : this.readSettings(entry, settingsStart);
+
+      if (settings.has('pk')) {
+        table.primaryKey = columns;
+        columns.forEach(name => {
+          const column = table.columns.find(col => col.name === name);
+          if (column) column.isNullable = false;
+        });
+      } else {
+        const isUnique = settings.has('unique');
+        const name = this.fromSettingValue(settings.get('name') || '') || `${isUnique ? 'uq' : 'idx'}_${table.name}_${columns.join('_')}`;
+        table.indexes.push({ name, columns, isUnique });
+      }
+    });
+  }
+
+  private parseChecks(table: LiveTable, line: DBMLToken[]): void {
+    line
+      .filter(token => token.type === 'expression')
+      .forEach(token => table.checks.push({ name: `chk_${table.name}_${table.checks.length + 1}`, clause: token.value }));
+  }
+
+  private parseEnum(): void {
+    const name = this.readName();
+    while (this.pos < this.tokens.length && !this.isSymbol('{')) this.pos++;
+    const body = this.readBlock();
+
+    const values: string[] = [];
+    let expectValue = true;
+    body.forEach(token => {
+      if (token.type === 'newline') {
+        expectValue = true;
+      } else if (expectValue && (token.type === 'word' || token.type === 'ident' || token.type === 'string')) {
+        values.push(token.value);
+        expectValue = false;
+      }
+    });
+    this.enums.set(name, values);
+  }
+
+  // Ref name?: a.b > c.d [settings]  or  Ref name? { a.b > c.d [settings] ... }
+  private parseRef(): void {
+    if (!this.isSymbol(':') && !this.isSymbol('{')) this.pos++;
+
+    if (this.isSymbol('{')) {
+      const lines: DBMLToken[][] = [[]];
+      this.readBlock().forEach(token => {
+        if (token.type === 'newline') {
+          lines.push([]);
+        } else {
+          lines[lines.length - 1].push(token);
+        }
+      });
+      lines.filter(line => line.length > 0).forEach(line => this.addRef(line));
+      return;
+    }
+
+    this.pos++;
+    const line: DBMLToken[] = [];
+    while (this.pos < this.tokens.length && this.peek()?.type !== 'newline') {
+      line.push(this.tokens[this.pos++]);
+    }
+    this.addRef(line);
+  }
+
+  private addRef(definition: DBMLToken[]): void {
+    const operatorIndex = definition.findIndex(token => token.type === 'symbol' && ['>', '<', '-', '<>'].includes(token.value));
+    if (operatorIndex === -1) {
+      this.warnings.push(`Ref '${definition.map(token => token.value).join(' ')}' could not be read`);
+      return;
+    }
+
+    const settingsStart = definition.findIndex(token => token.type === 'symbol' && token.value === '[');
+    const join = (tokens: DBMLToken[]) => tokens.map(token => token.value).join('');
+    this.refs.push({
+      left: join(definition.slice(0, operatorIndex)),
+      operator: definition[operatorIndex].value,
+      right: join(definition.slice(operatorIndex + 1, settingsStart === -1 ? undefined : settingsStart)),
+      settings: settingsStart === -1 ? new Map() : this.readSettings(definition, settingsStart),
+    });
+  }
+
+  private applyRef(ref: { left: string; operator: string; right: string; settings: Map<string, string> }): void {
+    const description = `${ref.left} ${ref.operator} ${ref.right}`;
+    if (ref.operator === '<>') {
+      this.warnings.push(`Many-to-many ref ${description} skipped; add a join table instead`);
+      return;
+    }
+
+    // `<` points from the right-hand side to the left-hand side
+    const [source, target] = ref.operator === '<' ? [ref.right, ref.left] : [ref.left, ref.right];
+    // Composite endpoints list their columns in parentheses: table.(a, b)
+    const split = (endpoint: string) => {
+      const composite = endpoint.match(/^(?:.*\.)?([^.]+)\.\((.*)\)$/);
+      if (composite) {
+        return { table: composite[1], columns: composite[2].split(',').map(column => column.trim()) };
+      }
+      const parts = endpoint.split('.');
+      return { table: parts[parts.length - 2] || '', columns: [parts[parts.length - 1]] };
+    };
+    const from = split(source);
+    const to = split(target);
+
+    if (from.columns.length !== to.columns.length) {
+      this.warnings.push(`Ref ${description} skipped; both sides must list the same number of columns`);
+      return;
+    }
+
+    const sourceTable = this.tables.get(from.table);
+    const targetTable = this.tables.get(to.table);
+    if (
+      !sourceTable || !targetTable ||
+      !from.columns.every(column => sourceTable.columns.some(col => col.name === column)) ||
+      !to.columns.every(column => targetTable.columns.some(col => col.name === column))
+    ) {
+      this.warnings.push(`Ref ${description} points at an unknown table or column`);
+      return;
+    }
+
+    const action = (key: string) => (ref.settings.get(key) || 'cascade').toUpperCase();
+    sourceTable.foreignKeys.push({
+      name: `fk_${from.table}_${from.columns[0]}`,
+      columns: from.columns,
+      referencedTable: to.table,
+      referencedColumns: to.columns,
+      onDelete: action('delete'),
+      onUpdate: action('update'),
+    });
+  }
+}
+
+// Parse a DBML document into live table structures
+export const parseDBML = (text: string): ParsedSchema => new DBMLParser(tokenizeDBML(text)).parse();
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { generateMermaidERD, parseMermaidERD } from './mermaid-erd';
+import { parseSQLSchema } from './sql-ddl-parser';
+import { liveSchemaToCanvas } from '../services/schema-import.service';
+
+describe('parseMermaidERD', () => {
+  it('reads entities, key markers and relationships labelled with a column', () => {
+    const { tables, warnings } = parseMermaidERD(`
+      erDiagram
+        users ||--o{ posts : "user_id"
+        users {
+          int id PK
+          varchar(255) email UK
+        }
+        posts {
+          int id PK
+          int user_id FK
+        }
+    `);
+
+    expect(warnings).toEqual([]);
+    expect(tables.get('users')!.primaryKey).toEqual(['id']);
+    expect(tables.get('users')!.indexes).toMatchObject([{ columns: ['email'], isUnique: true }]);
+    expect(tables.get('posts')!.foreignKeys).toMatchObject([
+      { columns: ['user_id'], referencedTable: 'users', referencedColumns: ['id'] },
+    ]);
+  });
+
+  it('warns about relationships whose label names no column', () => {
+    const { tables, warnings } = parseMermaidERD(`
+      erDiagram
+        users ||--o{ posts : writes
+        users {
+          int id PK
+        }
+        posts {
+          int id PK
+        }
+    `);
+
+    expect(tables.get('posts')!.foreignKeys).toEqual([]);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('reads back what generateMermaidERD writes', () => {
+    const { tables: live } = parseSQLSchema(`
+      CREATE TABLE users (id INT PRIMARY KEY, email VARCHAR(255) NOT NULL UNIQUE);
+      CREATE TABLE posts (id INT PRIMARY KEY, user_id INT NOT NULL, FOREIGN KEY (user_id) REFERENCES users (id));
+    `);
+
+    const { tables, warnings } = parseMermaidERD(generateMermaidERD(liveSchemaToCanvas(live)));
+
+    expect(warnings).toEqual([]);
+    expect(tables.get('users')).toMatchObject({
+      primaryKey: ['id'],
+      columns: live.get('users')!.columns,
+      indexes: [{ columns: ['email'], isUnique: true }],
+    });
+    expect(tables.get('posts')!.columns).toEqual(live.get('posts')!.columns);
+    expect(tables.get('posts')!.foreignKeys).toMatchObject([
+      { columns: ['user_id'], referencedTable: 'users', referencedColumns: ['id'] },
+    ]);
+  });
+});
@@ -0,0 +1,232 @@
+import { Column, SchemaData, LiveTable, LiveColumn, ParsedSchema } from '../types/schema';
+import { columnType, isUniqueColumnSet, relationshipColumnPairs, resolveRelationshipColumns } from './mysql-ddl';
+
+// Conversion between the canvas model and Mermaid `erDiagram` text.
+// Mermaid has no notion of defaults or referential actions, so those go into the
+// attribute comment on export and default to CASCADE on import.
+
+// Attribute types may only contain word characters, dashes, brackets and parentheses
+const mermaidType = (type: string): string => {
+  const compact = type.replace(/\s+/g, '_');
+  return /^[A-Za-z_][\w\-[\]()]*$/.test(compact) ? compact : compact.replace(/\(.*$/, '').replace(/[^\w-]/g, '_');
+};
+
+const mermaidName = (name: string): string => (/^[A-Za-z_][\w-]*$/.test(name) ? name : `"${name.replace(/"/g, "'")}"`);
+
+// Details Mermaid cannot express, kept in the attribute comment
+const attributeComment = (col: Column): string => {
+  const details: string[] = [];
+  const type = columnType(col);
+  if (mermaidType(type) !== type) details.push(`type: ${type}`);
+  if (!col.isNullable && !col.isPrimaryKey) details.push('not null');
+  if (col.isAutoIncrement) details.push('auto increment');
+  if (col.defaultValue) details.push(`default: ${col.defaultValue}`);
+  if (col.checkConstraint) details.push(`check: ${col.checkConstraint}`);
+  return details.join(', ').replace(/"/g, "'");
+};
+
+// Render the canvas as a Mermaid ER diagram
+export const generateMermaidERD = (schema: SchemaData): string => {
+  const lines: string[] = ['erDiagram'];
+
+  schema.tables.forEach(table => {
+    const foreignKeyColumns = new Set(
+      schema.relationships
+        .filter(rel => rel.sourceTableId === table.id)
+        .flatMap(rel => relationshipColumnPairs(rel).map(pair => pair.sourceColumnId))
+    );
+
+    lines.push(`    ${mermaidName(table.name)} {`);
+    table.columns.forEach(col => {
+      const keys = [
+        col.isPrimaryKey ? 'PK' : '',
+        foreignKeyColumns.has(col.id) ? 'FK' : '',
+        col.isUnique && !col.isPrimaryKey ? 'UK' : '',
+      ].filter(Boolean);
+      const comment = attributeComment(col);
+      lines.push(
+        `        ${mermaidType(columnType(col))} ${mermaidName(col.name)}` +
+        `${keys.length > 0 ? ` ${keys.join(', ')}` : ''}${comment ? ` "${comment}"` : ''}`
+      );
+    });
+    lines.push('    }');
+  });
+
+  schema.relationships.forEach(rel => {
+    const sourceTable = schema.tables.find(t => t.id === rel.sourceTableId);
+    const targetTable = schema.tables.find(t => t.id === rel.targetTableId);
+    const resolved = sourceTable && targetTable && resolveRelationshipColumns(rel, sourceTable, targetTable);
+    if (!sourceTable || !targetTable || !resolved) return;
+
+    // Target side: exactly one, or zero-or-one for a nullable FK. Source side: many, or one for a unique FK.
+    const { sourceColumns, targetColumns } = resolved;
+    const isUnique = isUniqueColumnSet(sourceTable, sourceColumns);
+    const targetCardinality = sourceColumns.some(col => col.isNullable) ? '|o' : '||';
+    const sourceCardinality = isUnique ? 'o|' : 'o{';
+    const sourceNames = sourceColumns.map(col => col.name).join(', ');
+    const label = targetColumns.every(col => col.isPrimaryKey)
+      ? sourceNames
+      : `${sourceNames} -> ${targetColumns.map(col => col.name).join(', ')}`;
+    lines.push(
+      `    ${mermaidName(targetTable.name)} ${targetCardinality}--${sourceCardinality} ${mermaidName(sourceTable.name)} : "${label}"`
+    );
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+const unquote = (value: string): string => value.replace(/^"(.*)"$/, '$1');
+
+// Generic type names common in hand-written diagrams
+const GENERIC_TYPES: Record<string, string> = {
+  string: 'varchar(255)',
+  number: 'decimal',
+  bool: 'boolean',
+};
+
+// Read `type: x, not null, default: y, check: z` back from an attribute comment
+const applyComment = (column: LiveColumn, table: LiveTable, comment: string): void => {
+  comment
+    .split(/,\s*(?=type: |not null|auto increment|default: |check: )/)
+    .forEach(part => {
+      if (part.startsWith('type: ')) {
+        column.columnType = part.slice(6);
+      } else if (part === 'not null') {
+        column.isNullable = false;
+      } else if (part === 'auto increment') {
+        column.isAutoIncrement = true;
+      } else if (part.startsWith('default: ')) {
+        column.defaultValue = part.slice(9);
+      } else if (part.startsWith('check: ')) {
+        table.checks.push({ name: `chk_${table.name}_${column.name}`, clause: part.slice(7) });
+      }
+    });
+};
+
+const ENTITY_PATTERN = /^("[^"]+"|[A-Za-z_][\w-]*)(\[[^\]]*\])?\s*(\{)?\s*$/;
+const ATTRIBUTE_PATTERN = /^([A-Za-z_*][\w\-[\]()]*)\s+("[^"]+"|[A-Za-z_*][\w-]*)((?:\s*,?\s*(?:PK|FK|UK))*)\s*(?:"([^"]*)")?\s*$/;
+const RELATIONSHIP_PATTERN = /^("[^"]+"|[A-Za-z_][\w-]*)\s+(\|o|\|\||\}o|\}\|)(--|\.\.)(o\||\|\||o\{|\|\{)\s+("[^"]+"|[A-Za-z_][\w-]*)\s*:\s*(.+)$/;
+
+// Parse a Mermaid erDiagram into live table structures
+export const parseMermaidERD = (text: string): ParsedSchema => {
+  const tables = new Map<string, LiveTable>();
+  const warnings: string[] = [];
+  const relationships: Array<{ left: string; right: string; leftMany: boolean; rightMany: boolean; label: string; line: string }> = [];
+  let current: LiveTable | null = null;
+
+  const getTable = (name: string): LiveTable => {
+    let table = tables.get(name);
+    if (!table) {
+      table = { name, columns: [], primaryKey: [], indexes: [], checks: [], foreignKeys: [] };
+      tables.set(name, table);
+    }
+    return table;
+  };
+
+  const lines = text.split('\n').map(line => line.replace(/%%.*$/, '').trim());
+
+  if (!lines.some(line => line === 'erDiagram')) {
+    warnings.push("No 'erDiagram' header found; reading the text as an ER diagram anyway");
+  }
+
+  for (const line of lines) {
+    if (!line || line === 'erDiagram' || line.startsWith('direction ') || line.startsWith('title ')) continue;
+
+    if (current) {
+      if (line === '}') {
+        current = null;
+        continue;
+      }
+
+      const attribute = line.match(ATTRIBUTE_PATTERN);
+      if (!attribute) {
+        warnings.push(`Attribute '${line}' in ${current.name} could not be read`);
+        continue;
+      }
+
+      const [, type, name, keyList = '', comment] = attribute;
+      const keys = keyList.split(/[\s,]+/).filter(Boolean);
+      const column: LiveColumn = {
+        name: unquote(name),
+        columnType: GENERIC_TYPES[type.toLowerCase()] || type.toLowerCase(),
+        isNullable: true,
+        isAutoIncrement: false,
+        defaultValue: null,
+        extra: '',
+      };
+      current.columns.push(column);
+
+      if (keys.includes('PK')) {
+        current.primaryKey.push(column.name);
+        column.isNullable = false;
+      }
+      if (keys.includes('UK')) {
+        current.indexes.push({ name: `uq_${current.name}_${column.name}`, columns: [column.name], isUnique: true });
+      }
+      if (comment) applyComment(column, current, comment);
+      continue;
+    }
+
+    const relationship = line.match(RELATIONSHIP_PATTERN);
+    if (relationship) {
+      const [, left, leftCardinality, , rightCardinality, right, label] = relationship;
+      relationships.push({
+        left: unquote(left),
+        right: unquote(right),
+        leftMany: leftCardinality.startsWith('}'),
+        rightMany: rightCardinality.endsWith('{'),
+        label: unquote(label.trim()),
+        line,
+      });
+      continue;
+    }
+
+    const entity = line.match(ENTITY_PATTERN);
+    if (entity) {
+      const table = getTable(unquote(entity[1]));
+      if (entity[3]) current = table;
+      continue;
+    }
+
+    warnings.push(`Line '${line}' could not be read`);
+  }
+
+  relationships.forEach(rel => {
+    if (rel.leftMany && rel.rightMany) {
+      warnings.push(`Many-to-many relationship '${rel.line}' skipped; add a join table instead`);
+      return;
+    }
+
+    // The label names the foreign key column, optionally as `column -> referenced column`
+    const [sourceColumnName, targetColumnName] = rel.label.split(/\s*->\s*/);
+
+    // The many side holds the foreign key; for one-to-one use whichever side has the column
+    const candidates = rel.leftMany ? [[rel.left, rel.right]] : rel.rightMany ? [[rel.right, rel.left]] : [[rel.right, rel.left], [rel.left, rel.right]];
+    const match = candidates.find(([source]) => tables.get(source)?.columns.some(col => col.name === sourceColumnName));
+
+    if (!match) {
+      warnings.push(`Relationship '${rel.line}' skipped; its label does not name a column of either entity`);
+      return;
+    }
+
+    const [sourceName, targetName] = match;
+    const target = tables.get(targetName);
+    const referencedColumn = targetColumnName || (target?.primaryKey.length === 1 ? target.primaryKey[0] : undefined);
+
+    if (!target || !referencedColumn || !target.columns.some(col => col.name === referencedColumn)) {
+      warnings.push(`Relationship '${rel.line}' skipped; ${targetName} has no single primary key to reference`);
+      return;
+    }
+
+    (tables.get(sourceName) as LiveTable).foreignKeys.push({
+      name: `fk_${sourceName}_${sourceColumnName}`,
+      columns: [sourceColumnName],
+      referencedTable: targetName,
+      referencedColumns: [referencedColumn],
+      onDelete: 'CASCADE',
+      onUpdate: 'CASCADE',
+    });
+  });
+
+  return { tables, warnings };
+};
@@ -0,0 +1,151 @@
+import { Decimal128, Double, Long, ObjectId } from 'mongodb';
+import { Column, Table, Relationship } from '../types/schema';
+import { safeIdentifier } from './mysql-ddl';
+
+export type BsonType =
+  | 'string'
+  | 'int'
+  | 'long'
+  | 'double'
+  | 'decimal'
+  | 'bool'
+  | 'date'
+  | 'objectId'
+  | 'object'
+  | 'array'
+  | 'binData';
+
+const BSON_TYPES: BsonType[] = ['string', 'int', 'long', 'double', 'decimal', 'bool', 'date', 'objectId', 'object', 'array', 'binData'];
+
+// Translate a canvas column type (a BSON type name or SQL notation) into a BSON type
+export const toBsonType = (type: string): BsonType => {
+  const trimmed = type.trim();
+  const bsonType = BSON_TYPES.find(candidate => candidate.toLowerCase() === trimmed.toLowerCase());
+  if (bsonType) return bsonType;
+
+  const upper = trimmed.toUpperCase();
+  if (upper === 'TINYINT(1)' || upper.startsWith('BOOL')) return 'bool';
+  if (upper.startsWith('BIGINT')) return 'long';
+  if (/^(TINYINT|SMALLINT|MEDIUMINT|INT|INTEGER|YEAR)\b/.test(upper)) return 'int';
+  if (/^(FLOAT|DOUBLE|REAL)\b/.test(upper)) return 'double';
+  if (/^(DECIMAL|NUMERIC)\b/.test(upper)) return 'decimal';
+  if (/^(DATE|DATETIME|TIMESTAMP)\b/.test(upper)) return 'date';
+  if (upper.startsWith('JSON')) return 'object';
+  if (/^(BLOB|TINYBLOB|MEDIUMBLOB|LONGBLOB|BINARY|VARBINARY|BYTEA)\b/.test(upper)) return 'binData';
+  return 'string';
+};
+
+// Values of an ENUM or SET column, of an ENUM('a','b') column type, or of a `column IN ('a','b')` check constraint
+export const parseEnumValues = (col: Column): string[] | null => {
+  if (col.enumValues && col.enumValues.length > 0) return col.enumValues;
+
+  const typeMatch = col.type.trim().match(/^(ENUM|SET)\s*\((.*)\)$/i);
+  const checkMatch = col.checkConstraint?.trim().match(/^\(?\s*`?\w+`?\s+IN\s*\((.*)\)\s*\)?$/i);
+  const list = typeMatch?.[2] ?? checkMatch?.[1];
+  if (!list) return null;
+
+  const values = [...list.matchAll(/'((?:[^']|'')*)'/g)].map(match => match[1].replace(/''/g, "'"));
+  return values.length > 0 ? values : null;
+};
+
+// Name of the unique index created for a field
+export const uniqueIndexName = (tableName: string, columnName: string): string =>
+  `uq_${safeIdentifier(tableName)}_${safeIdentifier(columnName)}`;
+
+// Fields that get a unique index: unique columns and primary keys other than `_id`
+export const uniqueIndexColumns = (table: Table): Column[] =>
+  table.columns.filter(col => (col.isUnique || col.isPrimaryKey) && col.name !== '_id');
+
+// Build the $jsonSchema validator of a collection; relationships become reference descriptions
+export const generateJsonSchemaValidator = (
+  table: Table,
+  tables: Table[],
+  relationships: Relationship[]
+): Record<string, unknown> => {
+  const properties: Record<string, Record<string, unknown>> = {};
+  const required: string[] = [];
+
+  table.columns.forEach(col => {
+    const bsonType = toBsonType(col.type);
+    const property: Record<string, unknown> = {
+      bsonType: col.isNullable ? [bsonType, 'null'] : bsonType,
+    };
+
+    // Enum values are parsed as strings, so they only constrain string fields
+    const enumValues = bsonType === 'string' ? parseEnumValues(col) : null;
+    if (enumValues) {
+      property.enum = col.isNullable ? [...enumValues, null] : enumValues;
+    }
+
+    const reference = relationships.find(rel => rel.sourceTableId === table.id && rel.sourceColumnId === col.id);
+    if (reference) {
+      const targetTable = tables.find(t => t.id === reference.targetTableId);
+      const targetColumn = targetTable?.columns.find(c => c.id === reference.targetColumnId);
+      if (targetTable && targetColumn) {
+        property.description = `References ${targetTable.name}.${targetColumn.name}`;
+      }
+    }
+
+    properties[col.name] = property;
+
+    // Auto increment has no MongoDB equivalent, so such fields stay optional
+    if (!col.isNullable && !col.isAutoIncrement && col.name !== '_id') {
+      required.push(col.name);
+    }
+  });
+
+  return {
+    $jsonSchema: {
+      bsonType: 'object',
+      ...(required.length > 0 ? { required } : {}),
+      properties,
+    },
+  };
+};
+
+// Convert a value typed in the data editor into the BSON type the validator expects
+export const toBsonValue = (value: unknown, col: Column): unknown => {
+  if (value === null || value === undefined || value === '') return null;
+
+  const text = String(value).trim();
+
+  switch (toBsonType(col.type)) {
+    case 'int':
+      return Number.isInteger(Number(text)) ? Number(text) : value;
+    case 'long':
+      return /^-?\d+$/.test(text) ? Long.fromString(text) : value;
+    case 'double':
+      return Number.isNaN(Number(text)) ? value : new Double(Number(text));
+    case 'decimal':
+      return Number.isNaN(Number(text)) ? value : Decimal128.fromString(text);
+    case 'bool':
+      return ['true', '1', 'yes'].includes(text.toLowerCase());
+    case 'date': {
+      const date = new Date(text);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+    case 'objectId':
+      return ObjectId.isValid(text) && text.length === 24 ? new ObjectId(text) : value;
+    case 'object':
+    case 'array':
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return typeof value === 'string' ? value : text;
+  }
+};
+
+// Convert driver values (ObjectId, Long, Decimal128) into plain JSON for the data editor
+export const toPlainValue = (value: unknown): unknown => {
+  if (value instanceof ObjectId) return value.toHexString();
+  if (value instanceof Decimal128) return value.toString();
+  if (value instanceof Long) return value.toNumber();
+  if (value instanceof Date || value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(toPlainValue);
+
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toPlainValue(entry)]));
+};
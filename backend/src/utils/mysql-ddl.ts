@@ -0,0 +1,218 @@
+import { Column, Table, TableIndex, IndexOrder, Relationship, RelationshipColumnPair } from '../types/schema';
+
+// Sanitize a table/column name so it can be safely wrapped in backticks
+export const safeIdentifier = (name: string): string => name.replace(/[^a-zA-Z0-9_]/g, '_');
+
+// Full MySQL type of a column, e.g. DECIMAL(19,4) UNSIGNED or ENUM('a','b'), rendered from the base
+// type and its parameters. Types still written out in full, such as VARCHAR(255), are kept as they are.
+export const columnType = (col: Column): string => {
+  const base = col.type.trim().toUpperCase();
+  if ((base === 'ENUM' || base === 'SET') && col.enumValues && col.enumValues.length > 0) {
+    return `${base}(${col.enumValues.map(value => `'${value.replace(/'/g, "''")}'`).join(',')})`;
+  }
+  if (!/^[A-Z]+$/.test(base)) return col.type;
+
+  let type = base;
+  if (col.precision !== undefined) {
+    // A DECIMAL without a scale is stored as DECIMAL(p,0); spell it out so it compares equal to the live column
+    const scale = col.scale ?? (base === 'DECIMAL' || base === 'NUMERIC' ? 0 : undefined);
+    type += scale !== undefined ? `(${col.precision},${scale})` : `(${col.precision})`;
+  } else if (col.length !== undefined) {
+    type += `(${col.length})`;
+  }
+  // ZEROFILL implies UNSIGNED, and MySQL reports both
+  if (col.isUnsigned || col.isZerofill) type += ' UNSIGNED';
+  if (col.isZerofill) type += ' ZEROFILL';
+  return type;
+};
+
+// CHARACTER SET and COLLATE clauses of a column, with a leading space, or '' for the table default
+export const columnCharsetClause = (col: Column): string =>
+  `${col.charset ? ` CHARACTER SET ${safeIdentifier(col.charset)}` : ''}${col.collation ? ` COLLATE ${safeIdentifier(col.collation)}` : ''}`;
+
+// MySQL and Postgres force primary key columns to NOT NULL, whatever the canvas says
+export const isColumnNullable = (col: Column): boolean => col.isNullable && !col.isPrimaryKey;
+
+// Render a column definition (type, NOT NULL, AUTO_INCREMENT, DEFAULT) without key constraints
+export const generateColumnDefinition = (col: Column): string => {
+  const colName = safeIdentifier(col.name);
+  let def = `\`${colName}\` ${columnType(col)}${columnCharsetClause(col)}`;
+
+  // NOT NULL constraint
+  if (!isColumnNullable(col)) {
+    def += ' NOT NULL';
+  }
+
+  // AUTO_INCREMENT (only for INT types)
+  if (col.isAutoIncrement && col.type.toUpperCase().includes('INT')) {
+    def += ' AUTO_INCREMENT';
+  }
+
+  // DEFAULT value
+  if (col.defaultValue && !col.isAutoIncrement) {
+    const upperDefault = col.defaultValue.toUpperCase().trim();
+    if (upperDefault === 'NULL') {
+      def += ' DEFAULT NULL';
+    } else if (upperDefault === 'CURRENT_TIMESTAMP') {
+      def += ' DEFAULT CURRENT_TIMESTAMP';
+    } else if (upperDefault === 'CURRENT_DATE') {
+      def += ' DEFAULT (CURRENT_DATE)';
+    } else {
+      def += ` DEFAULT '${col.defaultValue.replace(/'/g, "''")}'`;
+    }
+  }
+
+  return def;
+};
+
+// Name of the CHECK constraint generated for a column
+export const checkConstraintName = (tableName: string, columnName: string): string =>
+  `chk_${safeIdentifier(tableName)}_${safeIdentifier(columnName)}`;
+
+// Name of the FOREIGN KEY constraint generated for a source column
+export const foreignKeyName = (tableName: string, columnName: string): string =>
+  `fk_${safeIdentifier(tableName)}_${safeIdentifier(columnName)}`;
+
+// Column pairs of a relationship in key order: the first pair, then those of a composite foreign key
+export const relationshipColumnPairs = (rel: Relationship): RelationshipColumnPair[] => [
+  { sourceColumnId: rel.sourceColumnId, targetColumnId: rel.targetColumnId },
+  ...(rel.additionalColumns || []),
+];
+
+// Look up the source and target columns of a relationship; undefined if any of them is gone
+export const resolveRelationshipColumns = (
+  rel: Relationship,
+  sourceTable: Table,
+  targetTable: Table
+): { sourceColumns: Column[]; targetColumns: Column[] } | undefined => {
+  const sourceColumns: Column[] = [];
+  const targetColumns: Column[] = [];
+
+  for (const pair of relationshipColumnPairs(rel)) {
+    const sourceColumn = sourceTable.columns.find(c => c.id === pair.sourceColumnId);
+    const targetColumn = targetTable.columns.find(c => c.id === pair.targetColumnId);
+    if (!sourceColumn || !targetColumn) return undefined;
+
+    sourceColumns.push(sourceColumn);
+    targetColumns.push(targetColumn);
+  }
+
+  return { sourceColumns, targetColumns };
+};
+
+// Canvas columns of a designed index in key order; columns that were deleted are left out
+export const resolveIndexColumns = (
+  table: Table,
+  index: TableIndex
+): Array<{ column: Column; order: IndexOrder; length?: number }> =>
+  index.columns.flatMap(part => {
+    const column = table.columns.find(c => c.id === part.columnId);
+    return column ? [{ column, order: part.order || 'ASC', length: part.length }] : [];
+  });
+
+// Whether the columns identify at most one row: the whole primary key, a unique column, or a
+// unique index on exactly these columns. One column of a composite key is not unique by itself.
+export const isUniqueColumnSet = (table: Table, columns: Column[]): boolean => {
+  const ids = new Set(columns.map(col => col.id));
+  const isSameSet = (columnIds: string[]) => columnIds.length === ids.size && columnIds.every(id => ids.has(id));
+
+  const primaryKey = table.columns.filter(col => col.isPrimaryKey).map(col => col.id);
+  if (primaryKey.length > 0 && isSameSet(primaryKey)) return true;
+  if (columns.length === 1 && columns[0].isUnique) return true;
+
+  // Prefix indexes only compare the start of a value, so they do not make the full value unique
+  return (table.indexes || []).some(index =>
+    index.isUnique && index.columns.every(part => part.length === undefined) &&
+    isSameSet(index.columns.map(part => part.columnId))
+  );
+};
+
+// Index clause for CREATE TABLE and ALTER TABLE ... ADD, e.g. UNIQUE INDEX `name` (`a`(10), `b` DESC).
+// FULLTEXT key parts take neither a prefix length nor a direction.
+export const generateIndexDefinition = (table: Table, index: TableIndex): string | null => {
+  const parts = resolveIndexColumns(table, index);
+  if (parts.length === 0) return null;
+
+  const kind = index.isFulltext ? 'FULLTEXT ' : index.isUnique ? 'UNIQUE ' : '';
+  const keyParts = parts.map(({ column, order, length }) => {
+    const name = `\`${safeIdentifier(column.name)}\``;
+    if (index.isFulltext) return name;
+    return `${name}${length ? `(${length})` : ''}${order === 'DESC' ? ' DESC' : ''}`;
+  });
+
+  return `${kind}INDEX \`${safeIdentifier(index.name)}\` (${keyParts.join(', ')})`;
+};
+
+// Generate CREATE TABLE SQL from table definition
+export const generateCreateTableSQL = (table: Table): string => {
+  const safeName = safeIdentifier(table.name);
+
+  if (table.columns.length === 0) {
+    // MySQL requires at least one column, so create with a placeholder
+    return `CREATE TABLE IF NOT EXISTS \`${safeName}\` (
+      \`_placeholder\` INT COMMENT 'Placeholder column - add columns to replace'
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`;
+  }
+
+  const columnDefs: string[] = [];
+  const constraints: string[] = [];
+
+  table.columns.forEach(col => {
+    let def = generateColumnDefinition(col);
+
+    // UNIQUE constraint (inline for single column)
+    if (col.isUnique && !col.isPrimaryKey) {
+      def += ' UNIQUE';
+    }
+
+    columnDefs.push(def);
+
+    // CHECK constraint (MySQL 8.0+)
+    if (col.checkConstraint) {
+      constraints.push(`CONSTRAINT \`${checkConstraintName(table.name, col.name)}\` CHECK (${col.checkConstraint})`);
+    }
+  });
+
+  // PRIMARY KEY constraint, composite when several columns are flagged
+  const primaryKey = table.columns.filter(col => col.isPrimaryKey);
+  if (primaryKey.length > 0) {
+    constraints.unshift(`PRIMARY KEY (${primaryKey.map(col => `\`${safeIdentifier(col.name)}\``).join(', ')})`);
+  }
+
+  // Secondary indexes designed on the canvas
+  (table.indexes || []).forEach(index => {
+    const definition = generateIndexDefinition(table, index);
+    if (definition) constraints.push(definition);
+  });
+
+  const allDefs = [...columnDefs, ...constraints].join(',\n  ');
+
+  return `CREATE TABLE IF NOT EXISTS \`${safeName}\` (
+  ${allDefs}
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;`;
+};
+
+// Generate ALTER TABLE ... ADD FOREIGN KEY SQL for a relationship. Composite foreign keys
+// pass several columns in key order; the constraint is named after the first source column.
+export const generateForeignKeySQL = (
+  rel: Relationship,
+  sourceTable: Table,
+  sourceColumns: Column[],
+  targetTable: Table,
+  targetColumns: Column[]
+): string => {
+  const safeSourceTable = safeIdentifier(sourceTable.name);
+  const safeTargetTable = safeIdentifier(targetTable.name);
+  const safeSourceColumns = sourceColumns.map(col => `\`${safeIdentifier(col.name)}\``).join(', ');
+  const safeTargetColumns = targetColumns.map(col => `\`${safeIdentifier(col.name)}\``).join(', ');
+
+  const onDelete = rel.onDelete || 'CASCADE';
+  const onUpdate = rel.onUpdate || 'CASCADE';
+
+  return `ALTER TABLE \`${safeSourceTable}\`
+  ADD CONSTRAINT \`${foreignKeyName(sourceTable.name, sourceColumns[0].name)}\`
+  FOREIGN KEY (${safeSourceColumns})
+  REFERENCES \`${safeTargetTable}\`(${safeTargetColumns})
+  ON DELETE ${onDelete}
+  ON UPDATE ${onUpdate}`;
+};
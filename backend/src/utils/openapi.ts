@@ -0,0 +1,276 @@
+import { SchemaData } from '../types/schema';
+import { buildOrmModel, OrmColumn, OrmEntity, isBooleanType, isIntegerType, pascalCase } from './orm/orm-model';
+import { isOptionalOnInsert } from './row-validation';
+import { FILTER_OPERATORS } from './sql-query';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, RESERVED_QUERY_PARAMS } from '../services/generated-api.service';
+
+// OpenAPI 3.1 document describing the generated REST API of a project
+
+type JsonSchema = Record<string, unknown>;
+
+// JSON schema of a column value as the API reads and writes it
+const columnJsonSchema = (col: OrmColumn): JsonSchema => {
+  const { type } = col;
+  const [length, scale] = type.args;
+
+  if (col.enumValues && type.base === 'ENUM') return { type: 'string', enum: col.enumValues };
+  if (col.enumValues && type.base === 'SET') {
+    return { type: 'string', description: `Comma separated subset of: ${col.enumValues.join(', ')}` };
+  }
+  if (isBooleanType(type)) return { type: 'boolean' };
+
+  switch (type.base) {
+    case 'BIGINT':
+    case 'BIGSERIAL':
+    case 'SERIAL':
+    case 'SMALLSERIAL':
+      return { type: ['integer', 'string'], format: 'int64' };
+    case 'DECIMAL':
+    case 'NUMERIC':
+      return {
+        type: ['string', 'number'],
+        format: 'decimal',
+        ...(length !== undefined && { description: `DECIMAL(${[length, scale].filter(arg => arg !== undefined).join(',')})` }),
+      };
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'DOUBLE PRECISION':
+    case 'REAL':
+      return type.unsigned ? { type: 'number', minimum: 0 } : { type: 'number' };
+    case 'VARCHAR':
+    case 'CHAR':
+      return length ? { type: 'string', maxLength: length } : { type: 'string' };
+    case 'UUID':
+      return { type: 'string', format: 'uuid' };
+    case 'DATE':
+      return { type: 'string', format: 'date' };
+    case 'DATETIME':
+    case 'TIMESTAMP':
+    case 'TIMESTAMPTZ':
+      return { type: 'string', format: 'date-time' };
+    case 'TIME':
+      return { type: 'string', format: 'time' };
+    case 'YEAR':
+      return { type: 'integer', minimum: 1901, maximum: 2155 };
+    case 'JSON':
+    case 'JSONB':
+      return {};
+    default:
+      return isIntegerType(type) ? { type: 'integer', ...(type.unsigned && { minimum: 0 }) } : { type: 'string' };
+  }
+};
+
+const propertySchema = (col: OrmColumn): JsonSchema => {
+  const schema = columnJsonSchema(col);
+  if (!col.column.isNullable || col.column.isPrimaryKey) return schema;
+
+  // Nullable columns: add null to the type list, or allow null next to an enum
+  if (Array.isArray(schema.type)) return { ...schema, type: [...schema.type, 'null'] };
+  if (schema.enum) return { ...schema, type: [schema.type, 'null'], enum: [...(schema.enum as string[]), null] };
+  if (schema.type) return { ...schema, type: [schema.type, 'null'] };
+  return schema;
+};
+
+const objectSchema = (entity: OrmEntity, required: OrmColumn[], description: string): JsonSchema => ({
+  type: 'object',
+  description,
+  properties: Object.fromEntries(entity.columns.map(col => [col.name, propertySchema(col)])),
+  ...(required.length > 0 && { required: required.map(col => col.name) }),
+  additionalProperties: false,
+});
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: JsonSchema) => ({ 'application/json': { schema } });
+
+const errorResponse = (description: string) => ({ description, content: jsonContent(ref('Error')) });
+
+const rowResponse = (entity: OrmEntity, description: string) => ({
+  description,
+  content: jsonContent({
+    type: 'object',
+    properties: { success: { type: 'boolean', const: true }, data: ref(entity.className) },
+    required: ['success', 'data'],
+  }),
+});
+
+// One deepObject parameter per column: `column[op]=value`, with `column=value` short for `[eq]`.
+// Columns named like a reserved parameter can still be filtered with `name[eq]`.
+const filterParameters = (entity: OrmEntity) => entity.columns
+  .filter(col => !RESERVED_QUERY_PARAMS.includes(col.name))
+  .map(col => ({
+    name: col.name,
+    in: 'query',
+    required: false,
+    style: 'deepObject',
+    explode: true,
+    description: `Filter on ${col.name}. \`${col.name}=value\` is short for \`${col.name}[eq]=value\`; ` +
+      '`in` and `between` take comma separated values, `null` and `notnull` take none.',
+    schema: {
+      type: 'object',
+      properties: Object.fromEntries(FILTER_OPERATORS.map(operator => [operator, { type: 'string' }])),
+      additionalProperties: false,
+    },
+  }));
+
+const tablePaths = (entity: OrmEntity): Record<string, unknown> => {
+  const tag = entity.tableName;
+  const name = pascalCase(entity.tableName);
+  const collection: Record<string, unknown> = {
+    get: {
+      tags: [tag],
+      operationId: `list${name}`,
+      summary: `List ${entity.tableName} rows`,
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer', minimum: 1, default: 1 } },
+        { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+        {
+          name: 'sort',
+          in: 'query',
+          description: 'Comma separated columns; prefix a column with `-` to sort descending',
+          schema: { type: 'string' },
+        },
+        ...filterParameters(entity),
+      ],
+      responses: {
+        200: {
+          description: 'One page of rows',
+          content: jsonContent({
+            type: 'object',
+            properties: {
+              success: { type: 'boolean', const: true },
+              data: { type: 'array', items: ref(entity.className) },
+              pagination: ref('Pagination'),
+            },
+            required: ['success', 'data', 'pagination'],
+          }),
+        },
+        400: errorResponse('Invalid paging, sort or filter parameters'),
+      },
+    },
+    post: {
+      tags: [tag],
+      operationId: `create${entity.className}`,
+      summary: `Create a ${entity.tableName} row`,
+      requestBody: { required: true, content: jsonContent(ref(`New${entity.className}`)) },
+      responses: {
+        201: rowResponse(entity, 'The created row'),
+        400: errorResponse('The row failed validation or was rejected by the database'),
+      },
+    },
+  };
+
+  const paths: Record<string, unknown> = { [`/${entity.tableName}`]: collection };
+  if (entity.primaryKey.length === 0) return paths;
+
+  const idParameter = {
+    name: 'id',
+    in: 'path',
+    required: true,
+    description: entity.primaryKey.length === 1
+      ? `Value of ${entity.primaryKey[0].name}`
+      : `Comma separated values of ${entity.primaryKey.map(col => col.name).join(', ')}`,
+    schema: { type: 'string' },
+  };
+
+  paths[`/${entity.tableName}/{id}`] = {
+    parameters: [idParameter],
+    get: {
+      tags: [tag],
+      operationId: `get${entity.className}`,
+      summary: `Get a ${entity.tableName} row by primary key`,
+      responses: {
+        200: rowResponse(entity, 'The row'),
+        404: errorResponse('No row has this key'),
+      },
+    },
+    patch: {
+      tags: [tag],
+      operationId: `update${entity.className}`,
+      summary: `Update columns of a ${entity.tableName} row`,
+      requestBody: { required: true, content: jsonContent(ref(`${entity.className}Update`)) },
+      responses: {
+        200: rowResponse(entity, 'The updated row'),
+        400: errorResponse('The changes failed validation or were rejected by the database'),
+        404: errorResponse('No row has this key'),
+      },
+    },
+    delete: {
+      tags: [tag],
+      operationId: `delete${entity.className}`,
+      summary: `Delete a ${entity.tableName} row`,
+      responses: {
+        200: {
+          description: 'The row was deleted',
+          content: jsonContent({ type: 'object', properties: { success: { type: 'boolean' }, message: { type: 'string' } } }),
+        },
+        404: errorResponse('No row has this key'),
+      },
+    },
+  };
+  return paths;
+};
+
+// Build the OpenAPI document of a project's generated REST API
+export const generateOpenApiDocument = (
+  projectName: string,
+  schema: SchemaData,
+  serverUrl: string
+): Record<string, unknown> => {
+  const entities = buildOrmModel(schema);
+
+  const schemas: Record<string, JsonSchema> = {
+    Pagination: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer' },
+        limit: { type: 'integer' },
+        total: { type: 'integer' },
+        totalPages: { type: 'integer' },
+      },
+      required: ['page', 'limit', 'total', 'totalPages'],
+    },
+    Error: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', const: false },
+        message: { type: 'string' },
+        errors: { type: 'array', items: { type: 'object' }, description: 'Validation issues, one per invalid field' },
+      },
+      required: ['success', 'message'],
+    },
+  };
+
+  entities.forEach(entity => {
+    schemas[entity.className] = objectSchema(entity, entity.columns, `A row of ${entity.tableName}`);
+    schemas[`New${entity.className}`] = objectSchema(
+      entity,
+      entity.columns.filter(col => !isOptionalOnInsert(col)),
+      `A new ${entity.tableName} row; columns the database fills in may be left out`
+    );
+    schemas[`${entity.className}Update`] = {
+      ...objectSchema(entity, [], `Columns to change on a ${entity.tableName} row`),
+      minProperties: 1,
+    };
+  });
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: `${projectName} API`,
+      version: '1.0.0',
+      description: 'REST API generated from the project schema. Every table can be listed with paging, sorting and filters; ' +
+        'tables with a primary key also have get, update and delete by key.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    tags: entities.map(entity => ({ name: entity.tableName })),
+    paths: Object.assign({}, ...entities.map(tablePaths)),
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  };
+};
@@ -0,0 +1,322 @@
+import { checkConstraintName, columnType } from '../mysql-ddl';
+import { toPostgresType } from '../postgres-ddl';
+import {
+  OrmColumn,
+  OrmDialect,
+  OrmEntity,
+  OrmRelation,
+  OrmTarget,
+  GeneratedFile,
+  parseColumnType,
+  isBooleanType,
+  isIntegerType,
+  isSqlExpression,
+  defaultLiteral,
+  fileHeader,
+  tsString,
+} from './orm-model';
+
+// Drizzle table definitions: one file per table, a relations file for the query API and an index
+
+const DIALECT_CORE: Record<OrmDialect, { module: string; table: string; anyColumn: string }> = {
+  mysql: { module: 'drizzle-orm/mysql-core', table: 'mysqlTable', anyColumn: 'AnyMySqlColumn' },
+  postgres: { module: 'drizzle-orm/pg-core', table: 'pgTable', anyColumn: 'AnyPgColumn' },
+  sqlite: { module: 'drizzle-orm/sqlite-core', table: 'sqliteTable', anyColumn: 'AnySQLiteColumn' },
+};
+
+// Binary columns without a built-in Drizzle builder are declared as custom types
+const CUSTOM_TYPES: Record<OrmDialect, Record<string, string>> = {
+  mysql: { blob: "const blob = customType<{ data: Buffer }>({ dataType: () => 'blob' });" },
+  postgres: { bytea: "const bytea = customType<{ data: Buffer }>({ dataType: () => 'bytea' });" },
+  sqlite: {},
+};
+
+interface ColumnBuilder {
+  fn: string;
+  options?: string;
+}
+
+const lengthOption = (length: number | undefined): string | undefined =>
+  length !== undefined ? `{ length: ${length} }` : undefined;
+
+const precisionOption = ([precision, scale]: number[]): string | undefined =>
+  precision !== undefined
+    ? `{ precision: ${precision}${scale !== undefined ? `, scale: ${scale}` : ''} }`
+    : undefined;
+
+const mysqlBuilder = (col: OrmColumn): ColumnBuilder => {
+  const { type } = col;
+  const unsigned = type.unsigned ? 'unsigned: true' : '';
+
+  if (isBooleanType(type)) return { fn: 'boolean' };
+  if (type.base === 'ENUM' && col.enumValues) return { fn: 'mysqlEnum', options: `[${col.enumValues.map(tsString).join(', ')}]` };
+
+  switch (type.base) {
+    case 'TINYINT':
+    case 'SMALLINT':
+    case 'MEDIUMINT':
+      return { fn: type.base.toLowerCase(), options: unsigned ? `{ ${unsigned} }` : undefined };
+    case 'INT':
+    case 'INTEGER':
+      return { fn: 'int', options: unsigned ? `{ ${unsigned} }` : undefined };
+    case 'BIGINT':
+      return { fn: 'bigint', options: `{ mode: 'number'${unsigned ? `, ${unsigned}` : ''} }` };
+    case 'DECIMAL':
+    case 'NUMERIC':
+      return { fn: 'decimal', options: precisionOption(type.args) };
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'REAL':
+    case 'DATE':
+    case 'DATETIME':
+    case 'TIMESTAMP':
+    case 'TIME':
+    case 'YEAR':
+    case 'JSON':
+    case 'TEXT':
+    case 'TINYTEXT':
+    case 'MEDIUMTEXT':
+    case 'LONGTEXT':
+      return { fn: type.base.toLowerCase() };
+    case 'VARCHAR':
+      return { fn: 'varchar', options: lengthOption(type.args[0] ?? 255) };
+    case 'CHAR':
+      return { fn: 'char', options: lengthOption(type.args[0]) };
+    case 'BINARY':
+    case 'VARBINARY':
+      return { fn: type.base.toLowerCase(), options: lengthOption(type.args[0]) };
+    default:
+      return { fn: col.tsType === 'Buffer' ? 'blob' : 'text' };
+  }
+};
+
+// Postgres columns follow the types the DDL generator creates; ENUMs become checked text
+const postgresBuilder = (col: OrmColumn): ColumnBuilder => {
+  const type = parseColumnType(toPostgresType(columnType(col.column)));
+
+  switch (type.base) {
+    case 'BOOLEAN':
+    case 'SMALLINT':
+    case 'INTEGER':
+    case 'REAL':
+    case 'UUID':
+    case 'DATE':
+    case 'TIME':
+    case 'INTERVAL':
+    case 'JSON':
+    case 'JSONB':
+    case 'INET':
+      return { fn: type.base.toLowerCase() };
+    case 'BIGINT':
+      return { fn: 'bigint', options: "{ mode: 'number' }" };
+    case 'NUMERIC':
+      return { fn: 'numeric', options: precisionOption(type.args) };
+    case 'DOUBLE PRECISION':
+      return { fn: 'doublePrecision' };
+    case 'VARCHAR':
+      return { fn: 'varchar', options: lengthOption(type.args[0]) };
+    case 'CHAR':
+      return { fn: 'char', options: lengthOption(type.args[0]) };
+    case 'TIMESTAMP':
+      return { fn: 'timestamp' };
+    case 'TIMESTAMPTZ':
+      return { fn: 'timestamp', options: '{ withTimezone: true }' };
+    case 'BYTEA':
+      return { fn: 'bytea' };
+    default:
+      return {
+        fn: 'text',
+        options: col.enumValues ? `{ enum: [${col.enumValues.map(tsString).join(', ')}] }` : undefined,
+      };
+  }
+};
+
+// SQLite columns use the storage classes of the DDL generator, with modes for JS values
+const sqliteBuilder = (col: OrmColumn): ColumnBuilder => {
+  const { type } = col;
+
+  if (isBooleanType(type)) return { fn: 'integer', options: "{ mode: 'boolean' }" };
+  if (isIntegerType(type) || type.base === 'YEAR') return { fn: 'integer' };
+  if (/^(FLOAT|DOUBLE|REAL)$/.test(type.base)) return { fn: 'real' };
+  if (/^(DECIMAL|NUMERIC|DATE|DATETIME|TIMESTAMP)$/.test(type.base)) return { fn: 'numeric' };
+  if (col.tsType === 'Buffer') return { fn: 'blob', options: "{ mode: 'buffer' }" };
+  if (type.base === 'JSON') return { fn: 'text', options: "{ mode: 'json' }" };
+  if (col.enumValues) return { fn: 'text', options: `{ enum: [${col.enumValues.map(tsString).join(', ')}] }` };
+  return { fn: 'text' };
+};
+
+const COLUMN_BUILDERS: Record<OrmDialect, (col: OrmColumn) => ColumnBuilder> = {
+  mysql: mysqlBuilder,
+  postgres: postgresBuilder,
+  sqlite: sqliteBuilder,
+};
+
+// Escape an expression for use inside a sql`` template
+const sqlTemplate = (expression: string): string => `sql\`${expression.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${')}\``;
+
+const renderColumn = (
+  entity: OrmEntity,
+  col: OrmColumn,
+  dialect: OrmDialect,
+  coreImports: Set<string>,
+  needsSql: { value: boolean }
+): string => {
+  const { column } = col;
+  const builder = COLUMN_BUILDERS[dialect](col);
+  coreImports.add(CUSTOM_TYPES[dialect][builder.fn] ? 'customType' : builder.fn);
+
+  let chain = `${builder.fn}(${tsString(col.name)}${builder.options ? `, ${builder.options}` : ''})`;
+  const isSinglePrimaryKey = column.isPrimaryKey && entity.primaryKey.length === 1;
+  const isGenerated = !!column.isAutoIncrement && isIntegerType(col.type);
+
+  if (isSinglePrimaryKey) {
+    if (isGenerated && dialect === 'sqlite') {
+      chain += '.primaryKey({ autoIncrement: true })';
+    } else {
+      chain += '.primaryKey()';
+      if (isGenerated) chain += dialect === 'postgres' ? '.generatedByDefaultAsIdentity()' : '.autoincrement()';
+    }
+  } else {
+    if (!column.isNullable || column.isPrimaryKey) chain += '.notNull()';
+    if (isGenerated && dialect === 'mysql') chain += '.autoincrement()';
+  }
+
+  if (column.isUnique && !column.isPrimaryKey) chain += '.unique()';
+
+  const value = column.defaultValue?.trim();
+  if (value && value.toUpperCase() !== 'NULL' && !isGenerated) {
+    const literal = defaultLiteral(col);
+    if (/^(CURRENT_TIMESTAMP|NOW\(\))$/i.test(value) && dialect !== 'sqlite') {
+      chain += '.defaultNow()';
+    } else if (isSqlExpression(value) || !literal || ['Date', 'unknown', 'Buffer'].includes(col.tsType)) {
+      needsSql.value = true;
+      chain += `.default(${sqlTemplate(isSqlExpression(value) ? value : `'${value.replace(/'/g, "''")}'`)})`;
+    } else if (col.type.base === 'BIGINT' && /^-?\d+$/.test(value)) {
+      chain += `.default(${value})`;
+    } else {
+      chain += `.default(${literal})`;
+    }
+  }
+
+  const reference = entity.relations.find(relation => relation.kind === 'belongsTo' && relation.foreignKey === col);
+  if (reference) {
+    coreImports.add(DIALECT_CORE[dialect].anyColumn);
+    const actions = `{ onDelete: ${tsString(reference.onDelete.toLowerCase())}, onUpdate: ${tsString(reference.onUpdate.toLowerCase())} }`;
+    chain += `.references((): ${DIALECT_CORE[dialect].anyColumn} => ${reference.target.variableName}.${reference.referencedColumn.propertyName}, ${actions})`;
+  }
+
+  return `  ${col.propertyName}: ${chain},`;
+};
+
+const renderTable = (entity: OrmEntity, dialect: OrmDialect): string => {
+  const core = DIALECT_CORE[dialect];
+  const coreImports = new Set<string>([core.table]);
+  const needsSql = { value: false };
+
+  const columns = entity.columns.map(col => renderColumn(entity, col, dialect, coreImports, needsSql));
+
+  const constraints: string[] = [];
+  if (entity.primaryKey.length > 1) {
+    coreImports.add('primaryKey');
+    constraints.push(`primaryKey({ columns: [${entity.primaryKey.map(col => `table.${col.propertyName}`).join(', ')}] })`);
+  }
+  entity.columns
+    .filter(col => col.column.checkConstraint)
+    .forEach(col => {
+      coreImports.add('check');
+      needsSql.value = true;
+      constraints.push(`check(${tsString(checkConstraintName(entity.tableName, col.name))}, ${sqlTemplate(col.column.checkConstraint as string)})`);
+    });
+
+  const customTypes = Object.keys(CUSTOM_TYPES[dialect]).filter(name =>
+    entity.columns.some(col => COLUMN_BUILDERS[dialect](col).fn === name)
+  );
+
+  const referencedTables = [...new Set(
+    entity.relations
+      .filter(relation => relation.kind === 'belongsTo' && relation.target !== entity)
+      .map(relation => relation.target)
+  )];
+
+  const imports = [
+    ...(needsSql.value ? ["import { sql } from 'drizzle-orm';"] : []),
+    `import { ${[...coreImports].sort().join(', ')} } from '${core.module}';`,
+    ...referencedTables.map(target => `import { ${target.variableName} } from './${target.tableName}';`),
+  ];
+
+  const definition = constraints.length > 0
+    ? `export const ${entity.variableName} = ${core.table}(\n  ${tsString(entity.tableName)},\n  {\n${columns.map(line => `  ${line}`).join('\n')}\n  },\n  (table) => [\n${constraints.map(line => `    ${line},`).join('\n')}\n  ]\n);`
+    : `export const ${entity.variableName} = ${core.table}(${tsString(entity.tableName)}, {\n${columns.join('\n')}\n});`;
+
+  return [
+    fileHeader(`Drizzle table for ${entity.tableName}`),
+    imports.join('\n'),
+    '',
+    ...(customTypes.length > 0 ? [...customTypes.map(name => CUSTOM_TYPES[dialect][name]), ''] : []),
+    definition,
+    '',
+  ].join('\n');
+};
+
+const renderRelation = (entity: OrmEntity, relation: OrmRelation): string => {
+  const { target } = relation;
+  const name = relation.relationName ? `relationName: ${tsString(relation.relationName)}` : '';
+
+  if (relation.kind === 'belongsTo') {
+    const config = [
+      `fields: [${entity.variableName}.${relation.foreignKey.propertyName}]`,
+      `references: [${target.variableName}.${relation.referencedColumn.propertyName}]`,
+      ...(name ? [name] : []),
+    ];
+    return `  ${relation.propertyName}: one(${target.variableName}, { ${config.join(', ')} }),`;
+  }
+  if (relation.kind === 'hasOne') {
+    return `  ${relation.propertyName}: one(${target.variableName}),`;
+  }
+  return `  ${relation.propertyName}: many(${target.variableName}${name ? `, { ${name} }` : ''}),`;
+};
+
+const renderRelations = (entities: OrmEntity[]): string => {
+  const related = entities.filter(entity => entity.relations.length > 0);
+
+  const blocks = related.map(entity => {
+    const helpers = [
+      entity.relations.some(relation => relation.kind !== 'hasMany') ? 'one' : '',
+      entity.relations.some(relation => relation.kind === 'hasMany') ? 'many' : '',
+    ].filter(Boolean);
+    return [
+      `export const ${entity.variableName}Relations = relations(${entity.variableName}, ({ ${helpers.join(', ')} }) => ({`,
+      ...entity.relations.map(relation => renderRelation(entity, relation)),
+      '}));',
+    ].join('\n');
+  });
+
+  return [
+    fileHeader('Drizzle relations for the relational query API'),
+    "import { relations } from 'drizzle-orm';",
+    ...related.map(entity => `import { ${entity.variableName} } from './${entity.tableName}';`),
+    '',
+    blocks.join('\n\n'),
+    '',
+  ].join('\n');
+};
+
+export const drizzleTarget: OrmTarget = {
+  label: 'Drizzle',
+  generate: (entities, dialect): GeneratedFile[] => [
+    ...entities.map(entity => ({
+      path: `schema/${entity.tableName}.ts`,
+      content: renderTable(entity, dialect),
+    })),
+    { path: 'schema/relations.ts', content: renderRelations(entities) },
+    {
+      path: 'schema/index.ts',
+      content: [
+        fileHeader('Drizzle schema; pass it to drizzle() to use the relational query API'),
+        ...entities.map(entity => `export * from './${entity.tableName}';`),
+        "export * from './relations';",
+        '',
+      ].join('\n'),
+    },
+  ],
+};
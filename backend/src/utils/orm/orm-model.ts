@@ -0,0 +1,241 @@
+import { Column, Table, SchemaData, ReferentialAction } from '../../types/schema';
+import { safeIdentifier, columnType } from '../mysql-ddl';
+import { parseEnumValues } from '../mongo-schema';
+
+// Shared model the ORM generators render from: class, property and relation names
+// are decided once here so every target names things the same way.
+
+export type OrmDialect = 'mysql' | 'postgres' | 'sqlite';
+
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+export interface OrmTarget {
+  label: string;
+  generate: (entities: OrmEntity[], dialect: OrmDialect) => GeneratedFile[];
+}
+
+export interface ParsedColumnType {
+  // Upper-case type name without arguments, e.g. VARCHAR or DOUBLE PRECISION
+  base: string;
+  // Numeric arguments, e.g. [10, 2] for DECIMAL(10,2)
+  args: number[];
+  unsigned: boolean;
+}
+
+export interface OrmColumn {
+  column: Column;
+  // Column name in the database, as created by the DDL generators
+  name: string;
+  propertyName: string;
+  type: ParsedColumnType;
+  enumValues: string[] | null;
+  tsType: string;
+}
+
+export interface OrmRelation {
+  propertyName: string;
+  // `belongsTo` holds the foreign key; `hasMany`/`hasOne` are the inverse sides
+  kind: 'belongsTo' | 'hasMany' | 'hasOne';
+  target: OrmEntity;
+  inversePropertyName: string;
+  // Foreign key column on the belongsTo side and the column it references
+  foreignKey: OrmColumn;
+  referencedColumn: OrmColumn;
+  onDelete: ReferentialAction;
+  onUpdate: ReferentialAction;
+  // Set when the pair of entities has more than one relation (or a self-relation)
+  relationName?: string;
+}
+
+export interface OrmEntity {
+  table: Table;
+  tableName: string;
+  className: string;
+  // Variable name for table objects (Drizzle), e.g. blogPosts
+  variableName: string;
+  columns: OrmColumn[];
+  primaryKey: OrmColumn[];
+  relations: OrmRelation[];
+}
+
+export const pascalCase = (name: string): string => {
+  const pascal = safeIdentifier(name)
+    .split('_')
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(pascal) ? pascal : `T${pascal}`;
+};
+
+export const camelCase = (name: string): string => {
+  const pascal = pascalCase(name);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+};
+
+// Naive English singular for class names: users -> user, categories -> category
+export const singularize = (word: string): string => {
+  if (/ies$/i.test(word)) return word.replace(/ies$/i, 'y');
+  if (/(ss|us|is)$/i.test(word)) return word;
+  if (/(x|ch|sh|sses)es$/i.test(word)) return word.replace(/es$/i, '');
+  return word.replace(/s$/i, '');
+};
+
+// Property names must start with a letter
+export const propertyName = (name: string): string => {
+  const safe = safeIdentifier(name);
+  return /^[A-Za-z]/.test(safe) ? safe : `f${safe}`;
+};
+
+// Pick a name that is not taken yet, numbering it when needed
+export const uniqueName = (taken: Set<string>, base: string): string => {
+  let name = base;
+  for (let i = 2; taken.has(name); i++) name = `${base}${i}`;
+  taken.add(name);
+  return name;
+};
+
+// Single-quoted TypeScript string literal
+export const tsString = (value: string): string => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+// Split a canvas type such as `DECIMAL(10,2) UNSIGNED` into its parts
+export const parseColumnType = (type: string): ParsedColumnType => {
+  const trimmed = type.trim();
+  const base = trimmed.replace(/\(.*$/, '').replace(/\s+(UNSIGNED|ZEROFILL)\b/gi, '').trim().toUpperCase().replace(/\s+/g, ' ');
+  const argList = /^(ENUM|SET)\b/i.test(trimmed) ? '' : trimmed.match(/\(([^)]*)\)/)?.[1] || '';
+  const args = argList.split(',').map(arg => parseInt(arg.trim(), 10)).filter(arg => !isNaN(arg));
+  return { base, args, unsigned: /\bUNSIGNED\b/i.test(trimmed) };
+};
+
+export const isBooleanType = (type: ParsedColumnType): boolean =>
+  type.base === 'BOOLEAN' || type.base === 'BOOL' || (type.base === 'TINYINT' && type.args[0] === 1);
+
+export const isIntegerType = (type: ParsedColumnType): boolean =>
+  /^(TINYINT|SMALLINT|MEDIUMINT|INT|INTEGER|BIGINT|SERIAL|BIGSERIAL|SMALLSERIAL)$/.test(type.base) && !isBooleanType(type);
+
+// TypeScript type of the values the database drivers return for a column.
+// BIGINT and DECIMAL come back as strings to avoid losing precision.
+export const toTsType = (type: ParsedColumnType, enumValues: string[] | null): string => {
+  if (enumValues && type.base === 'ENUM') return enumValues.map(tsString).join(' | ');
+  if (isBooleanType(type)) return 'boolean';
+  if (/^(BIGINT|BIGSERIAL|DECIMAL|NUMERIC)$/.test(type.base)) return 'string';
+  if (isIntegerType(type) || /^(FLOAT|DOUBLE|DOUBLE PRECISION|REAL|YEAR)$/.test(type.base)) return 'number';
+  if (/^(DATE|DATETIME|TIMESTAMP|TIMESTAMPTZ)$/.test(type.base)) return 'Date';
+  if (/^(JSON|JSONB)$/.test(type.base)) return 'unknown';
+  if (/^(TINYBLOB|BLOB|MEDIUMBLOB|LONGBLOB|BINARY|VARBINARY|BYTEA)$/.test(type.base)) return 'Buffer';
+  return 'string';
+};
+
+const toOrmColumn = (col: Column): OrmColumn => {
+  const type = parseColumnType(columnType(col));
+  const enumValues = /^(ENUM|SET)$/.test(type.base) ? parseEnumValues(col) : null;
+  return {
+    column: col,
+    name: safeIdentifier(col.name),
+    propertyName: propertyName(col.name),
+    type,
+    enumValues,
+    tsType: toTsType(type, enumValues),
+  };
+};
+
+// Build the entities of a canvas schema with their columns and both sides of every relationship
+export const buildOrmModel = (schema: SchemaData): OrmEntity[] => {
+  const takenClassNames = new Set<string>();
+  const takenVariableNames = new Set<string>();
+
+  const entities: OrmEntity[] = schema.tables.map(table => {
+    const columns = table.columns.map(toOrmColumn);
+    return {
+      table,
+      tableName: safeIdentifier(table.name),
+      className: uniqueName(takenClassNames, pascalCase(singularize(safeIdentifier(table.name))) || pascalCase(table.name)),
+      variableName: uniqueName(takenVariableNames, camelCase(table.name)),
+      columns,
+      primaryKey: columns.filter(col => col.column.isPrimaryKey),
+      relations: [],
+    };
+  });
+
+  const takenProperties = new Map<OrmEntity, Set<string>>(
+    entities.map(entity => [entity, new Set(entity.columns.map(col => col.propertyName))])
+  );
+
+  schema.relationships.forEach(rel => {
+    // Sequelize associations cannot span several columns, so composite foreign keys
+    // are left out of every ORM model and their columns stay plain fields
+    if (rel.additionalColumns?.length) return;
+
+    const source = entities.find(entity => entity.table.id === rel.sourceTableId);
+    const target = entities.find(entity => entity.table.id === rel.targetTableId);
+    const foreignKey = source?.columns.find(col => col.column.id === rel.sourceColumnId);
+    const referencedColumn = target?.columns.find(col => col.column.id === rel.targetColumnId);
+    if (!source || !target || !foreignKey || !referencedColumn) return;
+
+    const pairCount = schema.relationships.filter(other =>
+      (other.sourceTableId === rel.sourceTableId && other.targetTableId === rel.targetTableId) ||
+      (other.sourceTableId === rel.targetTableId && other.targetTableId === rel.sourceTableId)
+    ).length;
+    const relationName = source === target || pairCount > 1 ? `${source.tableName}_${foreignKey.name}` : undefined;
+
+    // `author_id` -> `author`; other columns are named after the referenced class
+    const stripped = foreignKey.propertyName.replace(/_?(id|Id|ID)$/, '');
+    const forwardName = uniqueName(
+      takenProperties.get(source) as Set<string>,
+      stripped && stripped !== foreignKey.propertyName ? stripped : camelCase(target.className)
+    );
+
+    const isOneToOne = !!foreignKey.column.isUnique || (foreignKey.column.isPrimaryKey && source.primaryKey.length === 1);
+    const inverseName = uniqueName(
+      takenProperties.get(target) as Set<string>,
+      isOneToOne ? camelCase(source.className) : source.variableName
+    );
+
+    const onDelete = rel.onDelete || 'CASCADE';
+    const onUpdate = rel.onUpdate || 'CASCADE';
+
+    source.relations.push({
+      propertyName: forwardName,
+      kind: 'belongsTo',
+      target,
+      inversePropertyName: inverseName,
+      foreignKey,
+      referencedColumn,
+      onDelete,
+      onUpdate,
+      relationName,
+    });
+    target.relations.push({
+      propertyName: inverseName,
+      kind: isOneToOne ? 'hasOne' : 'hasMany',
+      target: source,
+      inversePropertyName: forwardName,
+      foreignKey,
+      referencedColumn,
+      onDelete,
+      onUpdate,
+      relationName,
+    });
+  });
+
+  return entities;
+};
+
+// Literal of a canvas default for generated TypeScript, or null for SQL expressions
+export const defaultLiteral = (col: OrmColumn): string | null => {
+  const value = col.column.defaultValue?.trim();
+  if (!value || value.toUpperCase() === 'NULL' || isSqlExpression(value)) return null;
+
+  if (isBooleanType(col.type)) return ['1', 'TRUE'].includes(value.toUpperCase()) ? 'true' : 'false';
+  if (col.tsType === 'number' && /^-?\d+(\.\d+)?$/.test(value)) return value;
+  return tsString(value);
+};
+
+// Defaults the database computes, such as CURRENT_TIMESTAMP or UUID()
+export const isSqlExpression = (value: string): boolean =>
+  /^(CURRENT_TIMESTAMP|CURRENT_DATE|CURRENT_TIME|NOW\(\))$/i.test(value.trim()) || /^\w+\(.*\)$/.test(value.trim());
+
+export const fileHeader = (description: string): string =>
+  `// ${description}\n// Generated from the schema designer; regenerate instead of editing by hand.\n`;
@@ -0,0 +1,239 @@
+import { columnType } from '../mysql-ddl';
+import { toPostgresType } from '../postgres-ddl';
+import {
+  OrmColumn,
+  OrmDialect,
+  OrmEntity,
+  OrmRelation,
+  OrmTarget,
+  GeneratedFile,
+  parseColumnType,
+  isBooleanType,
+  isIntegerType,
+  defaultLiteral,
+  fileHeader,
+  tsString,
+} from './orm-model';
+
+// Sequelize models: one typed Model class per table with an init function,
+// and an index that initialises them and declares the associations
+
+const TEXT_SIZES: Record<string, string> = {
+  TINYTEXT: "DataTypes.TEXT('tiny')",
+  MEDIUMTEXT: "DataTypes.TEXT('medium')",
+  LONGTEXT: "DataTypes.TEXT('long')",
+};
+
+// DataTypes expression for a column; Postgres follows the types the DDL generator creates
+const sequelizeType = (col: OrmColumn, dialect: OrmDialect): string => {
+  const type = dialect === 'postgres' ? parseColumnType(toPostgresType(columnType(col.column))) : col.type;
+  const [length, scale] = type.args;
+
+  if (isBooleanType(type)) return 'DataTypes.BOOLEAN';
+  if (col.type.base === 'ENUM' && col.enumValues && dialect === 'mysql') {
+    return `DataTypes.ENUM(${col.enumValues.map(tsString).join(', ')})`;
+  }
+
+  let dataType: string;
+  switch (type.base) {
+    case 'TINYINT':
+    case 'SMALLINT':
+    case 'MEDIUMINT':
+    case 'BIGINT':
+      dataType = `DataTypes.${type.base}`;
+      break;
+    case 'INT':
+    case 'INTEGER':
+    case 'YEAR':
+      dataType = 'DataTypes.INTEGER';
+      break;
+    case 'DECIMAL':
+    case 'NUMERIC':
+      dataType = length !== undefined ? `DataTypes.DECIMAL(${length}${scale !== undefined ? `, ${scale}` : ''})` : 'DataTypes.DECIMAL';
+      break;
+    case 'FLOAT':
+    case 'REAL':
+      dataType = 'DataTypes.FLOAT';
+      break;
+    case 'DOUBLE':
+    case 'DOUBLE PRECISION':
+      dataType = 'DataTypes.DOUBLE';
+      break;
+    case 'VARCHAR':
+      dataType = `DataTypes.STRING(${length || 255})`;
+      break;
+    case 'CHAR':
+      dataType = `DataTypes.CHAR(${length || 1})`;
+      break;
+    case 'DATE':
+      dataType = 'DataTypes.DATEONLY';
+      break;
+    case 'DATETIME':
+    case 'TIMESTAMP':
+    case 'TIMESTAMPTZ':
+      dataType = 'DataTypes.DATE';
+      break;
+    case 'TIME':
+      dataType = 'DataTypes.TIME';
+      break;
+    case 'JSON':
+      dataType = 'DataTypes.JSON';
+      break;
+    case 'JSONB':
+      dataType = 'DataTypes.JSONB';
+      break;
+    case 'UUID':
+      dataType = 'DataTypes.UUID';
+      break;
+    case 'INET':
+      dataType = 'DataTypes.INET';
+      break;
+    default:
+      dataType = TEXT_SIZES[type.base] || (col.tsType === 'Buffer' ? 'DataTypes.BLOB' : 'DataTypes.TEXT');
+  }
+
+  if (type.unsigned && isIntegerType(type) && dialect === 'mysql') dataType += '.UNSIGNED';
+  return dataType;
+};
+
+const renderAttribute = (col: OrmColumn, dialect: OrmDialect, imports: Set<string>): string => {
+  const { column } = col;
+  const options = [`type: ${sequelizeType(col, dialect)}`];
+
+  if (column.isPrimaryKey) options.push('primaryKey: true');
+  if (column.isAutoIncrement && isIntegerType(col.type)) options.push('autoIncrement: true');
+  if (!column.isNullable && !column.isPrimaryKey) options.push('allowNull: false');
+  if (column.isUnique && !column.isPrimaryKey) options.push('unique: true');
+
+  const value = column.defaultValue?.trim();
+  const literal = defaultLiteral(col);
+  if (literal) {
+    options.push(`defaultValue: ${literal}`);
+  } else if (value && /^(CURRENT_TIMESTAMP|NOW\(\))$/i.test(value)) {
+    options.push('defaultValue: DataTypes.NOW');
+  } else if (value && value.toUpperCase() !== 'NULL') {
+    imports.add('literal');
+    options.push(`defaultValue: literal(${tsString(value)})`);
+  }
+
+  // ENUM columns outside MySQL are stored as text, so the values are checked by the model
+  if (col.enumValues && dialect !== 'mysql') {
+    options.push(`validate: { isIn: [[${col.enumValues.map(tsString).join(', ')}]] }`);
+  }
+  if (col.propertyName !== col.name) options.push(`field: ${tsString(col.name)}`);
+
+  return `      ${col.propertyName}: { ${options.join(', ')} },`;
+};
+
+const renderModel = (entity: OrmEntity, dialect: OrmDialect): string => {
+  const imports = new Set(['DataTypes', 'InferAttributes', 'InferCreationAttributes', 'Model', 'Sequelize']);
+
+  const declarations = entity.columns.map(col => {
+    const { column } = col;
+    const nullable = column.isNullable && !column.isPrimaryKey;
+    const hasDefault = !!column.isAutoIncrement || (!!column.defaultValue && column.defaultValue.toUpperCase() !== 'NULL');
+    const type = `${col.tsType}${nullable ? ' | null' : ''}`;
+
+    // Auto increment, defaulted and nullable columns may be left out on create
+    if (hasDefault || nullable) {
+      imports.add('CreationOptional');
+      return `  declare ${col.propertyName}: CreationOptional<${type}>;`;
+    }
+    return `  declare ${col.propertyName}: ${type};`;
+  });
+
+  const associations = entity.relations.map(relation => {
+    imports.add('NonAttribute');
+    const type = relation.kind === 'hasMany' ? `${relation.target.className}[]` : relation.target.className;
+    return `  declare ${relation.propertyName}?: NonAttribute<${type}>;`;
+  });
+
+  const attributes = entity.columns.map(col => renderAttribute(col, dialect, imports));
+  const checks = entity.columns.filter(col => col.column.checkConstraint);
+
+  const typeImports = [...new Set(entity.relations.map(relation => relation.target))]
+    .filter(target => target !== entity)
+    .map(target => `import type { ${target.className} } from './${target.className}';`);
+
+  const sortedImports = [...imports].sort();
+  const body = [
+    `export class ${entity.className} extends Model<InferAttributes<${entity.className}>, InferCreationAttributes<${entity.className}>> {`,
+    ...declarations,
+    ...(associations.length > 0 ? ['', ...associations] : []),
+    '}',
+    '',
+    ...(checks.length > 0
+      ? ['// CHECK constraints are enforced by the database:', ...checks.map(col => `//   ${col.column.checkConstraint}`)]
+      : []),
+    `export const init${entity.className} = (sequelize: Sequelize): typeof ${entity.className} => {`,
+    `  ${entity.className}.init(`,
+    '    {',
+    ...attributes,
+    '    },',
+    `    { sequelize, tableName: ${tsString(entity.tableName)}, timestamps: false }`,
+    '  );',
+    `  return ${entity.className};`,
+    '};',
+  ];
+
+  return [
+    fileHeader(`Sequelize model for the ${entity.tableName} table`),
+    `import { ${sortedImports.join(', ')} } from 'sequelize';`,
+    ...typeImports,
+    '',
+    ...body,
+    '',
+  ].join('\n');
+};
+
+// belongsTo/hasMany/hasOne calls for both sides of every relationship
+const renderAssociation = (entity: OrmEntity, relation: OrmRelation): string => {
+  const options = [
+    `as: ${tsString(relation.propertyName)}`,
+    `foreignKey: ${tsString(relation.foreignKey.propertyName)}`,
+  ];
+
+  if (relation.kind === 'belongsTo') {
+    options.push(
+      `targetKey: ${tsString(relation.referencedColumn.propertyName)}`,
+      `onDelete: ${tsString(relation.onDelete)}`,
+      `onUpdate: ${tsString(relation.onUpdate)}`
+    );
+  } else {
+    options.push(`sourceKey: ${tsString(relation.referencedColumn.propertyName)}`);
+  }
+
+  return `  ${entity.className}.${relation.kind}(${relation.target.className}, { ${options.join(', ')} });`;
+};
+
+const renderIndex = (entities: OrmEntity[]): string => {
+  const associations = entities.flatMap(entity => entity.relations.map(relation => renderAssociation(entity, relation)));
+  const classNames = entities.map(entity => entity.className);
+
+  return [
+    fileHeader('Initialises the Sequelize models and their associations'),
+    "import { Sequelize } from 'sequelize';",
+    ...entities.map(entity => `import { ${entity.className}, init${entity.className} } from './${entity.className}';`),
+    '',
+    `export { ${classNames.join(', ')} };`,
+    '',
+    'export const initModels = (sequelize: Sequelize) => {',
+    ...entities.map(entity => `  init${entity.className}(sequelize);`),
+    ...(associations.length > 0 ? ['', ...associations] : []),
+    '',
+    `  return { ${classNames.join(', ')} };`,
+    '};',
+    '',
+  ].join('\n');
+};
+
+export const sequelizeTarget: OrmTarget = {
+  label: 'Sequelize',
+  generate: (entities, dialect): GeneratedFile[] => [
+    ...entities.map(entity => ({
+      path: `models/${entity.className}.ts`,
+      content: renderModel(entity, dialect),
+    })),
+    { path: 'models/index.ts', content: renderIndex(entities) },
+  ],
+};
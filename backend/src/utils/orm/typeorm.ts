@@ -0,0 +1,195 @@
+import { checkConstraintName, columnType } from '../mysql-ddl';
+import { toPostgresType } from '../postgres-ddl';
+import {
+  OrmColumn,
+  OrmDialect,
+  OrmEntity,
+  OrmRelation,
+  OrmTarget,
+  GeneratedFile,
+  parseColumnType,
+  isBooleanType,
+  isIntegerType,
+  defaultLiteral,
+  fileHeader,
+  tsString,
+} from './orm-model';
+
+// TypeORM entities: one decorated class per table plus an index listing them for the DataSource
+
+// TypeORM column type and its length/precision options for a dialect
+const typeormType = (col: OrmColumn, dialect: OrmDialect): string[] => {
+  const { type } = col;
+  const options: string[] = [];
+
+  if (dialect === 'postgres') {
+    const pgType = parseColumnType(toPostgresType(columnType(col.column)));
+    options.push(`type: ${tsString(pgType.base.toLowerCase())}`);
+    if (/^(VARCHAR|CHAR)$/.test(pgType.base) && pgType.args[0]) options.push(`length: ${pgType.args[0]}`);
+    if (pgType.base === 'NUMERIC' && pgType.args.length > 0) {
+      options.push(`precision: ${pgType.args[0]}`);
+      if (pgType.args[1] !== undefined) options.push(`scale: ${pgType.args[1]}`);
+    }
+    return options;
+  }
+
+  if (isBooleanType(type)) {
+    options.push("type: 'boolean'");
+  } else if (type.base === 'ENUM' && col.enumValues) {
+    options.push(`type: ${dialect === 'sqlite' ? "'simple-enum'" : "'enum'"}`, `enum: [${col.enumValues.map(tsString).join(', ')}]`);
+  } else if (dialect === 'sqlite') {
+    if (isIntegerType(type)) options.push("type: 'integer'");
+    else if (/^(FLOAT|DOUBLE|REAL)$/.test(type.base)) options.push("type: 'real'");
+    else if (/^(DECIMAL|NUMERIC)$/.test(type.base)) options.push("type: 'decimal'");
+    else if (/^(VARCHAR|CHAR)$/.test(type.base)) options.push("type: 'varchar'");
+    else if (/^(DATETIME|TIMESTAMP)$/.test(type.base)) options.push("type: 'datetime'");
+    else if (/^(DATE|TIME)$/.test(type.base)) options.push(`type: ${tsString(type.base.toLowerCase())}`);
+    else if (type.base === 'JSON') options.push("type: 'simple-json'");
+    else if (col.tsType === 'Buffer') options.push("type: 'blob'");
+    else options.push("type: 'text'");
+  } else {
+    options.push(`type: ${tsString(type.base.toLowerCase())}`);
+    if (type.unsigned) options.push('unsigned: true');
+  }
+
+  if (/^(VARCHAR|CHAR|BINARY|VARBINARY)$/.test(type.base) && type.args[0]) options.push(`length: ${type.args[0]}`);
+  if (/^(DECIMAL|NUMERIC)$/.test(type.base) && type.args.length > 0) {
+    options.push(`precision: ${type.args[0]}`);
+    if (type.args[1] !== undefined) options.push(`scale: ${type.args[1]}`);
+  }
+  return options;
+};
+
+const renderColumn = (entity: OrmEntity, col: OrmColumn, dialect: OrmDialect, decorators: Set<string>): string[] => {
+  const { column } = col;
+  const options = typeormType(col, dialect);
+  if (col.propertyName !== col.name) options.unshift(`name: ${tsString(col.name)}`);
+
+  const isGeneratedKey = column.isPrimaryKey && entity.primaryKey.length === 1 && column.isAutoIncrement && isIntegerType(col.type);
+  let decorator: string;
+
+  if (isGeneratedKey) {
+    decorators.add('PrimaryGeneratedColumn');
+    // Postgres tables are created with identity columns rather than SERIAL
+    decorator = dialect === 'postgres'
+      ? `@PrimaryGeneratedColumn('identity', { ${[...options, "generatedIdentity: 'BY DEFAULT'"].join(', ')} })`
+      : `@PrimaryGeneratedColumn({ ${options.join(', ')} })`;
+  } else {
+    if (column.isNullable && !column.isPrimaryKey) options.push('nullable: true');
+    if (column.isUnique && !column.isPrimaryKey) options.push('unique: true');
+
+    const value = column.defaultValue?.trim();
+    const literal = defaultLiteral(col);
+    if (literal) options.push(`default: ${literal}`);
+    else if (value && value.toUpperCase() !== 'NULL') options.push(`default: () => ${tsString(value)}`);
+
+    const name = column.isPrimaryKey ? 'PrimaryColumn' : 'Column';
+    decorators.add(name);
+    decorator = `@${name}({ ${options.join(', ')} })`;
+  }
+
+  const lines = [`  ${decorator}`];
+  if (column.isAutoIncrement && !isGeneratedKey) {
+    decorators.add('Generated');
+    lines.push("  @Generated('increment')");
+  }
+
+  const nullable = column.isNullable && !column.isPrimaryKey ? ' | null' : '';
+  lines.push(`  ${col.propertyName}!: ${col.tsType}${nullable};`);
+  return lines;
+};
+
+// Parameter name for inverse-side callbacks, e.g. (blogPost) => blogPost.author
+const camelVariable = (className: string): string => className.charAt(0).toLowerCase() + className.slice(1);
+
+const renderRelation = (relation: OrmRelation, decorators: Set<string>): string[] => {
+  const { target } = relation;
+  const inverse = `(${camelVariable(target.className)}) => ${camelVariable(target.className)}.${relation.inversePropertyName}`;
+
+  if (relation.kind === 'hasMany') {
+    decorators.add('OneToMany');
+    return [
+      `  @OneToMany(() => ${target.className}, ${inverse})`,
+      `  ${relation.propertyName}!: ${target.className}[];`,
+    ];
+  }
+
+  if (relation.kind === 'hasOne') {
+    decorators.add('OneToOne');
+    decorators.add('Relation');
+    return [
+      `  @OneToOne(() => ${target.className}, ${inverse})`,
+      `  ${relation.propertyName}!: Relation<${target.className}> | null;`,
+    ];
+  }
+
+  // The owning side: OneToOne for unique foreign keys, ManyToOne otherwise
+  const isOneToOne = relation.target.relations.some(other =>
+    other.kind === 'hasOne' && other.foreignKey === relation.foreignKey
+  );
+  const decorator = isOneToOne ? 'OneToOne' : 'ManyToOne';
+  const nullable = relation.foreignKey.column.isNullable;
+  decorators.add(decorator);
+  decorators.add('JoinColumn');
+  decorators.add('Relation');
+
+  const options = [`onDelete: ${tsString(relation.onDelete)}`, `onUpdate: ${tsString(relation.onUpdate)}`];
+  if (!nullable) options.push('nullable: false');
+
+  return [
+    `  @${decorator}(() => ${target.className}, ${inverse}, { ${options.join(', ')} })`,
+    `  @JoinColumn({ name: ${tsString(relation.foreignKey.name)}, referencedColumnName: ${tsString(relation.referencedColumn.propertyName)} })`,
+    `  ${relation.propertyName}!: Relation<${target.className}>${nullable ? ' | null' : ''};`,
+  ];
+};
+
+const renderEntity = (entity: OrmEntity, dialect: OrmDialect): string => {
+  const decorators = new Set<string>(['Entity']);
+  const members: string[][] = [];
+
+  entity.columns.forEach(col => members.push(renderColumn(entity, col, dialect, decorators)));
+  entity.relations.forEach(relation => members.push(renderRelation(relation, decorators)));
+
+  const classDecorators = [`@Entity(${tsString(entity.tableName)})`];
+  entity.columns
+    .filter(col => col.column.checkConstraint)
+    .forEach(col => {
+      decorators.add('Check');
+      classDecorators.push(`@Check(${tsString(checkConstraintName(entity.tableName, col.name))}, ${tsString(col.column.checkConstraint as string)})`);
+    });
+
+  const imports = [`import { ${[...decorators].sort().join(', ')} } from 'typeorm';`];
+  [...new Set(entity.relations.map(relation => relation.target))]
+    .filter(target => target !== entity)
+    .forEach(target => imports.push(`import { ${target.className} } from './${target.className}';`));
+
+  return [
+    fileHeader(`TypeORM entity for the ${entity.tableName} table`),
+    imports.join('\n'),
+    '',
+    `${classDecorators.join('\n')}\nexport class ${entity.className} {\n${members.map(lines => lines.join('\n')).join('\n\n')}\n}`,
+    '',
+  ].join('\n');
+};
+
+export const typeormTarget: OrmTarget = {
+  label: 'TypeORM',
+  generate: (entities, dialect): GeneratedFile[] => [
+    ...entities.map(entity => ({
+      path: `entities/${entity.className}.ts`,
+      content: renderEntity(entity, dialect),
+    })),
+    {
+      path: 'entities/index.ts',
+      content: [
+        fileHeader('Entities to pass to the TypeORM DataSource'),
+        ...entities.map(entity => `import { ${entity.className} } from './${entity.className}';`),
+        '',
+        `export { ${entities.map(entity => entity.className).join(', ')} };`,
+        '',
+        `export const entities = [${entities.map(entity => entity.className).join(', ')}];`,
+        '',
+      ].join('\n'),
+    },
+  ],
+};
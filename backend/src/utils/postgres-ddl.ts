@@ -0,0 +1,259 @@
+import { Column, Table, TableIndex, Relationship } from '../types/schema';
+import {
+  safeIdentifier,
+  columnType,
+  checkConstraintName,
+  foreignKeyName,
+  isColumnNullable,
+  resolveIndexColumns,
+} from './mysql-ddl';
+import { parseEnumValues } from './mongo-schema';
+
+// Wrap a sanitized table/column name in double quotes
+export const quoteIdentifier = (name: string): string => `"${safeIdentifier(name)}"`;
+
+const INTEGER_TYPES = ['TINYINT', 'SMALLINT', 'MEDIUMINT', 'INT', 'INTEGER', 'BIGINT', 'SERIAL', 'BIGSERIAL', 'SMALLSERIAL'];
+
+// Translate a canvas column type (MySQL notation) into the native Postgres type
+export const toPostgresType = (type: string): string => {
+  const upper = type.trim().toUpperCase().replace(/\s+/g, ' ');
+  const match = upper.match(/^([A-Z ]+?)\s*(\(.*\))?(\s+UNSIGNED|\s+ZEROFILL)*$/);
+  if (!match) return type.trim();
+
+  const base = match[1].trim();
+  const args = match[2] || '';
+
+  if (upper === 'TINYINT(1)' || base === 'BOOLEAN' || base === 'BOOL') return 'BOOLEAN';
+
+  switch (base) {
+    case 'TINYINT':
+    case 'SMALLINT':
+    case 'SMALLSERIAL':
+      return 'SMALLINT';
+    case 'MEDIUMINT':
+    case 'INT':
+    case 'INTEGER':
+    case 'SERIAL':
+      return 'INTEGER';
+    case 'BIGINT':
+    case 'BIGSERIAL':
+      return 'BIGINT';
+    case 'FLOAT':
+    case 'REAL':
+      return 'REAL';
+    case 'DOUBLE':
+    case 'DOUBLE PRECISION':
+      return 'DOUBLE PRECISION';
+    case 'DECIMAL':
+    case 'NUMERIC':
+      return `NUMERIC${args.replace(/\s+/g, '')}`;
+    case 'VARCHAR':
+    case 'CHARACTER VARYING':
+      return `VARCHAR${args || '(255)'}`;
+    case 'CHAR':
+    case 'CHARACTER':
+      return `CHAR${args || '(1)'}`;
+    case 'TINYTEXT':
+    case 'TEXT':
+    case 'MEDIUMTEXT':
+    case 'LONGTEXT':
+    case 'ENUM':
+    case 'SET':
+      return 'TEXT';
+    case 'TINYBLOB':
+    case 'BLOB':
+    case 'MEDIUMBLOB':
+    case 'LONGBLOB':
+    case 'BINARY':
+    case 'VARBINARY':
+    case 'BYTEA':
+      return 'BYTEA';
+    case 'DATETIME':
+    case 'TIMESTAMP':
+      return 'TIMESTAMP';
+    case 'YEAR':
+      return 'SMALLINT';
+    case 'JSON':
+    case 'JSONB':
+      return 'JSONB';
+    default:
+      return `${base}${args}`;
+  }
+};
+
+// Bring a type into the form pg_catalog.format_type() reports, for comparisons
+export const normalizePostgresType = (type: string): string =>
+  type
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*,\s*/g, ',')
+    .replace(/^character varying/, 'varchar')
+    .replace(/^character(?=\(|$)/, 'char')
+    .replace(/^bpchar/, 'char')
+    .replace(/^timestamp without time zone/, 'timestamp')
+    .replace(/^timestamp with time zone/, 'timestamptz')
+    .replace(/^time without time zone/, 'time')
+    .replace(/^time with time zone/, 'timetz')
+    .replace(/^int4$/, 'integer')
+    .replace(/^int8$/, 'bigint')
+    .replace(/^int2$/, 'smallint')
+    .replace(/^bool$/, 'boolean');
+
+// Translate a Postgres type back into canvas notation
+export const fromPostgresType = (type: string): string => {
+  const normalized = normalizePostgresType(type);
+  const match = normalized.match(/^([a-z ]+?)\s*(\(.*\))?$/);
+  const base = match ? match[1] : normalized;
+  const args = match?.[2] || '';
+
+  switch (base) {
+    case 'integer':
+      return 'INT';
+    case 'real':
+      return 'FLOAT';
+    case 'double precision':
+      return 'DOUBLE';
+    case 'numeric':
+      return `DECIMAL${args}`;
+    case 'bytea':
+      return 'BLOB';
+    case 'jsonb':
+      return 'JSON';
+    default:
+      return `${base.toUpperCase()}${args}`;
+  }
+};
+
+// Whether the canvas column becomes an identity column
+export const isIdentityColumn = (col: Column): boolean =>
+  !!col.isAutoIncrement && INTEGER_TYPES.some(intType => col.type.toUpperCase().startsWith(intType));
+
+// Render a DEFAULT expression for Postgres (without the DEFAULT keyword)
+export const postgresDefault = (col: Column): string | null => {
+  if (!col.defaultValue || isIdentityColumn(col)) return null;
+
+  const upperDefault = col.defaultValue.toUpperCase().trim();
+  if (upperDefault === 'NULL') return 'NULL';
+  if (upperDefault === 'CURRENT_TIMESTAMP' || upperDefault === 'NOW()') return 'CURRENT_TIMESTAMP';
+  if (upperDefault === 'CURRENT_DATE') return 'CURRENT_DATE';
+  if (toPostgresType(col.type) === 'BOOLEAN') {
+    return ['1', 'TRUE'].includes(upperDefault) ? 'TRUE' : 'FALSE';
+  }
+  return `'${col.defaultValue.replace(/'/g, "''")}'`;
+};
+
+// Render a column definition (type, NOT NULL, IDENTITY, DEFAULT) without key constraints
+export const generatePostgresColumnDefinition = (col: Column): string => {
+  let def = `${quoteIdentifier(col.name)} ${toPostgresType(columnType(col))}`;
+
+  if (isIdentityColumn(col)) {
+    def += ' GENERATED BY DEFAULT AS IDENTITY';
+  }
+
+  if (!isColumnNullable(col)) {
+    def += ' NOT NULL';
+  }
+
+  const defaultValue = postgresDefault(col);
+  if (defaultValue) {
+    def += ` DEFAULT ${defaultValue}`;
+  }
+
+  return def;
+};
+
+// Postgres has no inline ENUM or SET, so those columns are TEXT held to their values by a CHECK.
+// The clause is written the way pg_get_constraintdef() reports it, so syncs compare it as unchanged.
+export const enumCheckClause = (col: Column): string | null => {
+  const base = col.type.trim().match(/^(ENUM|SET)\b/i)?.[1].toUpperCase();
+  const values = base ? parseEnumValues(col) : null;
+  if (!values) return null;
+
+  const array = `ARRAY[${values.map(value => `'${value.replace(/'/g, "''")}'`).join(', ')}]`;
+  const name = quoteIdentifier(col.name);
+  // A SET holds a comma-separated subset of its values
+  return base === 'SET' ? `string_to_array(${name}, ',') <@ ${array}` : `${name} = ANY (${array})`;
+};
+
+// Name of the CHECK constraint holding an ENUM or SET column to its values
+export const enumCheckName = (tableName: string, columnName: string): string =>
+  `${checkConstraintName(tableName, columnName)}_values`;
+
+// CHECK constraints of a table: the designed ones and those standing in for ENUM and SET
+export const postgresCheckConstraints = (table: Table): Array<{ name: string; column: string; clause: string }> =>
+  table.columns.flatMap(col => {
+    const enumClause = enumCheckClause(col);
+    return [
+      ...(col.checkConstraint ? [{ name: checkConstraintName(table.name, col.name), column: safeIdentifier(col.name), clause: col.checkConstraint }] : []),
+      ...(enumClause ? [{ name: enumCheckName(table.name, col.name), column: safeIdentifier(col.name), clause: enumClause }] : []),
+    ];
+  });
+
+// Name of the UNIQUE constraint generated for a column
+export const uniqueConstraintName = (tableName: string, columnName: string): string =>
+  `uq_${safeIdentifier(tableName)}_${safeIdentifier(columnName)}`;
+
+// Generate CREATE TABLE SQL from table definition
+export const generatePostgresCreateTableSQL = (table: Table): string => {
+  const tableName = quoteIdentifier(table.name);
+
+  // Postgres allows tables without columns, so no placeholder is needed
+  if (table.columns.length === 0) {
+    return `CREATE TABLE IF NOT EXISTS ${tableName} ()`;
+  }
+
+  const columnDefs: string[] = [];
+  const constraints: string[] = [];
+
+  table.columns.forEach(col => {
+    columnDefs.push(generatePostgresColumnDefinition(col));
+
+    if (col.isUnique && !col.isPrimaryKey) {
+      constraints.push(`CONSTRAINT ${quoteIdentifier(uniqueConstraintName(table.name, col.name))} UNIQUE (${quoteIdentifier(col.name)})`);
+    }
+  });
+
+  postgresCheckConstraints(table).forEach(check => {
+    constraints.push(`CONSTRAINT ${quoteIdentifier(check.name)} CHECK (${check.clause})`);
+  });
+
+  const primaryKey = table.columns.filter(col => col.isPrimaryKey);
+  if (primaryKey.length > 0) {
+    constraints.unshift(`PRIMARY KEY (${primaryKey.map(col => quoteIdentifier(col.name)).join(', ')})`);
+  }
+
+  return `CREATE TABLE IF NOT EXISTS ${tableName} (
+  ${[...columnDefs, ...constraints].join(',\n  ')}
+)`;
+};
+
+// Generate CREATE INDEX SQL for a designed index. Prefix lengths are MySQL only and
+// FULLTEXT indexes are not created at all (null).
+export const generatePostgresIndexSQL = (table: Table, index: TableIndex): string | null => {
+  const parts = resolveIndexColumns(table, index);
+  if (parts.length === 0 || index.isFulltext) return null;
+
+  const keyParts = parts.map(({ column, order }) => `${quoteIdentifier(column.name)}${order === 'DESC' ? ' DESC' : ''}`);
+  return `CREATE ${index.isUnique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${quoteIdentifier(index.name)} ` +
+    `ON ${quoteIdentifier(table.name)} (${keyParts.join(', ')})`;
+};
+
+// Generate ALTER TABLE ... ADD FOREIGN KEY SQL for a relationship (several columns for a composite key)
+export const generatePostgresForeignKeySQL = (
+  rel: Relationship,
+  sourceTable: Table,
+  sourceColumns: Column[],
+  targetTable: Table,
+  targetColumns: Column[]
+): string => {
+  const onDelete = rel.onDelete || 'CASCADE';
+  const onUpdate = rel.onUpdate || 'CASCADE';
+
+  return `ALTER TABLE ${quoteIdentifier(sourceTable.name)}
+  ADD CONSTRAINT ${quoteIdentifier(foreignKeyName(sourceTable.name, sourceColumns[0].name))}
+  FOREIGN KEY (${sourceColumns.map(col => quoteIdentifier(col.name)).join(', ')})
+  REFERENCES ${quoteIdentifier(targetTable.name)}(${targetColumns.map(col => quoteIdentifier(col.name)).join(', ')})
+  ON DELETE ${onDelete}
+  ON UPDATE ${onUpdate}`;
+};
@@ -0,0 +1,415 @@
+import { Column, Table, Relationship, SchemaData, ReferentialAction } from '../types/schema';
+import { safeIdentifier, columnType, resolveIndexColumns, resolveRelationshipColumns } from './mysql-ddl';
+import { parseEnumValues } from './mongo-schema';
+import { pascalCase, propertyName, uniqueName } from './orm/orm-model';
+
+// Generation of a `schema.prisma` file from the canvas model.
+// Models are PascalCase and mapped onto the table names the DDL generators create.
+
+const PRISMA_PROVIDERS: Record<string, string> = {
+  mysql: 'mysql',
+  postgres: 'postgresql',
+  sqlite: 'sqlite',
+  mongodb: 'mongodb',
+};
+
+const PRISMA_ACTIONS: Record<ReferentialAction, string> = {
+  CASCADE: 'Cascade',
+  'SET NULL': 'SetNull',
+  RESTRICT: 'Restrict',
+  'NO ACTION': 'NoAction',
+};
+
+interface PrismaType {
+  scalar: string;
+  // Native type attribute such as @db.VarChar(255); not available on SQLite
+  native?: string;
+}
+
+// Scalar and native type of a MySQL (or Postgres) canvas type
+const toMySQLPrismaType = (type: string): PrismaType => {
+  const upper = type.toUpperCase().replace(/\s+/g, ' ').trim();
+  const args = upper.match(/\(([^)]*)\)/)?.[1].replace(/\s/g, '');
+  const base = upper.replace(/\(.*$/, '').replace(/ UNSIGNED$/, '').trim();
+
+  switch (base) {
+    case 'TINYINT':
+      return args === '1' ? { scalar: 'Boolean' } : { scalar: 'Int', native: 'TinyInt' };
+    case 'SMALLINT':
+      return { scalar: 'Int', native: 'SmallInt' };
+    case 'MEDIUMINT':
+      return { scalar: 'Int', native: 'MediumInt' };
+    case 'INT':
+    case 'INTEGER':
+      return { scalar: 'Int' };
+    case 'BIGINT':
+      return { scalar: 'BigInt' };
+    case 'DECIMAL':
+    case 'NUMERIC':
+      return { scalar: 'Decimal', native: `Decimal(${args || '10,0'})` };
+    case 'FLOAT':
+      return { scalar: 'Float', native: 'Float' };
+    case 'DOUBLE':
+    case 'REAL':
+      return { scalar: 'Float' };
+    case 'VARCHAR':
+      return { scalar: 'String', native: `VarChar(${args || '255'})` };
+    case 'CHAR':
+      return { scalar: 'String', native: `Char(${args || '1'})` };
+    case 'TINYTEXT':
+      return { scalar: 'String', native: 'TinyText' };
+    case 'TEXT':
+      return { scalar: 'String', native: 'Text' };
+    case 'MEDIUMTEXT':
+      return { scalar: 'String', native: 'MediumText' };
+    case 'LONGTEXT':
+      return { scalar: 'String', native: 'LongText' };
+    case 'DATE':
+      return { scalar: 'DateTime', native: 'Date' };
+    case 'DATETIME':
+      return { scalar: 'DateTime', native: args ? `DateTime(${args})` : undefined };
+    case 'TIMESTAMP':
+      return { scalar: 'DateTime', native: `Timestamp(${args || '0'})` };
+    case 'TIME':
+      return { scalar: 'DateTime', native: `Time(${args || '0'})` };
+    case 'YEAR':
+      return { scalar: 'Int', native: 'Year' };
+    case 'BOOLEAN':
+    case 'BOOL':
+      return { scalar: 'Boolean' };
+    case 'JSON':
+      return { scalar: 'Json' };
+    case 'BLOB':
+      return { scalar: 'Bytes', native: 'Blob' };
+    case 'LONGBLOB':
+      return { scalar: 'Bytes', native: 'LongBlob' };
+    case 'BINARY':
+    case 'VARBINARY':
+      return { scalar: 'Bytes', native: `${base === 'BINARY' ? 'Binary' : 'VarBinary'}(${args || '255'})` };
+    default:
+      return { scalar: 'String' };
+  }
+};
+
+const toPostgresPrismaType = (type: string): PrismaType => {
+  const upper = type.toUpperCase().replace(/\s+/g, ' ').trim();
+  const args = upper.match(/\(([^)]*)\)/)?.[1].replace(/\s/g, '');
+  const base = upper.replace(/\(.*$/, '').trim();
+
+  switch (base) {
+    case 'TINYINT':
+    case 'SMALLINT':
+    case 'SMALLSERIAL':
+      return args === '1' && base === 'TINYINT' ? { scalar: 'Boolean' } : { scalar: 'Int', native: 'SmallInt' };
+    case 'INT':
+    case 'INTEGER':
+    case 'MEDIUMINT':
+    case 'SERIAL':
+      return { scalar: 'Int' };
+    case 'BIGINT':
+    case 'BIGSERIAL':
+      return { scalar: 'BigInt' };
+    case 'DECIMAL':
+    case 'NUMERIC':
+      return { scalar: 'Decimal', native: `Decimal(${args || '10,0'})` };
+    case 'REAL':
+    case 'FLOAT':
+      return { scalar: 'Float', native: 'Real' };
+    case 'DOUBLE':
+    case 'DOUBLE PRECISION':
+      return { scalar: 'Float' };
+    case 'VARCHAR':
+    case 'CHARACTER VARYING':
+      return { scalar: 'String', native: `VarChar(${args || '255'})` };
+    case 'CHAR':
+    case 'CHARACTER':
+      return args === '36' ? { scalar: 'String', native: 'Uuid' } : { scalar: 'String', native: `Char(${args || '1'})` };
+    case 'UUID':
+      return { scalar: 'String', native: 'Uuid' };
+    case 'DATE':
+      return { scalar: 'DateTime', native: 'Date' };
+    case 'TIMESTAMP':
+    case 'DATETIME':
+      return { scalar: 'DateTime', native: `Timestamp(${args || '6'})` };
+    case 'TIMESTAMPTZ':
+      return { scalar: 'DateTime', native: `Timestamptz(${args || '6'})` };
+    case 'TIME':
+      return { scalar: 'DateTime', native: `Time(${args || '6'})` };
+    case 'BOOLEAN':
+    case 'BOOL':
+      return { scalar: 'Boolean' };
+    case 'JSON':
+      return { scalar: 'Json', native: 'Json' };
+    case 'JSONB':
+      return { scalar: 'Json' };
+    case 'BYTEA':
+    case 'BLOB':
+    case 'LONGBLOB':
+      return { scalar: 'Bytes' };
+    case 'INET':
+      return { scalar: 'String', native: 'Inet' };
+    case 'YEAR':
+      return { scalar: 'Int' };
+    case 'INTERVAL':
+      return { scalar: 'String' };
+    default:
+      return { scalar: 'String', native: /TEXT$/.test(base) ? 'Text' : undefined };
+  }
+};
+
+// BSON types of MongoDB collections
+const MONGO_SCALARS: Record<string, PrismaType> = {
+  string: { scalar: 'String' },
+  int: { scalar: 'Int' },
+  long: { scalar: 'BigInt' },
+  double: { scalar: 'Float' },
+  decimal: { scalar: 'Decimal' },
+  bool: { scalar: 'Boolean' },
+  date: { scalar: 'DateTime' },
+  objectId: { scalar: 'String', native: 'ObjectId' },
+  object: { scalar: 'Json' },
+  array: { scalar: 'Json' },
+  binData: { scalar: 'Bytes' },
+};
+
+const toPrismaType = (col: Column, databaseType: string): PrismaType => {
+  if (databaseType === 'mongodb') {
+    const bsonType = Object.keys(MONGO_SCALARS).find(key => key.toLowerCase() === col.type.trim().toLowerCase());
+    return bsonType ? MONGO_SCALARS[bsonType] : { scalar: 'String' };
+  }
+  if (databaseType === 'postgres') return toPostgresPrismaType(columnType(col));
+
+  const prismaType = toMySQLPrismaType(columnType(col));
+  // SQLite has no native type attributes
+  return databaseType === 'sqlite' ? { scalar: prismaType.scalar } : prismaType;
+};
+
+const prismaString = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Render a canvas default as a @default() argument, or null when there is none
+const prismaDefault = (col: Column, scalar: string, enumValues: Map<string, string> | null): string | null => {
+  if (col.isAutoIncrement && ['Int', 'BigInt'].includes(scalar)) return 'autoincrement()';
+  if (!col.defaultValue) return null;
+
+  const value = col.defaultValue.trim();
+  const upper = value.toUpperCase();
+
+  if (upper === 'NULL') return null;
+  if (upper === 'CURRENT_TIMESTAMP' || upper === 'NOW()') return 'now()';
+  if (upper === 'UUID()' || upper === 'GEN_RANDOM_UUID()') return 'uuid()';
+  if (enumValues) {
+    const enumValue = enumValues.get(value);
+    return enumValue ?? null;
+  }
+  if (scalar === 'Boolean') return ['1', 'TRUE'].includes(upper) ? 'true' : 'false';
+  if (['Int', 'BigInt', 'Float', 'Decimal'].includes(scalar) && /^-?\d+(\.\d+)?$/.test(value)) return value;
+  if (scalar === 'String') return prismaString(value);
+  return `dbgenerated(${prismaString(/\w\(.*\)$/.test(value) || upper === 'CURRENT_DATE' ? value : `'${value}'`)})`;
+};
+
+// A model field as name, type and attributes; plain strings are comments or blank lines
+type ModelLine = [string, string, string] | string;
+
+// Align the field columns the way `prisma format` does
+const formatModelLines = (lines: ModelLine[]): string => {
+  const fields = lines.filter((line): line is [string, string, string] => Array.isArray(line));
+  const nameWidth = Math.max(0, ...fields.map(([name]) => name.length));
+  const typeWidth = Math.max(0, ...fields.map(([, type]) => type.length));
+
+  return lines
+    .map(line => {
+      if (!Array.isArray(line)) return line ? `  ${line}` : '';
+      const [name, type, attributes] = line;
+      return attributes
+        ? `  ${name.padEnd(nameWidth)} ${type.padEnd(typeWidth)} ${attributes}`
+        : `  ${name.padEnd(nameWidth)} ${type}`;
+    })
+    .join('\n');
+};
+
+interface PrismaEnum {
+  name: string;
+  // Database value -> enum member
+  members: Map<string, string>;
+}
+
+// Render the canvas as a Prisma schema
+export const generatePrismaSchema = (schema: SchemaData, databaseType: string): string => {
+  const provider = PRISMA_PROVIDERS[databaseType] || 'mysql';
+  const isMongo = provider === 'mongodb';
+
+  // MongoDB documents are identified by `_id`, which Prisma maps onto an `id` field
+  const columnField = (col: Column): string => (isMongo && col.name === '_id' ? 'id' : propertyName(col.name));
+
+  const modelNames = new Map<string, string>();
+  const takenModelNames = new Set<string>();
+  schema.tables.forEach(table => modelNames.set(table.id, uniqueName(takenModelNames, pascalCase(table.name))));
+
+  // Enum columns become Prisma enums; SQLite does not support them
+  const enums = new Map<string, PrismaEnum>();
+  if (provider !== 'sqlite' && !isMongo) {
+    schema.tables.forEach(table => {
+      table.columns.forEach(col => {
+        if (!/^ENUM\s*(\(|$)/i.test(col.type.trim())) return;
+        const values = parseEnumValues(col);
+        if (!values) return;
+
+        const takenMembers = new Set<string>();
+        const members = new Map(values.map(value => [value, uniqueName(takenMembers, propertyName(value))]));
+        const name = uniqueName(takenModelNames, `${modelNames.get(table.id)}${pascalCase(col.name)}`);
+        enums.set(col.id, { name, members });
+      });
+    });
+  }
+
+  // Relation fields, collected per table before the models are rendered
+  const fieldNames = new Map<string, Set<string>>(
+    schema.tables.map(table => [table.id, new Set(table.columns.map(columnField))])
+  );
+  const relationFields = new Map<string, ModelLine[]>(schema.tables.map(table => [table.id, []]));
+
+  const pairCount = (rel: Relationship): number =>
+    schema.relationships.filter(other =>
+      (other.sourceTableId === rel.sourceTableId && other.targetTableId === rel.targetTableId) ||
+      (other.sourceTableId === rel.targetTableId && other.targetTableId === rel.sourceTableId)
+    ).length;
+
+  schema.relationships.forEach(rel => {
+    const sourceTable = schema.tables.find(t => t.id === rel.sourceTableId);
+    const targetTable = schema.tables.find(t => t.id === rel.targetTableId);
+    const resolved = sourceTable && targetTable && resolveRelationshipColumns(rel, sourceTable, targetTable);
+    if (!sourceTable || !targetTable || !resolved) return;
+
+    const { sourceColumns, targetColumns } = resolved;
+    const sourceColumn = sourceColumns[0];
+
+    const sourceModel = modelNames.get(sourceTable.id) as string;
+    const targetModel = modelNames.get(targetTable.id) as string;
+
+    // Relations between the same pair of models (or a model and itself) must be named
+    const relationName = sourceTable.id === targetTable.id || pairCount(rel) > 1
+      ? `${prismaString(`${sourceModel}_${propertyName(sourceColumn.name)}`)}, `
+      : '';
+
+    // `author_id` -> `author`; other columns are named after the referenced model
+    const stripped = propertyName(sourceColumn.name).replace(/_?(id|Id|ID)$/, '');
+    const forwardBase = stripped && stripped !== propertyName(sourceColumn.name)
+      ? stripped
+      : targetModel.charAt(0).toLowerCase() + targetModel.slice(1);
+    const forwardName = uniqueName(fieldNames.get(sourceTable.id) as Set<string>, forwardBase);
+
+    const sourcePrimaryKey = sourceTable.columns.filter(c => c.isPrimaryKey);
+    const isOneToOne = sourceColumns.length === 1
+      ? !!sourceColumn.isUnique || (sourceColumn.isPrimaryKey && sourcePrimaryKey.length === 1)
+      : sourceColumns.length === sourcePrimaryKey.length && sourceColumns.every(c => c.isPrimaryKey);
+    const backBase = sourceModel.charAt(0).toLowerCase() + sourceModel.slice(1);
+    const backName = uniqueName(
+      fieldNames.get(targetTable.id) as Set<string>,
+      isOneToOne || backBase.endsWith('s') ? backBase : `${backBase}s`
+    );
+
+    const actions = [
+      `onDelete: ${PRISMA_ACTIONS[rel.onDelete || 'CASCADE']}`,
+      `onUpdate: ${PRISMA_ACTIONS[rel.onUpdate || 'CASCADE']}`,
+    ];
+    const forward: ModelLine = [
+      forwardName,
+      `${targetModel}${sourceColumns.some(c => c.isNullable) ? '?' : ''}`,
+      `@relation(${relationName}fields: [${sourceColumns.map(columnField).join(', ')}], ` +
+        `references: [${targetColumns.map(columnField).join(', ')}], ${actions.join(', ')})`,
+    ];
+    const back: ModelLine = [
+      backName,
+      `${sourceModel}${isOneToOne ? '?' : '[]'}`,
+      relationName ? `@relation(${relationName.replace(/, $/, '')})` : '',
+    ];
+
+    relationFields.get(sourceTable.id)?.push(forward);
+    relationFields.get(targetTable.id)?.push(back);
+  });
+
+  const renderModel = (table: Table): string => {
+    const primaryKey = table.columns.filter(col => col.isPrimaryKey);
+    const lines: ModelLine[] = [];
+
+    table.columns.forEach(col => {
+      const name = columnField(col);
+      const prismaEnum = enums.get(col.id);
+      const type = toPrismaType(col, databaseType);
+      const attributes: string[] = [];
+
+      if (isMongo && col.name === '_id') {
+        attributes.push('@id');
+        if (type.native === 'ObjectId') attributes.push('@default(auto())');
+        attributes.push('@map("_id")');
+        if (type.native) attributes.push(`@db.${type.native}`);
+        lines.push([name, type.scalar, attributes.join(' ')]);
+        return;
+      }
+
+      if (col.isPrimaryKey && primaryKey.length === 1 && !isMongo) attributes.push('@id');
+      if ((col.isUnique && !col.isPrimaryKey) || (isMongo && col.isPrimaryKey)) attributes.push('@unique');
+
+      const defaultValue = prismaDefault(col, prismaEnum ? 'Enum' : type.scalar, prismaEnum?.members ?? null);
+      if (defaultValue) attributes.push(`@default(${defaultValue})`);
+      if (name !== safeIdentifier(col.name)) attributes.push(`@map(${prismaString(safeIdentifier(col.name))})`);
+      if (type.native && !prismaEnum) attributes.push(`@db.${type.native}`);
+
+      const optional = col.isNullable && !col.isPrimaryKey ? '?' : '';
+      if (col.checkConstraint) lines.push(`/// CHECK (${col.checkConstraint})`);
+      lines.push([name, `${prismaEnum ? prismaEnum.name : type.scalar}${optional}`, attributes.join(' ')]);
+    });
+
+    if (isMongo && !table.columns.some(col => col.name === '_id')) {
+      lines.unshift(['id', 'String', '@id @default(auto()) @map("_id") @db.ObjectId']);
+    }
+
+    const relations = relationFields.get(table.id) || [];
+    if (relations.length > 0) lines.push('', ...relations);
+
+    const modelAttributes: string[] = [];
+    if (primaryKey.length > 1 && !isMongo) {
+      modelAttributes.push(`@@id([${primaryKey.map(col => propertyName(col.name)).join(', ')}])`);
+    }
+    for (const index of table.indexes || []) {
+      const parts = resolveIndexColumns(table, index);
+      if (parts.length === 0 || (index.isFulltext && databaseType !== 'mysql')) continue;
+
+      const fields = parts.map(part => {
+        // Prefix lengths only exist in MySQL; FULLTEXT key parts take no arguments
+        const args = index.isFulltext ? [] : [
+          ...(part.length && databaseType === 'mysql' ? [`length: ${part.length}`] : []),
+          ...(part.order === 'DESC' ? ['sort: Desc'] : []),
+        ];
+        return `${columnField(part.column)}${args.length > 0 ? `(${args.join(', ')})` : ''}`;
+      });
+      const attribute = index.isFulltext ? '@@fulltext' : index.isUnique ? '@@unique' : '@@index';
+      modelAttributes.push(`${attribute}([${fields.join(', ')}], map: ${prismaString(safeIdentifier(index.name))})`);
+    }
+    if (primaryKey.length === 0 && !isMongo) {
+      // Prisma Client cannot work with tables that have no unique identifier
+      modelAttributes.push('@@ignore');
+    }
+    modelAttributes.push(`@@map(${prismaString(safeIdentifier(table.name))})`);
+    lines.push('', ...modelAttributes);
+
+    const comment = primaryKey.length === 0 && !isMongo
+      ? '/// The table has no primary key and is ignored by Prisma Client\n'
+      : '';
+    return `${comment}model ${modelNames.get(table.id)} {\n${formatModelLines(lines)}\n}`;
+  };
+
+  const blocks: string[] = [
+    'generator client {\n  provider = "prisma-client-js"\n}',
+    `datasource db {\n  provider = "${provider}"\n  url      = env("DATABASE_URL")\n}`,
+    ...schema.tables.map(renderModel),
+    ...[...enums.values()].map(prismaEnum => {
+      const members = [...prismaEnum.members].map(([value, member]) =>
+        `  ${member}${member !== value ? ` @map(${prismaString(value)})` : ''}`
+      );
+      return `enum ${prismaEnum.name} {\n${members.join('\n')}\n}`;
+    }),
+  ];
+
+  return `${blocks.join('\n\n')}\n`;
+};
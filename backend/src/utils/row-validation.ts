@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { OrmColumn, OrmEntity, isBooleanType, isIntegerType } from './orm/orm-model';
+
+// Validation of row payloads sent to the row APIs, built from the column definitions.
+// Values are accepted in their JSON form and converted to what the drivers bind.
+
+export type RowValidationMode = 'create' | 'update';
+
+// Value ranges of the MySQL integer types
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  TINYINT: [-128, 127],
+  SMALLINT: [-32768, 32767],
+  MEDIUMINT: [-8388608, 8388607],
+  INT: [-2147483648, 2147483647],
+  INTEGER: [-2147483648, 2147483647],
+};
+
+const integerString = z.string().regex(/^-?\d+$/, 'Must be an integer');
+
+// Zod schema of a single column value, without nullability
+export const columnValueSchema = (col: OrmColumn): z.ZodTypeAny => {
+  const { type } = col;
+  const [length, scale] = type.args;
+
+  if (col.enumValues && type.base === 'ENUM') return z.enum(col.enumValues as [string, ...string[]]);
+  if (col.enumValues && type.base === 'SET') {
+    const values = col.enumValues;
+    return z.union([z.array(z.enum(values as [string, ...string[]])), z.string()])
+      .transform(value => (Array.isArray(value) ? value : value.split(',').filter(Boolean)))
+      .refine(value => value.every(item => values.includes(item)), `Must be a subset of: ${values.join(', ')}`)
+      .transform(value => value.join(','));
+  }
+  if (isBooleanType(type)) return z.union([z.boolean(), z.literal(0), z.literal(1)]).transform(Boolean);
+
+  if (isIntegerType(type) && type.base !== 'BIGINT' && !type.base.endsWith('SERIAL')) {
+    const [min, max] = INTEGER_RANGES[type.base] || INTEGER_RANGES.INT;
+    return type.unsigned ? z.number().int().min(0).max(max * 2 + 1) : z.number().int().min(min).max(max);
+  }
+
+  switch (type.base) {
+    case 'BIGINT':
+    case 'BIGSERIAL':
+    case 'SERIAL':
+    case 'SMALLSERIAL':
+      return z.union([z.number().int(), integerString]);
+    case 'DECIMAL':
+    case 'NUMERIC': {
+      const pattern = length === undefined
+        ? /^-?\d+(\.\d+)?$/
+        : new RegExp(`^-?\\d{1,${Math.max(length - (scale ?? 0), 1)}}${scale ? `(\\.\\d{1,${scale}})?` : ''}$`);
+      return z.union([z.number(), z.string()])
+        .transform(String)
+        .refine(value => pattern.test(value), `Must be a decimal${length !== undefined ? `(${[length, scale].filter(arg => arg !== undefined).join(',')})` : ''}`);
+    }
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'DOUBLE PRECISION':
+    case 'REAL':
+      return type.unsigned ? z.number().nonnegative() : z.number();
+    case 'VARCHAR':
+    case 'CHAR':
+      return length ? z.string().max(length) : z.string();
+    case 'UUID':
+      return z.string().uuid();
+    case 'DATE':
+      return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date (YYYY-MM-DD)');
+    case 'DATETIME':
+    case 'TIMESTAMP':
+    case 'TIMESTAMPTZ':
+      return z.coerce.date();
+    case 'TIME':
+      return z.string().regex(/^-?\d{1,3}:\d{2}(:\d{2}(\.\d+)?)?$/, 'Must be a time');
+    case 'YEAR':
+      return z.number().int().min(1901).max(2155);
+    case 'JSON':
+    case 'JSONB':
+      // Stored as JSON text so arrays are not taken for SQL arrays by the Postgres driver
+      return z.unknown().transform(value => JSON.stringify(value));
+    default:
+      return z.string();
+  }
+};
+
+// Columns the database fills in when an insert leaves them out
+export const isOptionalOnInsert = (col: OrmColumn): boolean => {
+  const { column } = col;
+  const hasDefault = !!column.defaultValue && column.defaultValue.trim().toUpperCase() !== 'NULL';
+  return !!column.isAutoIncrement || hasDefault || (column.isNullable && !column.isPrimaryKey);
+};
+
+// Object schema of a row keyed by column name; unknown columns are rejected.
+// Creates require the columns without a database default, updates take any subset.
+export const rowSchema = (entity: OrmEntity, mode: RowValidationMode) => {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  entity.columns.forEach(col => {
+    let schema = columnValueSchema(col);
+    if (col.column.isNullable && !col.column.isPrimaryKey) schema = schema.nullable();
+    if (mode === 'update' || isOptionalOnInsert(col)) schema = schema.optional();
+    shape[col.name] = schema;
+  });
+
+  return z.object(shape).strict();
+};
+
+// Validate a row payload, returning the values to bind or the issues found
+export const validateRow = (
+  entity: OrmEntity,
+  input: unknown,
+  mode: RowValidationMode
+): { success: true; values: Record<string, unknown> } | { success: false; errors: z.ZodIssue[] } => {
+  const result = rowSchema(entity, mode).safeParse(input);
+  if (!result.success) {
+    return { success: false, errors: result.error.issues };
+  }
+
+  // Optional keys left out of the payload come back as undefined; keep only the ones sent
+  const values = Object.fromEntries(Object.entries(result.data).filter(([, value]) => value !== undefined));
+  return { success: true, values };
+};
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { parseSQLSchema, splitStatements } from './sql-ddl-parser';
+
+describe('splitStatements', () => {
+  it('splits on semicolons outside strings and comments', () => {
+    const statements = splitStatements(`
+      -- users; with a comment
+      CREATE TABLE a (note VARCHAR(10) DEFAULT 'x;y');
+      /* block; comment */
+      CREATE TABLE b (id INT);
+    `);
+
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toContain("'x;y'");
+  });
+});
+
+describe('parseSQLSchema', () => {
+  it('reads MySQL columns, keys, indexes and checks', () => {
+    const { tables, warnings } = parseSQLSchema(`
+      CREATE TABLE \`users\` (
+        \`id\` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+        \`email\` VARCHAR(255) NOT NULL,
+        \`age\` INT DEFAULT NULL,
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`email\` (\`email\`),
+        KEY \`idx_age\` (\`age\` DESC),
+        CONSTRAINT \`users_chk_1\` CHECK (\`age\` >= 0)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+    `);
+
+    expect(warnings).toEqual([]);
+    const users = tables.get('users')!;
+    expect(users.primaryKey).toEqual(['id']);
+    expect(users.columns.map(col => [col.name, col.columnType, col.isNullable])).toEqual([
+      ['id', 'int unsigned', false],
+      ['email', 'varchar(255)', false],
+      ['age', 'int', true],
+    ]);
+    expect(users.columns[0].isAutoIncrement).toBe(true);
+    expect(users.indexes).toMatchObject([
+      { name: 'email', columns: ['email'], isUnique: true },
+      { name: 'idx_age', columns: ['age'], isUnique: false, orders: ['DESC'] },
+    ]);
+    expect(users.checks).toEqual([{ name: 'users_chk_1', clause: '`age` >= 0' }]);
+  });
+
+  it('reads Postgres identity columns, casts and CREATE INDEX', () => {
+    const { tables } = parseSQLSchema(`
+      CREATE TABLE "posts" (
+        id SERIAL PRIMARY KEY,
+        title TEXT NOT NULL DEFAULT 'untitled'::text
+      );
+      CREATE UNIQUE INDEX posts_title ON posts (title);
+    `);
+
+    const posts = tables.get('posts')!;
+    expect(posts.columns[0]).toMatchObject({ name: 'id', isAutoIncrement: true, isNullable: false });
+    expect(posts.columns[1]).toMatchObject({ name: 'title', defaultValue: 'untitled' });
+    expect(posts.indexes).toMatchObject([{ name: 'posts_title', columns: ['title'], isUnique: true }]);
+  });
+
+  it('resolves foreign keys declared inline, as table constraints and by ALTER TABLE', () => {
+    const { tables, warnings } = parseSQLSchema(`
+      CREATE TABLE users (id INT PRIMARY KEY);
+      CREATE TABLE teams (id INT PRIMARY KEY);
+      CREATE TABLE members (
+        user_id INT REFERENCES users ON DELETE CASCADE,
+        team_id INT
+      );
+      ALTER TABLE members ADD CONSTRAINT fk_team FOREIGN KEY (team_id) REFERENCES teams (id);
+    `);
+
+    expect(warnings).toEqual([]);
+    expect(tables.get('members')!.foreignKeys).toMatchObject([
+      { columns: ['user_id'], referencedTable: 'users', referencedColumns: ['id'], onDelete: 'CASCADE' },
+      { name: 'fk_team', columns: ['team_id'], referencedTable: 'teams', referencedColumns: ['id'] },
+    ]);
+  });
+
+  it('keeps one foreign key when the same key is declared twice', () => {
+    const { tables, warnings } = parseSQLSchema(`
+      CREATE TABLE users (id INT PRIMARY KEY);
+      CREATE TABLE orders (
+        id INT PRIMARY KEY,
+        user_id INT REFERENCES users (id),
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      );
+      ALTER TABLE orders ADD FOREIGN KEY (user_id) REFERENCES users;
+    `);
+
+    expect(tables.get('orders')!.foreignKeys).toHaveLength(1);
+    expect(warnings).toHaveLength(2);
+  });
+
+  it('skips foreign keys to unknown tables and data statements with a warning', () => {
+    const { tables, warnings } = parseSQLSchema(`
+      CREATE TABLE orders (id INT PRIMARY KEY, user_id INT REFERENCES users (id));
+      INSERT INTO orders VALUES (1, 1);
+    `);
+
+    expect(tables.get('orders')!.foreignKeys).toEqual([]);
+    expect(warnings).toEqual([
+      'Skipped 1 INSERT statement; only the schema is imported',
+      'Foreign key fk_orders_user_id references unknown table users',
+    ]);
+  });
+});
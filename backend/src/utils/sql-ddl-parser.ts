@@ -0,0 +1,837 @@
+import { LiveTable, LiveColumn, LiveIndex, IndexOrder, ParsedSchema } from '../types/schema';
+import { fromPostgresType } from './postgres-ddl';
+
+// Parser for CREATE TABLE / ALTER TABLE / CREATE INDEX scripts (MySQL, Postgres and SQLite flavours).
+// It produces the same LiveTable structures as the database introspection so the canvas
+// conversion can be shared; anything it cannot map is reported as a warning.
+
+interface Token {
+  type: 'word' | 'ident' | 'string' | 'symbol';
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Keywords that end a column's type and start its options
+const COLUMN_OPTION_KEYWORDS = new Set([
+  'NOT', 'NULL', 'DEFAULT', 'AUTO_INCREMENT', 'AUTOINCREMENT', 'PRIMARY', 'UNIQUE', 'CHECK',
+  'REFERENCES', 'COMMENT', 'COLLATE', 'CHARSET', 'CONSTRAINT', 'GENERATED', 'ON', 'KEY',
+  'IDENTITY', 'AS', 'VISIBLE', 'INVISIBLE', 'SRID', 'STORAGE', 'COLUMN_FORMAT',
+]);
+
+const TABLE_CONSTRAINT_KEYWORDS = new Set([
+  'CONSTRAINT', 'PRIMARY', 'UNIQUE', 'KEY', 'INDEX', 'FOREIGN', 'CHECK', 'FULLTEXT', 'SPATIAL', 'EXCLUDE',
+]);
+
+// Session and transaction statements found in dumps; they carry no schema
+const IGNORED_STATEMENTS = new Set(['SET', 'USE', 'BEGIN', 'COMMIT', 'START', 'PRAGMA', 'LOCK', 'UNLOCK', 'ROLLBACK']);
+
+const DATA_STATEMENTS = new Set(['INSERT', 'UPDATE', 'DELETE', 'REPLACE', 'SELECT', 'COPY', 'TRUNCATE']);
+
+const SERIAL_TYPES: Record<string, string> = {
+  serial: 'int',
+  serial4: 'int',
+  bigserial: 'bigint',
+  serial8: 'bigint',
+  smallserial: 'smallint',
+  serial2: 'smallint',
+};
+
+// Postgres spellings are translated into the canvas (MySQL) notation
+const POSTGRES_TYPE_PATTERN = /^(character|integer|int[248]\b|bool\b|double precision|bytea|jsonb|numeric|real|timestamp with|timestamp without|time with|time without|bpchar)/;
+
+const toCanvasType = (type: string): string =>
+  POSTGRES_TYPE_PATTERN.test(type) ? fromPostgresType(type).toLowerCase() : type;
+
+const preview = (sql: string): string => {
+  const flat = sql.replace(/\s+/g, ' ').trim();
+  return flat.length > 60 ? `${flat.slice(0, 60)}...` : flat;
+};
+
+// Split a script into statements on top-level semicolons, dropping comments
+export const splitStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if ((char === '-' && next === '-') || char === '#') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+
+    if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      current += ' ';
+      continue;
+    }
+
+    if (char === "'" || char === '"' || char === '`') {
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === '\\' && char === "'") {
+          j += 2;
+          continue;
+        }
+        if (sql[j] === char) {
+          if (sql[j + 1] === char) {
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        j++;
+      }
+      current += sql.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+
+    // Postgres dollar-quoted bodies ($$ ... $$ or $tag$ ... $tag$)
+    if (char === '$') {
+      const tag = sql.slice(i).match(/^\$[a-zA-Z_]*\$/)?.[0];
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? sql.length : end + tag.length;
+        current += sql.slice(i, stop);
+        i = stop;
+        continue;
+      }
+    }
+
+    if (char === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+
+    current += char;
+    i++;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+};
+
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < sql.length) {
+        if (sql[j] === '\\') {
+          value += sql[j + 1] ?? '';
+          j += 2;
+          continue;
+        }
+        if (sql[j] === "'") {
+          if (sql[j + 1] === "'") {
+            value += "'";
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        value += sql[j];
+        j++;
+      }
+      tokens.push({ type: 'string', value, start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    if (char === '"' || char === '`') {
+      const end = sql.indexOf(char, i + 1);
+      const stop = end === -1 ? sql.length : end;
+      tokens.push({ type: 'ident', value: sql.slice(i + 1, stop), start: i, end: stop + 1 });
+      i = stop + 1;
+      continue;
+    }
+
+    if (char === '$') {
+      const tag = sql.slice(i).match(/^\$[a-zA-Z_]*\$/)?.[0];
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? sql.length : end;
+        tokens.push({ type: 'string', value: sql.slice(i + tag.length, stop), start: i, end: stop + tag.length });
+        i = stop + tag.length;
+        continue;
+      }
+    }
+
+    const word = sql.slice(i).match(/^(\d+(\.\d+)?([eE][+-]?\d+)?|[\w$]+)/)?.[0];
+    if (word) {
+      tokens.push({ type: 'word', value: word, start: i, end: i + word.length });
+      i += word.length;
+      continue;
+    }
+
+    const symbol = sql.startsWith('::', i) ? '::' : char;
+    tokens.push({ type: 'symbol', value: symbol, start: i, end: i + symbol.length });
+    i += symbol.length;
+  }
+
+  return tokens;
+};
+
+// Cursor over the tokens of one statement (or one part of it)
+class TokenStream {
+  private pos = 0;
+
+  constructor(private sql: string, private tokens: Token[]) {}
+
+  get done(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  next(): Token | undefined {
+    return this.tokens[this.pos++];
+  }
+
+  // Whether the next tokens are the given keywords (case-insensitive, unquoted)
+  isKeyword(...keywords: string[]): boolean {
+    return keywords.every((keyword, i) => {
+      const token = this.peek(i);
+      return token?.type === 'word' && token.value.toUpperCase() === keyword;
+    });
+  }
+
+  acceptKeyword(...keywords: string[]): boolean {
+    if (!this.isKeyword(...keywords)) return false;
+    this.pos += keywords.length;
+    return true;
+  }
+
+  // Accept whichever of the single keywords comes next
+  acceptAnyKeyword(...keywords: string[]): boolean {
+    return keywords.some(keyword => this.acceptKeyword(keyword));
+  }
+
+  isSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token?.type === 'symbol' && token.value === symbol;
+  }
+
+  // Read a possibly schema-qualified name and keep its last part
+  readName(): string | undefined {
+    const token = this.next();
+    if (!token || token.type === 'symbol' || token.type === 'string') return undefined;
+
+    let name = token.value;
+    while (this.isSymbol('.') && this.peek(1) && this.peek(1)?.type !== 'symbol') {
+      this.next();
+      name = (this.next() as Token).value;
+    }
+    return name;
+  }
+
+  // Read a parenthesized group; returns its raw text and a stream over its tokens
+  readGroup(): { raw: string; stream: TokenStream } | undefined {
+    if (!this.isSymbol('(')) return undefined;
+
+    const open = this.next() as Token;
+    const inner: Token[] = [];
+    let depth = 1;
+
+    while (!this.done) {
+      const token = this.next() as Token;
+      if (token.type === 'symbol' && token.value === '(') depth++;
+      if (token.type === 'symbol' && token.value === ')') {
+        depth--;
+        if (depth === 0) {
+          return {
+            raw: this.sql.slice(open.end, token.start).trim(),
+            stream: new TokenStream(this.sql, inner),
+          };
+        }
+      }
+      inner.push(token);
+    }
+
+    return { raw: this.sql.slice(open.end).trim(), stream: new TokenStream(this.sql, inner) };
+  }
+
+  // Skip a single token, or a whole group when it starts one
+  skip(): void {
+    if (this.isSymbol('(')) {
+      this.readGroup();
+    } else {
+      this.next();
+    }
+  }
+
+  // Split the remaining tokens on top-level commas
+  splitOnCommas(): TokenStream[] {
+    const parts: Token[][] = [[]];
+    let depth = 0;
+
+    while (!this.done) {
+      const token = this.next() as Token;
+      if (token.type === 'symbol' && token.value === '(') depth++;
+      if (token.type === 'symbol' && token.value === ')') depth--;
+      if (token.type === 'symbol' && token.value === ',' && depth === 0) {
+        parts.push([]);
+        continue;
+      }
+      parts[parts.length - 1].push(token);
+    }
+
+    return parts.filter(part => part.length > 0).map(part => new TokenStream(this.sql, part));
+  }
+
+  // Raw text from the current token to the end of the stream
+  rest(): string {
+    const first = this.peek();
+    const last = this.tokens[this.tokens.length - 1];
+    return first && last ? this.sql.slice(first.start, last.end) : '';
+  }
+}
+
+// Column names of an index or key list such as (`a`, b(10) DESC)
+const readColumnList = (stream: TokenStream): string[] => {
+  const group = stream.readGroup();
+  if (!group) return [];
+  return group.stream.splitOnCommas()
+    .map(part => part.readName())
+    .filter((name): name is string => !!name);
+};
+
+// Columns of an index with their sort order and prefix length, as a LiveIndex without name or uniqueness
+const readIndexColumns = (stream: TokenStream): Pick<LiveIndex, 'columns' | 'orders' | 'lengths'> => {
+  const group = stream.readGroup();
+  const index = { columns: [] as string[], orders: [] as IndexOrder[], lengths: [] as Array<number | null> };
+  if (!group) return index;
+
+  for (const part of group.stream.splitOnCommas()) {
+    const name = part.readName();
+    if (!name) continue;
+    const length = part.readGroup();
+    index.columns.push(name);
+    index.lengths.push(length && /^\d+$/.test(length.raw) ? Number(length.raw) : null);
+    index.orders.push(part.acceptKeyword('DESC') ? 'DESC' : 'ASC');
+  }
+  return index;
+};
+
+const readReferentialAction = (stream: TokenStream): string => {
+  if (stream.acceptKeyword('SET', 'NULL')) return 'SET NULL';
+  if (stream.acceptKeyword('SET', 'DEFAULT')) return 'SET DEFAULT';
+  if (stream.acceptKeyword('NO', 'ACTION')) return 'NO ACTION';
+  return (stream.next()?.value || 'NO ACTION').toUpperCase();
+};
+
+// REFERENCES t (c) [MATCH ...] [ON DELETE ...] [ON UPDATE ...] [DEFERRABLE ...]
+const readReferences = (stream: TokenStream) => {
+  const referencedTable = stream.readName() || '';
+  const referencedColumns = stream.isSymbol('(') ? readColumnList(stream) : [];
+  let onDelete = 'NO ACTION';
+  let onUpdate = 'NO ACTION';
+
+  while (!stream.done) {
+    if (stream.acceptKeyword('ON', 'DELETE')) {
+      onDelete = readReferentialAction(stream);
+    } else if (stream.acceptKeyword('ON', 'UPDATE')) {
+      onUpdate = readReferentialAction(stream);
+    } else if (stream.acceptKeyword('MATCH')) {
+      stream.next();
+    } else if (stream.acceptKeyword('NOT', 'DEFERRABLE') || stream.acceptKeyword('DEFERRABLE')) {
+      // Deferral has no canvas equivalent
+    } else if (stream.acceptKeyword('INITIALLY')) {
+      stream.next();
+    } else {
+      break;
+    }
+  }
+
+  return { referencedTable, referencedColumns, onDelete, onUpdate };
+};
+
+// Read a DEFAULT expression; returns null for DEFAULT NULL
+const readDefault = (stream: TokenStream): string | null => {
+  let value: string | null;
+  const token = stream.peek();
+
+  if (!token) return null;
+
+  if (stream.isSymbol('(')) {
+    value = (stream.readGroup() as { raw: string }).raw;
+  } else if (token.type === 'symbol' && (token.value === '-' || token.value === '+')) {
+    stream.next();
+    value = `${token.value === '-' ? '-' : ''}${stream.next()?.value ?? ''}`;
+  } else if (token.type === 'string') {
+    stream.next();
+    value = token.value;
+  } else {
+    stream.next();
+    value = token.value;
+    if (stream.isSymbol('(')) {
+      value = `${token.value}(${(stream.readGroup() as { raw: string }).raw})`;
+    }
+    if (token.type === 'word' && token.value.toUpperCase() === 'NULL') value = null;
+  }
+
+  // Postgres casts such as 'x'::character varying
+  while (stream.isSymbol('::')) {
+    stream.next();
+    stream.next();
+    if (stream.isKeyword('VARYING') || stream.isKeyword('PRECISION')) stream.next();
+    if (stream.isSymbol('(')) stream.readGroup();
+  }
+
+  return value;
+};
+
+class SQLSchemaParser {
+  readonly tables = new Map<string, LiveTable>();
+  readonly warnings: string[] = [];
+  private skippedData = new Map<string, number>();
+
+  parse(sql: string): ParsedSchema {
+    for (const statement of splitStatements(sql)) {
+      this.parseStatement(statement);
+    }
+
+    this.skippedData.forEach((count, keyword) => {
+      this.warnings.push(`Skipped ${count} ${keyword} statement${count !== 1 ? 's' : ''}; only the schema is imported`);
+    });
+
+    this.resolveReferences();
+    return { tables: this.tables, warnings: this.warnings };
+  }
+
+  private parseStatement(statement: string): void {
+    const stream = new TokenStream(statement, tokenize(statement));
+    const keyword = stream.peek()?.value.toUpperCase() || '';
+
+    if (IGNORED_STATEMENTS.has(keyword)) return;
+
+    if (DATA_STATEMENTS.has(keyword)) {
+      this.skippedData.set(keyword, (this.skippedData.get(keyword) || 0) + 1);
+      return;
+    }
+
+    if (stream.acceptKeyword('CREATE')) {
+      stream.acceptKeyword('OR', 'REPLACE');
+      stream.acceptAnyKeyword('TEMPORARY', 'TEMP');
+
+      if (stream.acceptKeyword('TABLE')) {
+        this.parseCreateTable(stream, statement);
+        return;
+      }
+      if (stream.isKeyword('DATABASE') || stream.isKeyword('SCHEMA')) return;
+
+      const unique = stream.acceptKeyword('UNIQUE');
+      const fulltext = !unique && stream.acceptKeyword('FULLTEXT');
+      if (stream.acceptKeyword('INDEX')) {
+        this.parseCreateIndex(stream, unique, fulltext, statement);
+        return;
+      }
+    }
+
+    if (stream.acceptKeyword('ALTER', 'TABLE')) {
+      this.parseAlterTable(stream, statement);
+      return;
+    }
+
+    if (stream.acceptKeyword('DROP')) {
+      if (stream.isKeyword('DATABASE') || stream.isKeyword('SCHEMA')) return;
+      if (stream.acceptKeyword('TABLE')) {
+        stream.acceptKeyword('IF', 'EXISTS');
+        stream.splitOnCommas().forEach(part => {
+          const name = part.readName();
+          if (name) this.tables.delete(name);
+        });
+        return;
+      }
+    }
+
+    this.warnings.push(`Unsupported statement skipped: ${preview(statement)}`);
+  }
+
+  private parseCreateTable(stream: TokenStream, statement: string): void {
+    stream.acceptKeyword('IF', 'NOT', 'EXISTS');
+    const name = stream.readName();
+    const body = stream.readGroup();
+
+    if (!name || !body) {
+      this.warnings.push(`CREATE TABLE without a column list skipped: ${preview(statement)}`);
+      return;
+    }
+
+    if (this.tables.has(name)) {
+      this.warnings.push(`Table ${name} is defined more than once; the last definition is used`);
+    }
+
+    const table: LiveTable = {
+      name,
+      columns: [],
+      primaryKey: [],
+      indexes: [],
+      checks: [],
+      foreignKeys: [],
+    };
+    this.tables.set(name, table);
+
+    for (const part of body.stream.splitOnCommas()) {
+      if (this.isTableConstraint(part)) {
+        this.parseTableConstraint(table, part);
+      } else {
+        this.parseColumn(table, part);
+      }
+    }
+  }
+
+  private isTableConstraint(stream: TokenStream): boolean {
+    const token = stream.peek();
+    if (token?.type !== 'word') return false;
+    // `unique` or `key` followed by a type are column names, not constraints
+    const upper = token.value.toUpperCase();
+    if (upper === 'UNIQUE' || upper === 'KEY' || upper === 'INDEX') {
+      const next = stream.peek(1);
+      return !!next && (next.type === 'symbol' || ['KEY', 'INDEX'].includes(next.value.toUpperCase()) || stream.peek(2)?.value === '(');
+    }
+    return TABLE_CONSTRAINT_KEYWORDS.has(upper);
+  }
+
+  private parseColumn(table: LiveTable, stream: TokenStream): void {
+    const name = stream.readName();
+    if (!name) return;
+
+    // The type runs until the first column option
+    const typeTokens: Token[] = [];
+    while (!stream.done) {
+      const token = stream.peek() as Token;
+      if (token.type === 'word') {
+        const upper = token.value.toUpperCase();
+        if (COLUMN_OPTION_KEYWORDS.has(upper)) break;
+        if ((upper === 'CHARACTER' || upper === 'CHAR') && typeTokens.length > 0 && stream.peek(1)?.value.toUpperCase() === 'SET') break;
+      }
+      if (token.type === 'symbol' && token.value === '(') {
+        const group = stream.readGroup() as { raw: string };
+        typeTokens.push({ ...token, value: `(${group.raw})` });
+        continue;
+      }
+      typeTokens.push(stream.next() as Token);
+    }
+
+    let columnType = toCanvasType(
+      typeTokens
+        .map(token => token.value)
+        .join(' ')
+        .replace(/\s+\(/g, '(')
+        .replace(/\s*\[\s*\]/g, '[]')
+        .toLowerCase() || 'text'
+    );
+
+    const column: LiveColumn = {
+      name,
+      columnType,
+      isNullable: true,
+      isAutoIncrement: false,
+      defaultValue: null,
+      extra: '',
+    };
+
+    const serialBase = SERIAL_TYPES[columnType];
+    if (serialBase) {
+      columnType = serialBase;
+      column.columnType = serialBase;
+      column.isAutoIncrement = true;
+      column.isNullable = false;
+    }
+
+    // ENUM/SET values keep their original case
+    if (/^(enum|set)\(/.test(columnType)) {
+      const original = typeTokens.map(token => token.value).join('');
+      column.columnType = `${columnType.slice(0, columnType.indexOf('('))}${original.slice(original.indexOf('('))}`;
+    }
+
+    table.columns.push(column);
+
+    while (!stream.done) {
+      if (stream.acceptKeyword('NOT', 'NULL')) {
+        column.isNullable = false;
+      } else if (stream.acceptKeyword('NULL')) {
+        column.isNullable = true;
+      } else if (stream.acceptKeyword('DEFAULT')) {
+        const value = readDefault(stream);
+        if (value && /^nextval\(/i.test(value)) {
+          column.isAutoIncrement = true;
+        } else {
+          column.defaultValue = value;
+        }
+      } else if (stream.acceptKeyword('AUTO_INCREMENT') || stream.acceptKeyword('AUTOINCREMENT')) {
+        column.isAutoIncrement = true;
+      } else if (stream.acceptKeyword('PRIMARY', 'KEY')) {
+        table.primaryKey = [name];
+        column.isNullable = false;
+        stream.acceptAnyKeyword('ASC', 'DESC');
+      } else if (stream.acceptKeyword('UNIQUE')) {
+        stream.acceptKeyword('KEY');
+        table.indexes.push({ name: `uq_${table.name}_${name}`, columns: [name], isUnique: true });
+      } else if (stream.acceptKeyword('CHECK')) {
+        const group = stream.readGroup();
+        if (group) table.checks.push({ name: `chk_${table.name}_${name}`, clause: group.raw });
+      } else if (stream.acceptKeyword('REFERENCES')) {
+        const reference = readReferences(stream);
+        table.foreignKeys.push({
+          name: `fk_${table.name}_${name}`,
+          columns: [name],
+          referencedTable: reference.referencedTable,
+          referencedColumns: reference.referencedColumns.slice(0, 1),
+          onDelete: reference.onDelete,
+          onUpdate: reference.onUpdate,
+        });
+      } else if (stream.acceptKeyword('CONSTRAINT')) {
+        stream.readName();
+      } else if (stream.acceptKeyword('COMMENT')) {
+        stream.next();
+      } else if (stream.acceptKeyword('COLLATE')) {
+        column.collation = stream.next()?.value;
+      } else if (stream.acceptKeyword('CHARSET') || stream.acceptKeyword('CHARACTER', 'SET') || stream.acceptKeyword('CHAR', 'SET')) {
+        column.charset = stream.next()?.value;
+      } else if (stream.acceptKeyword('GENERATED', 'ALWAYS', 'AS', 'IDENTITY') || stream.acceptKeyword('GENERATED', 'BY', 'DEFAULT', 'AS', 'IDENTITY')) {
+        column.isAutoIncrement = true;
+        if (stream.isSymbol('(')) stream.readGroup();
+      } else if (stream.acceptKeyword('IDENTITY')) {
+        column.isAutoIncrement = true;
+        if (stream.isSymbol('(')) stream.readGroup();
+      } else if (stream.acceptKeyword('GENERATED', 'ALWAYS', 'AS') || stream.acceptKeyword('AS')) {
+        stream.readGroup();
+        stream.acceptAnyKeyword('STORED', 'VIRTUAL');
+        this.warnings.push(`Generated column ${table.name}.${name} is imported as a regular column`);
+      } else if (stream.acceptKeyword('ON', 'UPDATE')) {
+        readDefault(stream);
+        this.warnings.push(`ON UPDATE clause of ${table.name}.${name} was ignored`);
+      } else {
+        const token = stream.peek() as Token;
+        this.warnings.push(`Column option '${token.value}' of ${table.name}.${name} was ignored`);
+        stream.skip();
+      }
+    }
+  }
+
+  private parseTableConstraint(table: LiveTable, stream: TokenStream): void {
+    let constraintName: string | undefined;
+    if (stream.acceptKeyword('CONSTRAINT')) {
+      // `CONSTRAINT PRIMARY KEY` (no name) is allowed in MySQL
+      if (!stream.isKeyword('PRIMARY') && !stream.isKeyword('UNIQUE') && !stream.isKeyword('FOREIGN') && !stream.isKeyword('CHECK')) {
+        constraintName = stream.readName();
+      }
+    }
+
+    if (stream.acceptKeyword('PRIMARY', 'KEY')) {
+      if (!stream.isSymbol('(')) stream.next();
+      table.primaryKey = readColumnList(stream);
+      table.primaryKeyName = constraintName;
+      table.primaryKey.forEach(columnName => {
+        const column = table.columns.find(col => col.name === columnName);
+        if (column) column.isNullable = false;
+      });
+      return;
+    }
+
+    if (stream.acceptKeyword('UNIQUE')) {
+      stream.acceptAnyKeyword('KEY', 'INDEX');
+      const indexName = stream.isSymbol('(') ? undefined : stream.readName();
+      const index = readIndexColumns(stream);
+      table.indexes.push({ name: constraintName || indexName || `uq_${table.name}_${index.columns.join('_')}`, ...index, isUnique: true });
+      return;
+    }
+
+    if (stream.acceptKeyword('CHECK')) {
+      const group = stream.readGroup();
+      if (group) {
+        table.checks.push({ name: constraintName || `chk_${table.name}_${table.checks.length + 1}`, clause: group.raw });
+      }
+      return;
+    }
+
+    if (stream.acceptKeyword('FOREIGN', 'KEY')) {
+      const indexName = stream.isSymbol('(') ? undefined : stream.readName();
+      const columns = readColumnList(stream);
+      if (!stream.acceptKeyword('REFERENCES')) {
+        this.warnings.push(`Foreign key on ${table.name} without REFERENCES skipped`);
+        return;
+      }
+      const reference = readReferences(stream);
+      const name = constraintName || indexName || `fk_${table.name}_${columns.join('_')}`;
+
+      if (reference.referencedColumns.length > 0 && reference.referencedColumns.length !== columns.length) {
+        this.warnings.push(`Foreign key ${name} on ${table.name} lists ${columns.length} columns but references ${reference.referencedColumns.length}`);
+        return;
+      }
+
+      table.foreignKeys.push({
+        name,
+        columns,
+        referencedTable: reference.referencedTable,
+        referencedColumns: reference.referencedColumns,
+        onDelete: reference.onDelete,
+        onUpdate: reference.onUpdate,
+      });
+      return;
+    }
+
+    if (stream.acceptKeyword('EXCLUDE')) {
+      this.warnings.push(`Exclusion constraint on ${table.name} was skipped`);
+      return;
+    }
+
+    if (stream.acceptKeyword('SPATIAL')) {
+      this.warnings.push(`Spatial index on ${table.name} was skipped`);
+      return;
+    }
+    const isFulltext = stream.acceptKeyword('FULLTEXT');
+    stream.acceptAnyKeyword('KEY', 'INDEX');
+    const indexName = stream.isSymbol('(') ? undefined : stream.readName();
+    const index = readIndexColumns(stream);
+    table.indexes.push({
+      name: indexName || `idx_${table.name}_${index.columns.join('_')}`,
+      ...index,
+      isUnique: false,
+      ...(isFulltext && { isFulltext }),
+    });
+  }
+
+  private parseCreateIndex(stream: TokenStream, unique: boolean, fulltext: boolean, statement: string): void {
+    stream.acceptKeyword('CONCURRENTLY');
+    stream.acceptKeyword('IF', 'NOT', 'EXISTS');
+    const indexName = stream.isKeyword('ON') ? undefined : stream.readName();
+
+    if (!stream.acceptKeyword('ON')) {
+      this.warnings.push(`Unsupported statement skipped: ${preview(statement)}`);
+      return;
+    }
+    stream.acceptKeyword('ONLY');
+    const tableName = stream.readName() || '';
+    if (stream.acceptKeyword('USING')) stream.next();
+    const index = readIndexColumns(stream);
+
+    const table = this.tables.get(tableName);
+    if (!table) {
+      this.warnings.push(`Index ${indexName || ''} references unknown table ${tableName}`);
+      return;
+    }
+
+    const prefix = unique ? 'uq' : 'idx';
+    table.indexes.push({
+      name: indexName || `${prefix}_${tableName}_${index.columns.join('_')}`,
+      ...index,
+      isUnique: unique,
+      ...(fulltext && { isFulltext: true }),
+    });
+  }
+
+  private parseAlterTable(stream: TokenStream, statement: string): void {
+    stream.acceptKeyword('IF', 'EXISTS');
+    stream.acceptKeyword('ONLY');
+    const tableName = stream.readName() || '';
+    const table = this.tables.get(tableName);
+
+    if (!table) {
+      this.warnings.push(`ALTER TABLE on unknown table ${tableName} skipped: ${preview(statement)}`);
+      return;
+    }
+
+    for (const action of stream.splitOnCommas()) {
+      if (action.acceptKeyword('ADD')) {
+        action.acceptKeyword('COLUMN');
+        action.acceptKeyword('IF', 'NOT', 'EXISTS');
+        if (this.isTableConstraint(action)) {
+          this.parseTableConstraint(table, action);
+        } else {
+          this.parseColumn(table, action);
+        }
+        continue;
+      }
+
+      if (action.acceptKeyword('RENAME', 'TO') || action.acceptKeyword('RENAME', 'AS')) {
+        const newName = action.readName();
+        if (newName) {
+          this.tables.delete(table.name);
+          table.name = newName;
+          this.tables.set(newName, table);
+        }
+        continue;
+      }
+
+      if (action.isKeyword('OWNER') || action.isKeyword('ENGINE') || action.isKeyword('AUTO_INCREMENT')) continue;
+
+      this.warnings.push(`ALTER TABLE ${tableName} action skipped: ${preview(action.rest())}`);
+    }
+  }
+
+  // Drop foreign keys and checks that do not point at a known table/column, and repeated foreign keys
+  private resolveReferences(): void {
+    for (const table of this.tables.values()) {
+      table.foreignKeys = table.foreignKeys.filter(fk => {
+        const target = this.tables.get(fk.referencedTable);
+        if (!target) {
+          this.warnings.push(`Foreign key ${fk.name} references unknown table ${fk.referencedTable}`);
+          return false;
+        }
+
+        // REFERENCES t without a column list points at the primary key
+        if (fk.referencedColumns.length === 0) {
+          if (target.primaryKey.length !== fk.columns.length) {
+            this.warnings.push(`Foreign key ${fk.name} does not name its columns and the primary key of ${target.name} does not match them`);
+            return false;
+          }
+          fk.referencedColumns = [...target.primaryKey];
+        }
+
+        if (
+          !fk.columns.every(column => table.columns.some(col => col.name === column)) ||
+          !fk.referencedColumns.every(column => target.columns.some(col => col.name === column))
+        ) {
+          this.warnings.push(`Foreign key ${fk.name} references a column that does not exist`);
+          return false;
+        }
+        return true;
+      });
+
+      // A key declared inline and again as a table constraint or by ALTER TABLE is one foreign key
+      const seenForeignKeys = new Set<string>();
+      table.foreignKeys = table.foreignKeys.filter(fk => {
+        const definition = `${table.name}(${fk.columns.join(', ')}) references ${fk.referencedTable}(${fk.referencedColumns.join(', ')})`;
+        if (seenForeignKeys.has(definition)) {
+          this.warnings.push(`Foreign key ${definition} is declared more than once; the first declaration is used`);
+          return false;
+        }
+        seenForeignKeys.add(definition);
+        return true;
+      });
+
+      table.checks = table.checks.filter(check => {
+        const words = check.clause.split(/[^a-zA-Z0-9_]+/);
+        if (table.columns.some(col => words.includes(col.name))) return true;
+        this.warnings.push(`Check ${check.name} on ${table.name} does not reference a column and was skipped`);
+        return false;
+      });
+    }
+  }
+}
+
+// Parse a DDL script into live table structures
+export const parseSQLSchema = (sql: string): ParsedSchema => new SQLSchemaParser().parse(sql);
@@ -0,0 +1,149 @@
+import { SQLDialect } from '../services/schema-export.service';
+
+// Parameterized query building for the row APIs. Identifiers are quoted for the dialect and
+// must already be checked against the schema; values are always bound as placeholders.
+
+export type FilterOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'like' | 'in' | 'null' | 'notnull' | 'between';
+
+export const FILTER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'like', 'in', 'null', 'notnull', 'between'];
+
+export interface QueryFilter {
+  column: string;
+  operator: FilterOperator;
+  // A list for `in`, a [from, to] pair for `between`, unused for `null`/`notnull`
+  value?: unknown;
+}
+
+export interface QuerySort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface SqlStatement {
+  query: string;
+  params: unknown[];
+}
+
+const COMPARISONS: Partial<Record<FilterOperator, string>> = {
+  eq: '=',
+  neq: '<>',
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>=',
+  like: 'LIKE',
+};
+
+export const quoteSqlIdentifier = (dialect: SQLDialect, name: string): string =>
+  dialect === 'mysql' ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`;
+
+// Collects bound values and returns the placeholder for each: `?` or Postgres' `$n`
+const createParams = (dialect: SQLDialect) => {
+  const params: unknown[] = [];
+  return {
+    params,
+    add: (value: unknown): string => {
+      params.push(value);
+      return dialect === 'postgres' ? `$${params.length}` : '?';
+    },
+  };
+};
+
+type Params = ReturnType<typeof createParams>;
+
+const buildCondition = (dialect: SQLDialect, filter: QueryFilter, params: Params): string => {
+  const column = quoteSqlIdentifier(dialect, filter.column);
+
+  switch (filter.operator) {
+    case 'null':
+      return `${column} IS NULL`;
+    case 'notnull':
+      return `${column} IS NOT NULL`;
+    case 'in': {
+      const values = filter.value as unknown[];
+      // `IN ()` is invalid SQL; an empty list matches nothing
+      return values.length > 0 ? `${column} IN (${values.map(params.add).join(', ')})` : '1 = 0';
+    }
+    case 'between': {
+      const [from, to] = filter.value as [unknown, unknown];
+      return `${column} BETWEEN ${params.add(from)} AND ${params.add(to)}`;
+    }
+    default:
+      return `${column} ${COMPARISONS[filter.operator]} ${params.add(filter.value)}`;
+  }
+};
+
+const buildWhere = (dialect: SQLDialect, filters: QueryFilter[], params: Params): string =>
+  filters.length > 0 ? ` WHERE ${filters.map(filter => buildCondition(dialect, filter, params)).join(' AND ')}` : '';
+
+// Match a row by its key columns
+const buildKeyWhere = (dialect: SQLDialect, key: Record<string, unknown>, params: Params): string =>
+  buildWhere(dialect, Object.entries(key).map(([column, value]) => ({ column, operator: 'eq' as const, value })), params);
+
+// SELECT one page of rows
+export const buildSelectQuery = (
+  dialect: SQLDialect,
+  table: string,
+  options: { filters?: QueryFilter[]; sort?: QuerySort[]; limit: number; offset: number }
+): SqlStatement => {
+  const params = createParams(dialect);
+  const where = buildWhere(dialect, options.filters || [], params);
+  const orderBy = options.sort && options.sort.length > 0
+    ? ` ORDER BY ${options.sort.map(sort => `${quoteSqlIdentifier(dialect, sort.column)} ${sort.direction.toUpperCase()}`).join(', ')}`
+    : '';
+  const limit = ` LIMIT ${params.add(options.limit)} OFFSET ${params.add(options.offset)}`;
+
+  return { query: `SELECT * FROM ${quoteSqlIdentifier(dialect, table)}${where}${orderBy}${limit}`, params: params.params };
+};
+
+// Number of rows matching the filters, returned in a `total` column
+export const buildCountQuery = (dialect: SQLDialect, table: string, filters: QueryFilter[] = []): SqlStatement => {
+  const params = createParams(dialect);
+  const where = buildWhere(dialect, filters, params);
+  return { query: `SELECT COUNT(*) AS total FROM ${quoteSqlIdentifier(dialect, table)}${where}`, params: params.params };
+};
+
+export const buildSelectByKeyQuery = (dialect: SQLDialect, table: string, key: Record<string, unknown>): SqlStatement => {
+  const params = createParams(dialect);
+  const where = buildKeyWhere(dialect, key, params);
+  return { query: `SELECT * FROM ${quoteSqlIdentifier(dialect, table)}${where}`, params: params.params };
+};
+
+// INSERT a row; Postgres returns the inserted row, MySQL and SQLite report insertId
+export const buildInsertQuery = (dialect: SQLDialect, table: string, values: Record<string, unknown>): SqlStatement => {
+  const params = createParams(dialect);
+  const columns = Object.keys(values);
+  const returning = dialect === 'postgres' ? ' RETURNING *' : '';
+
+  if (columns.length === 0) {
+    const defaults = dialect === 'mysql' ? '() VALUES ()' : 'DEFAULT VALUES';
+    return { query: `INSERT INTO ${quoteSqlIdentifier(dialect, table)} ${defaults}${returning}`, params: [] };
+  }
+
+  const placeholders = columns.map(column => params.add(values[column]));
+  return {
+    query: `INSERT INTO ${quoteSqlIdentifier(dialect, table)} (${columns.map(column => quoteSqlIdentifier(dialect, column)).join(', ')}) VALUES (${placeholders.join(', ')})${returning}`,
+    params: params.params,
+  };
+};
+
+// UPDATE the row matching the key; Postgres returns the updated row
+export const buildUpdateQuery = (
+  dialect: SQLDialect,
+  table: string,
+  values: Record<string, unknown>,
+  key: Record<string, unknown>
+): SqlStatement => {
+  const params = createParams(dialect);
+  const assignments = Object.entries(values).map(([column, value]) => `${quoteSqlIdentifier(dialect, column)} = ${params.add(value)}`);
+  const where = buildKeyWhere(dialect, key, params);
+  const returning = dialect === 'postgres' ? ' RETURNING *' : '';
+
+  return { query: `UPDATE ${quoteSqlIdentifier(dialect, table)} SET ${assignments.join(', ')}${where}${returning}`, params: params.params };
+};
+
+export const buildDeleteQuery = (dialect: SQLDialect, table: string, key: Record<string, unknown>): SqlStatement => {
+  const params = createParams(dialect);
+  const where = buildKeyWhere(dialect, key, params);
+  return { query: `DELETE FROM ${quoteSqlIdentifier(dialect, table)}${where}`, params: params.params };
+};
@@ -0,0 +1,115 @@
+import { Column, Table, TableIndex, Relationship } from '../types/schema';
+import { checkConstraintName, foreignKeyName, resolveIndexColumns, resolveRelationshipColumns } from './mysql-ddl';
+import { quoteIdentifier } from './postgres-ddl';
+
+// Map a canvas column type (MySQL notation) onto its SQLite type affinity
+export const toSqliteType = (type: string): string => {
+  const upper = type.trim().toUpperCase();
+
+  if (/^(TINYINT|SMALLINT|MEDIUMINT|INT|INTEGER|BIGINT|SERIAL|BOOL|BOOLEAN|YEAR)\b/.test(upper)) return 'INTEGER';
+  if (/^(FLOAT|DOUBLE|REAL)\b/.test(upper)) return 'REAL';
+  if (/^(DECIMAL|NUMERIC|DATE|DATETIME|TIMESTAMP)\b/.test(upper)) return 'NUMERIC';
+  if (/^(BLOB|TINYBLOB|MEDIUMBLOB|LONGBLOB|BINARY|VARBINARY|BYTEA)\b/.test(upper)) return 'BLOB';
+  return 'TEXT';
+};
+
+// SQLite only auto increments a single INTEGER PRIMARY KEY column
+const autoIncrementColumn = (table: Table): Column | undefined => {
+  const primaryKey = table.columns.filter(col => col.isPrimaryKey);
+  const [column] = primaryKey;
+  return primaryKey.length === 1 && column.isAutoIncrement && toSqliteType(column.type) === 'INTEGER'
+    ? column
+    : undefined;
+};
+
+// Render a column definition (affinity, PRIMARY KEY AUTOINCREMENT, NOT NULL, DEFAULT, UNIQUE)
+export const generateSqliteColumnDefinition = (col: Column, isAutoIncrementKey = false): string => {
+  let def = `${quoteIdentifier(col.name)} ${toSqliteType(col.type)}`;
+
+  if (isAutoIncrementKey) {
+    def += ' PRIMARY KEY AUTOINCREMENT';
+  }
+
+  if (!col.isNullable) {
+    def += ' NOT NULL';
+  }
+
+  if (col.defaultValue && !isAutoIncrementKey) {
+    const upperDefault = col.defaultValue.toUpperCase().trim();
+    if (upperDefault === 'NULL') {
+      def += ' DEFAULT NULL';
+    } else if (upperDefault === 'CURRENT_TIMESTAMP' || upperDefault === 'CURRENT_DATE') {
+      def += ` DEFAULT ${upperDefault}`;
+    } else {
+      def += ` DEFAULT '${col.defaultValue.replace(/'/g, "''")}'`;
+    }
+  }
+
+  if (col.isUnique && !col.isPrimaryKey) {
+    def += ' UNIQUE';
+  }
+
+  return def;
+};
+
+// Generate CREATE TABLE SQL; SQLite cannot add foreign keys later, so they are declared inline.
+// `tableName` lets a table be rebuilt under a temporary name.
+export const generateSqliteCreateTableSQL = (
+  table: Table,
+  tables: Table[],
+  relationships: Relationship[],
+  tableName: string = table.name
+): string => {
+  if (table.columns.length === 0) {
+    // SQLite requires at least one column, so create with a placeholder
+    return `CREATE TABLE ${quoteIdentifier(tableName)} (
+  "_placeholder" INTEGER
+)`;
+  }
+
+  const autoIncrementKey = autoIncrementColumn(table);
+  const columnDefs = table.columns.map(col => generateSqliteColumnDefinition(col, col === autoIncrementKey));
+  const constraints: string[] = [];
+
+  const primaryKey = table.columns.filter(col => col.isPrimaryKey);
+  if (primaryKey.length > 0 && !autoIncrementKey) {
+    constraints.push(`PRIMARY KEY (${primaryKey.map(col => quoteIdentifier(col.name)).join(', ')})`);
+  }
+
+  table.columns.forEach(col => {
+    if (col.checkConstraint) {
+      constraints.push(`CONSTRAINT ${quoteIdentifier(checkConstraintName(table.name, col.name))} CHECK (${col.checkConstraint})`);
+    }
+  });
+
+  relationships
+    .filter(rel => rel.sourceTableId === table.id)
+    .forEach(rel => {
+      const targetTable = tables.find(t => t.id === rel.targetTableId);
+      const resolved = targetTable && resolveRelationshipColumns(rel, table, targetTable);
+      if (!targetTable || !resolved) return;
+
+      const { sourceColumns, targetColumns } = resolved;
+      constraints.push(
+        `CONSTRAINT ${quoteIdentifier(foreignKeyName(table.name, sourceColumns[0].name))} ` +
+        `FOREIGN KEY (${sourceColumns.map(col => quoteIdentifier(col.name)).join(', ')}) ` +
+        `REFERENCES ${quoteIdentifier(targetTable.name)}(${targetColumns.map(col => quoteIdentifier(col.name)).join(', ')}) ` +
+        `ON DELETE ${rel.onDelete || 'CASCADE'} ON UPDATE ${rel.onUpdate || 'CASCADE'}`
+      );
+    });
+
+  return `CREATE TABLE ${quoteIdentifier(tableName)} (
+  ${[...columnDefs, ...constraints].join(',\n  ')}
+)`;
+};
+
+// Generate CREATE INDEX SQL for a designed index, in the form SQLite stores in sqlite_master.
+// Prefix lengths and FULLTEXT indexes are MySQL only; the latter are skipped (null).
+export const generateSqliteIndexSQL = (table: Table, index: TableIndex): string | null => {
+  const parts = resolveIndexColumns(table, index);
+  if (parts.length === 0 || index.isFulltext) return null;
+
+  const keyParts = parts.map(({ column, order }) => `${quoteIdentifier(column.name)}${order === 'DESC' ? ' DESC' : ''}`);
+  return `CREATE ${index.isUnique ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(index.name)} ` +
+    `ON ${quoteIdentifier(table.name)} (${keyParts.join(', ')})`;
+};
@@ -0,0 +1,35 @@
+import { Table, SyncReport, SyncError, TableSyncResult } from '../types/schema';
+import { safeIdentifier } from './mysql-ddl';
+
+// Turn a driver error (mysql2, pg, ...) into the error shape of the sync report
+export const toSyncError = (error: unknown, sql?: string): SyncError => {
+  const err = error as Error & { code?: string; errno?: number };
+  return {
+    code: err.code,
+    errno: err.errno,
+    message: err.message || 'No error message',
+    sql,
+  };
+};
+
+// Start an empty sync report; `tableResult` returns the entry of a table, creating it
+// the first time one of its statements runs so entries keep execution order
+export const createSyncReport = (tables: Table[]) => {
+  const report: SyncReport = { status: 'success', tables: [], foreignKeys: [] };
+
+  const tableResult = (tableName: string): TableSyncResult => {
+    let result = report.tables.find(entry => entry.table === tableName);
+    if (!result) {
+      result = {
+        tableId: tables.find(t => safeIdentifier(t.name) === tableName)?.id,
+        table: tableName,
+        status: 'ok',
+        changes: [],
+      };
+      report.tables.push(result);
+    }
+    return result;
+  };
+
+  return { report, tableResult };
+};
@@ -0,0 +1,165 @@
+import { SchemaData } from '../types/schema';
+import { toBsonType, BsonType } from './mongo-schema';
+import { buildOrmModel, OrmColumn, OrmEntity, isBooleanType, isIntegerType, tsString, fileHeader } from './orm/orm-model';
+
+// Generation of a TypeScript module with an interface, an insert type and Zod schemas per table.
+// Types follow what the database drivers return; the Zod schemas check the same shape.
+
+// Value ranges of the MySQL integer types
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  TINYINT: [-128, 127],
+  SMALLINT: [-32768, 32767],
+  MEDIUMINT: [-8388608, 8388607],
+  INT: [-2147483648, 2147483647],
+  INTEGER: [-2147483648, 2147483647],
+};
+
+const BSON_TYPES: Record<BsonType, { tsType: string; zod: string }> = {
+  string: { tsType: 'string', zod: 'z.string()' },
+  int: { tsType: 'number', zod: 'z.number().int()' },
+  long: { tsType: 'number', zod: 'z.number().int()' },
+  double: { tsType: 'number', zod: 'z.number()' },
+  decimal: { tsType: 'string', zod: "z.string().regex(/^-?\\d+(\\.\\d+)?$/, 'Must be a decimal number')" },
+  bool: { tsType: 'boolean', zod: 'z.boolean()' },
+  date: { tsType: 'Date', zod: 'z.coerce.date()' },
+  objectId: { tsType: 'string', zod: "z.string().regex(/^[0-9a-f]{24}$/i, 'Must be an ObjectId')" },
+  object: { tsType: 'Record<string, unknown>', zod: 'z.record(z.unknown())' },
+  array: { tsType: 'unknown[]', zod: 'z.array(z.unknown())' },
+  binData: { tsType: 'Buffer', zod: 'z.instanceof(Buffer)' },
+};
+
+// Zod schema of a SQL column, without nullability
+const zodType = (col: OrmColumn): string => {
+  const { type } = col;
+  const [length, scale] = type.args;
+
+  if (type.base === 'ENUM' && col.enumValues) return `z.enum([${col.enumValues.map(tsString).join(', ')}])`;
+  if (isBooleanType(type)) return 'z.boolean()';
+
+  if (isIntegerType(type) && type.base !== 'BIGINT' && !type.base.endsWith('SERIAL')) {
+    const [min, max] = INTEGER_RANGES[type.base] || INTEGER_RANGES.INT;
+    return type.unsigned
+      ? `z.number().int().min(0).max(${max * 2 + 1})`
+      : `z.number().int().min(${min}).max(${max})`;
+  }
+
+  switch (type.base) {
+    case 'BIGINT':
+    case 'BIGSERIAL':
+      return "z.string().regex(/^-?\\d+$/, 'Must be an integer')";
+    case 'DECIMAL':
+    case 'NUMERIC': {
+      if (length === undefined) return "z.string().regex(/^-?\\d+(\\.\\d+)?$/, 'Must be a decimal number')";
+      const digits = Math.max(length - (scale ?? 0), 1);
+      const fraction = scale ? `(\\.\\d{1,${scale}})?` : '';
+      return `z.string().regex(/^-?\\d{1,${digits}}${fraction}$/, 'Must be a decimal(${length}${scale !== undefined ? `,${scale}` : ''})')`;
+    }
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'DOUBLE PRECISION':
+    case 'REAL':
+      return type.unsigned ? 'z.number().nonnegative()' : 'z.number()';
+    case 'VARCHAR':
+    case 'CHAR':
+      return length ? `z.string().max(${length})` : 'z.string()';
+    case 'UUID':
+      return 'z.string().uuid()';
+    case 'DATE':
+    case 'DATETIME':
+    case 'TIMESTAMP':
+    case 'TIMESTAMPTZ':
+      return 'z.coerce.date()';
+    case 'TIME':
+      return "z.string().regex(/^-?\\d{1,3}:\\d{2}(:\\d{2}(\\.\\d+)?)?$/, 'Must be a time')";
+    case 'YEAR':
+      return 'z.number().int().min(1901).max(2155)';
+    case 'JSON':
+    case 'JSONB':
+      return 'z.unknown()';
+    default:
+      return col.tsType === 'Buffer' ? 'z.instanceof(Buffer)' : 'z.string()';
+  }
+};
+
+interface FieldDefinition {
+  name: string;
+  tsType: string;
+  zod: string;
+  nullable: boolean;
+  // The database fills the value in when an insert leaves it out
+  optionalOnInsert: boolean;
+}
+
+// Rows are keyed by column name; names that are not identifiers are quoted
+const fieldKey = (name: string): string => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : tsString(name));
+
+const toFieldDefinition = (col: OrmColumn, databaseType: string): FieldDefinition => {
+  const { column } = col;
+  const nullable = column.isNullable && !column.isPrimaryKey;
+  const hasDefault = !!column.defaultValue && column.defaultValue.trim().toUpperCase() !== 'NULL';
+
+  // MongoDB collections use BSON types; `_id` is generated when missing
+  if (databaseType === 'mongodb') {
+    const bson = BSON_TYPES[toBsonType(column.type)];
+    return {
+      name: fieldKey(column.name),
+      tsType: bson.tsType,
+      zod: bson.zod,
+      nullable,
+      optionalOnInsert: column.name === '_id' || !!column.isAutoIncrement || hasDefault || nullable,
+    };
+  }
+
+  return {
+    name: fieldKey(col.name),
+    tsType: col.tsType,
+    zod: zodType(col),
+    nullable,
+    optionalOnInsert: !!column.isAutoIncrement || hasDefault || nullable,
+  };
+};
+
+const renderTable = (entity: OrmEntity, databaseType: string): string => {
+  const fields = entity.columns.map(col => toFieldDefinition(col, databaseType));
+  const schemaName = `${entity.className.charAt(0).toLowerCase()}${entity.className.slice(1)}Schema`;
+  const insertSchemaName = `new${entity.className}Schema`;
+  const optional = fields.filter(field => field.optionalOnInsert);
+
+  const interfaceFields = (insert: boolean): string[] => fields.map(field =>
+    `  ${field.name}${insert && field.optionalOnInsert ? '?' : ''}: ${field.tsType}${field.nullable ? ' | null' : ''};`
+  );
+
+  return [
+    `// ${entity.tableName}`,
+    '',
+    `export interface ${entity.className} {`,
+    ...interfaceFields(false),
+    '}',
+    '',
+    `export interface New${entity.className} {`,
+    ...interfaceFields(true),
+    '}',
+    '',
+    `export const ${schemaName} = z.object({`,
+    ...fields.map(field => `  ${field.name}: ${field.zod}${field.nullable ? '.nullable()' : ''},`),
+    '});',
+    '',
+    optional.length > 0
+      ? `export const ${insertSchemaName} = ${schemaName}.partial({ ${optional.map(field => `${field.name}: true`).join(', ')} });`
+      : `export const ${insertSchemaName} = ${schemaName};`,
+  ].join('\n');
+};
+
+// Render the canvas as a TypeScript module of interfaces and Zod schemas
+export const generateTypeScriptModule = (schema: SchemaData, databaseType: string): string => {
+  const entities = buildOrmModel(schema);
+  return [
+    fileHeader('Row types and Zod validators for every table'),
+    "import { z } from 'zod';",
+    '',
+    '// New* types leave out the columns the database fills in: auto increment, defaulted and nullable ones',
+    '',
+    entities.map(entity => renderTable(entity, databaseType)).join('\n\n'),
+    '',
+  ].join('\n');
+};
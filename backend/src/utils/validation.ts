@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { API_KEY_SCOPES } from '../models/ApiKey.model';
 
 export const registerSchema = z.object({
   name: z
@@ -28,5 +29,62 @@ export const loginSchema = z.object({
     .min(1, 'Password is required'),
 });
 
+export const createApiKeySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Key name is required')
+    .max(100, 'Key name cannot exceed 100 characters'),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES as [string, ...string[]]))
+    .min(1, 'Select at least one scope'),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, 'Expiry must be at least one day')
+    .max(3650, 'Expiry cannot exceed 10 years')
+    .optional(),
+});
+
+// Identifies one row of a data editor table: a value for every primary key column
+const rowKeySchema = z.record(z.union([z.string(), z.number(), z.boolean()]));
+
+// Column values of a data editor row. Only scalars: the drivers expand objects and arrays
+// bound to a placeholder into SQL (`k` = v lists, value lists), which would change the query.
+const rowDataSchema = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]));
+
+export const insertRowSchema = z.object({
+  rowData: rowDataSchema.optional(),
+  // Insert a row of defaults only (tables with only auto-increment columns)
+  allowEmpty: z.boolean().optional(),
+});
+
+export const updateRowSchema = z.object({
+  key: rowKeySchema,
+  rowData: rowDataSchema,
+});
+
+export const deleteRowSchema = z.object({
+  key: rowKeySchema,
+});
+
+export const batchChangesSchema = z.object({
+  changes: z
+    .array(
+      z.discriminatedUnion('type', [
+        z.object({ type: z.literal('insert'), rowData: rowDataSchema }),
+        z.object({ type: z.literal('update'), key: rowKeySchema, rowData: rowDataSchema }),
+        z.object({ type: z.literal('delete'), key: rowKeySchema }),
+      ])
+    )
+    .min(1, 'No changes provided')
+    .max(5000, 'A batch cannot exceed 5000 changes'),
+});
+
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type InsertRowInput = z.infer<typeof insertRowSchema>;
+export type UpdateRowInput = z.infer<typeof updateRowSchema>;
+export type DeleteRowInput = z.infer<typeof deleteRowSchema>;
+export type BatchChangesInput = z.infer<typeof batchChangesSchema>;
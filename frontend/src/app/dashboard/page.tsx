@@ -2,16 +2,19 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { Database, LogOut, Plus, Trash2, Calendar } from "lucide-react";
+import { Database, LogOut, Plus, Trash2, Calendar, KeyRound } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { useAuthStore } from "@/stores/auth-store";
 import { useProjectStore } from "@/stores/project-store";
 import { CreateProjectModal } from "@/components/modals/create-project-modal";
+import { ApiKeysModal } from "@/components/modals/api-keys-modal";
+import { Project } from "@/types/project";
 
 export default function DashboardPage() {
   const router = useRouter();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [apiKeysProject, setApiKeysProject] = useState<Project | null>(null);
   
   const { user, isAuthenticated, logout, checkAuth } = useAuthStore();
   const { projects, fetchProjects, deleteProject, isLoading } = useProjectStore();
@@ -110,7 +113,7 @@ export default function DashboardPage() {
               <p className="text-zinc-300 font-medium group-hover:text-white transition-colors">
                 Create New Project
               </p>
-              <p className="text-zinc-500 text-sm mt-1">MySQL or MongoDB schema</p>
+              <p className="text-zinc-500 text-sm mt-1">MySQL, PostgreSQL, SQLite or MongoDB schema</p>
             </div>
           </button>
 
@@ -126,6 +129,10 @@ export default function DashboardPage() {
                   className={`px-3 py-1 rounded-full text-xs font-medium ${
                     project.databaseType === "mysql"
                       ? "bg-blue-500/20 text-blue-400"
+                      : project.databaseType === "postgres"
+                      ? "bg-indigo-500/20 text-indigo-400"
+                      : project.databaseType === "sqlite"
+                      ? "bg-amber-500/20 text-amber-400"
                       : "bg-green-500/20 text-green-400"
                   }`}
                 >
@@ -160,15 +167,26 @@ export default function DashboardPage() {
                   <Calendar className="w-3 h-3" />
                   {new Date(project.createdAt).toLocaleDateString()}
                 </div>
-                <Button
-                  size="sm"
-                  className="bg-purple-600 hover:bg-purple-500 text-white text-xs"
-                  onClick={() => {
-                    router.push(`/workspace/${project.id}`);
-                  }}
-                >
-                  Open
-                </Button>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setApiKeysProject(project)}
+                    className="text-zinc-400 hover:text-white hover:bg-zinc-800 text-xs"
+                  >
+                    <KeyRound className="w-3 h-3 mr-1" />
+                    API Keys
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="bg-purple-600 hover:bg-purple-500 text-white text-xs"
+                    onClick={() => {
+                      router.push(`/workspace/${project.id}`);
+                    }}
+                  >
+                    Open
+                  </Button>
+                </div>
               </div>
             </div>
           ))}
@@ -188,6 +206,16 @@ export default function DashboardPage() {
         onClose={() => setIsCreateModalOpen(false)}
         onSuccess={handleProjectSuccess}
       />
+
+      {/* API Keys Modal */}
+      {apiKeysProject && (
+        <ApiKeysModal
+          isOpen={!!apiKeysProject}
+          onClose={() => setApiKeysProject(null)}
+          projectId={apiKeysProject.id}
+          projectName={apiKeysProject.name}
+        />
+      )}
     </div>
   );
 }
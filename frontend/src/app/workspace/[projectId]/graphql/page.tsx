@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeft, Play, Loader2, BookOpen, Workflow } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { useAuthStore } from "@/stores/auth-store";
+import api from "@/lib/api";
+
+// Starter query for the first list field of the schema
+const defaultQuery = (sdl: string): string => {
+  const field = sdl.match(/type Query \{\s+(\w+)\(/)?.[1];
+  if (!field) return "{\n  __typename\n}\n";
+  return `{\n  ${field}(first: 10) {\n    totalCount\n    pageInfo {\n      hasNextPage\n      endCursor\n    }\n    nodes {\n      __typename\n    }\n  }\n}\n`;
+};
+
+export default function GraphQLPlaygroundPage() {
+  const params = useParams();
+  const router = useRouter();
+  const projectId = params.projectId as string;
+  const { isAuthenticated, checkAuth } = useAuthStore();
+
+  const [sdl, setSdl] = useState("");
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [variables, setVariables] = useState("");
+  const [result, setResult] = useState("");
+  const [isRunning, setIsRunning] = useState(false);
+  const [showDocs, setShowDocs] = useState(true);
+
+  // Check auth
+  useEffect(() => {
+    checkAuth();
+  }, [checkAuth]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      router.push("/auth/login");
+    }
+  }, [isAuthenticated, router]);
+
+  // Load the schema for the docs pane and the starter query
+  useEffect(() => {
+    const fetchSchema = async () => {
+      try {
+        const response = await api.get<{ success: boolean; data: { sdl: string } }>(`/graphql/${projectId}/schema`);
+        setSdl(response.data.data.sdl);
+        setQuery((current) => current || defaultQuery(response.data.data.sdl));
+      } catch (error: unknown) {
+        console.error("Failed to load GraphQL schema:", error);
+        const err = error as { response?: { data?: { message?: string } } };
+        setSchemaError(err.response?.data?.message || "Failed to load the GraphQL schema");
+      }
+    };
+
+    if (isAuthenticated && projectId) {
+      fetchSchema();
+    }
+  }, [isAuthenticated, projectId]);
+
+  const handleRun = useCallback(async () => {
+    let parsedVariables: Record<string, unknown> | undefined;
+    if (variables.trim()) {
+      try {
+        parsedVariables = JSON.parse(variables);
+      } catch {
+        toast.error("Variables must be valid JSON");
+        return;
+      }
+    }
+
+    setIsRunning(true);
+    try {
+      const response = await api.post(`/graphql/${projectId}`, { query, variables: parsedVariables });
+      setResult(JSON.stringify(response.data, null, 2));
+    } catch (error: unknown) {
+      console.error("GraphQL request failed:", error);
+      const err = error as { response?: { data?: unknown } };
+      setResult(JSON.stringify(err.response?.data ?? { message: "Request failed" }, null, 2));
+    } finally {
+      setIsRunning(false);
+    }
+  }, [projectId, query, variables]);
+
+  // Ctrl/Cmd + Enter runs the query
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      handleRun();
+    }
+  };
+
+  return (
+    <div className="h-screen w-screen flex flex-col bg-zinc-950 text-white">
+      {/* Header */}
+      <div className="h-14 px-4 border-b border-zinc-800 bg-zinc-900 flex items-center gap-3">
+        <Link href={`/workspace/${projectId}`}>
+          <Button variant="ghost" size="sm" className="text-zinc-400 hover:text-white hover:bg-zinc-800">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Workspace
+          </Button>
+        </Link>
+        <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-pink-500 to-rose-600 flex items-center justify-center">
+          <Workflow className="w-4 h-4 text-white" />
+        </div>
+        <h1 className="font-semibold">GraphQL Playground</h1>
+        <div className="ml-auto flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowDocs((value) => !value)}
+            className="text-zinc-400 hover:text-white hover:bg-zinc-800"
+          >
+            <BookOpen className="w-4 h-4 mr-2" />
+            {showDocs ? "Hide Schema" : "Show Schema"}
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleRun}
+            disabled={isRunning || !query.trim()}
+            className="bg-gradient-to-r from-pink-600 to-rose-600 hover:from-pink-500 hover:to-rose-500 text-white"
+          >
+            {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+            Run
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Query and variables */}
+        <div className="flex-1 flex flex-col border-r border-zinc-800 min-w-0">
+          <span className="px-4 pt-3 text-xs text-zinc-400">Query (Ctrl + Enter to run)</span>
+          <textarea
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleKeyDown}
+            spellCheck={false}
+            className="flex-1 m-3 mt-1 p-3 rounded bg-zinc-900 border border-zinc-800 font-mono text-sm text-zinc-200 resize-none focus:outline-none focus:border-zinc-600"
+          />
+          <span className="px-4 text-xs text-zinc-400">Variables (JSON)</span>
+          <textarea
+            value={variables}
+            onChange={(event) => setVariables(event.target.value)}
+            onKeyDown={handleKeyDown}
+            spellCheck={false}
+            placeholder="{}"
+            className="h-32 m-3 mt-1 p-3 rounded bg-zinc-900 border border-zinc-800 font-mono text-sm text-zinc-200 resize-none focus:outline-none focus:border-zinc-600"
+          />
+        </div>
+
+        {/* Result */}
+        <div className="flex-1 flex flex-col min-w-0">
+          <span className="px-4 pt-3 text-xs text-zinc-400">Result</span>
+          <pre className="flex-1 m-3 mt-1 p-3 rounded bg-zinc-900/50 border border-zinc-800 font-mono text-sm text-zinc-300 overflow-auto">
+            {result || "Run a query to see the response"}
+          </pre>
+        </div>
+
+        {/* Schema docs */}
+        {showDocs && (
+          <div className="w-96 flex flex-col border-l border-zinc-800 bg-zinc-900">
+            <span className="px-4 pt-3 text-xs text-zinc-400">Schema</span>
+            <pre className="flex-1 m-3 mt-1 p-3 rounded bg-zinc-950/50 font-mono text-xs text-zinc-400 overflow-auto">
+              {schemaError || sdl || "Loading schema..."}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
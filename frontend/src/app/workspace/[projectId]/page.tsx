@@ -8,21 +8,31 @@ import { Table2, Loader2 } from "lucide-react";
 import { ReactFlowProvider } from "@xyflow/react";
 
 import { useAuthStore } from "@/stores/auth-store";
-import { useWorkspaceStore, Column, Table } from "@/stores/workspace-store";
+import { useWorkspaceStore, Column, Table, TableIndex, Relationship } from "@/stores/workspace-store";
 import { Sidebar } from "@/components/workspace/sidebar";
 import { Canvas } from "@/components/workspace/canvas";
 import { CreateTableDialog } from "@/components/workspace/create-table-dialog";
 import { AddColumnDialog } from "@/components/workspace/add-column-dialog";
 import { EditColumnDialog } from "@/components/workspace/edit-column-dialog";
+import { IndexEditorDialog } from "@/components/workspace/index-editor-dialog";
 import { DataPanel } from "@/components/workspace/data-panel";
 import { DataEditor } from "@/components/workspace/data-editor";
+import { MigrationPlanDialog } from "@/components/workspace/migration-plan-dialog";
+import { MigrationHistoryDialog } from "@/components/workspace/migration-history-dialog";
+import { SchemaDriftDialog } from "@/components/workspace/schema-drift-dialog";
+import { ExportSchemaDialog } from "@/components/workspace/export-schema-dialog";
+import { ImportSchemaDialog } from "@/components/workspace/import-schema-dialog";
+import { GenerateCodeDialog } from "@/components/workspace/generate-code-dialog";
+import { RestApiDialog } from "@/components/workspace/rest-api-dialog";
 import api from "@/lib/api";
+import { ColumnTypeParams } from "@/lib/column-types";
+import { DatabaseType } from "@/types/project";
 
 interface ProjectData {
   id: string;
   name: string;
   databaseName: string;
-  databaseType: string;
+  databaseType: DatabaseType;
   schemaData?: {
     tables: Array<{
       id: string;
@@ -46,6 +56,7 @@ interface ProjectData {
       sourceColumnId: string;
       targetTableId: string;
       targetColumnId: string;
+      additionalColumns?: Array<{ sourceColumnId: string; targetColumnId: string }>;
       onDelete?: string;
       onUpdate?: string;
     }>;
@@ -68,9 +79,19 @@ export default function WorkspacePage() {
   const [showEditColumnDialog, setShowEditColumnDialog] = useState(false);
   const [editingColumn, setEditingColumn] = useState<Column | null>(null);
   const [editingTableId, setEditingTableId] = useState<string | null>(null);
+  // Table whose indexes are open in the index editor
+  const [indexTableId, setIndexTableId] = useState<string | null>(null);
   
   // Data panel state
   const [selectedDataTable, setSelectedDataTable] = useState<Table | null>(null);
+
+  // Migration history state
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+  const [showDriftDialog, setShowDriftDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showImportSchemaDialog, setShowImportSchemaDialog] = useState(false);
+  const [showGenerateCodeDialog, setShowGenerateCodeDialog] = useState(false);
+  const [showRestApiDialog, setShowRestApiDialog] = useState(false);
   
   const canvasRef = useRef<HTMLDivElement>(null);
 
@@ -83,8 +104,12 @@ export default function WorkspacePage() {
     addTable, 
     addColumn,
     updateColumn,
-    setTables,
-    setRelationships
+    updateTableIndexes,
+    loadSchema,
+    pendingPlan,
+    confirmPendingPlan,
+    discardPendingPlan,
+    checkDrift,
   } = useWorkspaceStore();
 
   // Configure drag sensors
@@ -117,15 +142,17 @@ export default function WorkspacePage() {
         
         if (response.data.success) {
           const project = response.data.data.project;
-          setProject(project.id, project.name, project.databaseName);
+          setProject(project.id, project.name, project.databaseName, project.databaseType);
           
-          // Load existing tables if any
-          if (project.schemaData?.tables) {
-            setTables(project.schemaData.tables);
-          }
-          // Load existing relationships if any
-          if (project.schemaData?.relationships) {
-            setRelationships(project.schemaData.relationships as any);
+          // Load existing tables and relationships if any
+          loadSchema(
+            project.schemaData?.tables || [],
+            (project.schemaData?.relationships || []) as Relationship[]
+          );
+
+          // Catch changes made directly in the database before the next autosave
+          if (project.databaseType === "mysql") {
+            checkDrift();
           }
         } else {
           toast.error("Failed to load project");
@@ -143,7 +170,7 @@ export default function WorkspacePage() {
     if (isAuthenticated && projectId) {
       fetchProject();
     }
-  }, [isAuthenticated, projectId, router, setProject, setTables]);
+  }, [isAuthenticated, projectId, router, setProject, loadSchema, checkDrift]);
 
   // Get table name for column dialog
   const getTableName = useCallback((tableId: string) => {
@@ -164,6 +191,20 @@ export default function WorkspacePage() {
     setShowEditColumnDialog(true);
   }, []);
 
+  // Handle indexes button click
+  const handleEditIndexes = useCallback((tableId: string) => {
+    setIndexTableId(tableId);
+  }, []);
+
+  // Handle index editor save
+  const handleIndexesConfirm = useCallback((indexes: TableIndex[]) => {
+    if (indexTableId) {
+      updateTableIndexes(indexTableId, indexes);
+      toast.success(`Indexes of "${getTableName(indexTableId)}" updated`);
+    }
+    setIndexTableId(null);
+  }, [indexTableId, updateTableIndexes, getTableName]);
+
   // Handle column creation
   const handleColumnConfirm = useCallback((column: {
     name: string;
@@ -174,7 +215,8 @@ export default function WorkspacePage() {
     isAutoIncrement: boolean;
     defaultValue?: string;
     checkConstraint?: string;
-  }) => {
+    enumValues?: string[];
+  } & ColumnTypeParams) => {
     if (selectedTableForColumn) {
       addColumn(selectedTableForColumn, column);
       toast.success(`Column "${column.name}" added`);
@@ -250,12 +292,21 @@ export default function WorkspacePage() {
     >
       <div className="h-screen w-screen flex overflow-hidden bg-zinc-950">
         {/* Sidebar */}
-        <Sidebar projectName={projectName} databaseName={databaseName} />
+        <Sidebar
+          projectName={projectName}
+          databaseName={databaseName}
+          onOpenHistory={() => setShowHistoryDialog(true)}
+          onOpenDrift={() => setShowDriftDialog(true)}
+          onOpenExport={() => setShowExportDialog(true)}
+          onOpenImportSchema={() => setShowImportSchemaDialog(true)}
+          onOpenGenerateCode={() => setShowGenerateCodeDialog(true)}
+          onOpenRestApi={() => setShowRestApiDialog(true)}
+        />
 
         {/* Canvas */}
         <div ref={canvasRef} className="flex-1 relative">
           <ReactFlowProvider>
-            <Canvas onAddColumn={handleAddColumn} onEditColumn={handleEditColumn} />
+            <Canvas onAddColumn={handleAddColumn} onEditColumn={handleEditColumn} onEditIndexes={handleEditIndexes} />
           </ReactFlowProvider>
         </div>
 
@@ -322,6 +373,62 @@ export default function WorkspacePage() {
         column={editingColumn}
         tableName={editingTableId ? getTableName(editingTableId) : ""}
       />
+
+      {/* Index Editor */}
+      <IndexEditorDialog
+        key={indexTableId || "closed"}
+        isOpen={!!indexTableId}
+        onClose={() => setIndexTableId(null)}
+        onConfirm={handleIndexesConfirm}
+        table={tables.find((t) => t.id === indexTableId) || null}
+      />
+
+      {/* Migration History */}
+      <MigrationHistoryDialog
+        isOpen={showHistoryDialog}
+        onClose={() => setShowHistoryDialog(false)}
+        projectId={projectId}
+      />
+
+      {/* Schema Drift */}
+      <SchemaDriftDialog
+        isOpen={showDriftDialog}
+        onClose={() => setShowDriftDialog(false)}
+      />
+
+      {/* Schema Export */}
+      <ExportSchemaDialog
+        isOpen={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+        projectId={projectId}
+      />
+
+      {/* Schema Import */}
+      <ImportSchemaDialog
+        isOpen={showImportSchemaDialog}
+        onClose={() => setShowImportSchemaDialog(false)}
+      />
+
+      {/* ORM Code Generation */}
+      <GenerateCodeDialog
+        isOpen={showGenerateCodeDialog}
+        onClose={() => setShowGenerateCodeDialog(false)}
+        projectId={projectId}
+      />
+
+      {/* Generated REST API */}
+      <RestApiDialog
+        isOpen={showRestApiDialog}
+        onClose={() => setShowRestApiDialog(false)}
+        projectId={projectId}
+      />
+
+      {/* Destructive Migration Confirmation */}
+      <MigrationPlanDialog
+        statements={pendingPlan}
+        onConfirm={confirmPendingPlan}
+        onDiscard={discardPendingPlan}
+      />
     </DndContext>
   );
 }
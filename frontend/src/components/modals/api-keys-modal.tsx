@@ -0,0 +1,293 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { KeyRound, Loader2, Plus, Trash2, Copy } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import api from "@/lib/api";
+import { ApiKey, ApiKeyScope } from "@/types/project";
+
+interface ApiKeysModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  projectName: string;
+}
+
+const scopes: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: "schema:read", label: "schema:read", description: "Read the schema, exports and OpenAPI document" },
+  { value: "data:read", label: "data:read", description: "Read rows and documents, run GraphQL queries" },
+  { value: "data:write", label: "data:write", description: "Create, update and delete data" },
+];
+
+const expiryOptions = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString() : "Never");
+
+export function ApiKeysModal({ isOpen, onClose, projectId, projectName }: ApiKeysModalProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<ApiKeyScope[]>(["schema:read", "data:read"]);
+  const [expiry, setExpiry] = useState("90");
+  // Plaintext of the key created last; the backend never returns it again
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const fetchApiKeys = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.get<{ success: boolean; data: { apiKeys: ApiKey[] } }>(
+        `/projects/${projectId}/api-keys`
+      );
+      setApiKeys(response.data.data.apiKeys);
+    } catch (error: unknown) {
+      console.error("Error fetching API keys:", error);
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || "Failed to load API keys");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchApiKeys();
+    }
+  }, [isOpen, fetchApiKeys]);
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setSelectedScopes((current) =>
+      checked ? [...current, scope] : current.filter((value) => value !== scope)
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error("Key name is required");
+      return;
+    }
+    if (selectedScopes.length === 0) {
+      toast.error("Select at least one scope");
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const response = await api.post<{ success: boolean; data: { apiKey: ApiKey; key: string } }>(
+        `/projects/${projectId}/api-keys`,
+        {
+          name: name.trim(),
+          scopes: selectedScopes,
+          expiresInDays: expiry === "never" ? undefined : Number(expiry),
+        }
+      );
+      setApiKeys((current) => [response.data.data.apiKey, ...current]);
+      setCreatedKey(response.data.data.key);
+      setName("");
+      toast.success("API key created");
+    } catch (error: unknown) {
+      console.error("Error creating API key:", error);
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || "Failed to create API key");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Applications using it will lose access.`)) return;
+
+    try {
+      await api.delete(`/projects/${projectId}/api-keys/${apiKey.id}`);
+      setApiKeys((current) => current.filter((key) => key.id !== apiKey.id));
+      toast.success("API key revoked");
+    } catch (error: unknown) {
+      console.error("Error revoking API key:", error);
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || "Failed to revoke API key");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast.success("API key copied");
+  };
+
+  const handleClose = () => {
+    setCreatedKey(null);
+    setName("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[600px] bg-zinc-900 border-zinc-800 text-white">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center">
+              <KeyRound className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">API Keys</DialogTitle>
+              <DialogDescription className="text-zinc-400 text-sm">
+                Access {projectName} from scripts and services with <code>X-API-Key</code>
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {/* Secret of the new key, shown once */}
+        {createdKey && (
+          <div className="space-y-2 p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/30">
+            <p className="text-xs text-emerald-300">Copy this key now. It will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs text-zinc-200 bg-zinc-950/50 rounded p-2 font-mono break-all">
+                {createdKey}
+              </code>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleCopy}
+                className="text-zinc-400 hover:text-white hover:bg-zinc-800"
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* New key */}
+        <div className="space-y-3 p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-1">
+              <span className="text-zinc-400 text-xs">Name</span>
+              <Input
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="e.g. Reporting service"
+                className="h-9 bg-zinc-900 border-zinc-700 text-white text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-zinc-400 text-xs">Expires</span>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="h-9 bg-zinc-900 border-zinc-700 text-white text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-zinc-800 border-zinc-700">
+                  {expiryOptions.map((option) => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {scopes.map((scope) => (
+              <label key={scope.value} className="flex items-center gap-2 cursor-pointer">
+                <Checkbox
+                  checked={selectedScopes.includes(scope.value)}
+                  onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                  className="border-zinc-600 data-[state=checked]:bg-amber-500 data-[state=checked]:border-amber-500"
+                />
+                <code className="text-xs text-zinc-200">{scope.label}</code>
+                <span className="text-xs text-zinc-500">{scope.description}</span>
+              </label>
+            ))}
+          </div>
+
+          <Button
+            size="sm"
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 text-white"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Create Key
+          </Button>
+        </div>
+
+        {/* Existing keys */}
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-zinc-500" />
+            </div>
+          ) : apiKeys.length === 0 ? (
+            <p className="text-center text-sm text-zinc-500 py-6">No API keys yet</p>
+          ) : (
+            apiKeys.map((apiKey) => {
+              const isExpired = !!apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now();
+              return (
+                <div
+                  key={apiKey.id}
+                  className="flex items-center gap-3 p-3 rounded-lg border border-zinc-800 bg-zinc-950/30"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{apiKey.name}</span>
+                      <code className="text-xs text-zinc-500">{apiKey.prefix}…</code>
+                      {isExpired && (
+                        <span className="px-2 py-0.5 rounded-full text-[10px] bg-red-500/20 text-red-400">Expired</span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {apiKey.scopes.map((scope) => (
+                        <span key={scope} className="px-2 py-0.5 rounded text-[10px] bg-zinc-800 text-zinc-300">
+                          {scope}
+                        </span>
+                      ))}
+                    </div>
+                    <p className="text-[11px] text-zinc-500 mt-1">
+                      Expires {formatDate(apiKey.expiresAt)} · Last used{" "}
+                      {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "never"}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(apiKey)}
+                    className="text-zinc-500 hover:text-red-400 hover:bg-red-400/10"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { toast } from "sonner";
@@ -24,6 +24,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Form,
   FormControl,
@@ -35,8 +36,8 @@ import {
 import { useProjectStore } from "@/stores/project-store";
 import { DatabaseType } from "@/types/project";
 
-// Validation schemas for each step
-const mysqlConfigSchema = z.object({
+// Validation schema for the connection step (shared by MySQL and Postgres)
+const sqlConfigSchema = z.object({
   host: z.string().min(1, "Host is required"),
   port: z.number().min(1, "Port must be at least 1").max(65535, "Port must be at most 65535"),
   user: z.string().min(1, "Username is required"),
@@ -50,9 +51,36 @@ const mysqlConfigSchema = z.object({
     .string()
     .min(2, "Project name must be at least 2 characters")
     .max(100, "Project name cannot exceed 100 characters"),
+  importExisting: z.boolean(),
 });
 
-type MySQLFormValues = z.infer<typeof mysqlConfigSchema>;
+type SQLFormValues = z.infer<typeof sqlConfigSchema>;
+
+const mongoConfigSchema = z.object({
+  uri: z
+    .string()
+    .regex(/^mongodb(\+srv)?:\/\//, "URI must start with mongodb:// or mongodb+srv://"),
+  databaseName: sqlConfigSchema.shape.databaseName,
+  projectName: sqlConfigSchema.shape.projectName,
+});
+
+type MongoFormValues = z.infer<typeof mongoConfigSchema>;
+
+// SQLite databases are files managed by the backend, so only names are needed
+const sqliteConfigSchema = z.object({
+  databaseName: sqlConfigSchema.shape.databaseName,
+  projectName: sqlConfigSchema.shape.projectName,
+});
+
+type SQLiteFormValues = z.infer<typeof sqliteConfigSchema>;
+
+type SQLDatabaseType = "mysql" | "postgres";
+
+// Connection defaults and labels for each SQL database
+const SQL_DIALECTS: Record<SQLDatabaseType, { label: string; port: number; user: string }> = {
+  mysql: { label: "MySQL", port: 3306, user: "root" },
+  postgres: { label: "PostgreSQL", port: 5432, user: "postgres" },
+};
 
 interface CreateProjectModalProps {
   isOpen: boolean;
@@ -60,18 +88,18 @@ interface CreateProjectModalProps {
   onSuccess: () => void;
 }
 
-type Step = "select-type" | "mysql-config";
+type Step = "select-type" | "sql-config" | "mongo-config" | "sqlite-config";
 
 export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProjectModalProps) {
   const [step, setStep] = useState<Step>("select-type");
-  const [selectedType, setSelectedType] = useState<DatabaseType | null>(null);
+  const [selectedType, setSelectedType] = useState<SQLDatabaseType | null>(null);
   const [isTestingConnection, setIsTestingConnection] = useState(false);
   const [connectionTested, setConnectionTested] = useState(false);
 
-  const { createProject, testMySQLConnection, isLoading } = useProjectStore();
+  const { createProject, testMySQLConnection, testPostgresConnection, testMongoConnection, isLoading } = useProjectStore();
 
-  const form = useForm<MySQLFormValues>({
-    resolver: zodResolver(mysqlConfigSchema) as never,
+  const form = useForm<SQLFormValues>({
+    resolver: zodResolver(sqlConfigSchema) as never,
     defaultValues: {
       host: "localhost",
       port: 3306,
@@ -79,16 +107,43 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
       password: "",
       databaseName: "",
       projectName: "",
+      importExisting: false,
+    },
+  });
+
+  const mongoForm = useForm<MongoFormValues>({
+    resolver: zodResolver(mongoConfigSchema) as never,
+    defaultValues: {
+      uri: "mongodb://localhost:27017",
+      databaseName: "",
+      projectName: "",
+    },
+  });
+
+  const sqliteForm = useForm<SQLiteFormValues>({
+    resolver: zodResolver(sqliteConfigSchema) as never,
+    defaultValues: {
+      databaseName: "",
+      projectName: "",
     },
   });
 
+  const importExisting = useWatch({ control: form.control, name: "importExisting" });
+  const dialect = SQL_DIALECTS[selectedType || "mysql"];
+
   const handleSelectType = (type: DatabaseType) => {
-    setSelectedType(type);
-    if (type === "mysql") {
-      setStep("mysql-config");
+    if (type === "mysql" || type === "postgres") {
+      setSelectedType(type);
+      form.setValue("port", SQL_DIALECTS[type].port);
+      form.setValue("user", SQL_DIALECTS[type].user);
+      form.setValue("importExisting", false);
+      setStep("sql-config");
+    } else if (type === "sqlite") {
+      setSelectedType(null);
+      setStep("sqlite-config");
     } else {
-      // MongoDB - coming soon
-      toast.info("MongoDB support coming soon!");
+      setSelectedType(null);
+      setStep("mongo-config");
     }
   };
 
@@ -97,19 +152,73 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
     setIsTestingConnection(true);
     setConnectionTested(false);
 
-    const result = await testMySQLConnection({
+    const config = {
       host: values.host,
       port: values.port,
       user: values.user,
       password: values.password,
+    };
+    const result = selectedType === "postgres"
+      ? await testPostgresConnection(config)
+      : await testMySQLConnection(config);
+
+    setIsTestingConnection(false);
+
+    if (result.success) {
+      setConnectionTested(true);
+      toast.success("Connection successful!", {
+        description: `${dialect.label} server is reachable.`,
+      });
+    } else {
+      toast.error("Connection failed", {
+        description: result.message,
+      });
+    }
+  };
+
+  const onSubmit = async (values: SQLFormValues) => {
+    const databaseType = selectedType || "mysql";
+    const config = {
+      host: values.host,
+      port: values.port,
+      user: values.user,
+      password: values.password,
+    };
+    const result = await createProject({
+      name: values.projectName,
+      databaseType,
+      databaseName: values.databaseName,
+      ...(databaseType === "postgres" ? { postgresConfig: config } : { mysqlConfig: config }),
+      importExisting: databaseType === "mysql" && values.importExisting,
     });
 
+    if (result.success) {
+      toast.success("Project created!", {
+        description: values.importExisting
+          ? `Schema of '${values.databaseName}' has been imported.`
+          : `Database '${values.databaseName}' has been created in ${dialect.label}.`,
+      });
+      handleClose();
+      onSuccess();
+    } else {
+      toast.error("Failed to create project", {
+        description: result.message,
+      });
+    }
+  };
+
+  const handleTestMongoConnection = async () => {
+    setIsTestingConnection(true);
+    setConnectionTested(false);
+
+    const result = await testMongoConnection({ uri: mongoForm.getValues("uri") });
+
     setIsTestingConnection(false);
 
     if (result.success) {
       setConnectionTested(true);
       toast.success("Connection successful!", {
-        description: "MySQL server is reachable.",
+        description: "MongoDB server is reachable.",
       });
     } else {
       toast.error("Connection failed", {
@@ -118,22 +227,37 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
     }
   };
 
-  const onSubmit = async (values: MySQLFormValues) => {
+  const onSubmitMongo = async (values: MongoFormValues) => {
+    const result = await createProject({
+      name: values.projectName,
+      databaseType: "mongodb",
+      databaseName: values.databaseName,
+      mongoConfig: { uri: values.uri },
+    });
+
+    if (result.success) {
+      toast.success("Project created!", {
+        description: `Collections will be created in '${values.databaseName}' when you add tables.`,
+      });
+      handleClose();
+      onSuccess();
+    } else {
+      toast.error("Failed to create project", {
+        description: result.message,
+      });
+    }
+  };
+
+  const onSubmitSqlite = async (values: SQLiteFormValues) => {
     const result = await createProject({
       name: values.projectName,
-      databaseType: "mysql",
+      databaseType: "sqlite",
       databaseName: values.databaseName,
-      mysqlConfig: {
-        host: values.host,
-        port: values.port,
-        user: values.user,
-        password: values.password,
-      },
     });
 
     if (result.success) {
       toast.success("Project created!", {
-        description: `Database '${values.databaseName}' has been created in MySQL.`,
+        description: `SQLite database '${values.databaseName}' is ready.`,
       });
       handleClose();
       onSuccess();
@@ -149,6 +273,8 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
     setSelectedType(null);
     setConnectionTested(false);
     form.reset();
+    mongoForm.reset();
+    sqliteForm.reset();
     onClose();
   };
 
@@ -163,12 +289,22 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
       <DialogContent className="sm:max-w-[500px] bg-zinc-900 border-zinc-800 text-white">
         <DialogHeader>
           <DialogTitle className="text-xl font-semibold">
-            {step === "select-type" ? "Create New Project" : "MySQL Configuration"}
+            {step === "select-type"
+              ? "Create New Project"
+              : step === "mongo-config"
+              ? "MongoDB Configuration"
+              : step === "sqlite-config"
+              ? "SQLite Configuration"
+              : `${dialect.label} Configuration`}
           </DialogTitle>
           <DialogDescription className="text-zinc-400">
             {step === "select-type"
               ? "Select the type of database for your project"
-              : "Configure your MySQL connection and create a new database"}
+              : step === "mongo-config"
+              ? "Connect to MongoDB and choose a database for your collections"
+              : step === "sqlite-config"
+              ? "Create a file-based database stored on the server, no connection required"
+              : `Configure your ${dialect.label} connection and create a new database`}
           </DialogDescription>
         </DialogHeader>
 
@@ -188,31 +324,58 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
               </div>
             </button>
 
-            {/* MongoDB Option (Coming Soon) */}
+            {/* PostgreSQL Option */}
+            <button
+              onClick={() => handleSelectType("postgres")}
+              className="group relative p-6 rounded-xl border-2 border-zinc-700 hover:border-indigo-500/50 bg-zinc-800/50 hover:bg-zinc-800 transition-all duration-200 flex flex-col items-center gap-3"
+            >
+              <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-indigo-500 to-sky-600 flex items-center justify-center shadow-lg">
+                <Database className="w-7 h-7 text-white" />
+              </div>
+              <div className="text-center">
+                <p className="font-medium text-white">PostgreSQL</p>
+                <p className="text-xs text-zinc-500 mt-1">Relational Database</p>
+              </div>
+            </button>
+
+            {/* SQLite Option */}
+            <button
+              onClick={() => handleSelectType("sqlite")}
+              className="group relative p-6 rounded-xl border-2 border-zinc-700 hover:border-amber-500/50 bg-zinc-800/50 hover:bg-zinc-800 transition-all duration-200 flex flex-col items-center gap-3"
+            >
+              <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center shadow-lg">
+                <Database className="w-7 h-7 text-white" />
+              </div>
+              <div className="text-center">
+                <p className="font-medium text-white">SQLite</p>
+                <p className="text-xs text-zinc-500 mt-1">File Database</p>
+              </div>
+            </button>
+
+            {/* MongoDB Option */}
             <button
               onClick={() => handleSelectType("mongodb")}
-              className="group relative p-6 rounded-xl border-2 border-zinc-700/50 bg-zinc-800/30 transition-all duration-200 flex flex-col items-center gap-3 opacity-60 cursor-not-allowed"
-              disabled
+              className="group relative p-6 rounded-xl border-2 border-zinc-700 hover:border-green-500/50 bg-zinc-800/50 hover:bg-zinc-800 transition-all duration-200 flex flex-col items-center gap-3"
             >
-              <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-green-500 to-emerald-600 flex items-center justify-center shadow-lg opacity-50">
+              <div className="w-14 h-14 rounded-xl bg-gradient-to-br from-green-500 to-emerald-600 flex items-center justify-center shadow-lg">
                 <Database className="w-7 h-7 text-white" />
               </div>
               <div className="text-center">
-                <p className="font-medium text-zinc-400">MongoDB</p>
-                <p className="text-xs text-zinc-600 mt-1">Coming Soon</p>
+                <p className="font-medium text-white">MongoDB</p>
+                <p className="text-xs text-zinc-500 mt-1">Document Database</p>
               </div>
             </button>
           </div>
         )}
 
-        {step === "mysql-config" && (
+        {step === "sql-config" && (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 py-2">
               {/* Connection Details Section */}
               <div className="space-y-3 p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
                 <div className="flex items-center gap-2 text-sm font-medium text-zinc-300 mb-2">
                   <Server className="w-4 h-4" />
-                  MySQL Connection
+                  {dialect.label} Connection
                 </div>
 
                 <div className="grid grid-cols-2 gap-3">
@@ -243,7 +406,7 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
                         <FormControl>
                           <Input
                             type="number"
-                            placeholder="3306"
+                            placeholder={String(dialect.port)}
                             className="h-9 bg-zinc-900 border-zinc-700 text-white text-sm"
                             {...field}
                           />
@@ -263,7 +426,7 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
                         <FormLabel className="text-zinc-400 text-xs">Username</FormLabel>
                         <FormControl>
                           <Input
-                            placeholder="root"
+                            placeholder={dialect.user}
                             className="h-9 bg-zinc-900 border-zinc-700 text-white text-sm"
                             {...field}
                           />
@@ -352,7 +515,9 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
                     <FormItem>
                       <FormLabel className="text-zinc-400 text-xs">
                         Database Name
-                        <span className="text-zinc-600 ml-1">(will be created in MySQL)</span>
+                        <span className="text-zinc-600 ml-1">
+                          {importExisting ? "(existing database to import)" : `(will be created in ${dialect.label})`}
+                        </span>
                       </FormLabel>
                       <FormControl>
                         <Input
@@ -365,6 +530,28 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
                     </FormItem>
                   )}
                 />
+
+                {/* Importing existing databases is only supported for MySQL */}
+                {selectedType === "mysql" && (
+                  <FormField
+                    control={form.control}
+                    name="importExisting"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            className="border-zinc-600 data-[state=checked]:bg-blue-500 data-[state=checked]:border-blue-500"
+                          />
+                        </FormControl>
+                        <FormLabel className="text-zinc-400 text-xs font-normal cursor-pointer">
+                          Use an existing database and import its tables
+                        </FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                )}
               </div>
 
               {/* Actions */}
@@ -400,6 +587,222 @@ export function CreateProjectModal({ isOpen, onClose, onSuccess }: CreateProject
             </form>
           </Form>
         )}
+
+        {step === "mongo-config" && (
+          <Form {...mongoForm}>
+            <form onSubmit={mongoForm.handleSubmit(onSubmitMongo)} className="space-y-4 py-2">
+              {/* Connection Details Section */}
+              <div className="space-y-3 p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+                <div className="flex items-center gap-2 text-sm font-medium text-zinc-300 mb-2">
+                  <Server className="w-4 h-4" />
+                  MongoDB Connection
+                </div>
+
+                <FormField
+                  control={mongoForm.control}
+                  name="uri"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-zinc-400 text-xs">Connection URI</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="mongodb://localhost:27017"
+                          className="h-9 bg-zinc-900 border-zinc-700 text-white text-sm"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-red-400 text-xs" />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={handleTestMongoConnection}
+                  disabled={isTestingConnection}
+                  className="w-full mt-2 bg-zinc-900 border-zinc-700 text-zinc-300 hover:bg-zinc-800 hover:text-white"
+                >
+                  {isTestingConnection ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Testing...
+                    </>
+                  ) : connectionTested ? (
+                    <>
+                      <Check className="w-4 h-4 mr-2 text-green-400" />
+                      Connection Verified
+                    </>
+                  ) : (
+                    <>
+                      <CircleAlert className="w-4 h-4 mr-2" />
+                      Test Connection
+                    </>
+                  )}
+                </Button>
+              </div>
+
+              {/* Project Details Section */}
+              <div className="space-y-3 p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+                <div className="flex items-center gap-2 text-sm font-medium text-zinc-300 mb-2">
+                  <Database className="w-4 h-4" />
+                  Database Details
+                </div>
+
+                <FormField
+                  control={mongoForm.control}
+                  name="projectName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-zinc-400 text-xs">Project Name</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="My Awesome Project"
+                          className="h-9 bg-zinc-900 border-zinc-700 text-white text-sm"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-red-400 text-xs" />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={mongoForm.control}
+                  name="databaseName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-zinc-400 text-xs">
+                        Database Name
+                        <span className="text-zinc-600 ml-1">(created with its first collection)</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="my_database"
+                          className="h-9 bg-zinc-900 border-zinc-700 text-white text-sm"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-red-400 text-xs" />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Actions */}
+              <div className="flex gap-3 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleBack}
+                  className="flex-1 bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-800 hover:text-white"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </Button>
+
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="flex-1 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-500 hover:to-emerald-500 text-white"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Creating...
+                    </>
+                  ) : (
+                    <>
+                      Create Project
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </>
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+        {step === "sqlite-config" && (
+          <Form {...sqliteForm}>
+            <form onSubmit={sqliteForm.handleSubmit(onSubmitSqlite)} className="space-y-4 py-2">
+              {/* Project Details Section */}
+              <div className="space-y-3 p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+                <div className="flex items-center gap-2 text-sm font-medium text-zinc-300 mb-2">
+                  <Database className="w-4 h-4" />
+                  Database Details
+                </div>
+
+                <FormField
+                  control={sqliteForm.control}
+                  name="projectName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-zinc-400 text-xs">Project Name</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="My Awesome Project"
+                          className="h-9 bg-zinc-900 border-zinc-700 text-white text-sm"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-red-400 text-xs" />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={sqliteForm.control}
+                  name="databaseName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-zinc-400 text-xs">Database Name</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="my_database"
+                          className="h-9 bg-zinc-900 border-zinc-700 text-white text-sm"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-red-400 text-xs" />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Actions */}
+              <div className="flex gap-3 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleBack}
+                  className="flex-1 bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-800 hover:text-white"
+                >
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </Button>
+
+                <Button
+                  type="submit"
+                  disabled={isLoading}
+                  className="flex-1 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 text-white"
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Creating...
+                    </>
+                  ) : (
+                    <>
+                      Create Project
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </>
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { Columns3 } from "lucide-react";
@@ -33,36 +33,18 @@ import {
   FormMessage,
   FormDescription,
 } from "@/components/ui/form";
-
-// MySQL data types grouped by category
-const MYSQL_TYPES = [
-  // Numeric
-  { value: "INT", label: "INT", category: "Numeric" },
-  { value: "BIGINT", label: "BIGINT", category: "Numeric" },
-  { value: "SMALLINT", label: "SMALLINT", category: "Numeric" },
-  { value: "TINYINT", label: "TINYINT", category: "Numeric" },
-  { value: "DECIMAL(10,2)", label: "DECIMAL(10,2)", category: "Numeric" },
-  { value: "FLOAT", label: "FLOAT", category: "Numeric" },
-  { value: "DOUBLE", label: "DOUBLE", category: "Numeric" },
-  // String
-  { value: "VARCHAR(255)", label: "VARCHAR(255)", category: "String" },
-  { value: "VARCHAR(100)", label: "VARCHAR(100)", category: "String" },
-  { value: "VARCHAR(50)", label: "VARCHAR(50)", category: "String" },
-  { value: "CHAR(36)", label: "CHAR(36) - UUID", category: "String" },
-  { value: "TEXT", label: "TEXT", category: "String" },
-  { value: "LONGTEXT", label: "LONGTEXT", category: "String" },
-  { value: "ENUM", label: "ENUM", category: "String" },
-  // Date/Time
-  { value: "DATE", label: "DATE", category: "Date/Time" },
-  { value: "DATETIME", label: "DATETIME", category: "Date/Time" },
-  { value: "TIMESTAMP", label: "TIMESTAMP", category: "Date/Time" },
-  { value: "TIME", label: "TIME", category: "Date/Time" },
-  { value: "YEAR", label: "YEAR", category: "Date/Time" },
-  // Other
-  { value: "BOOLEAN", label: "BOOLEAN", category: "Other" },
-  { value: "JSON", label: "JSON", category: "Other" },
-  { value: "BLOB", label: "BLOB", category: "Other" },
-];
+import { useWorkspaceStore } from "@/stores/workspace-store";
+import {
+  applicableTypeParams,
+  ColumnTypeParams,
+  defaultTypeParams,
+  getColumnTypes,
+  hasTypeParams,
+  isEnumType,
+  validateTypeParams,
+} from "@/lib/column-types";
+import { EnumValuesEditor } from "@/components/workspace/enum-values-editor";
+import { ColumnTypeParamsFields, columnTypeParamsSchema } from "@/components/workspace/column-type-params";
 
 const addColumnSchema = z.object({
   name: z
@@ -77,6 +59,11 @@ const addColumnSchema = z.object({
   isAutoIncrement: z.boolean().default(false),
   defaultValue: z.string().optional(),
   checkConstraint: z.string().optional(),
+  enumValues: z.array(z.string()).default([]),
+  typeParams: columnTypeParamsSchema.default({}),
+}).refine((values) => !isEnumType(values.type) || values.enumValues.length > 0, {
+  message: "Add at least one allowed value",
+  path: ["enumValues"],
 });
 
 type AddColumnFormValues = z.infer<typeof addColumnSchema>;
@@ -93,11 +80,15 @@ interface AddColumnDialogProps {
     isAutoIncrement: boolean;
     defaultValue?: string;
     checkConstraint?: string;
-  }) => void;
+    enumValues?: string[];
+  } & ColumnTypeParams) => void;
   tableName: string;
 }
 
 export function AddColumnDialog({ isOpen, onClose, onConfirm, tableName }: AddColumnDialogProps) {
+  const databaseType = useWorkspaceStore((state) => state.databaseType);
+  const columnTypes = getColumnTypes(databaseType);
+
   const form = useForm<AddColumnFormValues>({
     resolver: zodResolver(addColumnSchema) as never,
     defaultValues: {
@@ -109,11 +100,15 @@ export function AddColumnDialog({ isOpen, onClose, onConfirm, tableName }: AddCo
       isAutoIncrement: false,
       defaultValue: "",
       checkConstraint: "",
+      enumValues: [],
+      typeParams: {},
     },
   });
 
-  const isPrimaryKey = form.watch("isPrimaryKey");
-  const selectedType = form.watch("type");
+  const isPrimaryKey = useWatch({ control: form.control, name: "isPrimaryKey" });
+  const selectedType = useWatch({ control: form.control, name: "type" });
+  const selectedOption = columnTypes.find((option) => option.value === selectedType);
+  const isMySQL = databaseType === "mysql";
 
   // Auto-set autoIncrement when primary key is selected with INT type
   useEffect(() => {
@@ -135,11 +130,20 @@ export function AddColumnDialog({ isOpen, onClose, onConfirm, tableName }: AddCo
         isAutoIncrement: false,
         defaultValue: "",
         checkConstraint: "",
+        enumValues: [],
+        typeParams: {},
       });
     }
   }, [isOpen, form]);
 
   const onSubmit = (values: AddColumnFormValues) => {
+    const option = columnTypes.find((item) => item.value === values.type);
+    const typeParamsError = validateTypeParams(option, values.typeParams);
+    if (typeParamsError) {
+      form.setError("typeParams", { message: typeParamsError });
+      return;
+    }
+
     onConfirm({
       name: values.name,
       type: values.type,
@@ -149,6 +153,8 @@ export function AddColumnDialog({ isOpen, onClose, onConfirm, tableName }: AddCo
       isAutoIncrement: values.isAutoIncrement,
       defaultValue: values.defaultValue || undefined,
       checkConstraint: values.checkConstraint || undefined,
+      enumValues: isEnumType(values.type) ? values.enumValues : undefined,
+      ...applicableTypeParams(option, values.typeParams, isMySQL),
     });
     form.reset();
   };
@@ -199,14 +205,21 @@ export function AddColumnDialog({ isOpen, onClose, onConfirm, tableName }: AddCo
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel className="text-zinc-300">Data Type</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // A newly picked type starts from its default parameters, such as VARCHAR(255)
+                        form.setValue("typeParams", defaultTypeParams(columnTypes.find((option) => option.value === value)));
+                        form.clearErrors("typeParams");
+                      }}
+                      defaultValue={field.value}>
                       <FormControl>
                         <SelectTrigger className="bg-zinc-800 border-zinc-700 text-white">
                           <SelectValue placeholder="Select type" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent className="bg-zinc-800 border-zinc-700 max-h-[200px]">
-                        {MYSQL_TYPES.map((type) => (
+                        {columnTypes.map((type) => (
                           <SelectItem
                             key={type.value}
                             value={type.value}
@@ -223,6 +236,40 @@ export function AddColumnDialog({ isOpen, onClose, onConfirm, tableName }: AddCo
               />
             </div>
 
+            {/* Length, precision/scale, and MySQL attributes of the picked type */}
+            {hasTypeParams(selectedOption, isMySQL) && selectedOption && (
+              <FormField
+                control={form.control}
+                name="typeParams"
+                render={({ field }) => (
+                  <FormItem>
+                    <ColumnTypeParamsFields
+                      option={selectedOption}
+                      isMySQL={isMySQL}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                    <FormMessage className="text-red-400 text-xs" />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Allowed values of ENUM and SET columns */}
+            {isEnumType(selectedType || "") && (
+              <FormField
+                control={form.control}
+                name="enumValues"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-zinc-300">Allowed Values</FormLabel>
+                    <EnumValuesEditor values={field.value} onChange={field.onChange} />
+                    <FormMessage className="text-red-400 text-xs" />
+                  </FormItem>
+                )}
+              />
+            )}
+
             {/* Default Value */}
             <FormField
               control={form.control}
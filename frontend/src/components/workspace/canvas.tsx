@@ -24,6 +24,7 @@ import "@xyflow/react/dist/style.css";
 import { useDroppable } from "@dnd-kit/core";
 import { TableNode } from "./table-node";
 import { useWorkspaceStore, Column, Relationship } from "@/stores/workspace-store";
+import { SyncError } from "@/types/project";
 import { useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { ZoomIn, ZoomOut, Maximize2, X } from "lucide-react";
@@ -32,6 +33,7 @@ import { toast } from "sonner";
 interface CanvasProps {
   onAddColumn: (tableId: string) => void;
   onEditColumn: (tableId: string, column: Column) => void;
+  onEditIndexes: (tableId: string) => void;
 }
 
 // Custom edge component for foreign key relationships
@@ -64,6 +66,10 @@ function ForeignKeyEdge({
     toast.success("Foreign key removed");
   }, [id, deleteRelationship]);
 
+  const { syncError, additionalColumns } = (data || {}) as { syncError?: SyncError } & Partial<Relationship>;
+  // Composite foreign keys are drawn from their first column and labelled with the column count
+  const label = additionalColumns?.length ? `FK ×${additionalColumns.length + 1}` : "FK";
+
   return (
     <>
       <path
@@ -106,17 +112,26 @@ function ForeignKeyEdge({
         requiredExtensions="http://www.w3.org/1999/xhtml"
       >
         <div className="flex items-center justify-center">
-          <span className="text-[10px] px-1.5 py-0.5 rounded bg-purple-500/80 text-white font-medium">
-            FK
-          </span>
+          {syncError ? (
+            <span
+              className="text-[10px] px-1.5 py-0.5 rounded bg-red-500/90 text-white font-medium pointer-events-auto"
+              title={`${syncError.code || "ERROR"}: ${syncError.message}`}
+            >
+              {label} ✕
+            </span>
+          ) : (
+            <span className="text-[10px] px-1.5 py-0.5 rounded bg-purple-500/80 text-white font-medium whitespace-nowrap">
+              {label}
+            </span>
+          )}
         </div>
       </foreignObject>
     </>
   );
 }
 
-function CanvasContent({ onAddColumn, onEditColumn }: CanvasProps) {
-  const { tables, relationships, updateTablePosition, addRelationship } = useWorkspaceStore();
+function CanvasContent({ onAddColumn, onEditColumn, onEditIndexes }: CanvasProps) {
+  const { tables, relationships, syncReport, updateTablePosition, addRelationship, extendRelationship } = useWorkspaceStore();
   const reactFlowInstance = useReactFlow();
   
   const { setNodeRef, isOver } = useDroppable({
@@ -139,6 +154,27 @@ function CanvasContent({ onAddColumn, onEditColumn }: CanvasProps) {
     []
   ) as EdgeTypes;
 
+  // Failed tables and foreign keys from the last sync, keyed by canvas id
+  const tableErrors = useMemo(() => {
+    const errors = new Map<string, SyncError>();
+    syncReport?.tables.forEach((result) => {
+      if (result.tableId && result.status === "failed" && result.error) {
+        errors.set(result.tableId, result.error);
+      }
+    });
+    return errors;
+  }, [syncReport]);
+
+  const foreignKeyErrors = useMemo(() => {
+    const errors = new Map<string, SyncError>();
+    syncReport?.foreignKeys.forEach((result) => {
+      if (result.relationshipId && result.status === "failed" && result.error) {
+        errors.set(result.relationshipId, result.error);
+      }
+    });
+    return errors;
+  }, [syncReport]);
+
   // Convert tables to React Flow nodes
   const initialNodes: Node[] = useMemo(
     () =>
@@ -150,11 +186,14 @@ function CanvasContent({ onAddColumn, onEditColumn }: CanvasProps) {
           label: table.name,
           tableId: table.id,
           columns: table.columns,
+          indexes: table.indexes || [],
+          syncError: tableErrors.get(table.id),
           onAddColumn,
           onEditColumn,
+          onEditIndexes,
         },
       })),
-    [tables, onAddColumn, onEditColumn]
+    [tables, tableErrors, onAddColumn, onEditColumn, onEditIndexes]
   );
 
   // Convert relationships to React Flow edges
@@ -168,14 +207,14 @@ function CanvasContent({ onAddColumn, onEditColumn }: CanvasProps) {
         targetHandle: `${rel.targetTableId}-${rel.targetColumnId}-target`,
         type: 'foreignKey' as const,
         animated: true,
-        style: { stroke: '#a855f7', strokeWidth: 2 },
+        style: { stroke: foreignKeyErrors.has(rel.id) ? '#ef4444' : '#a855f7', strokeWidth: 2 },
         markerEnd: {
           type: MarkerType.ArrowClosed,
-          color: '#a855f7',
+          color: foreignKeyErrors.has(rel.id) ? '#ef4444' : '#a855f7',
         },
-        data: { ...rel },
+        data: { ...rel, syncError: foreignKeyErrors.get(rel.id) },
       })),
-    [relationships]
+    [relationships, foreignKeyErrors]
   );
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
@@ -192,12 +231,15 @@ function CanvasContent({ onAddColumn, onEditColumn }: CanvasProps) {
           label: table.name,
           tableId: table.id,
           columns: table.columns,
+          indexes: table.indexes || [],
+          syncError: tableErrors.get(table.id),
           onAddColumn,
           onEditColumn,
+          onEditIndexes,
         },
       }))
     );
-  }, [tables, setNodes, onAddColumn, onEditColumn]);
+  }, [tables, tableErrors, setNodes, onAddColumn, onEditColumn, onEditIndexes]);
 
   // Sync edges when relationships change
   useEffect(() => {
@@ -210,15 +252,15 @@ function CanvasContent({ onAddColumn, onEditColumn }: CanvasProps) {
         targetHandle: `${rel.targetTableId}-${rel.targetColumnId}-target`,
         type: 'foreignKey' as const,
         animated: true,
-        style: { stroke: '#a855f7', strokeWidth: 2 },
+        style: { stroke: foreignKeyErrors.has(rel.id) ? '#ef4444' : '#a855f7', strokeWidth: 2 },
         markerEnd: {
           type: MarkerType.ArrowClosed,
-          color: '#a855f7',
+          color: foreignKeyErrors.has(rel.id) ? '#ef4444' : '#a855f7',
         },
-        data: { ...rel },
+        data: { ...rel, syncError: foreignKeyErrors.get(rel.id) },
       }))
     );
-  }, [relationships, setEdges]);
+  }, [relationships, foreignKeyErrors, setEdges]);
 
   // Handle node position changes
   const handleNodesChange: OnNodesChange = useCallback(
@@ -297,6 +339,27 @@ function CanvasContent({ onAddColumn, onEditColumn }: CanvasProps) {
         toast.warning(`Hint: "${targetColumn.name}" should be PRIMARY KEY or UNIQUE for foreign key reference`);
       }
 
+      // Connecting another column of a composite primary key extends the foreign key
+      // that already points at part of it, so one constraint covers the whole key
+      const targetPrimaryKey = targetTable.columns.filter(c => c.isPrimaryKey);
+      if (targetColumn.isPrimaryKey && targetPrimaryKey.length > 1) {
+        const partial = relationships.find(rel => {
+          if (rel.sourceTableId !== sourceTable.id || rel.targetTableId !== targetTable.id) return false;
+          const pairs = [rel, ...(rel.additionalColumns || [])];
+          return pairs.length < targetPrimaryKey.length &&
+            pairs.every(pair => targetPrimaryKey.some(c => c.id === pair.targetColumnId)) &&
+            !pairs.some(pair => pair.sourceColumnId === sourceColumnId || pair.targetColumnId === targetColumnId);
+        });
+
+        if (partial) {
+          extendRelationship(partial.id, { sourceColumnId, targetColumnId });
+          toast.success(
+            `Composite foreign key extended: ${sourceTable.name}.${sourceColumn.name} → ${targetTable.name}.${targetColumn.name}`
+          );
+          return;
+        }
+      }
+
       // Create the relationship
       addRelationship({
         sourceTableId: connection.source,
@@ -311,7 +374,7 @@ function CanvasContent({ onAddColumn, onEditColumn }: CanvasProps) {
         `Foreign key created: ${sourceTable.name}.${sourceColumn.name} → ${targetTable.name}.${targetColumn.name}`
       );
     },
-    [tables, addRelationship]
+    [tables, relationships, addRelationship, extendRelationship]
   );
 
   // Fit view to show all nodes
@@ -0,0 +1,126 @@
+"use client";
+
+import * as z from "zod";
+
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ColumnTypeOption, ColumnTypeParams } from "@/lib/column-types";
+
+// Form field for the type parameters; ranges depend on the type and are checked on submit
+export const columnTypeParamsSchema = z.object({
+  length: z.number().optional(),
+  precision: z.number().optional(),
+  scale: z.number().optional(),
+  isUnsigned: z.boolean().optional(),
+  isZerofill: z.boolean().optional(),
+  charset: z.string().optional(),
+  collation: z.string().optional(),
+});
+
+interface ColumnTypeParamsFieldsProps {
+  option: ColumnTypeOption;
+  isMySQL: boolean;
+  value: ColumnTypeParams;
+  onChange: (value: ColumnTypeParams) => void;
+}
+
+// Number inputs report an empty box as undefined rather than NaN
+const toNumber = (input: string): number | undefined => {
+  const parsed = parseInt(input, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Length, precision/scale, UNSIGNED/ZEROFILL and CHARACTER SET/COLLATE of the picked type
+export function ColumnTypeParamsFields({ option, isMySQL, value, onChange }: ColumnTypeParamsFieldsProps) {
+  const update = (updates: ColumnTypeParams) => onChange({ ...value, ...updates });
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg bg-zinc-800/50 border border-zinc-800">
+      {option.precision !== undefined && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block space-y-1.5">
+            <span className="text-xs text-zinc-400">Precision</span>
+            <Input
+              type="number"
+              min={1}
+              value={value.precision ?? ""}
+              onChange={(event) => update({ precision: toNumber(event.target.value) })}
+              placeholder={String(option.precision)}
+              className="h-8 bg-zinc-800 border-zinc-700 text-white text-sm"
+            />
+          </label>
+          <label className="block space-y-1.5">
+            <span className="text-xs text-zinc-400">Scale</span>
+            <Input
+              type="number"
+              min={0}
+              value={value.scale ?? ""}
+              onChange={(event) => update({ scale: toNumber(event.target.value) })}
+              placeholder="0"
+              className="h-8 bg-zinc-800 border-zinc-700 text-white text-sm"
+            />
+          </label>
+        </div>
+      )}
+
+      {option.length !== undefined && (
+        <label className="block space-y-1.5">
+          <span className="text-xs text-zinc-400">Length</span>
+          <Input
+            type="number"
+            min={1}
+            value={value.length ?? ""}
+            onChange={(event) => update({ length: toNumber(event.target.value) })}
+            placeholder={String(option.length)}
+            className="h-8 bg-zinc-800 border-zinc-700 text-white text-sm"
+          />
+        </label>
+      )}
+
+      {isMySQL && option.isNumeric && (
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <Checkbox
+              checked={!!(value.isUnsigned || value.isZerofill)}
+              disabled={!!value.isZerofill}
+              onCheckedChange={(checked) => update({ isUnsigned: checked === true })}
+              className="border-zinc-600 data-[state=checked]:bg-cyan-500 data-[state=checked]:border-cyan-500"
+            />
+            <span className="text-xs text-zinc-300">UNSIGNED</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <Checkbox
+              checked={!!value.isZerofill}
+              onCheckedChange={(checked) => update({ isZerofill: checked === true })}
+              className="border-zinc-600 data-[state=checked]:bg-cyan-500 data-[state=checked]:border-cyan-500"
+            />
+            <span className="text-xs text-zinc-300">ZEROFILL</span>
+          </label>
+        </div>
+      )}
+
+      {isMySQL && option.isText && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block space-y-1.5">
+            <span className="text-xs text-zinc-400">Character Set</span>
+            <Input
+              value={value.charset ?? ""}
+              onChange={(event) => update({ charset: event.target.value })}
+              placeholder="Table default"
+              className="h-8 bg-zinc-800 border-zinc-700 text-white text-sm font-mono"
+            />
+          </label>
+          <label className="block space-y-1.5">
+            <span className="text-xs text-zinc-400">Collation</span>
+            <Input
+              value={value.collation ?? ""}
+              onChange={(event) => update({ collation: event.target.value })}
+              placeholder="Table default"
+              className="h-8 bg-zinc-800 border-zinc-700 text-white text-sm font-mono"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
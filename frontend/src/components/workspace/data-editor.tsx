@@ -1,12 +1,38 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import { X, Plus, Trash2, Save, RefreshCw, Loader2, ChevronLeft, RotateCcw } from "lucide-react";
+import {
+  X,
+  Plus,
+  Trash2,
+  Save,
+  RefreshCw,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+  RotateCcw,
+  Link2,
+  ArrowUp,
+  ArrowDown,
+  Filter,
+  ListChecks,
+  Check,
+  Undo2,
+} from "lucide-react";
+import { v4 as uuidv4 } from "uuid";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Table } from "@/stores/workspace-store";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, useWorkspaceStore } from "@/stores/workspace-store";
 import { toast } from "sonner";
 import api from "@/lib/api";
+import { formatColumnType, getEnumValues } from "@/lib/column-types";
 
 interface DataEditorProps {
   table: Table;
@@ -18,8 +44,44 @@ interface RowData {
   [key: string]: unknown;
   _isNew?: boolean;
   _isModified?: boolean;
+  // Pending changes mode: row marked for deletion, and the values it was loaded with
+  _isDeleted?: boolean;
+  _original?: Record<string, unknown>;
 }
 
+type FilterOperator = "eq" | "neq" | "lt" | "lte" | "gt" | "gte" | "like" | "in" | "between" | "null" | "notnull";
+
+// A condition of the filter bar; `in` and `between` take comma separated values
+interface GridFilter {
+  id: string;
+  column: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+interface GridSort {
+  column: string;
+  direction: "asc" | "desc";
+}
+
+const filterOperators: { value: FilterOperator; label: string }[] = [
+  { value: "eq", label: "=" },
+  { value: "neq", label: "≠" },
+  { value: "lt", label: "<" },
+  { value: "lte", label: "≤" },
+  { value: "gt", label: ">" },
+  { value: "gte", label: "≥" },
+  { value: "like", label: "like" },
+  { value: "in", label: "in" },
+  { value: "between", label: "between" },
+  { value: "null", label: "is null" },
+  { value: "notnull", label: "is not null" },
+];
+
+const pageSizes = [50, 100, 500, 1000];
+
+const ROW_META_KEYS = ["_isNew", "_isModified", "_isDeleted", "_original"];
+
 export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
   const [rows, setRows] = useState<RowData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -28,21 +90,69 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
   const [editingCell, setEditingCell] = useState<{ rowIndex: number; column: string } | null>(null);
   const [editValue, setEditValue] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
+  // Dropdown used instead of the input for ENUM and SET columns
+  const selectRef = useRef<HTMLSelectElement>(null);
+  const { databaseType, relationships } = useWorkspaceStore();
 
-  // Get primary key column
-  const primaryKeyColumn = table.columns.find(col => col.isPrimaryKey);
-  const primaryKeyName = primaryKeyColumn?.name || table.columns[0]?.name || 'id';
+  // Paging, sorting and filtering run on the server for SQL tables
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(100);
+  const [total, setTotal] = useState(0);
+  const [sort, setSort] = useState<GridSort[]>([]);
+  const [filters, setFilters] = useState<GridFilter[]>([]);
+  const [appliedFilters, setAppliedFilters] = useState<GridFilter[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+
+  // Pending changes mode collects edits locally and commits them in one transaction
+  const [pendingMode, setPendingMode] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  // MongoDB collections are edited as documents, addressed by their _id
+  const isMongo = databaseType === "mongodb";
+  const dataPath = isMongo ? "documents" : "data";
+  const [showReferences, setShowReferences] = useState(false);
+  const [referenceFields, setReferenceFields] = useState<string[]>([]);
+  const hasReferences = relationships.some(rel => rel.sourceTableId === table.id);
+
+  // SQL rows are addressed by every primary key column, documents by their _id
+  const primaryKeyNames = isMongo ? ["_id"] : table.columns.filter(col => col.isPrimaryKey).map(col => col.name);
+
+  // Key values a row was loaded with, so a row whose key was edited is still found
+  const rowKey = (row: RowData) =>
+    Object.fromEntries(primaryKeyNames.map(name => [name, (row._original ?? row)[name]]));
+
+  // Update or delete one row; documents keep their _id in the path
+  const rowRequestPath = (row: RowData) =>
+    isMongo ? `/documents/${projectId}/${table.name}/${row._id}` : `/data/${projectId}/${table.name}`;
 
   // Check if table has auto-increment column
-  const hasAutoIncrement = table.columns.some(col => col.isAutoIncrement);
+  const hasAutoIncrement = !isMongo && table.columns.some(col => col.isAutoIncrement);
+
+  // Query string of the current page: `sort=-a,b` and `filter[column][op]=value`
+  const buildQueryParams = useCallback(() => {
+    const params: Record<string, string | number> = { page, pageSize };
+    if (sort.length > 0) {
+      params.sort = sort.map(item => `${item.direction === "desc" ? "-" : ""}${item.column}`).join(",");
+    }
+    appliedFilters.forEach(filter => {
+      params[`filter[${filter.column}][${filter.operator}]`] =
+        filter.operator === "null" || filter.operator === "notnull" ? "" : filter.value;
+    });
+    return params;
+  }, [page, pageSize, sort, appliedFilters]);
 
-  // Fetch data from MySQL
+  // Fetch rows (or documents, with $lookup previews of referenced documents when enabled)
   const fetchData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const response = await api.get(`/data/${projectId}/${table.name}`);
+      const response = await api.get(`/${dataPath}/${projectId}/${table.name}`, {
+        params: isMongo ? (showReferences ? { lookup: true } : undefined) : buildQueryParams(),
+      });
       if (response.data.success) {
-        setRows(response.data.data.rows || []);
+        const fetchedRows = response.data.data.rows || [];
+        setRows(fetchedRows);
+        setTotal(response.data.data.total ?? fetchedRows.length);
+        setReferenceFields(response.data.data.references || []);
       } else {
         toast.error(response.data.message || "Failed to fetch data");
       }
@@ -53,7 +163,7 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
     } finally {
       setIsLoading(false);
     }
-  }, [projectId, table.name]);
+  }, [dataPath, projectId, table.name, showReferences, isMongo, buildQueryParams]);
 
   useEffect(() => {
     fetchData();
@@ -64,9 +174,51 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
     if (editingCell && inputRef.current) {
       inputRef.current.focus();
       inputRef.current.select();
+    } else if (editingCell && selectRef.current) {
+      selectRef.current.focus();
     }
   }, [editingCell]);
 
+  // Click sorts by a column (ascending, descending, off); Shift+click adds it to the current sort
+  const toggleSort = (column: string, addToSort: boolean) => {
+    setSort((current) => {
+      const existing = current.find(item => item.column === column);
+      const others = addToSort ? current.filter(item => item.column !== column) : [];
+      if (!existing) return [...others, { column, direction: "asc" }];
+      if (existing.direction === "asc") {
+        return addToSort
+          ? current.map(item => (item.column === column ? { column, direction: "desc" } : item))
+          : [{ column, direction: "desc" }];
+      }
+      return others;
+    });
+    setPage(1);
+  };
+
+  const addFilter = () => {
+    setFilters([...filters, { id: uuidv4(), column: table.columns[0]?.name || "", operator: "eq", value: "" }]);
+    setShowFilters(true);
+  };
+
+  const updateFilter = (id: string, changes: Partial<GridFilter>) => {
+    setFilters(filters.map(filter => (filter.id === id ? { ...filter, ...changes } : filter)));
+  };
+
+  const removeFilter = (id: string) => {
+    const remaining = filters.filter(filter => filter.id !== id);
+    setFilters(remaining);
+    // Removing a condition applies right away, like clearing it
+    setAppliedFilters(remaining);
+    setPage(1);
+  };
+
+  const applyFilters = () => {
+    setAppliedFilters(filters);
+    setPage(1);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
   // Reset AUTO_INCREMENT for this table
   const handleResetAutoIncrement = async () => {
     setIsResetting(true);
@@ -100,6 +252,22 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
     const row = rows[rowIndex];
     const oldValue = row[column];
 
+    // In pending changes mode the edit is only recorded, next to the row's loaded values
+    if (pendingMode) {
+      const original = row._isNew
+        ? undefined
+        : row._original ?? Object.fromEntries(Object.entries(row).filter(([key]) => !ROW_META_KEYS.includes(key)));
+      const updatedRow: RowData = {
+        ...row,
+        [column]: editValue === "" ? null : editValue,
+        _original: original,
+      };
+      updatedRow._isModified = !!original && table.columns.some(col => isCellChanged(updatedRow, col.name));
+      setRows(rows.map((item, i) => (i === rowIndex ? updatedRow : item)));
+      setEditingCell(null);
+      return;
+    }
+
     // Update local state
     const updatedRows = [...rows];
     updatedRows[rowIndex] = {
@@ -113,10 +281,9 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
     // Save to database if not a new row
     if (!row._isNew && oldValue !== editValue) {
       try {
-        const rowId = row[primaryKeyName];
-        await api.put(`/data/${projectId}/${table.name}/${rowId}`, {
+        await api.put(rowRequestPath(row), {
           rowData: { [column]: editValue === "" ? null : editValue },
-          primaryKeyColumn: primaryKeyName,
+          ...(!isMongo && { key: rowKey(row) }),
         });
         toast.success("Cell updated");
         // Clear modified flag
@@ -182,6 +349,21 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
     }
   };
 
+  // Values of a new row to insert: every column except auto-increment ones
+  const buildInsertData = (row: RowData): Record<string, unknown> => {
+    const rowData: Record<string, unknown> = {};
+
+    // Collect all non-auto-increment columns
+    table.columns.forEach(col => {
+      if (!col.isAutoIncrement && row[col.name] !== "(auto)") {
+        // Include the value even if it's null (MySQL will handle defaults)
+        rowData[col.name] = row[col.name] ?? null;
+      }
+    });
+
+    return rowData;
+  };
+
   // Save new row to database
   const saveNewRow = async (rowIndex: number) => {
     const row = rows[rowIndex];
@@ -189,32 +371,12 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
 
     setIsSaving(true);
     try {
-      const rowData: Record<string, unknown> = {};
-      
-      // Collect all non-auto-increment columns
-      table.columns.forEach(col => {
-        if (!col.isAutoIncrement && row[col.name] !== "(auto)") {
-          // Include the value even if it's null (MySQL will handle defaults)
-          rowData[col.name] = row[col.name];
-        }
-      });
+      const rowData = buildInsertData(row);
 
-      // Check if we have any data to insert
       // If table has only auto-increment columns, we can still insert with empty columns
       const hasOnlyAutoIncrement = table.columns.every(col => col.isAutoIncrement);
-      
-      if (Object.keys(rowData).length === 0 && !hasOnlyAutoIncrement) {
-        // Check if all columns have null values - that's okay, we'll send them
-        const nonAIColumns = table.columns.filter(col => !col.isAutoIncrement);
-        if (nonAIColumns.length > 0) {
-          // Include null values explicitly
-          nonAIColumns.forEach(col => {
-            rowData[col.name] = row[col.name] ?? null;
-          });
-        }
-      }
 
-      await api.post(`/data/${projectId}/${table.name}`, { rowData, allowEmpty: hasOnlyAutoIncrement });
+      await api.post(`/${dataPath}/${projectId}/${table.name}`, { rowData, allowEmpty: hasOnlyAutoIncrement });
       toast.success("Row saved successfully");
       
       // Refresh to get the auto-generated ID
@@ -238,13 +400,16 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
       return;
     }
 
+    // Pending changes mode marks the row; clicking again keeps it
+    if (pendingMode) {
+      setRows(rows.map((item, i) => (i === rowIndex ? { ...item, _isDeleted: !item._isDeleted } : item)));
+      return;
+    }
+
     if (!confirm("Are you sure you want to delete this row?")) return;
 
     try {
-      const rowId = row[primaryKeyName];
-      await api.delete(`/data/${projectId}/${table.name}/${rowId}`, {
-        data: { primaryKeyColumn: primaryKeyName },
-      });
+      await api.delete(rowRequestPath(row), isMongo ? undefined : { data: { key: rowKey(row) } });
       toast.success("Row deleted");
       setRows(rows.filter((_, i) => i !== rowIndex));
     } catch (error: unknown) {
@@ -262,6 +427,54 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
     return String(value);
   };
 
+  // A cell differs from the value it was loaded with (pending changes mode)
+  const isCellChanged = (row: RowData, column: string): boolean =>
+    !!row._original && renderCellValue(row._original[column]) !== renderCellValue(row[column]);
+
+  const pendingInserts = rows.filter(row => row._isNew);
+  const pendingUpdates = rows.filter(row => row._isModified && !row._isDeleted && !row._isNew);
+  const pendingDeletes = rows.filter(row => row._isDeleted && !row._isNew);
+  const pendingCount = pendingInserts.length + pendingUpdates.length + pendingDeletes.length;
+  const hasPendingChanges = pendingMode && pendingCount > 0;
+
+  // Send every pending change in one request; the backend applies all of them or none
+  const commitChanges = async () => {
+    const changes = [
+      ...pendingDeletes.map(row => ({ type: "delete" as const, key: rowKey(row) })),
+      ...pendingUpdates.map(row => ({
+        type: "update" as const,
+        key: rowKey(row),
+        rowData: Object.fromEntries(
+          table.columns.filter(col => isCellChanged(row, col.name)).map(col => [col.name, row[col.name]])
+        ),
+      })),
+      ...pendingInserts.map(row => ({ type: "insert" as const, rowData: buildInsertData(row) })),
+    ];
+
+    setIsCommitting(true);
+    try {
+      const response = await api.post(`/data/${projectId}/${table.name}/batch`, { changes });
+      toast.success(response.data.message || "Changes committed");
+      await fetchData();
+    } catch (error: unknown) {
+      console.error("Error committing changes:", error);
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || "Failed to commit changes");
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (hasPendingChanges && !confirm("Close the editor and discard the pending changes?")) return;
+    onClose();
+  };
+
+  const discardChanges = () => {
+    if (!confirm(`Discard ${pendingCount} pending change${pendingCount === 1 ? "" : "s"}?`)) return;
+    fetchData();
+  };
+
   return (
     <div className="fixed inset-0 z-50 bg-zinc-950/95 flex flex-col">
       {/* Header */}
@@ -270,7 +483,7 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
           <Button
             variant="ghost"
             size="icon"
-            onClick={onClose}
+            onClick={handleClose}
             className="text-zinc-400 hover:text-white hover:bg-zinc-800"
           >
             <ChevronLeft className="w-5 h-5" />
@@ -279,11 +492,12 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
             <h1 className="text-xl font-semibold text-white flex items-center gap-2">
               {table.name}
               <span className="text-sm font-normal text-zinc-500">
-                ({rows.length} rows)
+                ({total.toLocaleString()} rows)
               </span>
             </h1>
             <p className="text-sm text-zinc-500">
               Click any cell to edit • Press Enter to save • Tab to move
+              {!isMongo && " • Click a header to sort, Shift+click to sort by several columns"}
             </p>
           </div>
         </div>
@@ -306,11 +520,82 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
               Reset IDs
             </Button>
           )}
+          {/* Reference previews ($lookup) for MongoDB collections */}
+          {isMongo && hasReferences && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowReferences(!showReferences)}
+              className={`border-zinc-700 hover:bg-zinc-700 hover:text-white ${
+                showReferences ? "bg-cyan-500/20 text-cyan-300" : "bg-zinc-800 text-zinc-300"
+              }`}
+              title="Show the documents each reference field points to"
+            >
+              <Link2 className="w-4 h-4 mr-2" />
+              References
+            </Button>
+          )}
+          {/* Server-side filters for SQL tables */}
+          {!isMongo && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => (filters.length === 0 ? addFilter() : setShowFilters(!showFilters))}
+              className={`border-zinc-700 hover:bg-zinc-700 hover:text-white ${
+                appliedFilters.length > 0 ? "bg-cyan-500/20 text-cyan-300" : "bg-zinc-800 text-zinc-300"
+              }`}
+            >
+              <Filter className="w-4 h-4 mr-2" />
+              Filter{appliedFilters.length > 0 && ` (${appliedFilters.length})`}
+            </Button>
+          )}
+          {/* Pending changes mode: collect edits, then commit or discard them together */}
+          {!isMongo && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPendingMode(!pendingMode)}
+              disabled={hasPendingChanges}
+              className={`border-zinc-700 hover:bg-zinc-700 hover:text-white ${
+                pendingMode ? "bg-amber-500/20 text-amber-300" : "bg-zinc-800 text-zinc-300"
+              }`}
+              title="Collect edits, new rows and deletions, then commit them in one transaction"
+            >
+              <ListChecks className="w-4 h-4 mr-2" />
+              Pending Changes
+            </Button>
+          )}
+          {hasPendingChanges && (
+            <>
+              <span className="text-xs text-amber-300">
+                {pendingCount} pending
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={discardChanges}
+                disabled={isCommitting}
+                className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white"
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Discard
+              </Button>
+              <Button
+                size="sm"
+                onClick={commitChanges}
+                disabled={isCommitting}
+                className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 text-white"
+              >
+                {isCommitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+                Commit
+              </Button>
+            </>
+          )}
           <Button
             variant="outline"
             size="sm"
             onClick={fetchData}
-            disabled={isLoading}
+            disabled={isLoading || hasPendingChanges}
             className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white"
           >
             <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
@@ -328,7 +613,7 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
           <Button
             variant="ghost"
             size="icon"
-            onClick={onClose}
+            onClick={handleClose}
             className="text-zinc-400 hover:text-white hover:bg-zinc-800"
           >
             <X className="w-5 h-5" />
@@ -336,6 +621,97 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
         </div>
       </div>
 
+      {/* Filter bar */}
+      {!isMongo && showFilters && (
+        <div className="px-6 py-3 border-b border-zinc-800 bg-zinc-900/30 space-y-2">
+          {filters.map((filter) => (
+            <div key={filter.id} className="flex items-center gap-2">
+              <Select value={filter.column} onValueChange={(column) => updateFilter(filter.id, { column })}>
+                <SelectTrigger className="h-8 w-48 bg-zinc-800 border-zinc-700 text-white text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-zinc-800 border-zinc-700 max-h-[240px]">
+                  {table.columns.map((column) => (
+                    <SelectItem
+                      key={column.id}
+                      value={column.name}
+                      className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                    >
+                      {column.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={filter.operator}
+                onValueChange={(operator) => updateFilter(filter.id, { operator: operator as FilterOperator })}
+              >
+                <SelectTrigger className="h-8 w-36 bg-zinc-800 border-zinc-700 text-white text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-zinc-800 border-zinc-700">
+                  {filterOperators.map((operator) => (
+                    <SelectItem
+                      key={operator.value}
+                      value={operator.value}
+                      className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                    >
+                      {operator.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {filter.operator !== "null" && filter.operator !== "notnull" && (
+                <Input
+                  value={filter.value}
+                  onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && !hasPendingChanges && applyFilters()}
+                  placeholder={
+                    filter.operator === "in"
+                      ? "a,b,c"
+                      : filter.operator === "between"
+                      ? "from,to"
+                      : filter.operator === "like"
+                      ? "%text%"
+                      : "value"
+                  }
+                  className="h-8 w-64 bg-zinc-800 border-zinc-700 text-white text-sm"
+                />
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeFilter(filter.id)}
+                disabled={hasPendingChanges}
+                className="h-8 w-8 text-zinc-500 hover:text-red-400 hover:bg-red-500/20"
+                title="Remove filter"
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={addFilter}
+              className="text-zinc-400 hover:text-white hover:bg-zinc-800"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Condition
+            </Button>
+            <Button
+              size="sm"
+              onClick={applyFilters}
+              disabled={hasPendingChanges}
+              className="bg-cyan-600 hover:bg-cyan-500 text-white"
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Table */}
       <div className="flex-1 overflow-auto p-6">
         {isLoading ? (
@@ -350,21 +726,47 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
                   <th className="w-12 px-3 py-3 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider border-b border-zinc-800">
                     #
                   </th>
-                  {table.columns.map((column) => (
+                  {table.columns.map((column) => {
+                    const sortIndex = sort.findIndex(item => item.column === column.name);
+                    const columnSort = sort[sortIndex];
+                    return (
+                      <th
+                        key={column.id}
+                        onClick={(e) => !isMongo && !hasPendingChanges && toggleSort(column.name, e.shiftKey)}
+                        className={`px-4 py-3 text-left text-xs font-medium text-zinc-400 uppercase tracking-wider border-b border-zinc-800 min-w-[150px] ${
+                          isMongo ? "" : "cursor-pointer select-none hover:text-white"
+                        }`}
+                      >
+                        <div className="flex items-center gap-2">
+                          {column.isPrimaryKey && <span className="text-yellow-400">🔑</span>}
+                          {column.name}
+                          <span className="text-zinc-600 font-normal normal-case">
+                            {formatColumnType(column)}
+                          </span>
+                          {column.isAutoIncrement && (
+                            <span className="text-[9px] px-1 py-0.5 rounded bg-green-500/20 text-green-400">AI</span>
+                          )}
+                          {columnSort && (
+                            <span className="flex items-center text-cyan-400">
+                              {columnSort.direction === "asc" ? (
+                                <ArrowUp className="w-3 h-3" />
+                              ) : (
+                                <ArrowDown className="w-3 h-3" />
+                              )}
+                              {sort.length > 1 && <span className="text-[9px]">{sortIndex + 1}</span>}
+                            </span>
+                          )}
+                        </div>
+                      </th>
+                    );
+                  })}
+                  {referenceFields.map((field) => (
                     <th
-                      key={column.id}
-                      className="px-4 py-3 text-left text-xs font-medium text-zinc-400 uppercase tracking-wider border-b border-zinc-800 min-w-[150px]"
+                      key={field}
+                      className="px-4 py-3 text-left text-xs font-medium text-cyan-500 uppercase tracking-wider border-b border-zinc-800 min-w-[200px]"
                     >
-                      <div className="flex items-center gap-2">
-                        {column.isPrimaryKey && <span className="text-yellow-400">🔑</span>}
-                        {column.name}
-                        <span className="text-zinc-600 font-normal normal-case">
-                          {column.type}
-                        </span>
-                        {column.isAutoIncrement && (
-                          <span className="text-[9px] px-1 py-0.5 rounded bg-green-500/20 text-green-400">AI</span>
-                        )}
-                      </div>
+                      {field}
+                      <span className="ml-2 text-zinc-600 font-normal normal-case">$lookup</span>
                     </th>
                   ))}
                   <th className="w-24 px-3 py-3 text-left text-xs font-medium text-zinc-500 uppercase tracking-wider border-b border-zinc-800">
@@ -376,10 +778,10 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
                 {rows.length === 0 ? (
                   <tr>
                     <td
-                      colSpan={table.columns.length + 2}
+                      colSpan={table.columns.length + referenceFields.length + 2}
                       className="px-4 py-12 text-center text-zinc-500"
                     >
-                      No data yet. Click "Add Row" to insert data.
+                      {appliedFilters.length > 0 ? "No rows match the filters." : 'No data yet. Click "Add Row" to insert data.'}
                     </td>
                   </tr>
                 ) : (
@@ -388,50 +790,99 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
                       key={rowIndex}
                       className={`border-b border-zinc-800/50 hover:bg-zinc-800/30 transition-colors ${
                         row._isNew ? "bg-green-900/10" : ""
-                      } ${row._isModified ? "bg-yellow-900/10" : ""}`}
+                      } ${row._isModified ? "bg-yellow-900/10" : ""} ${
+                        row._isDeleted ? "bg-red-900/20 line-through opacity-60" : ""
+                      }`}
                     >
                       <td className="px-3 py-2 text-xs text-zinc-600">
-                        {rowIndex + 1}
+                        {isMongo ? rowIndex + 1 : (page - 1) * pageSize + rowIndex + 1}
                       </td>
-                      {table.columns.map((column) => (
+                      {table.columns.map((column) => {
+                        const enumValues = getEnumValues(column);
+                        // SET cells hold a comma separated subset of the values
+                        const isSet = /^SET\b/i.test(column.type.trim());
+                        return (
+                          <td
+                            key={column.id}
+                            className="px-1 py-1 border-l border-zinc-800/30"
+                          >
+                            {editingCell?.rowIndex === rowIndex && editingCell?.column === column.name && enumValues ? (
+                              <select
+                                ref={selectRef}
+                                multiple={isSet}
+                                size={isSet ? Math.min(enumValues.length, 5) : undefined}
+                                value={isSet ? editValue.split(",").filter(Boolean) : editValue}
+                                onChange={(e) =>
+                                  setEditValue(
+                                    isSet
+                                      ? Array.from(e.target.selectedOptions, (option) => option.value).join(",")
+                                      : e.target.value
+                                  )
+                                }
+                                onBlur={saveEdit}
+                                onKeyDown={handleKeyDown}
+                                className={`${isSet ? "" : "h-8 "}w-full rounded-md px-2 text-sm bg-zinc-800 border border-cyan-500 text-white outline-none`}
+                              >
+                                {!isSet && (
+                                  <option value="">{column.isNullable ? "NULL" : "Select a value"}</option>
+                                )}
+                                {enumValues.map((value) => (
+                                  <option key={value} value={value}>
+                                    {value}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : editingCell?.rowIndex === rowIndex && editingCell?.column === column.name ? (
+                              <Input
+                                ref={inputRef}
+                                value={editValue}
+                                onChange={(e) => setEditValue(e.target.value)}
+                                onBlur={saveEdit}
+                                onKeyDown={handleKeyDown}
+                                className="h-8 text-sm bg-zinc-800 border-cyan-500 text-white focus:ring-cyan-500"
+                                disabled={column.isAutoIncrement && !row._isNew}
+                              />
+                            ) : (
+                              <div
+                                onClick={() => {
+                                  if ((column.isAutoIncrement && !row._isNew) || row._isDeleted) return;
+                                  startEditing(rowIndex, column.name, row[column.name]);
+                                }}
+                                title={
+                                  isCellChanged(row, column.name)
+                                    ? `Was: ${renderCellValue(row._original?.[column.name])}`
+                                    : undefined
+                                }
+                                className={`px-3 py-1.5 min-h-[32px] rounded cursor-pointer hover:bg-zinc-800 transition-colors ${
+                                  isCellChanged(row, column.name) ? "bg-amber-500/10 ring-1 ring-amber-500/40" : ""
+                                } ${
+                                  column.isAutoIncrement && !row._isNew
+                                    ? "cursor-not-allowed text-zinc-600"
+                                    : ""
+                                } ${
+                                  row[column.name] === null || row[column.name] === undefined
+                                    ? "text-zinc-600 italic"
+                                    : "text-zinc-300"
+                                }`}
+                              >
+                                {renderCellValue(row[column.name])}
+                              </div>
+                            )}
+                          </td>
+                        );
+                      })}
+                      {referenceFields.map((field) => (
                         <td
-                          key={column.id}
-                          className="px-1 py-1 border-l border-zinc-800/30"
+                          key={field}
+                          className="px-4 py-1.5 border-l border-zinc-800/30 text-xs font-mono text-zinc-500 max-w-[300px] truncate"
+                          title={renderCellValue(row[field])}
                         >
-                          {editingCell?.rowIndex === rowIndex && editingCell?.column === column.name ? (
-                            <Input
-                              ref={inputRef}
-                              value={editValue}
-                              onChange={(e) => setEditValue(e.target.value)}
-                              onBlur={saveEdit}
-                              onKeyDown={handleKeyDown}
-                              className="h-8 text-sm bg-zinc-800 border-cyan-500 text-white focus:ring-cyan-500"
-                              disabled={column.isAutoIncrement && !row._isNew}
-                            />
-                          ) : (
-                            <div
-                              onClick={() => {
-                                if (column.isAutoIncrement && !row._isNew) return;
-                                startEditing(rowIndex, column.name, row[column.name]);
-                              }}
-                              className={`px-3 py-1.5 min-h-[32px] rounded cursor-pointer hover:bg-zinc-800 transition-colors ${
-                                column.isAutoIncrement && !row._isNew
-                                  ? "cursor-not-allowed text-zinc-600"
-                                  : ""
-                              } ${
-                                row[column.name] === null || row[column.name] === undefined
-                                  ? "text-zinc-600 italic"
-                                  : "text-zinc-300"
-                              }`}
-                            >
-                              {renderCellValue(row[column.name])}
-                            </div>
-                          )}
+                          {renderCellValue(row[field])}
                         </td>
                       ))}
                       <td className="px-2 py-1">
                         <div className="flex items-center gap-1">
-                          {row._isNew && (
+                          {row._isNew && !pendingMode && (
                             <Button
                               variant="ghost"
                               size="icon"
@@ -448,9 +899,9 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
                             size="icon"
                             onClick={() => deleteRow(rowIndex)}
                             className="h-7 w-7 text-zinc-500 hover:text-red-400 hover:bg-red-500/20"
-                            title="Delete row"
+                            title={row._isDeleted ? "Keep row" : "Delete row"}
                           >
-                            <Trash2 className="w-3.5 h-3.5" />
+                            {row._isDeleted ? <Undo2 className="w-3.5 h-3.5" /> : <Trash2 className="w-3.5 h-3.5" />}
                           </Button>
                         </div>
                       </td>
@@ -466,10 +917,66 @@ export function DataEditor({ table, projectId, onClose }: DataEditorProps) {
       {/* Footer */}
       <div className="px-6 py-3 border-t border-zinc-800 bg-zinc-900/50 flex items-center justify-between">
         <p className="text-xs text-zinc-600">
-          Primary Key: <span className="text-zinc-400">{primaryKeyName}</span>
+          Primary Key:{" "}
+          <span className="text-zinc-400">{primaryKeyNames.length > 0 ? primaryKeyNames.join(", ") : "none"}</span>
         </p>
+        {!isMongo && (
+          <div className="flex items-center gap-2 text-xs text-zinc-500">
+            <span>
+              {total === 0
+                ? "No rows"
+                : `Rows ${((page - 1) * pageSize + 1).toLocaleString()}–${Math.min(page * pageSize, total).toLocaleString()} of ${total.toLocaleString()}`}
+            </span>
+            <Select
+              value={String(pageSize)}
+              disabled={hasPendingChanges}
+              onValueChange={(value) => {
+                setPageSize(Number(value));
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="h-7 w-24 bg-zinc-800 border-zinc-700 text-white text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                {pageSizes.map((size) => (
+                  <SelectItem
+                    key={size}
+                    value={String(size)}
+                    className="text-white text-xs hover:bg-zinc-700 focus:bg-zinc-700"
+                  >
+                    {size} / page
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1 || isLoading || hasPendingChanges}
+              className="h-7 w-7 text-zinc-400 hover:text-white hover:bg-zinc-800"
+              title="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span>
+              Page {page} of {pageCount.toLocaleString()}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount || isLoading || hasPendingChanges}
+              className="h-7 w-7 text-zinc-400 hover:text-white hover:bg-zinc-800"
+              title="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
         <p className="text-xs text-zinc-600">
-          {table.columns.length} columns • Data synced with MySQL
+          {table.columns.length} {isMongo ? "fields • Documents stored in MongoDB" : `columns • Data synced with ${databaseType === "sqlite" ? "SQLite" : databaseType === "postgres" ? "PostgreSQL" : "MySQL"}`}
         </p>
       </div>
     </div>
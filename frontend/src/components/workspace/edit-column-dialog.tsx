@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { Pencil } from "lucide-react";
@@ -33,31 +33,18 @@ import {
   FormMessage,
   FormDescription,
 } from "@/components/ui/form";
-import { Column } from "@/stores/workspace-store";
-
-// MySQL data types
-const MYSQL_TYPES = [
-  { value: "INT", label: "INT" },
-  { value: "BIGINT", label: "BIGINT" },
-  { value: "SMALLINT", label: "SMALLINT" },
-  { value: "TINYINT", label: "TINYINT" },
-  { value: "DECIMAL(10,2)", label: "DECIMAL(10,2)" },
-  { value: "FLOAT", label: "FLOAT" },
-  { value: "DOUBLE", label: "DOUBLE" },
-  { value: "VARCHAR(255)", label: "VARCHAR(255)" },
-  { value: "VARCHAR(100)", label: "VARCHAR(100)" },
-  { value: "VARCHAR(50)", label: "VARCHAR(50)" },
-  { value: "CHAR(36)", label: "CHAR(36) - UUID" },
-  { value: "TEXT", label: "TEXT" },
-  { value: "LONGTEXT", label: "LONGTEXT" },
-  { value: "DATE", label: "DATE" },
-  { value: "DATETIME", label: "DATETIME" },
-  { value: "TIMESTAMP", label: "TIMESTAMP" },
-  { value: "TIME", label: "TIME" },
-  { value: "BOOLEAN", label: "BOOLEAN" },
-  { value: "JSON", label: "JSON" },
-  { value: "BLOB", label: "BLOB" },
-];
+import { Column, useWorkspaceStore } from "@/stores/workspace-store";
+import {
+  applicableTypeParams,
+  defaultTypeParams,
+  getColumnTypes,
+  hasTypeParams,
+  isEnumType,
+  splitColumnType,
+  validateTypeParams,
+} from "@/lib/column-types";
+import { EnumValuesEditor } from "@/components/workspace/enum-values-editor";
+import { ColumnTypeParamsFields, columnTypeParamsSchema } from "@/components/workspace/column-type-params";
 
 const editColumnSchema = z.object({
   name: z
@@ -72,6 +59,11 @@ const editColumnSchema = z.object({
   isAutoIncrement: z.boolean().default(false),
   defaultValue: z.string().optional(),
   checkConstraint: z.string().optional(),
+  enumValues: z.array(z.string()).default([]),
+  typeParams: columnTypeParamsSchema.default({}),
+}).refine((values) => !isEnumType(values.type) || values.enumValues.length > 0, {
+  message: "Add at least one allowed value",
+  path: ["enumValues"],
 });
 
 type EditColumnFormValues = z.infer<typeof editColumnSchema>;
@@ -85,6 +77,9 @@ interface EditColumnDialogProps {
 }
 
 export function EditColumnDialog({ isOpen, onClose, onConfirm, column, tableName }: EditColumnDialogProps) {
+  const databaseType = useWorkspaceStore((state) => state.databaseType);
+  const columnTypes = getColumnTypes(databaseType);
+
   const form = useForm<EditColumnFormValues>({
     resolver: zodResolver(editColumnSchema) as never,
     defaultValues: {
@@ -96,28 +91,44 @@ export function EditColumnDialog({ isOpen, onClose, onConfirm, column, tableName
       isAutoIncrement: false,
       defaultValue: "",
       checkConstraint: "",
+      enumValues: [],
+      typeParams: {},
     },
   });
 
-  const selectedType = form.watch("type");
+  const selectedType = useWatch({ control: form.control, name: "type" });
+  const selectedOption = columnTypes.find((option) => option.value === selectedType);
+  const isMySQL = databaseType === "mysql";
 
   // Reset form when dialog opens with column data
   useEffect(() => {
     if (isOpen && column) {
+      // Columns saved before types were structured carry their parameters in the type, as VARCHAR(100)
+      const { type, enumValues, length, precision, scale, isUnsigned, isZerofill, charset, collation } =
+        splitColumnType(column);
       form.reset({
         name: column.name,
-        type: column.type,
+        type,
         isPrimaryKey: column.isPrimaryKey,
         isNullable: column.isNullable,
         isUnique: column.isUnique || false,
         isAutoIncrement: column.isAutoIncrement || false,
         defaultValue: column.defaultValue || "",
         checkConstraint: column.checkConstraint || "",
+        enumValues: enumValues || [],
+        typeParams: { length, precision, scale, isUnsigned, isZerofill, charset, collation },
       });
     }
   }, [isOpen, column, form]);
 
   const onSubmit = (values: EditColumnFormValues) => {
+    const option = columnTypes.find((item) => item.value === values.type);
+    const typeParamsError = validateTypeParams(option, values.typeParams);
+    if (typeParamsError) {
+      form.setError("typeParams", { message: typeParamsError });
+      return;
+    }
+
     onConfirm({
       name: values.name,
       type: values.type,
@@ -127,6 +138,8 @@ export function EditColumnDialog({ isOpen, onClose, onConfirm, column, tableName
       isAutoIncrement: values.isAutoIncrement,
       defaultValue: values.defaultValue || undefined,
       checkConstraint: values.checkConstraint || undefined,
+      enumValues: isEnumType(values.type) ? values.enumValues : undefined,
+      ...applicableTypeParams(option, values.typeParams, isMySQL),
     });
   };
 
@@ -177,14 +190,21 @@ export function EditColumnDialog({ isOpen, onClose, onConfirm, column, tableName
                 render={({ field }) => (
                   <FormItem>
                     <FormLabel className="text-zinc-300">Data Type</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // A newly picked type starts from its default parameters, such as VARCHAR(255)
+                        form.setValue("typeParams", defaultTypeParams(columnTypes.find((option) => option.value === value)));
+                        form.clearErrors("typeParams");
+                      }}
+                      value={field.value}>
                       <FormControl>
                         <SelectTrigger className="bg-zinc-800 border-zinc-700 text-white">
                           <SelectValue placeholder="Select type" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent className="bg-zinc-800 border-zinc-700 max-h-[200px]">
-                        {MYSQL_TYPES.map((type) => (
+                        {columnTypes.map((type) => (
                           <SelectItem
                             key={type.value}
                             value={type.value}
@@ -201,6 +221,40 @@ export function EditColumnDialog({ isOpen, onClose, onConfirm, column, tableName
               />
             </div>
 
+            {/* Length, precision/scale, and MySQL attributes of the picked type */}
+            {hasTypeParams(selectedOption, isMySQL) && selectedOption && (
+              <FormField
+                control={form.control}
+                name="typeParams"
+                render={({ field }) => (
+                  <FormItem>
+                    <ColumnTypeParamsFields
+                      option={selectedOption}
+                      isMySQL={isMySQL}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                    <FormMessage className="text-red-400 text-xs" />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Allowed values of ENUM and SET columns */}
+            {isEnumType(selectedType || "") && (
+              <FormField
+                control={form.control}
+                name="enumValues"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-zinc-300">Allowed Values</FormLabel>
+                    <EnumValuesEditor values={field.value} onChange={field.onChange} />
+                    <FormMessage className="text-red-400 text-xs" />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="defaultValue"
@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface EnumValuesEditorProps {
+  values: string[];
+  onChange: (values: string[]) => void;
+}
+
+// Ordered list of the values an ENUM or SET column accepts
+export function EnumValuesEditor({ values, onChange }: EnumValuesEditorProps) {
+  const [draft, setDraft] = useState("");
+
+  const isDuplicate = values.includes(draft.trim());
+
+  const handleAdd = () => {
+    const value = draft.trim();
+    if (!value || isDuplicate) return;
+    onChange([...values, value]);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={(event) => {
+            // Enter adds the value instead of submitting the column form
+            if (event.key === "Enter") {
+              event.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Add a value and press Enter"
+          className="bg-zinc-800 border-zinc-700 text-white"
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={handleAdd}
+          disabled={!draft.trim() || isDuplicate}
+          className="text-zinc-400 hover:text-white hover:bg-zinc-800"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {values.map((value) => (
+            <span
+              key={value}
+              className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded bg-zinc-800 border border-zinc-700 text-xs text-zinc-200 font-mono"
+            >
+              {value}
+              <button
+                type="button"
+                onClick={() => onChange(values.filter((item) => item !== value))}
+                className="p-0.5 rounded text-zinc-500 hover:text-red-400 hover:bg-red-400/10"
+                title={`Remove ${value}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { FileCode, Loader2, Download, Copy } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useWorkspaceStore } from "@/stores/workspace-store";
+import { ExportFormat } from "@/types/project";
+import api from "@/lib/api";
+
+type SQLDialect = "mysql" | "postgres" | "sqlite";
+
+const DIALECTS: { value: SQLDialect; label: string }[] = [
+  { value: "mysql", label: "MySQL" },
+  { value: "postgres", label: "PostgreSQL" },
+  { value: "sqlite", label: "SQLite" },
+];
+
+const FORMATS: { value: ExportFormat; label: string; extension: string; fileName?: string; description: string }[] = [
+  { value: "sql", label: "SQL DDL", extension: "sql", description: "CREATE TABLE script for the canvas, with tables ordered by their foreign keys" },
+  { value: "dbml", label: "DBML", extension: "dbml", description: "DBML for dbdiagram.io, with column settings and Refs" },
+  { value: "mermaid", label: "Mermaid ERD", extension: "mmd", description: "Mermaid erDiagram for design docs and pull requests" },
+  { value: "prisma", label: "Prisma schema", extension: "prisma", fileName: "schema.prisma", description: "Prisma models with relations on both sides and the datasource for this project" },
+  { value: "typescript", label: "TypeScript + Zod", extension: "ts", description: "Row and insert interfaces per table with matching Zod validators" },
+];
+
+interface ExportSchemaDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+export function ExportSchemaDialog({ isOpen, onClose, projectId }: ExportSchemaDialogProps) {
+  const { databaseType, databaseName } = useWorkspaceStore();
+  const [format, setFormat] = useState<ExportFormat>("sql");
+  const [dialect, setDialect] = useState<SQLDialect>("mysql");
+  const [script, setScript] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Start from the project's own dialect each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDialect(databaseType === "postgres" || databaseType === "sqlite" ? databaseType : "mysql");
+    }
+  }, [isOpen, databaseType]);
+
+  const fetchScript = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.get(`/projects/${projectId}/export/${format}`, {
+        params: format === "sql" ? { dialect } : undefined,
+        responseType: "text",
+      });
+      setScript(response.data as string);
+    } catch (error: unknown) {
+      console.error("Error exporting schema:", error);
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || "Failed to export schema");
+      setScript("");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, format, dialect]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchScript();
+    }
+  }, [isOpen, fetchScript]);
+
+  const selectedFormat = FORMATS.find((option) => option.value === format) ?? FORMATS[0];
+
+  const handleDownload = () => {
+    const blob = new Blob([script], { type: format === "sql" ? "application/sql" : "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = format === "sql"
+      ? `${databaseName || "schema"}.${dialect}.sql`
+      : selectedFormat.fileName || `${databaseName || "schema"}.${selectedFormat.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(script);
+    toast.success(`${selectedFormat.label} copied to clipboard`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] bg-zinc-900 border-zinc-800 text-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-blue-500 to-cyan-600 flex items-center justify-center">
+              <FileCode className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">Export Schema</DialogTitle>
+              <DialogDescription className="text-zinc-400 text-sm">
+                {selectedFormat.description}
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-zinc-400">Format</span>
+          <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+            <SelectTrigger className="w-40 bg-zinc-800 border-zinc-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-zinc-800 border-zinc-700">
+              {FORMATS.map((option) => (
+                <SelectItem
+                  key={option.value}
+                  value={option.value}
+                  className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                >
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {format === "sql" && (
+            <>
+              <span className="text-xs text-zinc-400">Dialect</span>
+              <Select value={dialect} onValueChange={(value) => setDialect(value as SQLDialect)}>
+                <SelectTrigger className="w-40 bg-zinc-800 border-zinc-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-zinc-800 border-zinc-700">
+                  {DIALECTS.map((option) => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-6 h-6 animate-spin text-zinc-500" />
+          </div>
+        ) : (
+          <pre className="text-xs text-zinc-400 font-mono whitespace-pre-wrap break-all bg-zinc-950/50 rounded p-3 max-h-[50vh] overflow-y-auto">
+            {script}
+          </pre>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleCopy}
+            disabled={isLoading || !script}
+            className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white"
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            Copy
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={isLoading || !script}
+            className="bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500 text-white"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download .{selectedFormat.extension}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
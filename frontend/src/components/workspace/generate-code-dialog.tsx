@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Boxes, Loader2, Download } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useWorkspaceStore } from "@/stores/workspace-store";
+import api from "@/lib/api";
+
+type OrmTarget = "typeorm" | "sequelize" | "drizzle";
+type SQLDialect = "mysql" | "postgres" | "sqlite";
+
+const TARGETS: { value: OrmTarget; label: string; files: string }[] = [
+  { value: "typeorm", label: "TypeORM", files: "entities/<Entity>.ts with decorated columns and relations, plus entities/index.ts" },
+  { value: "sequelize", label: "Sequelize", files: "models/<Model>.ts with typed attributes, plus models/index.ts declaring the associations" },
+  { value: "drizzle", label: "Drizzle", files: "schema/<table>.ts table definitions, schema/relations.ts and schema/index.ts" },
+];
+
+const DIALECTS: { value: SQLDialect; label: string }[] = [
+  { value: "mysql", label: "MySQL" },
+  { value: "postgres", label: "PostgreSQL" },
+  { value: "sqlite", label: "SQLite" },
+];
+
+interface GenerateCodeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+export function GenerateCodeDialog({ isOpen, onClose, projectId }: GenerateCodeDialogProps) {
+  const { databaseType, databaseName } = useWorkspaceStore();
+  const [target, setTarget] = useState<OrmTarget>("typeorm");
+  const [dialect, setDialect] = useState<SQLDialect>("mysql");
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Start from the project's own dialect each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setDialect(databaseType === "postgres" || databaseType === "sqlite" ? databaseType : "mysql");
+    }
+  }, [isOpen, databaseType]);
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await api.get(`/projects/${projectId}/generate/${target}`, {
+        params: { dialect },
+        responseType: "blob",
+      });
+      const url = URL.createObjectURL(response.data as Blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${databaseName || "schema"}.${target}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      console.error("Error generating ORM code:", error);
+      // Blob responses carry the JSON error body as a Blob too
+      const err = error as { response?: { data?: Blob } };
+      const body = err.response?.data ? await err.response.data.text().catch(() => "") : "";
+      let message = "Failed to generate code";
+      try {
+        message = (JSON.parse(body) as { message?: string }).message || message;
+      } catch {
+        // Not a JSON error body
+      }
+      toast.error(message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const selectedTarget = TARGETS.find((option) => option.value === target) ?? TARGETS[0];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px] bg-zinc-900 border-zinc-800 text-white">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-violet-500 to-fuchsia-600 flex items-center justify-center">
+              <Boxes className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">Generate ORM Code</DialogTitle>
+              <DialogDescription className="text-zinc-400 text-sm">
+                TypeScript models for every table and relationship on the canvas, as a zip
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <span className="text-xs text-zinc-400">ORM</span>
+            <Select value={target} onValueChange={(value) => setTarget(value as OrmTarget)}>
+              <SelectTrigger className="w-full bg-zinc-800 border-zinc-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                {TARGETS.map((option) => (
+                  <SelectItem
+                    key={option.value}
+                    value={option.value}
+                    className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                  >
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-zinc-400">Dialect</span>
+            <Select value={dialect} onValueChange={(value) => setDialect(value as SQLDialect)}>
+              <SelectTrigger className="w-full bg-zinc-800 border-zinc-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                {DIALECTS.map((option) => (
+                  <SelectItem
+                    key={option.value}
+                    value={option.value}
+                    className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                  >
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <p className="text-xs text-zinc-500 bg-zinc-950/50 rounded p-3 font-mono">
+          {selectedTarget.files}
+        </p>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={isGenerating}
+            className="bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-500 hover:to-fuchsia-500 text-white"
+          >
+            {isGenerating ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Download .zip
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
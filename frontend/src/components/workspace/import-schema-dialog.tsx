@@ -0,0 +1,192 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { FileUp, Loader2, Upload, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useWorkspaceStore } from "@/stores/workspace-store";
+import { SchemaTextFormat } from "@/types/project";
+
+const FORMATS: { value: SchemaTextFormat; label: string; placeholder: string }[] = [
+  { value: "sql", label: "SQL DDL", placeholder: "CREATE TABLE users (id INT PRIMARY KEY AUTO_INCREMENT, ...);" },
+  { value: "dbml", label: "DBML", placeholder: "Table users {\n  id int [pk, increment]\n}" },
+  { value: "mermaid", label: "Mermaid ERD", placeholder: "erDiagram\n    users {\n        int id PK\n    }" },
+];
+
+// Pick the format from the file extension; anything else keeps the current selection
+const formatFromFileName = (name: string): SchemaTextFormat | null => {
+  const extension = name.split(".").pop()?.toLowerCase();
+  if (extension === "sql") return "sql";
+  if (extension === "dbml") return "dbml";
+  if (extension === "mmd" || extension === "mermaid") return "mermaid";
+  return null;
+};
+
+interface ImportSchemaDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ImportSchemaDialog({ isOpen, onClose }: ImportSchemaDialogProps) {
+  const { importFromText } = useWorkspaceStore();
+  const [format, setFormat] = useState<SchemaTextFormat>("sql");
+  const [text, setText] = useState("");
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFormat(formatFromFileName(file.name) ?? format);
+    setText(await file.text());
+    setWarnings([]);
+    event.target.value = "";
+  };
+
+  const handleImport = async () => {
+    if (!confirm("Replace the canvas with the tables in this schema?")) return;
+
+    setIsImporting(true);
+    const result = await importFromText(format, text);
+    setIsImporting(false);
+    setWarnings(result.warnings);
+
+    if (!result.success) {
+      toast.error("Import failed", { description: result.message });
+      return;
+    }
+
+    if (result.warnings.length > 0) {
+      toast.warning(result.message);
+    } else {
+      toast.success(result.message);
+      handleClose();
+    }
+  };
+
+  const handleClose = () => {
+    setText("");
+    setWarnings([]);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[700px] bg-zinc-900 border-zinc-800 text-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center">
+              <FileUp className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">Import Schema</DialogTitle>
+              <DialogDescription className="text-zinc-400 text-sm">
+                Upload or paste a SQL DDL script, DBML or a Mermaid erDiagram to rebuild the canvas
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".sql,.dbml,.mmd,.mermaid,.md,text/plain"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-zinc-400">Format</span>
+            <Select value={format} onValueChange={(value) => setFormat(value as SchemaTextFormat)}>
+              <SelectTrigger className="w-40 bg-zinc-800 border-zinc-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-zinc-800 border-zinc-700">
+                {FORMATS.map((option) => (
+                  <SelectItem
+                    key={option.value}
+                    value={option.value}
+                    className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                  >
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Choose file
+            </Button>
+          </div>
+
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={FORMATS.find((option) => option.value === format)?.placeholder}
+            spellCheck={false}
+            className="w-full h-64 rounded-md bg-zinc-950/50 border border-zinc-800 p-3 text-xs font-mono text-zinc-300 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600 resize-none"
+          />
+
+          {warnings.length > 0 && (
+            <div className="rounded-lg border border-amber-500/30 bg-amber-500/10 p-3">
+              <p className="text-xs font-medium text-amber-400 flex items-center gap-2 mb-1">
+                <AlertTriangle className="w-3 h-3" />
+                {warnings.length} item{warnings.length !== 1 ? "s" : ""} could not be mapped
+              </p>
+              <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+                {warnings.map((warning, i) => (
+                  <li key={i} className="text-xs text-amber-300/80">• {warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleClose}
+            className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white"
+          >
+            {warnings.length > 0 ? "Close" : "Cancel"}
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || !text.trim()}
+            className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-500 hover:to-teal-500 text-white"
+          >
+            {isImporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <FileUp className="w-4 h-4 mr-2" />
+            )}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,332 @@
+"use client";
+
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { ListTree, Plus, Trash2, ArrowUp, ArrowDown, X } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { IndexColumn, IndexOrder, Table, TableIndex, useWorkspaceStore } from "@/stores/workspace-store";
+import { formatColumnType } from "@/lib/column-types";
+
+interface IndexEditorDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (indexes: TableIndex[]) => void;
+  table: Table | null;
+}
+
+// Name used when the index name is left empty, e.g. idx_posts_author_id_created_at
+const defaultIndexName = (table: Table, index: TableIndex): string => {
+  const columnNames = index.columns
+    .map((part) => table.columns.find((col) => col.id === part.columnId)?.name)
+    .filter(Boolean);
+  return `${index.isUnique ? "uq" : "idx"}_${table.name}_${columnNames.join("_")}`.slice(0, 64);
+};
+
+export function IndexEditorDialog({ isOpen, onClose, onConfirm, table }: IndexEditorDialogProps) {
+  const databaseType = useWorkspaceStore((state) => state.databaseType);
+  const isMySQL = databaseType === "mysql";
+  // Indexes being edited; applied to the table only on save. The page remounts the dialog
+  // (keyed by table) each time it opens, so this starts from the saved indexes.
+  const [indexes, setIndexes] = useState<TableIndex[]>(table?.indexes || []);
+
+  if (!table) return null;
+
+  const updateIndex = (indexId: string, updates: Partial<TableIndex>) => {
+    setIndexes((current) => current.map((index) => (index.id === indexId ? { ...index, ...updates } : index)));
+  };
+
+  const updateIndexColumns = (indexId: string, update: (columns: IndexColumn[]) => IndexColumn[]) => {
+    setIndexes((current) =>
+      current.map((index) => (index.id === indexId ? { ...index, columns: update(index.columns) } : index))
+    );
+  };
+
+  const handleAddIndex = () => {
+    const firstColumn = table.columns.find((col) => !col.isPrimaryKey) || table.columns[0];
+    setIndexes((current) => [
+      ...current,
+      { id: uuidv4(), name: "", columns: firstColumn ? [{ columnId: firstColumn.id }] : [] },
+    ]);
+  };
+
+  const handleAddColumn = (index: TableIndex) => {
+    const nextColumn = table.columns.find((col) => !index.columns.some((part) => part.columnId === col.id));
+    if (!nextColumn) return;
+    updateIndexColumns(index.id, (columns) => [...columns, { columnId: nextColumn.id }]);
+  };
+
+  // Swap a key part with its neighbour; column order matters for which queries an index serves
+  const moveColumn = (indexId: string, position: number, offset: number) => {
+    updateIndexColumns(indexId, (columns) => {
+      const target = position + offset;
+      if (target < 0 || target >= columns.length) return columns;
+      const reordered = [...columns];
+      [reordered[position], reordered[target]] = [reordered[target], reordered[position]];
+      return reordered;
+    });
+  };
+
+  const handleSave = () => {
+    const named = indexes.map((index) => ({ ...index, name: index.name.trim() || defaultIndexName(table, index) }));
+
+    for (const index of named) {
+      if (index.columns.length === 0) {
+        toast.error(`Index "${index.name}" needs at least one column`);
+        return;
+      }
+      if (new Set(index.columns.map((part) => part.columnId)).size !== index.columns.length) {
+        toast.error(`Index "${index.name}" lists the same column twice`);
+        return;
+      }
+      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(index.name)) {
+        toast.error(`Index name "${index.name}" may only use letters, numbers, and underscores`);
+        return;
+      }
+    }
+    if (new Set(named.map((index) => index.name)).size !== named.length) {
+      toast.error("Index names must be unique within the table");
+      return;
+    }
+
+    onConfirm(named);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] bg-zinc-900 border-zinc-800 text-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-teal-500 to-emerald-600 flex items-center justify-center">
+              <ListTree className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">Indexes</DialogTitle>
+              <DialogDescription className="text-zinc-400 text-sm">
+                Secondary and composite indexes on <span className="text-zinc-300">{table.name}</span>
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {indexes.length === 0 && (
+            <p className="text-center text-sm text-zinc-500 py-6">No indexes yet</p>
+          )}
+
+          {indexes.map((index) => (
+            <div key={index.id} className="space-y-3 p-4 rounded-xl bg-zinc-800/50 border border-zinc-700/50">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={index.name}
+                  onChange={(event) => updateIndex(index.id, { name: event.target.value })}
+                  placeholder={defaultIndexName(table, index)}
+                  className="h-8 flex-1 bg-zinc-900 border-zinc-700 text-white text-sm font-mono"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIndexes((current) => current.filter((item) => item.id !== index.id))}
+                  className="h-8 w-8 p-0 text-zinc-500 hover:text-red-400 hover:bg-red-400/10"
+                  title="Delete index"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <Checkbox
+                    checked={!!index.isUnique}
+                    onCheckedChange={(checked) =>
+                      updateIndex(index.id, { isUnique: checked === true, ...(checked === true && { isFulltext: false }) })
+                    }
+                    className="border-zinc-600 data-[state=checked]:bg-teal-500 data-[state=checked]:border-teal-500"
+                  />
+                  <span className="text-xs text-zinc-300">Unique</span>
+                </label>
+                {isMySQL && (
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <Checkbox
+                      checked={!!index.isFulltext}
+                      onCheckedChange={(checked) =>
+                        updateIndex(index.id, { isFulltext: checked === true, ...(checked === true && { isUnique: false }) })
+                      }
+                      className="border-zinc-600 data-[state=checked]:bg-teal-500 data-[state=checked]:border-teal-500"
+                    />
+                    <span className="text-xs text-zinc-300">FULLTEXT</span>
+                  </label>
+                )}
+              </div>
+
+              {/* Key parts, in index order */}
+              <div className="space-y-2">
+                {index.columns.map((part, position) => (
+                  <div key={`${part.columnId}-${position}`} className="flex items-center gap-2">
+                    <span className="w-4 text-[10px] text-zinc-500 text-right">{position + 1}</span>
+                    <Select
+                      value={part.columnId}
+                      onValueChange={(columnId) =>
+                        updateIndexColumns(index.id, (columns) =>
+                          columns.map((item, i) => (i === position ? { ...item, columnId } : item))
+                        )
+                      }
+                    >
+                      <SelectTrigger className="h-8 flex-1 bg-zinc-900 border-zinc-700 text-white text-sm">
+                        <SelectValue placeholder="Column" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-zinc-800 border-zinc-700">
+                        {table.columns.map((col) => (
+                          <SelectItem
+                            key={col.id}
+                            value={col.id}
+                            className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                          >
+                            {col.name} <span className="text-zinc-500">{formatColumnType(col)}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {!index.isFulltext && (
+                      <Select
+                        value={part.order || "ASC"}
+                        onValueChange={(order) =>
+                          updateIndexColumns(index.id, (columns) =>
+                            columns.map((item, i) =>
+                              i === position ? { ...item, order: order === "DESC" ? "DESC" : undefined } : item
+                            )
+                          )
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-20 bg-zinc-900 border-zinc-700 text-white text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-zinc-800 border-zinc-700">
+                          {(["ASC", "DESC"] as IndexOrder[]).map((order) => (
+                            <SelectItem
+                              key={order}
+                              value={order}
+                              className="text-white hover:bg-zinc-700 focus:bg-zinc-700"
+                            >
+                              {order}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {isMySQL && !index.isFulltext && (
+                      <Input
+                        type="number"
+                        min={1}
+                        value={part.length ?? ""}
+                        onChange={(event) => {
+                          const length = parseInt(event.target.value, 10);
+                          updateIndexColumns(index.id, (columns) =>
+                            columns.map((item, i) =>
+                              i === position ? { ...item, length: length > 0 ? length : undefined } : item
+                            )
+                          );
+                        }}
+                        placeholder="Prefix"
+                        title="Index only the first N characters of a string column"
+                        className="h-8 w-20 bg-zinc-900 border-zinc-700 text-white text-sm"
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveColumn(index.id, position, -1)}
+                      disabled={position === 0}
+                      className="h-8 w-6 p-0 text-zinc-500 hover:text-white hover:bg-zinc-700"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveColumn(index.id, position, 1)}
+                      disabled={position === index.columns.length - 1}
+                      className="h-8 w-6 p-0 text-zinc-500 hover:text-white hover:bg-zinc-700"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        updateIndexColumns(index.id, (columns) => columns.filter((_, i) => i !== position))
+                      }
+                      className="h-8 w-6 p-0 text-zinc-500 hover:text-red-400 hover:bg-red-400/10"
+                      title="Remove column"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleAddColumn(index)}
+                  disabled={index.columns.length >= table.columns.length}
+                  className="h-7 text-xs text-zinc-400 hover:text-white hover:bg-zinc-700"
+                >
+                  <Plus className="w-3.5 h-3.5 mr-1" />
+                  Add column
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleAddIndex}
+            disabled={table.columns.length === 0}
+            className="w-full h-8 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 border border-dashed border-zinc-700 hover:border-zinc-600"
+          >
+            <Plus className="w-3.5 h-3.5 mr-1.5" />
+            Add Index
+          </Button>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            className="bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            className="bg-gradient-to-r from-teal-600 to-emerald-600 hover:from-teal-500 hover:to-emerald-500"
+          >
+            Save Indexes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { History, Loader2, RotateCcw, ChevronDown, ChevronRight } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useWorkspaceStore, Table, Relationship } from "@/stores/workspace-store";
+import { Migration } from "@/types/project";
+import api from "@/lib/api";
+
+interface MigrationHistoryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+export function MigrationHistoryDialog({ isOpen, onClose, projectId }: MigrationHistoryDialogProps) {
+  const [migrations, setMigrations] = useState<Migration[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const { loadSchema } = useWorkspaceStore();
+
+  const fetchMigrations = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.get(`/projects/${projectId}/migrations`);
+      if (response.data.success) {
+        setMigrations(response.data.data.migrations);
+      }
+    } catch (error: unknown) {
+      console.error("Error fetching migrations:", error);
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || "Failed to load migration history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchMigrations();
+    }
+  }, [isOpen, fetchMigrations]);
+
+  const handleRollback = async (migration: Migration) => {
+    if (!confirm(`Roll back migration #${migration.version}? This runs its down SQL against the database.`)) return;
+
+    setRollingBack(migration.version);
+    try {
+      const response = await api.post(`/projects/${projectId}/migrations/${migration.version}/rollback`);
+      if (response.data.success) {
+        const { schemaData } = response.data.data as {
+          schemaData: { tables: Table[]; relationships: Relationship[] };
+        };
+        loadSchema(schemaData.tables || [], schemaData.relationships || []);
+        toast.success(`Migration #${migration.version} rolled back`);
+        await fetchMigrations();
+      }
+    } catch (error: unknown) {
+      console.error("Error rolling back migration:", error);
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || "Failed to roll back migration");
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  // Only the newest applied migration can be rolled back
+  const latestApplied = migrations.find((migration) => migration.status === "applied");
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] bg-zinc-900 border-zinc-800 text-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center">
+              <History className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">Migration History</DialogTitle>
+              <DialogDescription className="text-zinc-400 text-sm">
+                Every schema change applied to the database
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="w-6 h-6 animate-spin text-zinc-500" />
+          </div>
+        ) : migrations.length === 0 ? (
+          <p className="text-sm text-zinc-500 text-center py-8">No migrations yet</p>
+        ) : (
+          <div className="space-y-2">
+            {migrations.map((migration) => (
+              <div
+                key={migration.id}
+                className={`rounded-lg border border-zinc-800 bg-zinc-800/50 ${
+                  migration.status === "rolled_back" ? "opacity-60" : ""
+                }`}
+              >
+                <div className="flex items-center gap-3 p-3">
+                  <button
+                    onClick={() => setExpanded(expanded === migration.version ? null : migration.version)}
+                    className="text-zinc-500 hover:text-white"
+                  >
+                    {expanded === migration.version ? (
+                      <ChevronDown className="w-4 h-4" />
+                    ) : (
+                      <ChevronRight className="w-4 h-4" />
+                    )}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-white flex items-center gap-2">
+                      #{migration.version}
+                      {migration.status === "rolled_back" && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-700 text-zinc-400">
+                          ROLLED BACK
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-zinc-500">
+                      {migration.author?.name || "Unknown"} • {new Date(migration.createdAt).toLocaleString()} •{" "}
+                      {migration.changes.length} change{migration.changes.length !== 1 ? "s" : ""}
+                    </p>
+                  </div>
+                  {latestApplied?.version === migration.version && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRollback(migration)}
+                      disabled={rollingBack !== null}
+                      className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white"
+                    >
+                      {rollingBack === migration.version ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                      )}
+                      Rollback
+                    </Button>
+                  )}
+                </div>
+
+                {expanded === migration.version && (
+                  <div className="px-3 pb-3 space-y-2">
+                    <ul className="space-y-0.5">
+                      {migration.changes.map((change, i) => (
+                        <li key={i} className="text-xs text-zinc-400">• {change}</li>
+                      ))}
+                    </ul>
+                    <p className="text-xs font-medium text-zinc-500 pt-2">Up</p>
+                    <pre className="text-xs text-zinc-400 font-mono whitespace-pre-wrap break-all bg-zinc-950/50 rounded p-2">
+                      {migration.upSql.join(";\n\n")}
+                    </pre>
+                    <p className="text-xs font-medium text-zinc-500 pt-2">Down</p>
+                    <pre className="text-xs text-zinc-400 font-mono whitespace-pre-wrap break-all bg-zinc-950/50 rounded p-2">
+                      {migration.downSql.length > 0 ? migration.downSql.join(";\n\n") : "-- nothing to undo"}
+                    </pre>
+                    {migration.rolledBackAt && (
+                      <p className="text-xs text-zinc-500">
+                        Rolled back by {migration.rolledBackBy?.name || "Unknown"} on{" "}
+                        {new Date(migration.rolledBackAt).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
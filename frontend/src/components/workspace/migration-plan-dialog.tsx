@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { MigrationStatement } from "@/types/project";
+
+interface MigrationPlanDialogProps {
+  statements: MigrationStatement[] | null;
+  onConfirm: () => Promise<void>;
+  onDiscard: () => void;
+}
+
+export function MigrationPlanDialog({ statements, onConfirm, onDiscard }: MigrationPlanDialogProps) {
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsApplying(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const destructiveCount = statements?.filter((statement) => statement.destructive).length || 0;
+
+  return (
+    <Dialog open={!!statements} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent className="sm:max-w-[700px] bg-zinc-900 border-zinc-800 text-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-red-500 to-orange-600 flex items-center justify-center">
+              <AlertTriangle className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">Review Migration Plan</DialogTitle>
+              <DialogDescription className="text-zinc-400 text-sm">
+                {destructiveCount} of {statements?.length || 0} statements will delete data
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {statements?.map((statement, index) => (
+            <div
+              key={index}
+              className={`rounded-lg border p-3 ${
+                statement.destructive
+                  ? "border-red-500/50 bg-red-500/10"
+                  : "border-zinc-800 bg-zinc-800/50"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-medium text-zinc-300">
+                  {index + 1}. {statement.table}
+                </span>
+                {statement.destructive && (
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-500/20 text-red-400 font-medium">
+                    DATA LOSS
+                  </span>
+                )}
+              </div>
+              <pre className="text-xs text-zinc-400 font-mono whitespace-pre-wrap break-all">
+                {statement.sql}
+              </pre>
+              {statement.warnings.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {statement.warnings.map((warning, i) => (
+                    <li key={i} className="text-xs text-amber-400">
+                      • {warning}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onDiscard}
+            disabled={isApplying}
+            className="bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+          >
+            Discard Changes
+          </Button>
+          <Button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isApplying}
+            className="bg-gradient-to-r from-red-600 to-orange-600 hover:from-red-500 hover:to-orange-500"
+          >
+            {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Apply Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { Globe, Loader2, Download, Copy } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useWorkspaceStore } from "@/stores/workspace-store";
+import api from "@/lib/api";
+
+interface RestApiDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+// Tables are served under the name the DDL generators give them
+const apiTableName = (name: string) => name.replace(/[^a-zA-Z0-9_]/g, "_");
+
+export function RestApiDialog({ isOpen, onClose, projectId }: RestApiDialogProps) {
+  const { tables, databaseName } = useWorkspaceStore();
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const baseUrl = `${api.defaults.baseURL}/generated/${projectId}`;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(baseUrl);
+    toast.success("Base URL copied");
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await api.get(`/generated/${projectId}/openapi.json`);
+      const blob = new Blob([JSON.stringify(response.data, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${databaseName || "schema"}.openapi.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      console.error("Error downloading OpenAPI document:", error);
+      const err = error as { response?: { data?: { message?: string } } };
+      toast.error(err.response?.data?.message || "Failed to download the OpenAPI document");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[600px] bg-zinc-900 border-zinc-800 text-white">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-sky-500 to-indigo-600 flex items-center justify-center">
+              <Globe className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">REST API</DialogTitle>
+              <DialogDescription className="text-zinc-400 text-sm">
+                List, get, create, update and delete rows of every table over HTTP
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <span className="text-xs text-zinc-400">Base URL</span>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs text-zinc-300 bg-zinc-950/50 rounded p-2 font-mono truncate">
+              {baseUrl}
+            </code>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCopy}
+              className="text-zinc-400 hover:text-white hover:bg-zinc-800"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <span className="text-xs text-zinc-400">Endpoints</span>
+          <div className="max-h-56 overflow-y-auto text-xs bg-zinc-950/50 rounded p-3 font-mono space-y-2">
+            {tables.length === 0 ? (
+              <p className="text-zinc-500">Add tables to the canvas to get endpoints</p>
+            ) : (
+              tables.map((table) => {
+                const name = apiTableName(table.name);
+                const hasKey = table.columns.some((col) => col.isPrimaryKey);
+                return (
+                  <div key={table.id} className="text-zinc-300">
+                    <p>GET, POST /{name}</p>
+                    {hasKey && <p>GET, PATCH, DELETE /{name}/:id</p>}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        <p className="text-xs text-zinc-500">
+          Lists take <code className="text-zinc-400">page</code>, <code className="text-zinc-400">limit</code>,{" "}
+          <code className="text-zinc-400">sort=-column</code> and filters such as{" "}
+          <code className="text-zinc-400">column[gte]=value</code>. Requests need a bearer token, and the
+          endpoints follow the saved schema.
+        </p>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700 hover:text-white"
+          >
+            Close
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={isDownloading}
+            className="bg-gradient-to-r from-sky-600 to-indigo-600 hover:from-sky-500 hover:to-indigo-500 text-white"
+          >
+            {isDownloading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Download OpenAPI
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
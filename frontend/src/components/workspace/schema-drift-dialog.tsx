@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { GitCompare, Loader2, Download, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useWorkspaceStore } from "@/stores/workspace-store";
+import { DriftItem } from "@/types/project";
+
+interface SchemaDriftDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<DriftItem["kind"], { label: string; className: string }> = {
+  extra: { label: "ONLY IN DATABASE", className: "bg-amber-500/20 text-amber-400" },
+  missing: { label: "MISSING", className: "bg-blue-500/20 text-blue-400" },
+  different: { label: "CHANGED", className: "bg-red-500/20 text-red-400" },
+};
+
+export function SchemaDriftDialog({ isOpen, onClose }: SchemaDriftDialogProps) {
+  const { drift, importFromDatabase, pushSchema } = useWorkspaceStore();
+  const [action, setAction] = useState<"pull" | "push" | null>(null);
+
+  const handlePull = async () => {
+    setAction("pull");
+    const result = await importFromDatabase();
+    setAction(null);
+
+    if (result.success) {
+      toast.success("Pulled live changes into the canvas");
+      onClose();
+    } else {
+      toast.error("Pull failed", { description: result.message });
+    }
+  };
+
+  const handlePush = async () => {
+    if (!confirm("Overwrite the database with the canvas? Changes made directly in the database will be reverted.")) return;
+
+    setAction("push");
+    await pushSchema();
+    setAction(null);
+
+    // A destructive push opens the migration plan instead of applying right away
+    const { drift: remaining, pendingPlan } = useWorkspaceStore.getState();
+    if (!remaining) {
+      toast.success("Pushed the canvas to the database");
+      onClose();
+    } else if (pendingPlan) {
+      onClose();
+    } else {
+      toast.error("Push failed", { description: "The database could not be updated" });
+    }
+  };
+
+  const items = drift?.items || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[700px] bg-zinc-900 border-zinc-800 text-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center">
+              <GitCompare className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <DialogTitle className="text-lg font-semibold">Schema Drift</DialogTitle>
+              <DialogDescription className="text-zinc-400 text-sm">
+                {items.length} difference{items.length !== 1 ? "s" : ""} between the saved schema and the live database
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {items.length === 0 ? (
+          <p className="text-sm text-zinc-500 text-center py-8">The database matches the saved schema</p>
+        ) : (
+          <div className="space-y-2">
+            {items.map((item, index) => (
+              <div key={index} className="rounded-lg border border-zinc-800 bg-zinc-800/50 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-zinc-300">{item.message}</span>
+                  <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium shrink-0 ${KIND_STYLES[item.kind].className}`}>
+                    {KIND_STYLES[item.kind].label}
+                  </span>
+                </div>
+                {(item.expected || item.actual) && (
+                  <div className="mt-2 space-y-0.5 text-xs font-mono">
+                    {item.expected && <p className="text-zinc-500">saved: {item.expected}</p>}
+                    {item.actual && <p className="text-zinc-400">live:  {item.actual}</p>}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handlePull}
+            disabled={action !== null || items.length === 0}
+            className="bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+          >
+            {action === "pull" ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Pull into Canvas
+          </Button>
+          <Button
+            type="button"
+            onClick={handlePush}
+            disabled={action !== null || items.length === 0}
+            className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500"
+          >
+            {action === "push" ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4 mr-2" />
+            )}
+            Push to Database
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
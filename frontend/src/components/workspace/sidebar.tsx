@@ -1,6 +1,8 @@
 "use client";
 
-import { Database, Table2, ArrowLeft, Loader2, Check } from "lucide-react";
+import { useState } from "react";
+import { Database, Table2, ArrowLeft, Loader2, Check, AlertTriangle, History, DatabaseZap, GitCompare, XCircle, FileCode, FileUp, Boxes, Globe, Workflow } from "lucide-react";
+import { toast } from "sonner";
 import { useDraggable } from "@dnd-kit/core";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
@@ -40,10 +42,46 @@ function DraggableItem({ id, children }: DraggableItemProps) {
 interface SidebarProps {
   projectName: string;
   databaseName: string;
+  onOpenHistory: () => void;
+  onOpenDrift: () => void;
+  onOpenExport: () => void;
+  onOpenImportSchema: () => void;
+  onOpenGenerateCode: () => void;
+  onOpenRestApi: () => void;
 }
 
-export function Sidebar({ projectName, databaseName }: SidebarProps) {
-  const { isSaving } = useWorkspaceStore();
+export function Sidebar({ projectName, databaseName, onOpenHistory, onOpenDrift, onOpenExport, onOpenImportSchema, onOpenGenerateCode, onOpenRestApi }: SidebarProps) {
+  const { projectId, databaseType, isSaving, pendingPlan, drift, syncReport, importFromDatabase, checkDrift } = useWorkspaceStore();
+  const [isImporting, setIsImporting] = useState(false);
+  const [isCheckingDrift, setIsCheckingDrift] = useState(false);
+
+  const handleImport = async () => {
+    if (!confirm("Replace the canvas with the tables currently in the database?")) return;
+
+    setIsImporting(true);
+    const result = await importFromDatabase();
+    setIsImporting(false);
+
+    if (result.success) {
+      toast.success(result.message);
+    } else {
+      toast.error("Import failed", { description: result.message });
+    }
+  };
+
+  const failedForeignKeys = syncReport?.foreignKeys.filter((fk) => fk.status === "failed").length || 0;
+
+  const handleCheckDrift = async () => {
+    setIsCheckingDrift(true);
+    await checkDrift();
+    setIsCheckingDrift(false);
+
+    if (useWorkspaceStore.getState().drift) {
+      onOpenDrift();
+    } else {
+      toast.success("Database matches the saved schema");
+    }
+  };
 
   return (
     <div className="w-64 h-full bg-zinc-900 border-r border-zinc-800 flex flex-col">
@@ -76,6 +114,25 @@ export function Sidebar({ projectName, databaseName }: SidebarProps) {
               <Loader2 className="w-3 h-3 animate-spin text-blue-400" />
               <span className="text-zinc-400">Saving...</span>
             </>
+          ) : pendingPlan ? (
+            <>
+              <AlertTriangle className="w-3 h-3 text-amber-400" />
+              <span className="text-amber-400">Awaiting confirmation</span>
+            </>
+          ) : syncReport?.status === "failed" ? (
+            <>
+              <XCircle className="w-3 h-3 text-red-400" />
+              <span className="text-red-400 truncate" title={syncReport.error?.message}>
+                Sync failed{syncReport.error?.code ? ` (${syncReport.error.code})` : ""}
+              </span>
+            </>
+          ) : syncReport?.status === "partial" ? (
+            <>
+              <AlertTriangle className="w-3 h-3 text-red-400" />
+              <span className="text-red-400">
+                {failedForeignKeys} foreign key{failedForeignKeys !== 1 ? "s" : ""} failed
+              </span>
+            </>
           ) : (
             <>
               <Check className="w-3 h-3 text-green-400" />
@@ -83,6 +140,19 @@ export function Sidebar({ projectName, databaseName }: SidebarProps) {
             </>
           )}
         </div>
+
+        {/* Drift badge */}
+        {drift && (
+          <button
+            onClick={onOpenDrift}
+            className="mt-2 w-full flex items-center gap-2 px-2 py-1.5 rounded-md bg-amber-500/10 border border-amber-500/30 text-xs text-amber-400 hover:bg-amber-500/20 transition-colors"
+          >
+            <GitCompare className="w-3 h-3" />
+            <span className="flex-1 text-left">
+              Database drift ({drift.items.length} difference{drift.items.length !== 1 ? "s" : ""})
+            </span>
+          </button>
+        )}
       </div>
 
       {/* Elements Panel */}
@@ -106,6 +176,113 @@ export function Sidebar({ projectName, databaseName }: SidebarProps) {
           </DraggableItem>
         </div>
 
+        {/* Schema Tools */}
+        <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mt-6 mb-3">
+          Schema
+        </h3>
+
+        <div className="space-y-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onOpenHistory}
+            className="w-full justify-start text-zinc-400 hover:text-white hover:bg-zinc-800"
+          >
+            <History className="w-4 h-4 mr-2" />
+            Migration History
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onOpenExport}
+            className="w-full justify-start text-zinc-400 hover:text-white hover:bg-zinc-800"
+          >
+            <FileCode className="w-4 h-4 mr-2" />
+            Export Schema
+          </Button>
+          {/* Imported schemas map onto SQL tables only */}
+          {databaseType !== "mongodb" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onOpenImportSchema}
+              className="w-full justify-start text-zinc-400 hover:text-white hover:bg-zinc-800"
+            >
+              <FileUp className="w-4 h-4 mr-2" />
+              Import Schema
+            </Button>
+          )}
+          {/* ORM models are generated for SQL tables only */}
+          {databaseType !== "mongodb" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onOpenGenerateCode}
+              className="w-full justify-start text-zinc-400 hover:text-white hover:bg-zinc-800"
+            >
+              <Boxes className="w-4 h-4 mr-2" />
+              Generate ORM Code
+            </Button>
+          )}
+          {/* The generated REST and GraphQL APIs serve SQL tables only */}
+          {databaseType !== "mongodb" && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenRestApi}
+                className="w-full justify-start text-zinc-400 hover:text-white hover:bg-zinc-800"
+              >
+                <Globe className="w-4 h-4 mr-2" />
+                REST API
+              </Button>
+              <Link href={`/workspace/${projectId}/graphql`}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start text-zinc-400 hover:text-white hover:bg-zinc-800"
+                >
+                  <Workflow className="w-4 h-4 mr-2" />
+                  GraphQL Playground
+                </Button>
+              </Link>
+            </>
+          )}
+          {/* Import and drift detection read the live schema, which only MySQL supports */}
+          {databaseType === "mysql" && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleImport}
+                disabled={isImporting}
+                className="w-full justify-start text-zinc-400 hover:text-white hover:bg-zinc-800"
+              >
+                {isImporting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <DatabaseZap className="w-4 h-4 mr-2" />
+                )}
+                Import from Database
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleCheckDrift}
+                disabled={isCheckingDrift}
+                className="w-full justify-start text-zinc-400 hover:text-white hover:bg-zinc-800"
+              >
+                {isCheckingDrift ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <GitCompare className="w-4 h-4 mr-2" />
+                )}
+                Check for Drift
+              </Button>
+            </>
+          )}
+        </div>
+
         {/* Instructions */}
         <div className="mt-6 p-3 rounded-lg bg-zinc-800/30 border border-zinc-800">
           <h4 className="text-xs font-medium text-zinc-400 mb-2">Quick Tips</h4>
@@ -2,17 +2,23 @@
 
 import { memo, useState, useCallback } from "react";
 import { Handle, Position } from "@xyflow/react";
-import { Plus, GripVertical, Trash2, Pencil, X, Check } from "lucide-react";
+import { Plus, GripVertical, Trash2, Pencil, X, Check, AlertCircle, ListTree } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useWorkspaceStore, Column } from "@/stores/workspace-store";
+import { useWorkspaceStore, Column, TableIndex } from "@/stores/workspace-store";
+import { formatColumnType, getEnumValues } from "@/lib/column-types";
+import { SyncError } from "@/types/project";
 
 interface TableNodeData {
   label: string;
   tableId: string;
   columns: Column[];
+  indexes: TableIndex[];
+  // Set when the last sync failed on this table
+  syncError?: SyncError;
   onAddColumn: (tableId: string) => void;
   onEditColumn: (tableId: string, column: Column) => void;
+  onEditIndexes: (tableId: string) => void;
 }
 
 interface TableNodeProps {
@@ -113,7 +119,12 @@ function ColumnRow({
               {column.isPrimaryKey && "🔑 "}
               {column.name}
             </span>
-            <span className="text-xs text-zinc-500 shrink-0">{column.type}</span>
+            <span
+              className="text-xs text-zinc-500 shrink-0"
+              title={getEnumValues(column)?.join(", ") || column.collation || column.charset}
+            >
+              {formatColumnType(column)}
+            </span>
           </div>
           
           {/* Constraint badges */}
@@ -198,6 +209,16 @@ function TableNodeComponent({ data, selected }: TableNodeProps) {
     data.onEditColumn(data.tableId, column);
   }, [data]);
 
+  // Index key parts as a tooltip, e.g. "author_id, created_at DESC"
+  const describeIndex = useCallback((index: TableIndex) =>
+    index.columns
+      .map((part) => {
+        const name = data.columns.find((col) => col.id === part.columnId)?.name || "?";
+        return `${name}${part.length ? `(${part.length})` : ""}${part.order === "DESC" ? " DESC" : ""}`;
+      })
+      .join(", "),
+  [data.columns]);
+
   // Calculate handle positions for each column
   const headerHeight = 44;
   const columnHeight = 32;
@@ -205,7 +226,11 @@ function TableNodeComponent({ data, selected }: TableNodeProps) {
   return (
     <div
       className={`min-w-[280px] max-w-[350px] rounded-xl bg-zinc-900 border-2 transition-all duration-200 shadow-xl ${
-        selected ? "border-purple-500 shadow-purple-500/20" : "border-zinc-700"
+        data.syncError
+          ? "border-red-500 shadow-red-500/20"
+          : selected
+            ? "border-purple-500 shadow-purple-500/20"
+            : "border-zinc-700"
       }`}
     >
       {/* Connection handles for each column - large, visible, easy to drag */}
@@ -261,6 +286,12 @@ function TableNodeComponent({ data, selected }: TableNodeProps) {
           </span>
         )}
         
+        {data.syncError && (
+          <span title={`Sync failed (${data.syncError.code || "ERROR"}): ${data.syncError.message}`}>
+            <AlertCircle className="w-4 h-4 text-red-300" />
+          </span>
+        )}
+
         <Button
           variant="ghost"
           size="sm"
@@ -289,17 +320,44 @@ function TableNodeComponent({ data, selected }: TableNodeProps) {
         )}
       </div>
 
-      {/* Add Column Button */}
-      <div className="p-2">
+      {/* Index badges */}
+      {data.indexes.length > 0 && (
+        <div className="flex flex-wrap gap-1 px-3 pt-2 border-t border-zinc-800">
+          {data.indexes.map((index) => (
+            <span
+              key={index.id}
+              className="text-[9px] px-1.5 py-0.5 rounded bg-teal-500/15 text-teal-300 font-mono"
+              title={`${index.isFulltext ? "FULLTEXT " : index.isUnique ? "UNIQUE " : ""}INDEX (${describeIndex(index)})`}
+            >
+              {index.isFulltext ? "FT " : index.isUnique ? "UQ " : ""}
+              {index.name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Add Column and Indexes Buttons */}
+      <div className="flex gap-2 p-2">
         <Button
           variant="ghost"
           size="sm"
           onClick={() => data.onAddColumn(data.tableId)}
-          className="w-full h-8 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 border border-dashed border-zinc-700 hover:border-zinc-600"
+          className="flex-1 h-8 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 border border-dashed border-zinc-700 hover:border-zinc-600"
         >
           <Plus className="w-3.5 h-3.5 mr-1.5" />
           Add Column
         </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => data.onEditIndexes(data.tableId)}
+          disabled={data.columns.length === 0}
+          className="h-8 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 border border-dashed border-zinc-700 hover:border-zinc-600"
+          title="Edit indexes"
+        >
+          <ListTree className="w-3.5 h-3.5 mr-1.5" />
+          Indexes
+        </Button>
       </div>
 
       {/* Helper text */}
@@ -0,0 +1,226 @@
+import { DatabaseType } from '@/types/project';
+
+export interface ColumnTypeOption {
+  value: string;
+  label: string;
+  category: string;
+  // Default and largest length of types written TYPE(length), such as VARCHAR(255)
+  length?: number;
+  maxLength?: number;
+  // Default precision and scale of types written TYPE(precision,scale), such as DECIMAL(10,2)
+  precision?: number;
+  scale?: number;
+  maxPrecision?: number;
+  // Numeric types that take UNSIGNED and ZEROFILL (MySQL)
+  isNumeric?: boolean;
+  // String types that take a CHARACTER SET and COLLATE (MySQL)
+  isText?: boolean;
+}
+
+// Parameters of a column's type, kept beside its base type
+export interface ColumnTypeParams {
+  length?: number;
+  precision?: number;
+  scale?: number;
+  isUnsigned?: boolean;
+  isZerofill?: boolean;
+  charset?: string;
+  collation?: string;
+}
+
+export type ColumnTypeDescriptor = ColumnTypeParams & { type: string; enumValues?: string[] };
+
+// MySQL data types grouped by category
+const MYSQL_TYPES: ColumnTypeOption[] = [
+  // Numeric
+  { value: 'INT', label: 'INT', category: 'Numeric', isNumeric: true },
+  { value: 'BIGINT', label: 'BIGINT', category: 'Numeric', isNumeric: true },
+  { value: 'SMALLINT', label: 'SMALLINT', category: 'Numeric', isNumeric: true },
+  { value: 'TINYINT', label: 'TINYINT', category: 'Numeric', isNumeric: true },
+  { value: 'DECIMAL', label: 'DECIMAL', category: 'Numeric', precision: 10, scale: 2, maxPrecision: 65, isNumeric: true },
+  { value: 'FLOAT', label: 'FLOAT', category: 'Numeric', isNumeric: true },
+  { value: 'DOUBLE', label: 'DOUBLE', category: 'Numeric', isNumeric: true },
+  // String
+  { value: 'VARCHAR', label: 'VARCHAR', category: 'String', length: 255, maxLength: 65535, isText: true },
+  { value: 'CHAR', label: 'CHAR', category: 'String', length: 36, maxLength: 255, isText: true },
+  { value: 'TEXT', label: 'TEXT', category: 'String', isText: true },
+  { value: 'LONGTEXT', label: 'LONGTEXT', category: 'String', isText: true },
+  { value: 'ENUM', label: 'ENUM', category: 'String', isText: true },
+  { value: 'SET', label: 'SET', category: 'String', isText: true },
+  // Date/Time
+  { value: 'DATE', label: 'DATE', category: 'Date/Time' },
+  { value: 'DATETIME', label: 'DATETIME', category: 'Date/Time' },
+  { value: 'TIMESTAMP', label: 'TIMESTAMP', category: 'Date/Time' },
+  { value: 'TIME', label: 'TIME', category: 'Date/Time' },
+  { value: 'YEAR', label: 'YEAR', category: 'Date/Time' },
+  // Other
+  { value: 'BOOLEAN', label: 'BOOLEAN', category: 'Other' },
+  { value: 'JSON', label: 'JSON', category: 'Other' },
+  { value: 'BLOB', label: 'BLOB', category: 'Other' },
+];
+
+// Postgres native types; auto increment becomes an IDENTITY column
+const POSTGRES_TYPES: ColumnTypeOption[] = [
+  // Numeric
+  { value: 'INTEGER', label: 'INTEGER', category: 'Numeric' },
+  { value: 'BIGINT', label: 'BIGINT', category: 'Numeric' },
+  { value: 'SMALLINT', label: 'SMALLINT', category: 'Numeric' },
+  { value: 'NUMERIC', label: 'NUMERIC', category: 'Numeric', precision: 10, scale: 2, maxPrecision: 1000 },
+  { value: 'REAL', label: 'REAL', category: 'Numeric' },
+  { value: 'DOUBLE PRECISION', label: 'DOUBLE PRECISION', category: 'Numeric' },
+  // String
+  { value: 'VARCHAR', label: 'VARCHAR', category: 'String', length: 255, maxLength: 10485760 },
+  { value: 'TEXT', label: 'TEXT', category: 'String' },
+  { value: 'UUID', label: 'UUID', category: 'String' },
+  // Date/Time
+  { value: 'DATE', label: 'DATE', category: 'Date/Time' },
+  { value: 'TIMESTAMP', label: 'TIMESTAMP', category: 'Date/Time' },
+  { value: 'TIMESTAMPTZ', label: 'TIMESTAMPTZ', category: 'Date/Time' },
+  { value: 'TIME', label: 'TIME', category: 'Date/Time' },
+  { value: 'INTERVAL', label: 'INTERVAL', category: 'Date/Time' },
+  // Other
+  { value: 'BOOLEAN', label: 'BOOLEAN', category: 'Other' },
+  { value: 'JSONB', label: 'JSONB', category: 'Other' },
+  { value: 'BYTEA', label: 'BYTEA', category: 'Other' },
+  { value: 'INET', label: 'INET', category: 'Other' },
+];
+
+// BSON types used in the $jsonSchema validator of MongoDB collections
+const MONGODB_TYPES: ColumnTypeOption[] = [
+  // Numeric
+  { value: 'int', label: 'int', category: 'Numeric' },
+  { value: 'long', label: 'long', category: 'Numeric' },
+  { value: 'double', label: 'double', category: 'Numeric' },
+  { value: 'decimal', label: 'decimal', category: 'Numeric' },
+  // String
+  { value: 'string', label: 'string', category: 'String' },
+  { value: 'objectId', label: 'objectId', category: 'String' },
+  // Date/Time
+  { value: 'date', label: 'date', category: 'Date/Time' },
+  // Other
+  { value: 'bool', label: 'bool', category: 'Other' },
+  { value: 'object', label: 'object', category: 'Other' },
+  { value: 'array', label: 'array', category: 'Other' },
+  { value: 'binData', label: 'binData', category: 'Other' },
+];
+
+// Column types offered by the column dialogs for a project's database
+export const getColumnTypes = (databaseType: DatabaseType | null): ColumnTypeOption[] => {
+  if (databaseType === 'postgres') return POSTGRES_TYPES;
+  if (databaseType === 'mongodb') return MONGODB_TYPES;
+  // SQLite projects use the MySQL types, mapped onto SQLite affinities by the backend
+  return MYSQL_TYPES;
+};
+
+// ENUM and SET columns carry their allowed values in `enumValues`
+export const isEnumType = (type: string): boolean => /^(ENUM|SET)$/i.test(type.trim());
+
+// Types written TYPE(precision,scale) rather than TYPE(length)
+const PRECISION_TYPES = ['DECIMAL', 'NUMERIC', 'FLOAT', 'DOUBLE', 'REAL'];
+
+// Structured form of a column's type. Columns saved before types were structured carry
+// everything in `type`, such as VARCHAR(100), INT UNSIGNED, or ENUM('a','b'), and are split here
+export const splitColumnType = (column: ColumnTypeDescriptor): ColumnTypeDescriptor => {
+  const type = column.type.trim();
+
+  const enumMatch = type.match(/^(ENUM|SET)\s*\((.*)\)$/i);
+  if (enumMatch) {
+    const enumValues = [...enumMatch[2].matchAll(/'((?:[^']|'')*)'/g)].map((value) => value[1].replace(/''/g, "'"));
+    return { type: enumMatch[1].toUpperCase(), enumValues };
+  }
+
+  const match = type.match(/^([A-Za-z]+)(?:\s*\((\d+)(?:\s*,\s*(\d+))?\))?((?:\s+(?:UNSIGNED|ZEROFILL))*)$/i);
+  if (!match || match[1] === type) return column;
+
+  const base = match[1].toUpperCase();
+  const first = match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+  const isPrecision = PRECISION_TYPES.includes(base);
+  return {
+    type: base,
+    length: isPrecision ? undefined : first,
+    precision: isPrecision ? first : undefined,
+    scale: match[3] !== undefined ? parseInt(match[3], 10) : undefined,
+    isUnsigned: /UNSIGNED|ZEROFILL/i.test(match[4]) || undefined,
+    isZerofill: /ZEROFILL/i.test(match[4]) || undefined,
+  };
+};
+
+// Full type for display, such as VARCHAR(320) or DECIMAL(19,4) UNSIGNED; value lists are left out
+export const formatColumnType = (column: ColumnTypeDescriptor): string => {
+  const { type, length, precision, scale, isUnsigned, isZerofill } = splitColumnType(column);
+  let formatted = type;
+  if (precision !== undefined) {
+    // Matches the backend: a DECIMAL without a scale is DECIMAL(p,0)
+    const fullScale = scale ?? (type === 'DECIMAL' || type === 'NUMERIC' ? 0 : undefined);
+    formatted += fullScale !== undefined ? `(${precision},${fullScale})` : `(${precision})`;
+  } else if (length !== undefined) {
+    formatted += `(${length})`;
+  }
+  // ZEROFILL implies UNSIGNED
+  if (isUnsigned || isZerofill) formatted += ' UNSIGNED';
+  if (isZerofill) formatted += ' ZEROFILL';
+  return formatted;
+};
+
+// Allowed values of an ENUM or SET column, or null for any other column
+export const getEnumValues = (column: ColumnTypeDescriptor): string[] | null => {
+  const { type, enumValues } = column.enumValues ? column : splitColumnType(column);
+  return isEnumType(type) && enumValues && enumValues.length > 0 ? enumValues : null;
+};
+
+// Whether the dialogs show any parameter fields for a type
+export const hasTypeParams = (option: ColumnTypeOption | undefined, isMySQL: boolean): boolean =>
+  !!option && (option.length !== undefined || option.precision !== undefined || (isMySQL && !!(option.isNumeric || option.isText)));
+
+// Parameters a newly picked type starts with, such as VARCHAR(255)
+export const defaultTypeParams = (option: ColumnTypeOption | undefined): ColumnTypeParams => ({
+  length: option?.length,
+  precision: option?.precision,
+  scale: option?.scale,
+});
+
+// Keep only the parameters the type takes; every key is present so an edit clears the others.
+// Types missing from the list (kept from an import) pass their parameters through untouched
+export const applicableTypeParams = (
+  option: ColumnTypeOption | undefined,
+  params: ColumnTypeParams,
+  isMySQL: boolean
+): ColumnTypeParams => {
+  if (!option) return params;
+  const isNumeric = isMySQL && !!option.isNumeric;
+  const isText = isMySQL && !!option.isText;
+  return {
+    length: option.length !== undefined ? params.length : undefined,
+    precision: option.precision !== undefined ? params.precision : undefined,
+    // An empty scale means 0, which is how the database stores and reports it
+    scale: option.precision !== undefined ? params.scale ?? 0 : undefined,
+    isUnsigned: isNumeric && (params.isUnsigned || params.isZerofill) ? true : undefined,
+    isZerofill: isNumeric && params.isZerofill ? true : undefined,
+    charset: isText ? params.charset?.trim() || undefined : undefined,
+    collation: isText ? params.collation?.trim() || undefined : undefined,
+  };
+};
+
+// Problem with the parameters of a type, or null when they can be rendered
+export const validateTypeParams = (option: ColumnTypeOption | undefined, params: ColumnTypeParams): string | null => {
+  if (!option) return null;
+  if (option.length !== undefined) {
+    const maxLength = option.maxLength ?? 65535;
+    if (params.length === undefined || params.length < 1 || params.length > maxLength) {
+      return `Length must be between 1 and ${maxLength}`;
+    }
+  }
+  if (option.precision !== undefined) {
+    const maxPrecision = option.maxPrecision ?? 65;
+    if (params.precision === undefined || params.precision < 1 || params.precision > maxPrecision) {
+      return `Precision must be between 1 and ${maxPrecision}`;
+    }
+    if (params.scale !== undefined && (params.scale < 0 || params.scale > params.precision)) {
+      return 'Scale must be between 0 and the precision';
+    }
+  }
+  if (option.isText && ![params.charset, params.collation].every((name) => !name || /^[a-zA-Z0-9_]+$/.test(name.trim()))) {
+    return 'Character set and collation may only use letters, numbers, and underscores';
+  }
+  return null;
+};
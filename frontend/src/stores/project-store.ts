@@ -7,6 +7,8 @@ import {
   ProjectsResponse,
   TestConnectionResponse,
   MySQLConfig,
+  PostgresConfig,
+  MongoConfig,
 } from '@/types/project';
 
 interface ProjectState {
@@ -18,6 +20,8 @@ interface ProjectState {
   fetchProjects: () => Promise<void>;
   createProject: (data: CreateProjectRequest) => Promise<CreateProjectResponse>;
   testMySQLConnection: (config: MySQLConfig) => Promise<TestConnectionResponse>;
+  testPostgresConnection: (config: PostgresConfig) => Promise<TestConnectionResponse>;
+  testMongoConnection: (config: MongoConfig) => Promise<TestConnectionResponse>;
   deleteProject: (id: string) => Promise<{ success: boolean; message: string }>;
   setCurrentProject: (project: Project | null) => void;
 }
@@ -90,6 +94,44 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     }
   },
 
+  testPostgresConnection: async (config: PostgresConfig): Promise<TestConnectionResponse> => {
+    try {
+      const response = await api.post<TestConnectionResponse>('/projects/test-postgres', config);
+      return response.data;
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'response' in error) {
+        const axiosError = error as { response?: { data?: TestConnectionResponse } };
+        return axiosError.response?.data || {
+          success: false,
+          message: 'Failed to test connection',
+        };
+      }
+      return {
+        success: false,
+        message: 'Network error. Please check your connection.',
+      };
+    }
+  },
+
+  testMongoConnection: async (config: MongoConfig): Promise<TestConnectionResponse> => {
+    try {
+      const response = await api.post<TestConnectionResponse>('/projects/test-mongodb', config);
+      return response.data;
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'response' in error) {
+        const axiosError = error as { response?: { data?: TestConnectionResponse } };
+        return axiosError.response?.data || {
+          success: false,
+          message: 'Failed to test connection',
+        };
+      }
+      return {
+        success: false,
+        message: 'Network error. Please check your connection.',
+      };
+    }
+  },
+
   deleteProject: async (id: string) => {
     try {
       const response = await api.delete(`/projects/${id}`);
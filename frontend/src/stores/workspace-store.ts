@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
 import api from '@/lib/api';
+import { DatabaseType, MigrationStatement, SchemaDrift, SchemaTextFormat, SyncReport } from '@/types/project';
 
 export interface Column {
   id: string;
@@ -12,6 +13,36 @@ export interface Column {
   isAutoIncrement: boolean;
   defaultValue?: string;
   checkConstraint?: string;
+  // Allowed values of an ENUM or SET column; `type` then holds just the base type
+  enumValues?: string[];
+  // Type parameters, rendered after the base type: VARCHAR(length), DECIMAL(precision,scale)
+  length?: number;
+  precision?: number;
+  scale?: number;
+  isUnsigned?: boolean;
+  isZerofill?: boolean;
+  // Per-column character set and collation (MySQL); unset columns use the table default
+  charset?: string;
+  collation?: string;
+}
+
+export type IndexOrder = 'ASC' | 'DESC';
+
+// One column of an index, in key order; `length` indexes only a prefix (MySQL)
+export interface IndexColumn {
+  columnId: string;
+  order?: IndexOrder;
+  length?: number;
+}
+
+// Secondary or composite index; single-column UNIQUE stays on the column
+export interface TableIndex {
+  id: string;
+  name: string;
+  columns: IndexColumn[];
+  isUnique?: boolean;
+  // MySQL only
+  isFulltext?: boolean;
 }
 
 export interface Table {
@@ -19,6 +50,12 @@ export interface Table {
   name: string;
   position: { x: number; y: number };
   columns: Column[];
+  indexes?: TableIndex[];
+}
+
+export interface RelationshipColumnPair {
+  sourceColumnId: string;
+  targetColumnId: string;
 }
 
 // Foreign key relationship between tables
@@ -28,6 +65,8 @@ export interface Relationship {
   sourceColumnId: string;
   targetTableId: string;
   targetColumnId: string;
+  // Further column pairs of a composite foreign key, in key order after the first
+  additionalColumns?: RelationshipColumnPair[];
   onDelete?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
   onUpdate?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
 }
@@ -36,13 +75,22 @@ interface WorkspaceState {
   projectId: string | null;
   projectName: string;
   databaseName: string;
+  databaseType: DatabaseType | null;
   tables: Table[];
   relationships: Relationship[];
   selectedTableId: string | null;
   isSaving: boolean;
+  // Last schema the backend accepted, restored when a destructive plan is discarded
+  savedSchema: { tables: Table[]; relationships: Relationship[] };
+  // Destructive migration waiting for the user's confirmation
+  pendingPlan: MigrationStatement[] | null;
+  // Differences between the saved schema and the live database, from the last drift check
+  drift: SchemaDrift | null;
+  // Outcome of the last sync, used to mark failed tables and foreign keys on the canvas
+  syncReport: SyncReport | null;
   
   // Actions
-  setProject: (projectId: string, projectName: string, databaseName: string) => void;
+  setProject: (projectId: string, projectName: string, databaseName: string, databaseType: DatabaseType) => void;
   addTable: (name: string, position: { x: number; y: number }) => string;
   updateTableName: (tableId: string, name: string) => void;
   updateTablePosition: (tableId: string, position: { x: number; y: number }) => void;
@@ -50,15 +98,24 @@ interface WorkspaceState {
   addColumn: (tableId: string, column: Omit<Column, 'id'>) => void;
   updateColumn: (tableId: string, columnId: string, updates: Partial<Column>) => void;
   deleteColumn: (tableId: string, columnId: string) => void;
+  updateTableIndexes: (tableId: string, indexes: TableIndex[]) => void;
   selectTable: (tableId: string | null) => void;
   setTables: (tables: Table[]) => void;
   
   // Relationship actions
   addRelationship: (relationship: Omit<Relationship, 'id'>) => void;
+  extendRelationship: (relationshipId: string, pair: RelationshipColumnPair) => void;
   deleteRelationship: (relationshipId: string) => void;
   setRelationships: (relationships: Relationship[]) => void;
+  loadSchema: (tables: Table[], relationships: Relationship[]) => void;
   
-  saveSchema: () => Promise<void>;
+  saveSchema: (options?: { confirmDestructive?: boolean; overwriteDrift?: boolean }) => Promise<void>;
+  confirmPendingPlan: () => Promise<void>;
+  importFromDatabase: () => Promise<{ success: boolean; message: string }>;
+  importFromText: (format: SchemaTextFormat, text: string) => Promise<{ success: boolean; message: string; warnings: string[] }>;
+  checkDrift: () => Promise<void>;
+  pushSchema: () => Promise<void>;
+  discardPendingPlan: () => void;
 }
 
 // Debounce timer for auto-save
@@ -77,30 +134,150 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
   projectId: null,
   projectName: '',
   databaseName: '',
+  databaseType: null,
   tables: [],
   relationships: [],
   selectedTableId: null,
   isSaving: false,
+  savedSchema: { tables: [], relationships: [] },
+  pendingPlan: null,
+  drift: null,
+  syncReport: null,
 
-  setProject: (projectId, projectName, databaseName) => {
-    set({ projectId, projectName, databaseName, tables: [], relationships: [], selectedTableId: null });
+  setProject: (projectId, projectName, databaseName, databaseType) => {
+    set({
+      projectId,
+      projectName,
+      databaseName,
+      databaseType,
+      tables: [],
+      relationships: [],
+      selectedTableId: null,
+      savedSchema: { tables: [], relationships: [] },
+      pendingPlan: null,
+      drift: null,
+      syncReport: null,
+    });
   },
 
-  saveSchema: async () => {
+  saveSchema: async (options = {}) => {
     const { projectId, tables, relationships } = get();
     if (!projectId) return;
 
     set({ isSaving: true });
     try {
-      await api.put(`/projects/${projectId}/schema`, { tables, relationships });
+      const response = await api.put(`/projects/${projectId}/schema`, {
+        tables,
+        relationships,
+        confirmDestructive: options.confirmDestructive === true,
+        overwriteDrift: options.overwriteDrift === true,
+      });
+      set({
+        savedSchema: { tables, relationships },
+        pendingPlan: null,
+        drift: null,
+        syncReport: response.data.data?.syncReport || null,
+      });
       console.log('Schema saved successfully');
-    } catch (error) {
-      console.error('Failed to save schema:', error);
+    } catch (error: unknown) {
+      // 409 means the change would delete data or overwrite live changes; wait for the user to decide
+      const err = error as {
+        response?: {
+          status?: number;
+          data?: { data?: { statements?: MigrationStatement[]; drift?: SchemaDrift; syncReport?: SyncReport } };
+        };
+      };
+      if (err.response?.status === 502 && err.response.data?.data?.syncReport) {
+        // The schema was stored but MySQL rejected part of it
+        set({ savedSchema: { tables, relationships }, syncReport: err.response.data.data.syncReport });
+        console.error('Schema saved but sync failed:', err.response.data.data.syncReport.error);
+      } else if (err.response?.status === 409 && err.response.data?.data?.drift) {
+        set({ drift: err.response.data.data.drift });
+      } else if (err.response?.status === 409 && err.response.data?.data?.statements) {
+        set({ pendingPlan: err.response.data.data.statements });
+      } else {
+        console.error('Failed to save schema:', error);
+      }
     } finally {
       set({ isSaving: false });
     }
   },
 
+  confirmPendingPlan: async () => {
+    // A plan confirmed while drift is shown comes from a push, which must keep overwriting it
+    await get().saveSchema({ confirmDestructive: true, overwriteDrift: get().drift !== null });
+  },
+
+  importFromDatabase: async () => {
+    const { projectId } = get();
+    if (!projectId) return { success: false, message: 'No project loaded' };
+
+    try {
+      const response = await api.post(`/projects/${projectId}/import`);
+      const { schemaData } = response.data.data as { schemaData: { tables: Table[]; relationships: Relationship[] } };
+      get().loadSchema(schemaData.tables || [], schemaData.relationships || []);
+      set({ drift: null });
+      return { success: true, message: response.data.message };
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string } } };
+      return { success: false, message: err.response?.data?.message || 'Failed to import database' };
+    }
+  },
+
+  // Parse a DDL script on the server and sync the resulting canvas like any other edit
+  importFromText: async (format, text) => {
+    const { projectId } = get();
+    if (!projectId) return { success: false, message: 'No project loaded', warnings: [] };
+
+    try {
+      const response = await api.post(`/projects/${projectId}/import/${format}`, { text });
+      const { schemaData, warnings } = response.data.data as {
+        schemaData: { tables: Table[]; relationships: Relationship[] };
+        warnings: string[];
+      };
+      set({ tables: schemaData.tables || [], relationships: schemaData.relationships || [] });
+      await get().saveSchema();
+      return { success: true, message: response.data.message, warnings };
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { message?: string; data?: { warnings?: string[] } } } };
+      return {
+        success: false,
+        message: err.response?.data?.message || 'Failed to import schema',
+        warnings: err.response?.data?.data?.warnings || [],
+      };
+    }
+  },
+
+  checkDrift: async () => {
+    const { projectId } = get();
+    if (!projectId) return;
+
+    try {
+      const response = await api.get(`/projects/${projectId}/drift`);
+      const { drift } = response.data.data as { drift: SchemaDrift };
+      set({ drift: drift.hasDrift ? drift : null });
+    } catch (error: unknown) {
+      console.error('Failed to check schema drift:', error);
+    }
+  },
+
+  // Apply the canvas to the database even though it was changed outside the workspace
+  pushSchema: async () => {
+    await get().saveSchema({ overwriteDrift: true });
+  },
+
+  discardPendingPlan: () => {
+    if (saveTimeout) {
+      clearTimeout(saveTimeout);
+    }
+    const { savedSchema } = get();
+    set({
+      tables: savedSchema.tables,
+      relationships: savedSchema.relationships,
+      pendingPlan: null,
+    });
+  },
+
   addTable: (name, position) => {
     const id = uuidv4();
     const newTable: Table = {
@@ -176,12 +353,36 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
     set((state) => ({
       tables: state.tables.map((table) =>
         table.id === tableId
-          ? { ...table, columns: table.columns.filter((col) => col.id !== columnId) }
+          ? {
+              ...table,
+              columns: table.columns.filter((col) => col.id !== columnId),
+              // Take the column out of its indexes and drop the ones left empty
+              indexes: table.indexes
+                ?.map((index) => ({
+                  ...index,
+                  columns: index.columns.filter((part) => part.columnId !== columnId),
+                }))
+                .filter((index) => index.columns.length > 0),
+            }
           : table
       ),
-      // Also remove relationships involving this column
+      // Also remove relationships involving this column, including composite ones
       relationships: state.relationships.filter(
-        (rel) => rel.sourceColumnId !== columnId && rel.targetColumnId !== columnId
+        (rel) =>
+          rel.sourceColumnId !== columnId &&
+          rel.targetColumnId !== columnId &&
+          !rel.additionalColumns?.some(
+            (pair) => pair.sourceColumnId === columnId || pair.targetColumnId === columnId
+          )
+      ),
+    }));
+    debouncedSave(get().saveSchema);
+  },
+
+  updateTableIndexes: (tableId, indexes) => {
+    set((state) => ({
+      tables: state.tables.map((table) =>
+        table.id === tableId ? { ...table, indexes } : table
       ),
     }));
     debouncedSave(get().saveSchema);
@@ -216,6 +417,18 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
     }
   },
 
+  // Add another column pair to a foreign key, turning it into a composite one
+  extendRelationship: (relationshipId, pair) => {
+    set((state) => ({
+      relationships: state.relationships.map((rel) =>
+        rel.id === relationshipId
+          ? { ...rel, additionalColumns: [...(rel.additionalColumns || []), pair] }
+          : rel
+      ),
+    }));
+    debouncedSave(get().saveSchema);
+  },
+
   deleteRelationship: (relationshipId) => {
     set((state) => ({
       relationships: state.relationships.filter((rel) => rel.id !== relationshipId),
@@ -226,4 +439,8 @@ export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
   setRelationships: (relationships) => {
     set({ relationships });
   },
+
+  loadSchema: (tables, relationships) => {
+    set({ tables, relationships, savedSchema: { tables, relationships }, pendingPlan: null });
+  },
 }));
@@ -1,4 +1,9 @@
-export type DatabaseType = 'mysql' | 'mongodb';
+export type DatabaseType = 'mysql' | 'postgres' | 'sqlite' | 'mongodb';
+
+export type SchemaTextFormat = 'sql' | 'dbml' | 'mermaid';
+
+// Export formats: the text formats plus generated code
+export type ExportFormat = SchemaTextFormat | 'prisma' | 'typescript';
 
 export interface MySQLConfig {
   host: string;
@@ -7,6 +12,13 @@ export interface MySQLConfig {
   password: string;
 }
 
+// Postgres connections take the same settings as MySQL
+export type PostgresConfig = MySQLConfig;
+
+export interface MongoConfig {
+  uri: string;
+}
+
 export interface Project {
   id: string;
   name: string;
@@ -21,6 +33,10 @@ export interface CreateProjectRequest {
   databaseType: DatabaseType;
   databaseName: string;
   mysqlConfig?: MySQLConfig;
+  postgresConfig?: PostgresConfig;
+  mongoConfig?: MongoConfig;
+  // Import the schema of an existing database instead of creating a new one
+  importExisting?: boolean;
 }
 
 export interface ProjectsResponse {
@@ -47,3 +63,85 @@ export interface TestConnectionResponse {
   success: boolean;
   message: string;
 }
+
+// A DDL statement planned by the backend schema diff engine
+export interface MigrationStatement {
+  action: string;
+  table: string;
+  sql: string;
+  changes: string[];
+  destructive: boolean;
+  warnings: string[];
+}
+
+// A recorded schema sync, newest first in the history view
+export interface Migration {
+  id: string;
+  version: number;
+  upSql: string[];
+  downSql: string[];
+  changes: string[];
+  status: 'applied' | 'rolled_back';
+  author?: { name: string; email: string };
+  rolledBackAt?: string;
+  rolledBackBy?: { name: string; email: string };
+  createdAt: string;
+}
+
+// A difference between the stored schema and the live database
+export interface DriftItem {
+  kind: 'extra' | 'missing' | 'different';
+  object: 'table' | 'column' | 'primary_key' | 'unique' | 'index' | 'check' | 'foreign_key';
+  table: string;
+  name: string;
+  expected?: string;
+  actual?: string;
+  message: string;
+}
+
+export interface SchemaDrift {
+  hasDrift: boolean;
+  overwritesLiveChanges: boolean;
+  checkedAt: string;
+  items: DriftItem[];
+}
+
+// Per table and per foreign key outcome of the last schema sync
+export interface SyncError {
+  code?: string;
+  errno?: number;
+  message: string;
+  sql?: string;
+}
+
+export interface SyncReport {
+  status: 'success' | 'partial' | 'failed';
+  tables: Array<{
+    tableId?: string;
+    table: string;
+    status: 'ok' | 'failed' | 'skipped';
+    changes: string[];
+    error?: SyncError;
+  }>;
+  foreignKeys: Array<{
+    relationshipId?: string;
+    table: string;
+    description: string;
+    status: 'ok' | 'failed' | 'skipped';
+    error?: SyncError;
+  }>;
+  error?: SyncError;
+}
+
+export type ApiKeyScope = 'schema:read' | 'data:read' | 'data:write';
+
+// A project API key as listed by the backend; the secret is only returned on creation
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+  lastUsedAt?: string;
+  createdAt: string;
+}